@@ -6,6 +6,7 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "./components/AuthProvider";
 import { ProtectedRoute } from "./components/ProtectedRoute";
 import { DashboardLayout } from "./components/DashboardLayout";
+import { ReminderScheduler } from "./components/ReminderScheduler";
 import { useThemeManager } from "./hooks/use-theme-manager";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
@@ -27,6 +28,8 @@ import StudyRooms from "./pages/StudyRooms";
 import StudyRoom from "./pages/StudyRoom";
 import PomodoroTimer from "./pages/PomodoroTimer";
 import Whiteboard from "./pages/Whiteboard";
+import Trash from "./pages/Trash";
+import Review from "./pages/Review";
 
 const queryClient = new QueryClient();
 
@@ -45,6 +48,7 @@ const App = () => {
       <Sonner />
       <BrowserRouter>
         <AuthProvider>
+          <ReminderScheduler />
           <Routes>
             <Route path="/auth" element={<Auth />} />
             <Route
@@ -205,6 +209,26 @@ const App = () => {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/trash"
+              element={
+                <ProtectedRoute>
+                  <DashboardLayout>
+                    <Trash />
+                  </DashboardLayout>
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/review"
+              element={
+                <ProtectedRoute>
+                  <DashboardLayout>
+                    <Review />
+                  </DashboardLayout>
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/pomodoro"
               element={
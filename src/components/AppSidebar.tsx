@@ -1,6 +1,8 @@
-import { Home, FileText, CheckSquare, MessageCircle, Trophy, Inbox, LogOut, Users, Video, Clock, PenTool, Settings as SettingsIcon, UserCircle } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Home, FileText, CheckSquare, MessageCircle, Trophy, Inbox, LogOut, Users, Video, Clock, PenTool, Settings as SettingsIcon, UserCircle, Bookmark, Layers } from 'lucide-react';
 import { NavLink } from '@/components/NavLink';
-import { useLocation } from 'react-router-dom';
+import { Link, useLocation } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './AuthProvider';
 import {
   Sidebar,
@@ -11,6 +13,9 @@ import {
   SidebarMenu,
   SidebarMenuButton,
   SidebarMenuItem,
+  SidebarMenuSub,
+  SidebarMenuSubButton,
+  SidebarMenuSubItem,
   useSidebar,
 } from '@/components/ui/sidebar';
 import { Button } from './ui/button';
@@ -20,6 +25,7 @@ const items = [
   { title: 'Pomodoro Timer', url: '/pomodoro', icon: Clock },
   { title: 'Whiteboard', url: '/whiteboard', icon: PenTool },
   { title: 'Notes', url: '/notes', icon: FileText },
+  { title: 'Review', url: '/review', icon: Layers },
   { title: 'Tasks', url: '/tasks', icon: CheckSquare },
   { title: 'Chat', url: '/chat', icon: MessageCircle },
   { title: 'Direct Messages', url: '/dms', icon: MessageCircle },
@@ -37,8 +43,36 @@ const profileItems = [
 export function AppSidebar() {
   const { state } = useSidebar();
   const location = useLocation();
-  const { signOut } = useAuth();
+  const { user, signOut } = useAuth();
   const currentPath = location.pathname;
+  const [smartLists, setSmartLists] = useState<{ id: string; name: string }[]>([]);
+
+  // Saved task filters are listed under Tasks and kept in sync as they change
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const fetchSmartLists = async () => {
+      const { data } = await supabase
+        .from('task_smart_lists')
+        .select('id, name')
+        .eq('user_id', user.id)
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true });
+      setSmartLists(data || []);
+    };
+    fetchSmartLists();
+
+    const channel = supabase
+      .channel(`smart-lists-${user.id}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'task_smart_lists', filter: `user_id=eq.${user.id}` }, fetchSmartLists)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user?.id]);
+
+  const activeListId = currentPath === '/tasks' ? new URLSearchParams(location.search).get('list') : null;
 
   const isActive = (path: string) => currentPath === path;
   const collapsed = state === 'collapsed';
@@ -70,6 +104,20 @@ export function AppSidebar() {
                       {!collapsed && <span>{item.title}</span>}
                     </NavLink>
                   </SidebarMenuButton>
+                  {item.url === '/tasks' && smartLists.length > 0 && !collapsed && (
+                    <SidebarMenuSub>
+                      {smartLists.map((list) => (
+                        <SidebarMenuSubItem key={list.id}>
+                          <SidebarMenuSubButton asChild isActive={activeListId === list.id}>
+                            <Link to={`/tasks?list=${list.id}`}>
+                              <Bookmark className="h-3 w-3" />
+                              <span>{list.name}</span>
+                            </Link>
+                          </SidebarMenuSubButton>
+                        </SidebarMenuSubItem>
+                      ))}
+                    </SidebarMenuSub>
+                  )}
                 </SidebarMenuItem>
               ))}
             </SidebarMenu>
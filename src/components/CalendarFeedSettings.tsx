@@ -0,0 +1,197 @@
+import { useCallback, useEffect, useState } from 'react';
+import { CalendarPlus, Copy, Download, RefreshCw, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { buildICalendar } from '@/lib/ics';
+
+const getFeedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+
+export function CalendarFeedSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [token, setToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [rotating, setRotating] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+
+  const fetchFeed = useCallback(async () => {
+    if (!user) return;
+    const { data } = await supabase
+      .from('calendar_feeds')
+      .select('token')
+      .eq('user_id', user.id)
+      .maybeSingle();
+    setToken(data?.token ?? null);
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchFeed();
+  }, [fetchFeed]);
+
+  const rotateToken = async () => {
+    if (token && !confirm('Create a new feed URL? Calendars subscribed to the current URL will stop updating.')) return;
+
+    setRotating(true);
+    const { data, error } = await supabase.rpc('rotate_calendar_feed_token');
+    setRotating(false);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setToken(data);
+    toast({
+      title: token ? 'Feed URL rotated' : 'Feed URL created',
+      description: token ? 'The old URL no longer works' : 'Add it to your calendar app to subscribe',
+    });
+  };
+
+  const disableFeed = async () => {
+    if (!user || !confirm('Turn off the calendar feed? Subscribed calendars will stop updating.')) return;
+
+    const { error } = await supabase.from('calendar_feeds').delete().eq('user_id', user.id);
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setToken(null);
+    toast({ title: 'Calendar feed turned off' });
+  };
+
+  const copyFeedUrl = async () => {
+    if (!token) return;
+    await navigator.clipboard.writeText(getFeedUrl(token));
+    toast({ title: 'Copied!', description: 'Feed URL copied to clipboard' });
+  };
+
+  const downloadCalendar = async () => {
+    if (!user) return;
+    setDownloading(true);
+
+    const { data: tasks, error } = await supabase
+      .from('tasks')
+      .select('id, title, description, completed, due_date, subject, priority, created_at')
+      .eq('user_id', user.id)
+      .not('due_date', 'is', null)
+      .is('deleted_at', null);
+
+    const { data: participation } = await supabase
+      .from('room_participants')
+      .select('room_id')
+      .eq('user_id', user.id);
+    const roomIds = (participation || []).map(p => p.room_id);
+    const { data: rooms } = await supabase
+      .from('study_rooms')
+      .select('id, room_name, description, room_code, scheduled_start, scheduled_end, created_at')
+      .eq('is_active', true)
+      .not('scheduled_start', 'is', null)
+      .or(roomIds.length > 0 ? `created_by.eq.${user.id},id.in.(${roomIds.join(',')})` : `created_by.eq.${user.id}`);
+
+    setDownloading(false);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const ics = buildICalendar(tasks || [], rooms || [], { baseUrl: window.location.origin });
+    const blob = new Blob([ics], { type: 'text/calendar' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `studyspace_${new Date().toISOString().split('T')[0]}.ics`;
+    a.click();
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: 'Exported!',
+      description: `${tasks?.length ?? 0} task(s) and ${rooms?.length ?? 0} study room(s) exported`,
+    });
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Calendar Subscription</CardTitle>
+          <CardDescription>
+            Subscribe from Google Calendar, Apple Calendar or Outlook to see task due dates and scheduled study rooms.
+            Anyone with the URL can read your calendar, so keep it private.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : token ? (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="calendar-feed-url">Feed URL</Label>
+                <div className="flex gap-2">
+                  <Input id="calendar-feed-url" value={getFeedUrl(token)} readOnly onFocus={(e) => e.target.select()} />
+                  <Button variant="outline" size="icon" onClick={copyFeedUrl} aria-label="Copy feed URL">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" className="gap-2" asChild>
+                  <a href={getFeedUrl(token).replace(/^https?:/, 'webcal:')}>
+                    <CalendarPlus className="h-4 w-4" />
+                    Open in Calendar App
+                  </a>
+                </Button>
+                <Button variant="outline" className="gap-2" onClick={rotateToken} disabled={rotating}>
+                  <RefreshCw className={`h-4 w-4 ${rotating ? 'animate-spin' : ''}`} />
+                  Rotate URL
+                </Button>
+                <Button variant="ghost" className="gap-2 text-destructive" onClick={disableFeed}>
+                  <Trash2 className="h-4 w-4" />
+                  Turn Off
+                </Button>
+              </div>
+            </>
+          ) : (
+            <Button className="gap-2" onClick={rotateToken} disabled={rotating}>
+              <CalendarPlus className="h-4 w-4" />
+              Create Feed URL
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Export Calendar</CardTitle>
+          <CardDescription>Download a one-time .ics file to import into any calendar app</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button variant="outline" className="gap-2" onClick={downloadCalendar} disabled={downloading}>
+            <Download className="h-4 w-4" />
+            {downloading ? 'Exporting...' : 'Download .ics'}
+          </Button>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
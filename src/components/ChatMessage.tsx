@@ -1,7 +1,7 @@
-import { useState } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { Check, Copy, User, Sparkles } from 'lucide-react';
-import { Button } from '@/components/ui/button';
+import { User, Sparkles } from 'lucide-react';
+import { CodeBlock } from '@/components/CodeBlock';
+import { markdownRemarkPlugins, markdownRehypePlugins, getCodeLanguage } from '@/lib/markdown';
 
 interface ChatMessageProps {
   role: 'user' | 'assistant';
@@ -43,13 +43,14 @@ export function ChatMessage({ role, content, isLoading }: ChatMessageProps) {
           ) : (
             <div className="prose prose-sm dark:prose-invert max-w-none prose-p:leading-relaxed prose-pre:p-0 prose-pre:bg-transparent">
               <ReactMarkdown
+                remarkPlugins={markdownRemarkPlugins}
+                rehypePlugins={markdownRehypePlugins}
                 components={{
                   // Code blocks with syntax highlighting
                   code({ node, className, children, ...props }) {
-                    const match = /language-(\w+)/.exec(className || '');
-                    const language = match ? match[1] : '';
+                    const language = getCodeLanguage(className);
                     const codeString = String(children).replace(/\n$/, '');
-                    const isInline = !codeString.includes('\n') && !match;
+                    const isInline = !codeString.includes('\n') && !language;
 
                     if (!isInline) {
                       return (
@@ -153,49 +154,4 @@ export function ChatMessage({ role, content, isLoading }: ChatMessageProps) {
   );
 }
 
-// Code block component with copy button
-function CodeBlock({ language, code }: { language: string; code: string }) {
-  const [copied, setCopied] = useState(false);
-
-  const handleCopy = async () => {
-    await navigator.clipboard.writeText(code);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
-  };
-
-  return (
-    <div className="relative group my-3 rounded-lg overflow-hidden border border-border">
-      {/* Header */}
-      <div className="flex items-center justify-between px-4 py-2 bg-secondary/80 border-b border-border">
-        <span className="text-xs text-muted-foreground font-mono">
-          {language || 'code'}
-        </span>
-        <Button
-          variant="ghost"
-          size="sm"
-          className="h-7 px-2 text-xs gap-1 opacity-0 group-hover:opacity-100 transition-opacity"
-          onClick={handleCopy}
-        >
-          {copied ? (
-            <>
-              <Check className="w-3 h-3" />
-              Copied!
-            </>
-          ) : (
-            <>
-              <Copy className="w-3 h-3" />
-              Copy
-            </>
-          )}
-        </Button>
-      </div>
-      
-      {/* Code */}
-      <pre className="bg-slate-900 text-slate-100 p-4 overflow-x-auto text-sm leading-relaxed">
-        <code className="font-mono">{code}</code>
-      </pre>
-    </div>
-  );
-}
-
 export default ChatMessage;
@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { Check, Copy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface CodeBlockProps {
+  language: string;
+  code: string;
+}
+
+// Syntax-highlighted code block with copy button, shared by chat and notes
+export function CodeBlock({ language, code }: CodeBlockProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="relative group my-3 rounded-lg overflow-hidden border border-border">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-2 bg-secondary/80 border-b border-border">
+        <span className="text-xs text-muted-foreground font-mono">
+          {language || 'code'}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs gap-1 opacity-0 group-hover:opacity-100 transition-opacity"
+          onClick={handleCopy}
+        >
+          {copied ? (
+            <>
+              <Check className="w-3 h-3" />
+              Copied!
+            </>
+          ) : (
+            <>
+              <Copy className="w-3 h-3" />
+              Copy
+            </>
+          )}
+        </Button>
+      </div>
+
+      {/* Code */}
+      <SyntaxHighlighter
+        language={language || 'text'}
+        style={oneDark}
+        customStyle={{ margin: 0, borderRadius: 0, fontSize: '0.875rem' }}
+        codeTagProps={{ className: 'font-mono' }}
+      >
+        {code}
+      </SyntaxHighlighter>
+    </div>
+  );
+}
+
+export default CodeBlock;
@@ -0,0 +1,18 @@
+import { splitHighlights } from '@/lib/note-search';
+
+// Search result text with the server's matches marked, rendered as plain text
+export function HighlightedText({ text, className = '' }: { text: string; className?: string }) {
+  return (
+    <span className={className}>
+      {splitHighlights(text).map((segment, i) =>
+        segment.highlighted ? (
+          <mark key={i} className="rounded bg-accent/40 px-0.5 text-white">{segment.text}</mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </span>
+  );
+}
+
+export default HighlightedText;
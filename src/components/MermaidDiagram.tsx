@@ -0,0 +1,58 @@
+import { useEffect, useId, useState } from 'react';
+import { CodeBlock } from '@/components/CodeBlock';
+import { loadMermaid } from '@/lib/markdown';
+
+interface MermaidDiagramProps {
+  code: string;
+}
+
+// Renders a fenced `mermaid` block as an SVG diagram, falling back to the source
+export function MermaidDiagram({ code }: MermaidDiagramProps) {
+  const id = `mermaid-${useId().replace(/:/g, '')}`;
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadMermaid()
+      .then(mermaid => mermaid.render(id, code))
+      .then(({ svg }) => {
+        if (!cancelled) {
+          setSvg(svg);
+          setError(null);
+        }
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) {
+          setSvg(null);
+          setError(err instanceof Error ? err.message : 'Invalid diagram');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id, code]);
+
+  if (error) {
+    return (
+      <div>
+        <p className="text-xs text-destructive mt-2">Diagram error: {error}</p>
+        <CodeBlock language="mermaid" code={code} />
+      </div>
+    );
+  }
+
+  if (!svg) {
+    return <div className="my-3 h-24 rounded-lg bg-secondary/30 animate-pulse" aria-label="Rendering diagram" />;
+  }
+
+  return (
+    <div
+      className="my-3 flex justify-center overflow-x-auto rounded-lg bg-secondary/20 p-3"
+      // Generated by Mermaid in strict security mode, not taken from the note
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  );
+}
+
+export default MermaidDiagram;
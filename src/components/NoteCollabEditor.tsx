@@ -0,0 +1,308 @@
+import { ReactNode, useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { CloudOff, Loader2, LogOut, UserPlus, Wifi, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { useNoteCollab } from '@/hooks/use-note-collab';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { NoteCollabCaret } from '@/lib/note-collab';
+
+interface NoteCollabEditorProps {
+  noteId: string;
+  ownerId: string;
+  /** Called when the local user stops collaborating on the note */
+  onLeft?: () => void;
+}
+
+interface Person {
+  id: string;
+  username: string;
+}
+
+// Text layout shared by the textarea and the cursor overlay drawn over it
+const EDITOR_TEXT = 'font-mono text-sm leading-6 px-3 py-2 whitespace-pre-wrap break-words';
+
+// Other people's selections and carets, laid out like the textarea's text
+function CaretOverlay({ text, carets, textarea }: { text: string; carets: NoteCollabCaret[]; textarea: HTMLTextAreaElement | null }) {
+  const [box, setBox] = useState({ top: 0, left: 0, width: 0, height: 0, scrollTop: 0 });
+
+  useLayoutEffect(() => {
+    if (!textarea) return;
+    const measure = () => setBox({
+      top: textarea.clientTop,
+      left: textarea.clientLeft,
+      width: textarea.clientWidth,
+      height: textarea.clientHeight,
+      scrollTop: textarea.scrollTop,
+    });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(textarea);
+    textarea.addEventListener('scroll', measure);
+    return () => {
+      observer.disconnect();
+      textarea.removeEventListener('scroll', measure);
+    };
+  }, [textarea, text]);
+
+  if (carets.length === 0) return null;
+
+  const boundaries = Array.from(new Set([0, text.length, ...carets.flatMap(c => [c.from, c.to, c.head])])).sort((a, b) => a - b);
+  const parts: ReactNode[] = [];
+  boundaries.forEach((position, i) => {
+    carets
+      .filter(c => c.head === position)
+      .forEach(c => parts.push(
+        <span key={`caret-${c.userId}`} className="relative">
+          <span className="absolute top-0 -ml-px h-6 w-0.5" style={{ backgroundColor: c.color }} />
+          <span
+            className="absolute -top-4 left-0 whitespace-nowrap rounded px-1 font-sans text-[10px] leading-4 text-white"
+            style={{ backgroundColor: c.color }}
+          >
+            {c.username}
+          </span>
+        </span>
+      ));
+    const next = boundaries[i + 1];
+    if (next === undefined) return;
+    const selecting = carets.find(c => c.from <= position && c.to >= next && c.from < c.to);
+    parts.push(
+      <span key={`text-${position}`} style={selecting ? { backgroundColor: `${selecting.color}40` } : undefined}>
+        {text.slice(position, next)}
+      </span>
+    );
+  });
+
+  return (
+    <div
+      aria-hidden
+      className="pointer-events-none absolute overflow-hidden"
+      style={{ top: box.top, left: box.left, width: box.width, height: box.height }}
+    >
+      <div className={`${EDITOR_TEXT} text-transparent`} style={{ transform: `translateY(-${box.scrollTop}px)` }}>
+        {parts}
+        {/* keeps a trailing newline's empty line */}
+        {'\u200b'}
+      </div>
+    </div>
+  );
+}
+
+// Who can edit the note: the owner adds friends, collaborators can leave
+function NoteCollaborators({ noteId, ownerId, onLeft }: NoteCollabEditorProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [collaborators, setCollaborators] = useState<Person[]>([]);
+  const [friends, setFriends] = useState<Person[]>([]);
+  const [friendId, setFriendId] = useState('');
+  const isOwner = user?.id === ownerId;
+
+  const fetchCollaborators = useCallback(async () => {
+    const { data } = await supabase
+      .from('note_collaborators')
+      .select('user_id, profiles (username)')
+      .eq('note_id', noteId);
+    setCollaborators((data || [])
+      .map(c => ({ id: c.user_id, username: c.profiles?.username ?? 'Unknown' }))
+      .sort((a, b) => a.username.localeCompare(b.username)));
+  }, [noteId]);
+
+  // Only accepted friends can be added
+  const fetchFriends = useCallback(async () => {
+    if (!user || !isOwner) return;
+    const { data } = await supabase
+      .from('friendships')
+      .select('user_id, friend_id')
+      .eq('status', 'accepted')
+      .or(`user_id.eq.${user.id},friend_id.eq.${user.id}`);
+    const ids = (data || []).map(f => (f.user_id === user.id ? f.friend_id : f.user_id));
+    if (ids.length === 0) {
+      setFriends([]);
+      return;
+    }
+    const { data: profiles } = await supabase.from('profiles').select('id, username').in('id', ids);
+    setFriends((profiles || []).sort((a, b) => a.username.localeCompare(b.username)));
+  }, [user, isOwner]);
+
+  useEffect(() => {
+    fetchCollaborators();
+    fetchFriends();
+  }, [fetchCollaborators, fetchFriends]);
+
+  const handleAdd = async () => {
+    if (!friendId) return;
+    const { error } = await supabase.from('note_collaborators').insert({ note_id: noteId, user_id: friendId });
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to add collaborator',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setFriendId('');
+    fetchCollaborators();
+  };
+
+  const handleRemove = async (person: Person) => {
+    const leaving = person.id === user?.id;
+    if (!confirm(leaving ? 'Stop editing this note? You will lose access if it is private.' : `Remove ${person.username} from this note?`)) return;
+    const { error } = await supabase
+      .from('note_collaborators')
+      .delete()
+      .eq('note_id', noteId)
+      .eq('user_id', person.id);
+    if (error) {
+      toast({
+        title: 'Error',
+        description: leaving ? 'Failed to leave note' : 'Failed to remove collaborator',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (leaving) {
+      onLeft?.();
+      return;
+    }
+    fetchCollaborators();
+  };
+
+  const addable = friends.filter(f => !collaborators.some(c => c.id === f.id));
+
+  return (
+    <div className="space-y-2 p-4 bg-secondary/20 rounded-lg border border-border">
+      <h4 className="font-semibold text-sm">Collaborators</h4>
+      {collaborators.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          {isOwner ? 'Add friends to write this note together.' : 'No collaborators.'}
+        </p>
+      )}
+      {collaborators.map(person => (
+        <div key={person.id} className="flex items-center justify-between gap-2 text-sm">
+          <span>{person.username}{person.id === user?.id && ' (you)'}</span>
+          {isOwner ? (
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              onClick={() => handleRemove(person)}
+              aria-label={`Remove ${person.username}`}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          ) : person.id === user?.id && (
+            <Button size="sm" variant="outline" className="h-7 gap-2" onClick={() => handleRemove(person)}>
+              <LogOut className="h-3 w-3" />
+              Leave
+            </Button>
+          )}
+        </div>
+      ))}
+      {isOwner && addable.length > 0 && (
+        <div className="flex gap-2">
+          <Select value={friendId} onValueChange={setFriendId}>
+            <SelectTrigger className="h-8 flex-1">
+              <SelectValue placeholder="Add a friend" />
+            </SelectTrigger>
+            <SelectContent>
+              {addable.map(friend => (
+                <SelectItem key={friend.id} value={friend.id}>{friend.username}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" className="h-8 gap-2" onClick={handleAdd} disabled={!friendId}>
+            <UserPlus className="h-4 w-4" />
+            Add
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Live editor for a note shared with collaborators
+export function NoteCollabEditor({ noteId, ownerId, onLeft }: NoteCollabEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const { text, status, unsaved, participants, carets, updateText, updateCursor } = useNoteCollab(noteId, textareaRef);
+  const ready = status === 'connecting' || status === 'connected' || status === 'offline';
+
+  const shareSelection = () => {
+    const el = textareaRef.current;
+    if (!el) return;
+    const backward = el.selectionDirection === 'backward';
+    updateCursor(backward ? el.selectionEnd : el.selectionStart, backward ? el.selectionStart : el.selectionEnd);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex -space-x-2">
+          {participants.map(p => (
+            <Avatar key={p.user_id} className="h-8 w-8 border-2" style={{ borderColor: p.color }} title={p.username}>
+              {p.avatar_url && <AvatarImage src={p.avatar_url} alt={p.username} />}
+              <AvatarFallback className="text-xs font-medium text-white" style={{ backgroundColor: p.color }}>
+                {p.username.slice(0, 2).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          {status === 'connected' && (
+            <Badge variant="outline" className="gap-1">
+              <Wifi className="h-3 w-3" />
+              Live
+            </Badge>
+          )}
+          {status === 'offline' && (
+            <Badge variant="outline" className="gap-1 text-amber-500 border-amber-500/50">
+              <CloudOff className="h-3 w-3" />
+              Offline, changes will sync when you reconnect
+            </Badge>
+          )}
+          {(status === 'loading' || status === 'connecting') && (
+            <Badge variant="outline" className="gap-1">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Connecting
+            </Badge>
+          )}
+          {ready && <span>{unsaved ? 'Saving...' : 'All changes saved'}</span>}
+        </div>
+      </div>
+
+      {status === 'error' ? (
+        <p className="text-sm text-destructive">This note could not be opened for editing together.</p>
+      ) : (
+        <div className="relative">
+          <Textarea
+            ref={textareaRef}
+            value={text}
+            onChange={(e) => {
+              updateText(e.target.value);
+              shareSelection();
+            }}
+            onSelect={shareSelection}
+            readOnly={!ready}
+            placeholder={ready ? 'Start writing...' : 'Loading note...'}
+            aria-label="Note content"
+            className={`${EDITOR_TEXT} min-h-[50vh] resize-y`}
+          />
+          <CaretOverlay text={text} carets={carets} textarea={textareaRef.current} />
+        </div>
+      )}
+
+      <NoteCollaborators noteId={noteId} ownerId={ownerId} onLeft={onLeft} />
+    </div>
+  );
+}
+
+export default NoteCollabEditor;
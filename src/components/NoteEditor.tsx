@@ -0,0 +1,126 @@
+import { useRef, useState, type KeyboardEvent, type ReactNode, type RefObject } from 'react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { NoteMarkdown } from '@/components/NoteMarkdown';
+import { completeWikiLink, findWikiLinkQuery, suggestNoteTitles } from '@/lib/note-links';
+
+interface NoteEditorProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  rows?: number;
+  className?: string;
+  required?: boolean;
+  textareaRef?: RefObject<HTMLTextAreaElement>;
+  /** Formatting buttons shown above the textarea on the Write tab */
+  toolbar?: ReactNode;
+  /** Note titles offered while typing a `[[` link */
+  linkTitles?: string[];
+}
+
+// Markdown textarea with a rendered preview tab (math and diagrams included)
+export function NoteEditor({ id, value, onChange, placeholder, rows, className, required, textareaRef, toolbar, linkTitles = [] }: NoteEditorProps) {
+  const localRef = useRef<HTMLTextAreaElement>(null);
+  const ref = textareaRef ?? localRef;
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const updateSuggestions = (text: string, caret: number) => {
+    const found = findWikiLinkQuery(text, caret);
+    setSuggestions(found ? suggestNoteTitles(linkTitles, found.query) : []);
+    setActiveIndex(0);
+  };
+
+  const applySuggestion = (title: string) => {
+    const textarea = ref.current;
+    if (!textarea) return;
+    const completed = completeWikiLink(value, textarea.selectionStart, title);
+    onChange(completed.text);
+    setSuggestions([]);
+    // Move the caret after the link once React has applied the new value
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(completed.caret, completed.caret);
+    });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((activeIndex + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      applySuggestion(suggestions[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setSuggestions([]);
+    }
+  };
+
+  return (
+    <Tabs defaultValue="write" className="w-full">
+      <TabsList className="grid grid-cols-2 w-full md:w-[220px] mb-2">
+        <TabsTrigger value="write">Write</TabsTrigger>
+        <TabsTrigger value="preview">Preview</TabsTrigger>
+      </TabsList>
+      <TabsContent value="write" className="mt-0">
+        {toolbar}
+        <div className="relative">
+          <Textarea
+            ref={ref}
+            id={id}
+            value={value}
+            onChange={(e) => {
+              onChange(e.target.value);
+              updateSuggestions(e.target.value, e.target.selectionStart);
+            }}
+            onKeyDown={handleKeyDown}
+            onClick={(e) => updateSuggestions(value, e.currentTarget.selectionStart)}
+            onBlur={() => setSuggestions([])}
+            rows={rows}
+            required={required}
+            placeholder={placeholder}
+            className={className}
+            aria-autocomplete="list"
+          />
+          {suggestions.length > 0 && (
+            <ul
+              role="listbox"
+              aria-label="Link to note"
+              className="absolute left-2 right-2 bottom-2 z-50 max-h-48 overflow-y-auto rounded-md border border-border bg-popover p-1 text-sm shadow-md"
+            >
+              {suggestions.map((title, index) => (
+                <li
+                  key={title}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  // mousedown keeps the textarea focused so the caret position is kept
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    applySuggestion(title);
+                  }}
+                  className={`cursor-pointer truncate rounded px-2 py-1 ${index === activeIndex ? 'bg-accent text-accent-foreground' : 'hover:bg-secondary'}`}
+                >
+                  {title}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </TabsContent>
+      <TabsContent value="preview" className="mt-0">
+        <div className="min-h-[150px] max-h-[50vh] overflow-y-auto rounded-md border border-input bg-slate-900/60 p-3">
+          {value.trim() ? (
+            <NoteMarkdown content={value} />
+          ) : (
+            <p className="text-sm text-muted-foreground">Nothing to preview yet.</p>
+          )}
+        </div>
+      </TabsContent>
+    </Tabs>
+  );
+}
+
+export default NoteEditor;
@@ -0,0 +1,175 @@
+import ReactMarkdown, { type Components } from 'react-markdown';
+import { format } from 'date-fns';
+import { formatFileSize } from '@/lib/file-upload';
+import {
+  closeOpenMarkdownBlocks,
+  exportRehypePlugins,
+  getCodeLanguage,
+  markdownRehypePlugins,
+  MERMAID_LANGUAGE,
+  noteRemarkPlugins,
+} from '@/lib/markdown';
+import { getWikiLinkTitle, normalizeNoteTitle } from '@/lib/note-links';
+import type { ExportAttachment, ExportNote } from '@/lib/note-export';
+
+// Print-friendly styling, inlined so the document needs nothing else
+const EXPORT_STYLES = `
+  body { font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; color: #1f2937; line-height: 1.6; max-width: 820px; margin: 0 auto; padding: 2rem 1.5rem; }
+  header { border-bottom: 2px solid #e5e7eb; margin-bottom: 2rem; }
+  article + article { margin-top: 3rem; padding-top: 2rem; border-top: 1px solid #e5e7eb; }
+  .meta { color: #6b7280; font-size: 0.875rem; margin-top: -0.5rem; }
+  pre { background: #f3f4f6; padding: 0.75rem 1rem; border-radius: 6px; overflow-x: auto; white-space: pre-wrap; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.875em; }
+  :not(pre) > code { background: #f3f4f6; padding: 0.1rem 0.3rem; border-radius: 4px; }
+  blockquote { border-left: 4px solid #d1d5db; margin-left: 0; padding-left: 1rem; color: #4b5563; }
+  table { border-collapse: collapse; margin: 1rem 0; }
+  th, td { border: 1px solid #d1d5db; padding: 0.4rem 0.75rem; text-align: left; }
+  img, svg { max-width: 100%; height: auto; }
+  .diagram { display: flex; justify-content: center; margin: 1rem 0; }
+  .attachments { margin-top: 1.5rem; font-size: 0.875rem; }
+  a { color: #2563eb; }
+  ul.contains-task-list { list-style: none; padding-left: 1rem; }
+  @media print {
+    body { max-width: none; padding: 0; }
+    article + article { break-before: page; border-top: 0; padding-top: 0; margin-top: 0; }
+    pre, blockquote, table, img, .diagram { break-inside: avoid; }
+  }
+`;
+
+/** What the export needs beyond the notes themselves */
+export interface DocumentParts {
+  /** Rendered SVG of each Mermaid diagram by its source */
+  diagrams: Map<string, string>;
+  /** Data URL to use in place of each image URL */
+  images: Map<string, string>;
+}
+
+const noteAnchor = (index: number) => `note-${index + 1}`;
+
+function ExportedNotes({ notes, attachments, parts, links }: {
+  notes: ExportNote[];
+  attachments: ExportAttachment[];
+  parts: DocumentParts;
+  links: Map<string, string>;
+}) {
+  const anchors = new Map(notes.map((note, i) => [normalizeNoteTitle(note.title), noteAnchor(i)]));
+
+  const components: Components = {
+    code({ className, children }) {
+      const language = getCodeLanguage(className);
+      const code = String(children).replace(/\n$/, '');
+      if (language === MERMAID_LANGUAGE) {
+        const svg = parts.diagrams.get(code);
+        // Generated by Mermaid in strict security mode, not taken from the note
+        if (svg) return <div className="diagram" dangerouslySetInnerHTML={{ __html: svg }} />;
+      }
+      if (language || code.includes('\n')) {
+        return <pre><code className={className}>{code}</code></pre>;
+      }
+      return <code>{children}</code>;
+    },
+    pre: ({ children }) => <>{children}</>,
+    a: ({ href, children, id }) => {
+      const title = getWikiLinkTitle(href);
+      if (title === null) return <a href={href} id={id}>{children}</a>;
+      const anchor = anchors.get(normalizeNoteTitle(title));
+      // Links to notes outside the export have nowhere to go
+      return anchor ? <a href={`#${anchor}`}>{children}</a> : <span>{children}</span>;
+    },
+    img: ({ src, alt }) => <img src={(src && parts.images.get(src)) ?? src} alt={alt ?? ''} />,
+  };
+
+  return (
+    <>
+      {notes.map((note, i) => {
+        const files = attachments.filter(a => a.note_id === note.id);
+        const meta = [
+          note.subject,
+          `By ${note.profiles.username}`,
+          format(new Date(note.created_at), 'PPP'),
+          note.is_public ? 'Public' : 'Private',
+        ].filter((part): part is string => Boolean(part));
+        return (
+          <article key={note.id} id={noteAnchor(i)}>
+            <h1>{note.title}</h1>
+            <p className="meta">{meta.join(' · ')}</p>
+            <ReactMarkdown remarkPlugins={noteRemarkPlugins} rehypePlugins={exportRehypePlugins} components={components}>
+              {closeOpenMarkdownBlocks(note.content)}
+            </ReactMarkdown>
+            {files.length > 0 && (
+              <section className="attachments">
+                <h2>Attachments</h2>
+                <ul>
+                  {files.map(file => (
+                    <li key={file.id}>
+                      <a href={links.get(file.id)} download={file.file_name}>{file.file_name}</a> ({formatFileSize(file.file_size)})
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </article>
+        );
+      })}
+    </>
+  );
+}
+
+/**
+ * Renders nothing, but reports the Mermaid diagrams and images `content`
+ * uses, so they can be prepared before the document is rendered
+ */
+export function NoteAssetScanner({ content, onDiagram, onImage }: {
+  content: string;
+  onDiagram: (code: string) => void;
+  onImage: (src: string) => void;
+}) {
+  return (
+    <ReactMarkdown
+      remarkPlugins={noteRemarkPlugins}
+      rehypePlugins={markdownRehypePlugins}
+      components={{
+        code({ className, children }) {
+          if (getCodeLanguage(className) === MERMAID_LANGUAGE) onDiagram(String(children).replace(/\n$/, ''));
+          return null;
+        },
+        img({ src }) {
+          if (src) onImage(src);
+          return null;
+        },
+      }}
+    >
+      {content}
+    </ReactMarkdown>
+  );
+}
+
+/** A standalone HTML page of the notes, styled for reading and printing */
+export function NotesDocument({ notes, attachments, parts, links }: {
+  notes: ExportNote[];
+  attachments: ExportAttachment[];
+  parts: DocumentParts;
+  /** Where each attachment links to, by attachment id */
+  links: Map<string, string>;
+}) {
+  const title = notes.length === 1 ? notes[0].title : 'Study Notes';
+  return (
+    <html lang="en">
+      <head>
+        <meta charSet="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <title>{title}</title>
+        <style dangerouslySetInnerHTML={{ __html: EXPORT_STYLES }} />
+      </head>
+      <body>
+        {notes.length > 1 && (
+          <header>
+            <h1>{title}</h1>
+            <p className="meta">Exported on {format(new Date(), 'PPP')} · {notes.length} notes</p>
+          </header>
+        )}
+        <ExportedNotes notes={notes} attachments={attachments} parts={parts} links={links} />
+      </body>
+    </html>
+  );
+}
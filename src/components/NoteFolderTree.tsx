@@ -0,0 +1,342 @@
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Folder, FolderOpen, Globe, Inbox, Library, Lock, MoreHorizontal, Plus } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  buildFolderTree,
+  canMoveFolder,
+  FOLDER_VISIBILITY_LABELS,
+  FolderVisibility,
+  NoteFolder,
+  NoteFolderNode,
+} from '@/lib/note-folders';
+
+/** Drag data types; notes set NOTE_DRAG_TYPE from their cards */
+export const NOTE_DRAG_TYPE = 'application/x-studyspace-note';
+const FOLDER_DRAG_TYPE = 'application/x-studyspace-folder';
+
+/** 'all' notes, 'unfiled' notes or a folder id */
+export type FolderSelection = 'all' | 'unfiled' | string;
+
+interface NoteFolderTreeProps {
+  folders: NoteFolder[];
+  /** The signed-in user's notes, used for the counts */
+  notes: { folder_id?: string | null }[];
+  selected: FolderSelection;
+  onSelect: (selection: FolderSelection) => void;
+  onMoveNote: (noteId: string, folderId: string | null) => void;
+  onChanged: () => void;
+}
+
+/**
+ * Sidebar tree of the user's notebooks and folders with note counts.
+ * Notes and folders can be dragged onto a folder, or onto "Unfiled" to
+ * take them out of every folder.
+ */
+export function NoteFolderTree({ folders, notes, selected, onSelect, onMoveNote, onChanged }: NoteFolderTreeProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  // parent id (or 'root') of the folder being created, and the folder being renamed
+  const [creatingIn, setCreatingIn] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const tree = useMemo(() => buildFolderTree(folders, notes), [folders, notes]);
+  const unfiledCount = notes.filter(n => !n.folder_id).length;
+
+  const reportError = (description: string) =>
+    toast({
+      title: 'Error',
+      description,
+      variant: 'destructive',
+    });
+
+  const createFolder = async (parentId: string | null) => {
+    const name = draftName.trim();
+    setCreatingIn(null);
+    setDraftName('');
+    if (!user || !name) return;
+    const { error } = await supabase.from('note_folders').insert({ user_id: user.id, parent_id: parentId, name });
+    if (error) reportError('Failed to create folder');
+    else onChanged();
+  };
+
+  const renameFolder = async (folderId: string) => {
+    const name = draftName.trim();
+    setRenamingId(null);
+    setDraftName('');
+    if (!name) return;
+    const { error } = await supabase.from('note_folders').update({ name }).eq('id', folderId);
+    if (error) reportError('Failed to rename folder');
+    else onChanged();
+  };
+
+  const setVisibility = async (folderId: string, visibility: FolderVisibility) => {
+    const { error } = await supabase.from('note_folders').update({ default_visibility: visibility }).eq('id', folderId);
+    if (error) reportError('Failed to change folder visibility');
+    else onChanged();
+  };
+
+  const deleteFolder = async (folder: NoteFolderNode) => {
+    const message = folder.children.length > 0
+      ? `Delete "${folder.name}" and its subfolders? Their notes are kept and become unfiled.`
+      : `Delete "${folder.name}"? Its notes are kept and become unfiled.`;
+    if (!confirm(message)) return;
+    const { error } = await supabase.from('note_folders').delete().eq('id', folder.id);
+    if (error) {
+      reportError('Failed to delete folder');
+      return;
+    }
+    if (selected === folder.id) onSelect('all');
+    onChanged();
+  };
+
+  const moveFolder = async (folderId: string, parentId: string | null) => {
+    if (!canMoveFolder(folders, folderId, parentId)) {
+      reportError('A folder cannot be moved into itself');
+      return;
+    }
+    const { error } = await supabase.from('note_folders').update({ parent_id: parentId }).eq('id', folderId);
+    if (error) reportError('Failed to move folder');
+    else onChanged();
+  };
+
+  const dropHandlers = (targetKey: string, folderId: string | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(NOTE_DRAG_TYPE) && !e.dataTransfer.types.includes(FOLDER_DRAG_TYPE)) return;
+      e.preventDefault();
+      setDropTarget(targetKey);
+    },
+    onDragLeave: () => setDropTarget(current => (current === targetKey ? null : current)),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      const noteId = e.dataTransfer.getData(NOTE_DRAG_TYPE);
+      const draggedFolderId = e.dataTransfer.getData(FOLDER_DRAG_TYPE);
+      if (noteId) onMoveNote(noteId, folderId);
+      else if (draggedFolderId && draggedFolderId !== folderId) moveFolder(draggedFolderId, folderId);
+    },
+  });
+
+  const nameInput = (onSubmit: () => void, onCancel: () => void) => (
+    <Input
+      autoFocus
+      value={draftName}
+      onChange={(e) => setDraftName(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') onSubmit();
+        if (e.key === 'Escape') onCancel();
+      }}
+      onBlur={onCancel}
+      placeholder="Folder name"
+      className="h-7 text-xs"
+    />
+  );
+
+  const itemClass = (key: string, active: boolean) =>
+    `flex w-full items-center gap-1 rounded px-2 py-1 text-left text-sm transition-colors ${
+      dropTarget === key ? 'bg-accent/30 ring-1 ring-accent' : active ? 'bg-accent/20 text-accent' : 'hover:bg-secondary/50'
+    }`;
+
+  const renderFolder = (folder: NoteFolderNode) => {
+    const isOpen = !collapsed.has(folder.id);
+    const visibility = folder.default_visibility as FolderVisibility;
+    return (
+      <li key={folder.id}>
+        {renamingId === folder.id ? (
+          <div style={{ paddingLeft: folder.depth * 12 }}>
+            {nameInput(() => renameFolder(folder.id), () => setRenamingId(null))}
+          </div>
+        ) : (
+          <div
+            className={`group ${itemClass(folder.id, selected === folder.id)}`}
+            style={{ paddingLeft: 8 + folder.depth * 12 }}
+            draggable
+            onDragStart={(e) => e.dataTransfer.setData(FOLDER_DRAG_TYPE, folder.id)}
+            {...dropHandlers(folder.id, folder.id)}
+          >
+            <button
+              type="button"
+              className="h-4 w-4 flex-shrink-0 text-muted-foreground"
+              onClick={() => setCollapsed(prev => {
+                const next = new Set(prev);
+                if (next.has(folder.id)) next.delete(folder.id);
+                else next.add(folder.id);
+                return next;
+              })}
+              aria-label={isOpen ? 'Collapse folder' : 'Expand folder'}
+              style={{ visibility: folder.children.length > 0 ? 'visible' : 'hidden' }}
+            >
+              {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            </button>
+            <button type="button" className="flex min-w-0 flex-1 items-center gap-1" onClick={() => onSelect(folder.id)}>
+              {folder.depth === 0
+                ? <Library className="h-4 w-4 flex-shrink-0" />
+                : selected === folder.id ? <FolderOpen className="h-4 w-4 flex-shrink-0" /> : <Folder className="h-4 w-4 flex-shrink-0" />}
+              <span className="truncate">{folder.name}</span>
+              {visibility === 'public' && <Globe className="h-3 w-3 flex-shrink-0 text-muted-foreground" aria-label="Always public" />}
+              {visibility === 'private' && <Lock className="h-3 w-3 flex-shrink-0 text-muted-foreground" aria-label="Always private" />}
+            </button>
+            <span className="text-xs text-muted-foreground">{folder.noteCount}</span>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button size="icon" variant="ghost" className="h-6 w-6 opacity-0 group-hover:opacity-100" aria-label="Folder actions">
+                  <MoreHorizontal className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              {/* Keep focus on the name input opened from the menu */}
+              <DropdownMenuContent align="end" onCloseAutoFocus={(e) => e.preventDefault()}>
+                <DropdownMenuItem onClick={() => {
+                  setCreatingIn(folder.id);
+                  setDraftName('');
+                  setCollapsed(prev => {
+                    const next = new Set(prev);
+                    next.delete(folder.id);
+                    return next;
+                  });
+                }}>
+                  New subfolder
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => {
+                  setRenamingId(folder.id);
+                  setDraftName(folder.name);
+                }}>
+                  Rename
+                </DropdownMenuItem>
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>Note visibility</DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent>
+                    <DropdownMenuRadioGroup value={visibility} onValueChange={(v) => setVisibility(folder.id, v as FolderVisibility)}>
+                      {(Object.keys(FOLDER_VISIBILITY_LABELS) as FolderVisibility[]).map(v => (
+                        <DropdownMenuRadioItem key={v} value={v}>{FOLDER_VISIBILITY_LABELS[v]}</DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+                {folder.parent_id && (
+                  <DropdownMenuItem onClick={() => moveFolder(folder.id, null)}>Make notebook</DropdownMenuItem>
+                )}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem className="text-destructive" onClick={() => deleteFolder(folder)}>
+                  Delete
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        )}
+        {isOpen && (folder.children.length > 0 || creatingIn === folder.id) && (
+          <ul>
+            {folder.children.map(renderFolder)}
+            {creatingIn === folder.id && (
+              <li style={{ paddingLeft: (folder.depth + 1) * 12 }}>
+                {nameInput(() => createFolder(folder.id), () => setCreatingIn(null))}
+              </li>
+            )}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <nav className="space-y-1" aria-label="Notebooks">
+      <div className="flex items-center justify-between px-2">
+        <span className="text-xs font-medium uppercase text-muted-foreground">Notebooks</span>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-6 w-6"
+          onClick={() => {
+            setCreatingIn('root');
+            setDraftName('');
+          }}
+          aria-label="New notebook"
+          title="New notebook"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+      <button type="button" className={itemClass('all', selected === 'all')} onClick={() => onSelect('all')}>
+        <Library className="h-4 w-4" />
+        <span className="flex-1">All notes</span>
+      </button>
+      <button
+        type="button"
+        className={itemClass('unfiled', selected === 'unfiled')}
+        onClick={() => onSelect('unfiled')}
+        {...dropHandlers('unfiled', null)}
+      >
+        <Inbox className="h-4 w-4" />
+        <span className="flex-1">Unfiled</span>
+        <span className="text-xs text-muted-foreground">{unfiledCount}</span>
+      </button>
+      <ul className="max-h-[60vh] overflow-y-auto">
+        {tree.map(renderFolder)}
+        {creatingIn === 'root' && (
+          <li>{nameInput(() => createFolder(null), () => setCreatingIn(null))}</li>
+        )}
+      </ul>
+      {tree.length === 0 && creatingIn !== 'root' && (
+        <p className="px-2 text-xs text-muted-foreground">Create a notebook, then drag notes onto it.</p>
+      )}
+    </nav>
+  );
+}
+
+interface NoteFolderSelectProps {
+  folders: NoteFolder[];
+  value: string | null;
+  onChange: (folderId: string | null) => void;
+}
+
+const NO_FOLDER = 'none';
+
+/** Folder picker for the note dialogs, indented by depth */
+export function NoteFolderSelect({ folders, value, onChange }: NoteFolderSelectProps) {
+  const options = useMemo(() => {
+    const flat: NoteFolderNode[] = [];
+    const walk = (nodes: NoteFolderNode[]) => nodes.forEach(node => {
+      flat.push(node);
+      walk(node.children);
+    });
+    walk(buildFolderTree(folders, []));
+    return flat;
+  }, [folders]);
+
+  return (
+    <Select value={value ?? NO_FOLDER} onValueChange={(v) => onChange(v === NO_FOLDER ? null : v)}>
+      <SelectTrigger>
+        <Folder className="h-4 w-4 mr-2" />
+        <SelectValue placeholder="Folder" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_FOLDER}>No folder</SelectItem>
+        {options.map(folder => (
+          <SelectItem key={folder.id} value={folder.id}>
+            <span style={{ paddingLeft: folder.depth * 12 }}>{folder.name}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default NoteFolderTree;
@@ -0,0 +1,231 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Columns2, History, Rows3, RotateCcw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { diffLines, diffStats, toSideBySide, DiffLine, NoteRevision, NOTE_REVISION_RETENTION_DAYS } from '@/lib/note-revisions';
+
+interface NoteHistoryPanelProps {
+  noteId: string;
+  /** Called after a revision was restored onto the note */
+  onRestored: () => void;
+}
+
+interface RevisionEntry extends NoteRevision {
+  profiles: { username: string } | null;
+}
+
+const timeAgo = (date: string) => formatDistanceToNow(new Date(date), { addSuffix: true });
+
+const lineClass: Record<DiffLine['type'], string> = {
+  same: 'text-white/70',
+  added: 'bg-emerald-500/20 text-emerald-200',
+  removed: 'bg-red-500/20 text-red-200',
+};
+
+const linePrefix: Record<DiffLine['type'], string> = { same: ' ', added: '+', removed: '-' };
+
+function DiffCell({ line }: { line: DiffLine | null }) {
+  if (!line) return <td className="w-1/2 bg-secondary/20" />;
+  return (
+    <td className={`w-1/2 whitespace-pre-wrap break-words px-2 align-top ${lineClass[line.type]}`}>
+      {line.text || ' '}
+    </td>
+  );
+}
+
+/**
+ * Saved revisions of a note, a diff between any two of them and one-click
+ * restore. Only the owner can read a note's revisions.
+ */
+export function NoteHistoryPanel({ noteId, onRestored }: NoteHistoryPanelProps) {
+  const { toast } = useToast();
+  const [revisions, setRevisions] = useState<RevisionEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+  const [layout, setLayout] = useState<'inline' | 'split'>('inline');
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const fetchRevisions = useCallback(async () => {
+    const { data } = await supabase
+      .from('note_revisions')
+      .select('*, profiles (username)')
+      .eq('note_id', noteId)
+      .order('created_at', { ascending: false });
+    const rows = data || [];
+    setRevisions(rows);
+    // Compare the latest revision with the one before it by default
+    setToId(rows[0]?.id ?? '');
+    setFromId(rows[1]?.id ?? rows[0]?.id ?? '');
+    setLoading(false);
+  }, [noteId]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  const from = revisions.find(r => r.id === fromId);
+  const to = revisions.find(r => r.id === toId);
+
+  const diff = useMemo(() => {
+    if (!from || !to) return [];
+    const titleLines: DiffLine[] = from.title === to.title
+      ? []
+      : [{ type: 'removed', text: `# ${from.title}` }, { type: 'added', text: `# ${to.title}` }];
+    return [...titleLines, ...diffLines(from.content, to.content)];
+  }, [from, to]);
+
+  const stats = diffStats(diff);
+
+  const handleRestore = async (revision: RevisionEntry) => {
+    if (!confirm(`Restore the version from ${new Date(revision.created_at).toLocaleString()}? The current version stays in the history.`)) return;
+    setRestoringId(revision.id);
+    const { error } = await supabase
+      .from('notes')
+      .update({ title: revision.title, content: revision.content })
+      .eq('id', noteId);
+    setRestoringId(null);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to restore revision',
+        variant: 'destructive',
+      });
+      return;
+    }
+    toast({
+      title: 'Restored',
+      description: 'The note was restored to the selected revision',
+    });
+    fetchRevisions();
+    onRestored();
+  };
+
+  const describeRevision = (revision: RevisionEntry) =>
+    `${revision.profiles?.username ?? 'Someone'} · ${new Date(revision.created_at).toLocaleString()}`;
+
+  if (loading) {
+    return <p className="text-xs text-white/70">Loading history...</p>;
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-xs text-white/70">No saved revisions yet</p>;
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-[220px_1fr]">
+      <div className="space-y-2">
+        <p className="flex items-center gap-1 text-xs font-medium text-white/80">
+          <History className="h-3 w-3" />
+          Revisions
+        </p>
+        <ol className="max-h-[55vh] space-y-2 overflow-y-auto border-l border-border pl-3">
+          {revisions.map((revision, index) => (
+            <li key={revision.id} className="group text-xs">
+              <button
+                type="button"
+                className={`text-left ${revision.id === toId ? 'text-accent' : 'text-white'} hover:underline`}
+                onClick={() => {
+                  setToId(revision.id);
+                  setFromId(revisions[index + 1]?.id ?? revision.id);
+                }}
+              >
+                <span className="font-medium">{revision.profiles?.username ?? 'Someone'}</span>
+                {index === 0 && <span className="ml-1 text-white/50">(current)</span>}
+              </button>
+              <span className="block text-white/50" title={new Date(revision.created_at).toLocaleString()}>
+                {timeAgo(revision.created_at)}
+              </span>
+              {index > 0 && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 px-1 text-xs gap-1"
+                  disabled={restoringId !== null}
+                  onClick={() => handleRestore(revision)}
+                >
+                  <RotateCcw className="h-3 w-3" />
+                  {restoringId === revision.id ? 'Restoring...' : 'Restore'}
+                </Button>
+              )}
+            </li>
+          ))}
+        </ol>
+        <p className="text-[11px] text-white/50">
+          Revisions older than {NOTE_REVISION_RETENTION_DAYS} days are kept as one per day.
+        </p>
+      </div>
+
+      <div className="min-w-0 space-y-3">
+        <div className="flex flex-col gap-2 md:flex-row md:items-center">
+          <Select value={fromId} onValueChange={setFromId}>
+            <SelectTrigger className="md:w-[240px]">
+              <SelectValue placeholder="Compare from" />
+            </SelectTrigger>
+            <SelectContent>
+              {revisions.map(r => (
+                <SelectItem key={r.id} value={r.id}>{describeRevision(r)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-xs text-white/50">to</span>
+          <Select value={toId} onValueChange={setToId}>
+            <SelectTrigger className="md:w-[240px]">
+              <SelectValue placeholder="Compare to" />
+            </SelectTrigger>
+            <SelectContent>
+              {revisions.map(r => (
+                <SelectItem key={r.id} value={r.id}>{describeRevision(r)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-1 md:ml-auto"
+            onClick={() => setLayout(layout === 'inline' ? 'split' : 'inline')}
+          >
+            {layout === 'inline' ? <Columns2 className="h-4 w-4" /> : <Rows3 className="h-4 w-4" />}
+            {layout === 'inline' ? 'Side by side' : 'Inline'}
+          </Button>
+        </div>
+
+        <p className="text-xs text-white/70">
+          <span className="text-emerald-300">+{stats.added}</span>{' '}
+          <span className="text-red-300">-{stats.removed}</span>
+          {stats.added === 0 && stats.removed === 0 && ' · no changes between these revisions'}
+        </p>
+
+        <div className="max-h-[55vh] overflow-auto rounded-md border border-border font-mono text-xs">
+          {layout === 'inline' ? (
+            <div>
+              {diff.map((line, i) => (
+                <div key={i} className={`whitespace-pre-wrap break-words px-2 ${lineClass[line.type]}`}>
+                  <span className="select-none pr-2 text-white/40">{linePrefix[line.type]}</span>
+                  {line.text || ' '}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <table className="w-full table-fixed border-collapse">
+              <tbody>
+                {toSideBySide(diff).map((row, i) => (
+                  <tr key={i}>
+                    <DiffCell line={row.left} />
+                    <DiffCell line={row.right} />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default NoteHistoryPanel;
@@ -0,0 +1,478 @@
+import { useMemo, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle2, Copy, FileUp, Upload, XCircle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { copyFile, deleteFile, getFileUrl, uploadFile } from '@/lib/file-upload';
+import { NoteFolder } from '@/lib/note-folders';
+import {
+  fillAssetLinks,
+  FolderMapping,
+  guessFileType,
+  ImportBundle,
+  ImportedNote,
+  parseNoteBundle,
+  readImportFiles,
+} from '@/lib/note-import';
+import { normalizeNoteTitle } from '@/lib/note-links';
+
+interface NoteImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** the user's own notes, for duplicate detection */
+  existingNotes: { title: string }[];
+  folders: NoteFolder[];
+  onImported: () => void;
+}
+
+type ImportStep = 'upload' | 'preview' | 'report';
+
+interface ReportEntry {
+  source: string;
+  title: string;
+  status: 'imported' | 'skipped' | 'failed';
+  message?: string;
+}
+
+interface UploadedAsset {
+  path: string;
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+}
+
+const MAPPING_LABELS: Record<FolderMapping, string> = {
+  subjects: 'Folders become subjects',
+  notebooks: 'Folders become notebooks',
+};
+
+const fileNameOf = (path: string) => path.split('/').pop() ?? path;
+
+/** Why a note is unselected by default: its title is taken or repeated in the import */
+const findDuplicates = (notes: ImportedNote[], existing: { title: string }[]): Map<string, string> => {
+  const taken = new Set(existing.map(n => normalizeNoteTitle(n.title)));
+  const seen = new Map<string, string>();
+  const duplicates = new Map<string, string>();
+  notes.forEach(note => {
+    const key = normalizeNoteTitle(note.title);
+    if (taken.has(key)) {
+      duplicates.set(note.source, 'You already have a note with this title');
+    } else if (seen.has(key)) {
+      duplicates.set(note.source, `Same title as ${seen.get(key)}`);
+    } else {
+      seen.set(key, note.source);
+    }
+  });
+  return duplicates;
+};
+
+export function NoteImportDialog({ open, onOpenChange, existingNotes, folders, onImported }: NoteImportDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileLabel, setFileLabel] = useState('');
+  const [bundle, setBundle] = useState<ImportBundle>(new Map());
+  const [mapping, setMapping] = useState<FolderMapping>('subjects');
+  const [defaultPublic, setDefaultPublic] = useState(false);
+  const [notes, setNotes] = useState<ImportedNote[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [report, setReport] = useState<ReportEntry[]>([]);
+
+  const duplicates = useMemo(() => findDuplicates(notes, existingNotes), [notes, existingNotes]);
+
+  const reset = () => {
+    setStep('upload');
+    setFileLabel('');
+    setBundle(new Map());
+    setNotes([]);
+    setSelected(new Set());
+    setProgress({ done: 0, total: 0 });
+    setReport([]);
+  };
+
+  const showPreview = (files: ImportBundle, nextMapping: FolderMapping) => {
+    const parsed = parseNoteBundle(files, nextMapping);
+    const dupes = findDuplicates(parsed, existingNotes);
+    setNotes(parsed);
+    setSelected(new Set(parsed.filter(n => !dupes.has(n.source)).map(n => n.source)));
+    setStep('preview');
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    try {
+      const imported = await readImportFiles(files);
+      if (!Array.from(imported.keys()).some(p => /\.(md|markdown)$/i.test(p))) {
+        throw new Error('No Markdown files found');
+      }
+      setFileLabel(files.length === 1 ? files[0].name : `${files.length} files`);
+      setBundle(imported);
+      showPreview(imported, mapping);
+    } catch (err) {
+      toast({
+        title: 'Could not read files',
+        description: (err as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const toggleNote = (source: string) => {
+    const next = new Set(selected);
+    if (next.has(source)) {
+      next.delete(source);
+    } else {
+      next.add(source);
+    }
+    setSelected(next);
+  };
+
+  // Find or create each folder on the path, starting from a notebook
+  const resolveFolder = async (names: string[], known: NoteFolder[]): Promise<string | null> => {
+    let parentId: string | null = null;
+    for (const name of names) {
+      const existing = known.find(f => (f.parent_id ?? null) === parentId && f.name.trim().toLowerCase() === name.toLowerCase());
+      if (existing) {
+        parentId = existing.id;
+        continue;
+      }
+      const { data, error } = await supabase
+        .from('note_folders')
+        .insert({ user_id: user?.id, parent_id: parentId, name })
+        .select()
+        .single();
+      if (error || !data) throw new Error(`Could not create folder "${name}"`);
+      known.push(data);
+      parentId = data.id;
+    }
+    return parentId;
+  };
+
+  /**
+   * Upload a note's files. A file shared by several notes is uploaded once
+   * and copied for the others, so each note owns its attachments.
+   */
+  const uploadAssets = async (note: ImportedNote, shared: Map<string, UploadedAsset>, failures: string[]) => {
+    const uploaded = new Map<string, UploadedAsset>();
+    for (const assetPath of note.assets) {
+      const first = shared.get(assetPath);
+      if (first) {
+        const copy = await copyFile('note-attachments', first.path, user!.id);
+        if (copy.success && copy.path) {
+          uploaded.set(assetPath, { ...first, path: copy.path });
+          continue;
+        }
+      }
+      const fileName = fileNameOf(assetPath);
+      const file = new File([bundle.get(assetPath)!.slice()], fileName, { type: guessFileType(assetPath) });
+      const result = await uploadFile(file, 'note-attachments', user!.id);
+      if (result.success && result.path) {
+        uploaded.set(assetPath, { path: result.path, fileName, fileSize: result.fileSize, fileType: result.fileType });
+      } else {
+        failures.push(`${fileName}: ${result.error ?? 'Upload failed'}`);
+      }
+    }
+    return uploaded;
+  };
+
+  const handleImport = async () => {
+    const chosen = notes.filter(n => selected.has(n.source));
+    if (chosen.length === 0 || !user) return;
+
+    setImporting(true);
+    let done = 0;
+    setProgress({ done, total: chosen.length });
+
+    const entries: ReportEntry[] = notes
+      .filter(n => !selected.has(n.source))
+      .map(n => ({ source: n.source, title: n.title, status: 'skipped', message: duplicates.get(n.source) ?? 'Not selected' }));
+    const knownFolders = [...folders];
+    const shared = new Map<string, UploadedAsset>();
+
+    for (const note of chosen) {
+      const failures: string[] = [];
+      try {
+        const folderId = mapping === 'notebooks' ? await resolveFolder(note.folders, knownFolders) : null;
+        const uploaded = await uploadAssets(note, shared, failures);
+        const urls = new Map(Array.from(uploaded, ([assetPath, asset]) => [assetPath, getFileUrl('note-attachments', asset.path)]));
+
+        const { data, error } = await supabase.from('notes').insert({
+          user_id: user.id,
+          title: note.title,
+          content: fillAssetLinks(note.content, urls),
+          subject: note.subject,
+          is_public: note.isPublic ?? defaultPublic,
+          folder_id: folderId,
+        }).select('id').single();
+
+        if (error || !data) {
+          uploaded.forEach(asset => deleteFile('note-attachments', asset.path));
+          throw new Error(error?.message ?? 'Insert failed');
+        }
+
+        if (uploaded.size > 0) {
+          const { error: attachError } = await supabase.from('note_attachments').insert(
+            Array.from(uploaded.values()).map(asset => ({
+              note_id: data.id,
+              user_id: user.id,
+              file_name: asset.fileName,
+              file_size: asset.fileSize,
+              file_type: asset.fileType,
+              storage_path: asset.path,
+            }))
+          );
+          if (attachError) failures.push('Files were uploaded but could not be listed as attachments');
+          uploaded.forEach((asset, assetPath) => {
+            if (!shared.has(assetPath)) shared.set(assetPath, asset);
+          });
+        }
+
+        entries.push({
+          source: note.source,
+          title: note.title,
+          status: 'imported',
+          message: failures.length > 0 ? failures.join('; ') : undefined,
+        });
+      } catch (err) {
+        entries.push({ source: note.source, title: note.title, status: 'failed', message: (err as Error).message });
+      }
+      done++;
+      setProgress({ done, total: chosen.length });
+    }
+
+    setReport(entries.sort((a, b) => a.source.localeCompare(b.source)));
+    setImporting(false);
+    setStep('report');
+    onImported();
+
+    const imported = entries.filter(e => e.status === 'imported').length;
+    toast({
+      title: 'Import finished',
+      description: `${imported} of ${notes.length} note(s) imported`,
+    });
+  };
+
+  const selectedNotes = notes.filter(n => selected.has(n.source));
+  const assetCount = new Set(selectedNotes.flatMap(n => n.assets)).size;
+  const linkCount = selectedNotes.reduce((sum, n) => sum + n.linksRewritten, 0);
+  const warningCount = selectedNotes.reduce((sum, n) => sum + n.warnings.length, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      if (importing) return;
+      if (!isOpen) reset();
+      onOpenChange(isOpen);
+    }}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Notes</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Import Markdown files, or a .zip of them with their images and attachments. Front-matter can set the title, subject and visibility.'}
+            {step === 'preview' && `Dry run: ${notes.length} note(s) found in ${fileLabel}. Nothing is saved until you import. Duplicates are unselected.`}
+            {step === 'report' && 'Import report'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div
+            className="border-2 border-dashed rounded-lg p-8 text-center cursor-pointer hover:bg-secondary/30 transition"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <FileUp className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+            <p className="font-medium">Choose files to import</p>
+            <p className="text-sm text-muted-foreground">A .zip, or several .md files with their images</p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept=".zip,.md,.markdown,application/zip,text/markdown,image/*,application/pdf"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <div className="flex items-center gap-2">
+                <Label htmlFor="import-mapping">Folders</Label>
+                <Select
+                  value={mapping}
+                  onValueChange={(v) => {
+                    setMapping(v as FolderMapping);
+                    showPreview(bundle, v as FolderMapping);
+                  }}
+                  disabled={importing}
+                >
+                  <SelectTrigger id="import-mapping" className="w-[220px] h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(MAPPING_LABELS) as FolderMapping[]).map(m => (
+                      <SelectItem key={m} value={m}>{MAPPING_LABELS[m]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2">
+                <Label htmlFor="import-visibility">Otherwise</Label>
+                <Select
+                  value={defaultPublic ? 'public' : 'private'}
+                  onValueChange={(v) => setDefaultPublic(v === 'public')}
+                  disabled={importing}
+                >
+                  <SelectTrigger id="import-visibility" className="w-[140px] h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="private">Private</SelectItem>
+                    <SelectItem value="public">Public</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="secondary">{selectedNotes.length} note(s)</Badge>
+              <Badge variant="outline">{assetCount} file(s) to upload</Badge>
+              <Badge variant="outline">{linkCount} link(s) rewritten</Badge>
+              {warningCount > 0 && <Badge variant="outline" className="text-yellow-600">{warningCount} warning(s)</Badge>}
+            </div>
+
+            <div className="max-h-[50vh] overflow-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Note</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {notes.map(note => (
+                    <TableRow key={note.source}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.has(note.source)}
+                          onCheckedChange={() => toggleNote(note.source)}
+                          aria-label={`Import ${note.source}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{note.title}</div>
+                        <div className="text-xs text-muted-foreground break-all">{note.source}</div>
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {note.subject && <Badge variant="secondary" className="text-xs">{note.subject}</Badge>}
+                          {note.folders.length > 0 && <Badge variant="outline" className="text-xs">{note.folders.join(' / ')}</Badge>}
+                          <Badge variant="outline" className="text-xs">{note.isPublic ?? defaultPublic ? 'Public' : 'Private'}</Badge>
+                          {note.assets.length > 0 && <Badge variant="outline" className="text-xs">{note.assets.length} attachment(s)</Badge>}
+                          {note.linksRewritten > 0 && <Badge variant="outline" className="text-xs">{note.linksRewritten} link(s)</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="space-y-1">
+                          {duplicates.has(note.source) && (
+                            <span className="flex items-center gap-1 text-xs text-yellow-600">
+                              <Copy className="h-3 w-3 flex-shrink-0" />
+                              {duplicates.get(note.source)}
+                            </span>
+                          )}
+                          {note.warnings.map(warning => (
+                            <span key={warning} className="flex items-center gap-1 text-xs text-yellow-600">
+                              <AlertCircle className="h-3 w-3 flex-shrink-0" />
+                              {warning}
+                            </span>
+                          ))}
+                          {!duplicates.has(note.source) && note.warnings.length === 0 && (
+                            <span className="text-xs text-muted-foreground">Ready</span>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {importing && (
+              <div className="space-y-1">
+                <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} />
+                <p className="text-xs text-muted-foreground">{progress.done} / {progress.total} notes</p>
+              </div>
+            )}
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={reset} disabled={importing}>Back</Button>
+              <Button onClick={handleImport} disabled={importing || selectedNotes.length === 0} className="gap-2">
+                <Upload className="h-4 w-4" />
+                {importing ? 'Importing...' : `Import ${selectedNotes.length} note(s)`}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'report' && (
+          <div className="space-y-4">
+            <div className="flex gap-2 text-sm">
+              <Badge variant="secondary">{report.filter(e => e.status === 'imported').length} imported</Badge>
+              <Badge variant="outline">{report.filter(e => e.status === 'skipped').length} skipped</Badge>
+              <Badge variant="destructive">{report.filter(e => e.status === 'failed').length} failed</Badge>
+            </div>
+            <div className="max-h-[50vh] overflow-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>File</TableHead>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.map(entry => (
+                    <TableRow key={entry.source}>
+                      <TableCell className="text-xs text-muted-foreground break-all">{entry.source}</TableCell>
+                      <TableCell>{entry.title}</TableCell>
+                      <TableCell>
+                        <span className={`flex items-center gap-1 text-xs ${
+                          entry.status === 'failed' ? 'text-destructive' : entry.status === 'skipped' ? 'text-muted-foreground' : ''
+                        }`}>
+                          {entry.status === 'imported' && <CheckCircle2 className="h-3 w-3 text-accent flex-shrink-0" />}
+                          {entry.status === 'failed' && <XCircle className="h-3 w-3 flex-shrink-0" />}
+                          <span className="capitalize">{entry.status}</span>
+                          {entry.message && <span>— {entry.message}</span>}
+                        </span>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={() => { reset(); onOpenChange(false); }}>Done</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
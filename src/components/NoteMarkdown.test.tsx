@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from 'vitest';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { NoteMarkdown } from '@/components/NoteMarkdown';
+import { loadMermaid } from '@/lib/markdown';
+
+vi.mock('mermaid', () => ({
+  default: { initialize: vi.fn(), render: vi.fn() },
+}));
+
+const render = (content: string) => renderToStaticMarkup(<NoteMarkdown content={content} />);
+
+// Nothing in the output may run script: no script-capable elements, no
+// event handler attributes and no script or data URLs
+const expectNoExecutableOutput = (html: string) => {
+  expect(html).not.toMatch(/<(script|iframe|object|embed|form|style)\b/i);
+  expect(html).not.toMatch(/<[^>]*\son[a-z]+\s*=/i);
+  expect(html).not.toMatch(/<[^>]*\s(href|src|action|formaction|xlink:href)\s*=\s*["']?\s*(javascript|vbscript|data):/i);
+};
+
+describe('NoteMarkdown sanitizing', () => {
+  it('drops script tags', () => {
+    const html = render('Hello <script>alert(1)</script>');
+    expectNoExecutableOutput(html);
+    expect(html).toContain('Hello');
+  });
+
+  it('does not parse raw HTML elements or their event handlers', () => {
+    const html = render([
+      '<img src="x" onerror="alert(1)">',
+      '',
+      '<a href="javascript:alert(1)" onclick="alert(1)">link</a>',
+      '',
+      '<iframe src="https://example.com"></iframe>',
+      '',
+      '<div style="position:fixed" onmouseover="alert(1)">hover</div>',
+      '',
+      '<svg onload="alert(1)"><circle /></svg>',
+    ].join('\n'));
+    expectNoExecutableOutput(html);
+    expect(html).not.toMatch(/<(img|a)\b/);
+    expect(html).not.toContain('position:fixed');
+  });
+
+  it('drops javascript: and data: link targets', () => {
+    const html = render([
+      '[plain](javascript:alert(1))',
+      '[mixed case](JaVaScRiPt:alert(1))',
+      '[encoded](&#106;avascript:alert(1))',
+      '[data](data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==)',
+      '[vb](vbscript:msgbox(1))',
+      '[ref link][ref]',
+      '',
+      '[ref]: javascript:alert(1)',
+    ].join('\n\n'));
+    expectNoExecutableOutput(html);
+    expect(html).toContain('mixed case');
+  });
+
+  it('drops javascript: and data: image sources', () => {
+    const html = render('![x](javascript:alert(1)) ![y](data:image/svg+xml;base64,PHN2ZyBvbmxvYWQ9YWxlcnQoMSk+)');
+    expectNoExecutableOutput(html);
+  });
+
+  it('keeps safe links', () => {
+    const html = render('[site](https://example.com) and [section](#notes)');
+    expect(html).toContain('href="https://example.com"');
+    expect(html).toContain('rel="noopener noreferrer nofollow"');
+    expect(html).toContain('href="#notes"');
+  });
+
+  it('keeps only language classes on code', () => {
+    const html = render('`x`{onclick=alert(1)}\n\n```js onclick="alert(1)"\nlet a = 1;\n```');
+    expectNoExecutableOutput(html);
+  });
+
+  it('does not let KaTeX create links or HTML', () => {
+    const html = render([
+      '$\\href{javascript:alert(1)}{click}$',
+      '$$\\url{javascript:alert(1)}$$',
+      '$\\htmlData{onclick=alert(1)}{x}$',
+      '$\\includegraphics{javascript:alert(1)}$',
+    ].join('\n\n'));
+    expectNoExecutableOutput(html);
+    expect(html).not.toMatch(/<a\b/);
+  });
+
+  it('renders links with malformed wiki encoding as ordinary links', () => {
+    const html = render('[broken](#wiki/%E0%A4%A)');
+    expect(html).toContain('href="#wiki/%E0%A4%25A"');
+    expect(html).toContain('>broken</a>');
+  });
+
+  it('still renders ordinary math', () => {
+    const html = render('$E = mc^2$');
+    expect(html).toContain('class="katex"');
+  });
+
+  it('passes Mermaid source with HTML labels to the diagram as text only', () => {
+    const html = render([
+      '```mermaid',
+      'graph TD',
+      '  A["<img src=x onerror=alert(1)>"] --> B["<a href=javascript:alert(1)>go</a>"]',
+      '  click A "javascript:alert(1)"',
+      '```',
+    ].join('\n'));
+    expectNoExecutableOutput(html);
+    expect(html).not.toMatch(/<(img|a)\b/);
+  });
+
+  it('renders Mermaid diagrams in strict security mode', async () => {
+    const mermaid = await loadMermaid();
+    expect(mermaid.initialize).toHaveBeenCalledWith(expect.objectContaining({ securityLevel: 'strict' }));
+  });
+});
@@ -0,0 +1,120 @@
+import { useMemo, type ComponentPropsWithoutRef } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import 'katex/dist/katex.min.css';
+import { CodeBlock } from '@/components/CodeBlock';
+import { MermaidDiagram } from '@/components/MermaidDiagram';
+import { noteRemarkPlugins, noteRehypePlugins, getCodeLanguage, MERMAID_LANGUAGE } from '@/lib/markdown';
+import { getWikiLinkTitle } from '@/lib/note-links';
+
+function NoteLink({ href, children, id }: ComponentPropsWithoutRef<'a'>) {
+  // Footnote references and back-references stay in the page
+  const isAnchor = href?.startsWith('#');
+  return (
+    <a
+      href={href}
+      {...(isAnchor ? {} : { target: '_blank', rel: 'noopener noreferrer nofollow' })}
+      id={id}
+      className="text-accent hover:underline break-words"
+    >
+      {children}
+    </a>
+  );
+}
+
+// Note styling for each Markdown element; plugins are shared with ChatMessage
+const noteComponents: Components = {
+  code({ className, children }) {
+    const language = getCodeLanguage(className);
+    const codeString = String(children).replace(/\n$/, '');
+    if (language === MERMAID_LANGUAGE) {
+      return <MermaidDiagram code={codeString} />;
+    }
+    if (language || codeString.includes('\n')) {
+      return <CodeBlock language={language} code={codeString} />;
+    }
+    return <code className="bg-slate-700 text-white px-1.5 py-0.5 rounded text-xs break-words">{children}</code>;
+  },
+  pre: ({ children }) => <>{children}</>,
+  strong: ({ children }) => <strong className="font-bold text-white">{children}</strong>,
+  em: ({ children }) => <em className="italic text-white">{children}</em>,
+  del: ({ children }) => <del className="line-through text-white/70">{children}</del>,
+  p: ({ children }) => <p className="text-white font-semibold my-2 break-words">{children}</p>,
+  ul: ({ children, className }) => (
+    <ul className={`${className === 'contains-task-list' ? 'list-none' : 'list-disc'} pl-5 my-2 space-y-1 text-white`}>{children}</ul>
+  ),
+  ol: ({ children }) => <ol className="list-decimal pl-5 my-2 space-y-1 text-white">{children}</ol>,
+  li: ({ children, id }) => <li id={id} className="text-white font-semibold break-words">{children}</li>,
+  input: ({ type, checked }) =>
+    type === 'checkbox' ? <input type="checkbox" checked={checked} disabled className="mr-2 align-middle accent-accent" /> : null,
+  h1: ({ children }) => <h1 className="text-white font-bold text-lg mt-4 mb-2 break-words">{children}</h1>,
+  h2: ({ children, id, className }) =>
+    className === 'sr-only'
+      ? <h2 id={id} className="sr-only">{children}</h2>
+      : <h2 className="text-white font-bold text-base mt-4 mb-2 break-words">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-white font-bold text-sm mt-3 mb-1 break-words">{children}</h3>,
+  a: NoteLink,
+  blockquote: ({ children }) => <blockquote className="border-l-4 border-white pl-4 text-white italic my-2">{children}</blockquote>,
+  hr: () => <hr className="border-slate-600 my-3" />,
+  table: ({ children }) => (
+    <div className="overflow-x-auto my-3">
+      <table className="min-w-full border border-border rounded-lg overflow-hidden text-white">{children}</table>
+    </div>
+  ),
+  thead: ({ children }) => <thead className="bg-secondary">{children}</thead>,
+  th: ({ children, style }) => <th style={style} className="px-3 py-2 text-left text-sm font-semibold border-b border-border">{children}</th>,
+  td: ({ children, style }) => <td style={style} className="px-3 py-2 text-sm border-b border-border">{children}</td>,
+  section: ({ children, className }) => <section className={`${className ?? ''} mt-4 pt-2 border-t border-slate-600 text-xs text-white/80`}>{children}</section>,
+  img: ({ src, alt }) => <img src={src} alt={alt ?? ''} loading="lazy" className="max-w-full rounded-md my-2" />,
+};
+
+interface NoteMarkdownProps {
+  content: string;
+  className?: string;
+  /** Whether a `[[Title]]` link points at an existing note; missing ones are styled as broken */
+  resolveWikiLink?: (title: string) => boolean;
+  /** Called when a `[[Title]]` link is clicked; without it wiki links render as plain text */
+  onWikiLinkClick?: (title: string) => void;
+}
+
+// Sanitized Markdown renderer for note content
+export function NoteMarkdown({ content, className = '', resolveWikiLink, onWikiLinkClick }: NoteMarkdownProps) {
+  const components = useMemo<Components>(() => ({
+    ...noteComponents,
+    a: (props) => {
+      const title = getWikiLinkTitle(props.href);
+      if (title === null) return <NoteLink {...props} />;
+      if (!onWikiLinkClick) return <span className="text-accent">{props.children}</span>;
+      const exists = resolveWikiLink?.(title) ?? true;
+      return (
+        <a
+          href={props.href}
+          onClick={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            onWikiLinkClick(title);
+          }}
+          title={exists ? title : `${title} (not created yet)`}
+          className={exists
+            ? 'text-accent underline decoration-dotted hover:decoration-solid break-words'
+            : 'text-red-300 underline decoration-dashed hover:decoration-solid break-words'}
+        >
+          {props.children}
+        </a>
+      );
+    },
+  }), [resolveWikiLink, onWikiLinkClick]);
+
+  return (
+    <div className={`space-y-2 break-words whitespace-normal ${className}`}>
+      <ReactMarkdown
+        remarkPlugins={noteRemarkPlugins}
+        rehypePlugins={noteRehypePlugins}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+export default NoteMarkdown;
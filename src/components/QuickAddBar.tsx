@@ -0,0 +1,88 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarClock, Flag, Hash, Plus, Repeat, Zap } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { describeRule } from '@/lib/recurrence';
+import { parseQuickAdd, QuickAddResult } from '@/lib/quick-add';
+import { PRIORITY_STYLES } from '@/lib/task-priority';
+
+interface QuickAddBarProps {
+  /** save the parsed task; resolve to true to clear the input */
+  onAdd: (parsed: QuickAddResult) => Promise<boolean>;
+  disabled?: boolean;
+}
+
+export function QuickAddBar({ onAdd, disabled }: QuickAddBarProps) {
+  const [input, setInput] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const parsed = useMemo(() => (input.trim() ? parseQuickAdd(input) : null), [input]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!parsed?.title || saving) return;
+    setSaving(true);
+    const saved = await onAdd(parsed);
+    setSaving(false);
+    if (saved) setInput('');
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardContent className="pt-6 space-y-3">
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <div className="relative flex-1">
+            <Zap className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder='Quick add: "read chapter 4 tomorrow 5pm #biology !high every monday"'
+              className="pl-10"
+              disabled={disabled}
+              aria-label="Quick add task"
+            />
+          </div>
+          <Button type="submit" className="gap-2" disabled={disabled || saving || !parsed?.title}>
+            <Plus className="h-4 w-4" />
+            Add
+          </Button>
+        </form>
+
+        {parsed && (
+          <div className="flex flex-wrap items-center gap-2 text-xs" aria-live="polite">
+            <span className={`font-medium ${parsed.title ? '' : 'text-destructive'}`}>
+              {parsed.title || 'A title is required'}
+            </span>
+            {parsed.dueDate && (
+              <Badge variant="secondary" className="gap-1 text-xs">
+                <CalendarClock className="h-3 w-3" />
+                {format(parsed.dueDate, parsed.hasTime ? 'EEE, MMM d · HH:mm' : 'EEE, MMM d')}
+              </Badge>
+            )}
+            {parsed.subject && (
+              <Badge variant="outline" className="gap-1 text-xs">
+                <Hash className="h-3 w-3" />
+                {parsed.subject}
+              </Badge>
+            )}
+            {parsed.priority && (
+              <Badge variant="outline" className={`gap-1 text-xs capitalize ${PRIORITY_STYLES[parsed.priority]}`}>
+                <Flag className="h-3 w-3" />
+                {parsed.priority}
+              </Badge>
+            )}
+            {parsed.recurrence && (
+              <Badge variant="secondary" className="gap-1 text-xs">
+                <Repeat className="h-3 w-3" />
+                {describeRule(parsed.recurrence)}
+              </Badge>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,148 @@
+import { Repeat } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { describeRule, RecurrenceFrequency, RecurrenceRule, WEEKDAY_LABELS } from '@/lib/recurrence';
+
+interface RecurrencePickerProps {
+  id: string;
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  /** due date the series starts from, used for weekday/month-day defaults */
+  anchorDate?: string;
+}
+
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+};
+
+export function RecurrencePicker({ id, value, onChange, anchorDate }: RecurrencePickerProps) {
+  const anchor = anchorDate ? new Date(anchorDate) : new Date();
+  const endType = value?.until ? 'until' : value?.count ? 'count' : 'never';
+
+  const handleFrequencyChange = (freq: string) => {
+    if (freq === 'none') {
+      onChange(null);
+      return;
+    }
+    onChange({
+      freq: freq as RecurrenceFrequency,
+      interval: value?.interval || 1,
+      byWeekday: freq === 'weekly' ? [anchor.getDay()] : undefined,
+      byMonthDay: freq === 'monthly' ? anchor.getDate() : undefined,
+      until: value?.until,
+      count: value?.count,
+    });
+  };
+
+  const handleEndChange = (type: string) => {
+    if (!value) return;
+    onChange({
+      ...value,
+      until: type === 'until' ? value.until || anchor.toISOString().split('T')[0] : undefined,
+      count: type === 'count' ? value.count || 5 : undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Repeat (Optional)</Label>
+      <Select value={value?.freq ?? 'none'} onValueChange={handleFrequencyChange}>
+        <SelectTrigger id={id}>
+          <Repeat className="h-4 w-4 mr-2" />
+          <SelectValue placeholder="Does not repeat" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Does not repeat</SelectItem>
+          <SelectItem value="daily">Daily</SelectItem>
+          <SelectItem value="weekly">Weekly</SelectItem>
+          <SelectItem value="monthly">Monthly</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value && (
+        <div className="space-y-3 p-3 bg-secondary/30 rounded-md">
+          <div className="flex items-center gap-2 text-sm">
+            <span>Every</span>
+            <Input
+              type="number"
+              min={1}
+              value={value.interval}
+              onChange={(e) => onChange({ ...value, interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              className="w-20 h-8"
+              aria-label="Repeat interval"
+            />
+            <span>{UNIT_LABELS[value.freq]}</span>
+          </div>
+
+          {value.freq === 'weekly' && (
+            <ToggleGroup
+              type="multiple"
+              size="sm"
+              variant="outline"
+              className="justify-start flex-wrap"
+              value={(value.byWeekday || []).map(String)}
+              onValueChange={(days) => {
+                if (days.length === 0) return;
+                onChange({ ...value, byWeekday: days.map(Number) });
+              }}
+            >
+              {WEEKDAY_LABELS.map((label, day) => (
+                <ToggleGroupItem key={label} value={String(day)} aria-label={label}>
+                  {label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span>Ends</span>
+            <Select value={endType} onValueChange={handleEndChange}>
+              <SelectTrigger className="w-[150px] h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never</SelectItem>
+                <SelectItem value="until">On date</SelectItem>
+                <SelectItem value="count">After</SelectItem>
+              </SelectContent>
+            </Select>
+            {endType === 'until' && (
+              <Input
+                type="date"
+                value={value.until}
+                onChange={(e) => onChange({ ...value, until: e.target.value || undefined })}
+                className="w-[160px] h-8"
+                aria-label="Repeat until"
+              />
+            )}
+            {endType === 'count' && (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  value={value.count}
+                  onChange={(e) => onChange({ ...value, count: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                  className="w-20 h-8"
+                  aria-label="Number of occurrences"
+                />
+                <span>occurrences</span>
+              </>
+            )}
+          </div>
+
+          <p className="text-xs text-muted-foreground">{describeRule(value)}</p>
+        </div>
+      )}
+    </div>
+  );
+}
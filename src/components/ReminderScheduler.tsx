@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import { collectDueReminders, PendingReminder, TaskReminder } from '@/lib/task-reminders';
+
+/** How often pending reminders are re-read and checked */
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+interface ReminderTask {
+  id: string;
+  title: string;
+  due_date: string | null;
+  completed: boolean;
+}
+
+// Mark reminders fired, returning only the ids this tab claimed so another
+// open tab does not notify about the same reminder
+const claimReminders = async (pending: PendingReminder<ReminderTask>[], missed: boolean) => {
+  if (pending.length === 0) return new Set<string>();
+  const { data } = await supabase
+    .from('task_reminders')
+    .update({ fired_at: new Date().toISOString(), missed })
+    .in('id', pending.map(p => p.reminder.id))
+    .is('fired_at', null)
+    .select('id');
+  return new Set((data || []).map(row => row.id));
+};
+
+/**
+ * Fires task reminders while the app is open, as browser notifications when
+ * permitted and as toasts otherwise. Reminders that fell due while the app was
+ * closed are reported once as missed. Renders nothing.
+ */
+export function ReminderScheduler() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  // Everything overdue on the first check after sign-in or opening the app was missed
+  const checkedUserId = useRef<string | null>(null);
+
+  const notify = useCallback(({ task, time }: PendingReminder<ReminderTask>) => {
+    const body = task.due_date
+      ? `Due ${new Date(task.due_date).toLocaleString()}`
+      : `Reminder for ${time.toLocaleString()}`;
+
+    if ('Notification' in window && Notification.permission === 'granted') {
+      const notification = new Notification(task.title, { body, tag: `task-reminder-${task.id}` });
+      notification.onclick = () => {
+        window.focus();
+        navigate('/tasks');
+        notification.close();
+      };
+      return;
+    }
+
+    toast({
+      title: `Reminder: ${task.title}`,
+      description: body,
+      action: <ToastAction altText="View tasks" onClick={() => navigate('/tasks')}>View</ToastAction>,
+    });
+  }, [navigate, toast]);
+
+  const checkReminders = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('task_reminders')
+      .select('id, task_id, offset_minutes, remind_at, fired_at, missed, tasks (id, title, due_date, completed, deleted_at)')
+      .eq('user_id', user.id)
+      .is('fired_at', null);
+    if (error || !data) return;
+
+    // Trashed tasks keep their reminders for a restore but do not fire them
+    const tasks = data.flatMap(row => (row.tasks && !row.tasks.deleted_at ? [row.tasks as ReminderTask] : []));
+    const firstCheck = checkedUserId.current !== user.id;
+    checkedUserId.current = user.id;
+    const { due, missed, silenced } = collectDueReminders(data as TaskReminder[], tasks, new Date(), firstCheck);
+
+    await claimReminders(silenced, false);
+
+    const claimedDue = await claimReminders(due, false);
+    due.filter(p => claimedDue.has(p.reminder.id)).forEach(notify);
+
+    const claimedMissed = await claimReminders(missed, true);
+    const missedTasks = missed.filter(p => claimedMissed.has(p.reminder.id)).map(p => p.task);
+    const titles = Array.from(new Set(missedTasks.map(t => t.title)));
+    if (titles.length > 0) {
+      toast({
+        title: titles.length === 1 ? 'Missed reminder' : `${titles.length} missed reminders`,
+        description: titles.length <= 3
+          ? titles.map(t => `"${t}"`).join(', ')
+          : `${titles.slice(0, 3).map(t => `"${t}"`).join(', ')} and ${titles.length - 3} more`,
+        action: <ToastAction altText="View tasks" onClick={() => navigate('/tasks')}>View</ToastAction>,
+      });
+    }
+  }, [user, notify, toast, navigate]);
+
+  useEffect(() => {
+    if (!user) return;
+    checkReminders();
+    const timer = setInterval(checkReminders, CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [user, checkReminders]);
+
+  return null;
+}
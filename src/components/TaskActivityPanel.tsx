@@ -0,0 +1,208 @@
+import { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { History, MessageSquare, Send, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { describeActivity, TaskActivity } from '@/lib/task-activity';
+
+interface TaskActivityPanelProps {
+  taskId: string;
+}
+
+interface ActivityEntry extends TaskActivity {
+  profiles: { username: string } | null;
+}
+
+interface TaskComment {
+  id: string;
+  task_id: string;
+  user_id: string;
+  content: string;
+  created_at: string;
+  profiles: { username: string } | null;
+}
+
+const timeAgo = (date: string) => formatDistanceToNow(new Date(date), { addSuffix: true });
+
+/**
+ * Expanded view of a task: the change history next to its comment thread.
+ * Only rendered for people who can discuss the task (see canDiscussTask).
+ */
+export function TaskActivityPanel({ taskId }: TaskActivityPanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [activity, setActivity] = useState<ActivityEntry[]>([]);
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newComment, setNewComment] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const fetchActivity = useCallback(async () => {
+    const { data } = await supabase
+      .from('task_activity')
+      .select('*, profiles (username)')
+      .eq('task_id', taskId)
+      .order('created_at', { ascending: false });
+    setActivity(data || []);
+  }, [taskId]);
+
+  const fetchComments = useCallback(async () => {
+    const { data } = await supabase
+      .from('task_comments')
+      .select('*, profiles (username)')
+      .eq('task_id', taskId)
+      .order('created_at', { ascending: true });
+    setComments(data || []);
+  }, [taskId]);
+
+  useEffect(() => {
+    Promise.all([fetchActivity(), fetchComments()]).finally(() => setLoading(false));
+
+    const channel = supabase
+      .channel(`task_activity_${taskId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'task_activity', filter: `task_id=eq.${taskId}` },
+        () => fetchActivity()
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'task_comments', filter: `task_id=eq.${taskId}` },
+        () => fetchComments()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [taskId, fetchActivity, fetchComments]);
+
+  const handleSendComment = async () => {
+    if (!user || !newComment.trim()) return;
+    setSending(true);
+    const { error } = await supabase.from('task_comments').insert({
+      task_id: taskId,
+      user_id: user.id,
+      content: newComment.trim(),
+    });
+    setSending(false);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to post comment',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setNewComment('');
+    fetchComments();
+  };
+
+  const handleDeleteComment = async (commentId: string) => {
+    if (!confirm('Delete this comment?')) return;
+    const { error } = await supabase.from('task_comments').delete().eq('id', commentId);
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete comment',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setComments(prev => prev.filter(c => c.id !== commentId));
+  };
+
+  if (loading) {
+    return <p className="text-xs text-white/70">Loading activity...</p>;
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <div className="space-y-2">
+        <p className="flex items-center gap-1 text-xs font-medium text-white/80">
+          <History className="h-3 w-3" />
+          Activity
+        </p>
+        {activity.length === 0 ? (
+          <p className="text-xs text-white/70">No activity yet</p>
+        ) : (
+          <ol className="max-h-64 space-y-2 overflow-y-auto border-l border-border pl-3">
+            {activity.map(entry => (
+              <li key={entry.id} className="text-xs">
+                <span className="font-medium text-white">{entry.profiles?.username ?? 'Someone'}</span>{' '}
+                <span className="text-white/80">{describeActivity(entry)}</span>
+                <span className="block text-white/50" title={new Date(entry.created_at).toLocaleString()}>
+                  {timeAgo(entry.created_at)}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <p className="flex items-center gap-1 text-xs font-medium text-white/80">
+          <MessageSquare className="h-3 w-3" />
+          Comments
+        </p>
+        {comments.length === 0 ? (
+          <p className="text-xs text-white/70">No comments yet</p>
+        ) : (
+          <div className="max-h-64 space-y-2 overflow-y-auto">
+            {comments.map(comment => (
+              <div key={comment.id} className="group rounded bg-secondary/30 p-2 text-xs">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-white">{comment.profiles?.username ?? 'Unknown'}</span>
+                  <div className="flex items-center gap-1">
+                    <span className="text-white/50" title={new Date(comment.created_at).toLocaleString()}>
+                      {timeAgo(comment.created_at)}
+                    </span>
+                    {comment.user_id === user?.id && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-5 w-5 p-0 opacity-0 group-hover:opacity-100"
+                        onClick={() => handleDeleteComment(comment.id)}
+                        aria-label="Delete comment"
+                      >
+                        <Trash2 className="h-3 w-3 text-destructive" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <p className="mt-1 whitespace-pre-wrap break-words text-white/80">{comment.content}</p>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex items-end gap-2">
+          <Textarea
+            value={newComment}
+            onChange={(e) => setNewComment(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleSendComment();
+              }
+            }}
+            placeholder="Write a comment... (Shift+Enter for a new line)"
+            rows={2}
+            className="min-h-0 text-xs"
+          />
+          <Button
+            size="icon"
+            onClick={handleSendComment}
+            disabled={sending || !newComment.trim()}
+            aria-label="Post comment"
+          >
+            <Send className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
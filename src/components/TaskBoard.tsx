@@ -0,0 +1,252 @@
+import { useState } from 'react';
+import { ArrowLeft, ArrowRight, CheckCircle2, Edit, Flag, MoreHorizontal, Plus, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { BoardColumn, BoardTask, getColumnTasks } from '@/lib/task-board';
+
+interface TaskBoardProps<T extends BoardTask> {
+  tasks: T[];
+  columns: BoardColumn[];
+  currentUserId?: string;
+  /** who may change a task; defaults to its creator */
+  canEditTask?: (task: T) => boolean;
+  onMoveTask: (task: T, columnId: string, index: number) => void;
+  onToggleTask: (task: T) => void;
+  onEditTask: (task: T) => void;
+  onAddColumn: (name: string) => void;
+  onRenameColumn: (column: BoardColumn, name: string) => void;
+  onDeleteColumn: (column: BoardColumn) => void;
+  onMoveColumn: (column: BoardColumn, direction: -1 | 1) => void;
+  onSetTerminalColumn: (column: BoardColumn) => void;
+  /** optional extra content rendered at the bottom of each card */
+  renderCardFooter?: (task: T) => React.ReactNode;
+}
+
+export function TaskBoard<T extends BoardTask>({
+  tasks,
+  columns,
+  currentUserId,
+  canEditTask,
+  onMoveTask,
+  onToggleTask,
+  onEditTask,
+  onAddColumn,
+  onRenameColumn,
+  onDeleteColumn,
+  onMoveColumn,
+  onSetTerminalColumn,
+  renderCardFooter,
+}: TaskBoardProps<T>) {
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ columnId: string; index: number } | null>(null);
+  const [renamingColumnId, setRenamingColumnId] = useState<string | null>(null);
+  const [columnName, setColumnName] = useState('');
+  const [newColumnName, setNewColumnName] = useState('');
+
+  const handleDragOver = (e: React.DragEvent, columnId: string, index: number) => {
+    if (!draggedTaskId) return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (dropTarget?.columnId !== columnId || dropTarget.index !== index) {
+      setDropTarget({ columnId, index });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const task = tasks.find(t => t.id === draggedTaskId);
+    if (task && dropTarget) {
+      onMoveTask(task, dropTarget.columnId, dropTarget.index);
+    }
+    setDraggedTaskId(null);
+    setDropTarget(null);
+  };
+
+  const submitRename = (column: BoardColumn) => {
+    if (columnName.trim() && columnName.trim() !== column.name) {
+      onRenameColumn(column, columnName.trim());
+    }
+    setRenamingColumnId(null);
+  };
+
+  const submitNewColumn = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newColumnName.trim()) return;
+    onAddColumn(newColumnName.trim());
+    setNewColumnName('');
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4">
+      {columns.map((column, columnIndex) => {
+        const columnTasks = getColumnTasks(tasks, columns, column.id);
+        const isDropColumn = dropTarget?.columnId === column.id;
+
+        return (
+          <div
+            key={column.id}
+            className={`flex-shrink-0 w-72 rounded-lg bg-secondary/30 p-3 transition ${isDropColumn ? 'ring-2 ring-accent' : ''}`}
+            onDragOver={(e) => handleDragOver(e, column.id, isDropColumn ? dropTarget.index : columnTasks.length)}
+            onDrop={handleDrop}
+          >
+            <div className="flex items-center justify-between gap-2 mb-3">
+              {renamingColumnId === column.id ? (
+                <Input
+                  autoFocus
+                  value={columnName}
+                  onChange={(e) => setColumnName(e.target.value)}
+                  onBlur={() => submitRename(column)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') submitRename(column);
+                    if (e.key === 'Escape') setRenamingColumnId(null);
+                  }}
+                  className="h-8"
+                  aria-label="Column name"
+                />
+              ) : (
+                <div className="flex items-center gap-2 min-w-0">
+                  <h3 className="font-semibold truncate">{column.name}</h3>
+                  {column.is_terminal && <CheckCircle2 className="h-4 w-4 text-accent flex-shrink-0" />}
+                  <Badge variant="secondary" className="text-xs">{columnTasks.length}</Badge>
+                </div>
+              )}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button size="icon" variant="ghost" className="h-7 w-7" aria-label={`${column.name} column options`}>
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => { setRenamingColumnId(column.id); setColumnName(column.name); }}>
+                    <Edit className="h-4 w-4 mr-2" />
+                    Rename
+                  </DropdownMenuItem>
+                  {!column.is_terminal && (
+                    <DropdownMenuItem onClick={() => onSetTerminalColumn(column)}>
+                      <Flag className="h-4 w-4 mr-2" />
+                      Use as "done" column
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem disabled={columnIndex === 0} onClick={() => onMoveColumn(column, -1)}>
+                    <ArrowLeft className="h-4 w-4 mr-2" />
+                    Move left
+                  </DropdownMenuItem>
+                  <DropdownMenuItem disabled={columnIndex === columns.length - 1} onClick={() => onMoveColumn(column, 1)}>
+                    <ArrowRight className="h-4 w-4 mr-2" />
+                    Move right
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    disabled={columns.length <= 1}
+                    onClick={() => onDeleteColumn(column)}
+                    className="text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete column
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+
+            <div className="space-y-2 min-h-[60px]">
+              {columnTasks.map((task, index) => {
+                const canEdit = canEditTask ? canEditTask(task) : task.user_id === currentUserId;
+                return (
+                  <div key={task.id}>
+                    {isDropColumn && dropTarget.index === index && draggedTaskId !== task.id && (
+                      <div className="h-1 rounded bg-accent mb-2" />
+                    )}
+                    <Card
+                      draggable={canEdit}
+                      onDragStart={(e) => {
+                        setDraggedTaskId(task.id);
+                        e.dataTransfer.effectAllowed = 'move';
+                      }}
+                      onDragEnd={() => {
+                        setDraggedTaskId(null);
+                        setDropTarget(null);
+                      }}
+                      onDragOver={(e) => {
+                        const rect = e.currentTarget.getBoundingClientRect();
+                        const after = e.clientY > rect.top + rect.height / 2;
+                        handleDragOver(e, column.id, after ? index + 1 : index);
+                      }}
+                      className={`shadow-card transition-smooth ${canEdit ? 'cursor-grab active:cursor-grabbing' : ''} ${
+                        draggedTaskId === task.id ? 'opacity-50' : ''
+                      }`}
+                    >
+                      <CardContent className="p-3 space-y-2">
+                        <div className="flex items-start gap-2">
+                          <Checkbox
+                            checked={task.completed}
+                            disabled={!canEdit}
+                            onCheckedChange={() => onToggleTask(task)}
+                            aria-label={`Mark ${task.title} ${task.completed ? 'incomplete' : 'complete'}`}
+                            className="mt-0.5"
+                          />
+                          <p className={`flex-1 text-sm font-medium break-words ${task.completed ? 'line-through text-muted-foreground' : ''}`}>
+                            {task.title}
+                          </p>
+                          {canEdit && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-6 w-6"
+                              onClick={() => onEditTask(task)}
+                              aria-label="Edit Task"
+                            >
+                              <Edit className="h-3 w-3" />
+                            </Button>
+                          )}
+                        </div>
+                        {task.due_date && (
+                          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                            <span>Due {new Date(task.due_date).toLocaleDateString()}</span>
+                            {new Date(task.due_date) < new Date() && !task.completed && (
+                              <Badge variant="destructive" className="text-xs">Overdue</Badge>
+                            )}
+                          </div>
+                        )}
+                        {renderCardFooter?.(task)}
+                      </CardContent>
+                    </Card>
+                  </div>
+                );
+              })}
+              {isDropColumn && dropTarget.index >= columnTasks.length && (
+                <div className="h-1 rounded bg-accent" />
+              )}
+              {columnTasks.length === 0 && !isDropColumn && (
+                <p className="text-xs text-muted-foreground text-center py-4">Drop tasks here</p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      <form onSubmit={submitNewColumn} className="flex-shrink-0 w-72 rounded-lg border-2 border-dashed border-muted-foreground/30 p-3 space-y-2 h-fit">
+        <Input
+          placeholder="New column name"
+          value={newColumnName}
+          onChange={(e) => setNewColumnName(e.target.value)}
+          aria-label="New column name"
+        />
+        <Button type="submit" size="sm" variant="outline" className="w-full gap-2" disabled={!newColumnName.trim()}>
+          <Plus className="h-4 w-4" />
+          Add Column
+        </Button>
+      </form>
+    </div>
+  );
+}
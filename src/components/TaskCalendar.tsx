@@ -0,0 +1,276 @@
+import { useMemo, useRef, useState } from 'react';
+import { DayProps } from 'react-day-picker';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfWeek,
+  format,
+  isBefore,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  startOfDay,
+  startOfWeek,
+} from 'date-fns';
+import { CalendarDays, CheckCircle2, ChevronLeft, ChevronRight, Circle, List } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+
+export interface CalendarTask {
+  id: string;
+  title: string;
+  completed: boolean;
+  due_date: string | null;
+  user_id: string;
+}
+
+type CalendarView = 'month' | 'week' | 'agenda';
+
+interface TaskCalendarProps<T extends CalendarTask> {
+  tasks: T[];
+  currentUserId?: string;
+  /** who may change a task; defaults to its creator */
+  canEditTask?: (task: T) => boolean;
+  onReschedule: (task: T, date: Date) => void;
+  onToggleTask: (task: T) => void;
+  onEditTask: (task: T) => void;
+}
+
+const AGENDA_DAYS = 30;
+
+const isOverdue = (task: CalendarTask) =>
+  !task.completed && Boolean(task.due_date) && new Date(task.due_date) < new Date();
+
+export function TaskCalendar<T extends CalendarTask>({
+  tasks,
+  currentUserId,
+  canEditTask,
+  onReschedule,
+  onToggleTask,
+  onEditTask,
+}: TaskCalendarProps<T>) {
+  const [view, setView] = useState<CalendarView>('month');
+  const [cursor, setCursor] = useState(() => new Date());
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+  const [dropDay, setDropDay] = useState<Date | null>(null);
+
+  const datedTasks = useMemo(
+    () => tasks
+      .filter(t => t.due_date)
+      .sort((a, b) => new Date(a.due_date).getTime() - new Date(b.due_date).getTime()),
+    [tasks]
+  );
+
+  const tasksOn = (day: Date) => datedTasks.filter(t => isSameDay(new Date(t.due_date), day));
+
+  const dropHandlers = (day: Date) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!draggedTaskId) return;
+      e.preventDefault();
+      if (!dropDay || !isSameDay(dropDay, day)) setDropDay(day);
+    },
+    onDragLeave: () => setDropDay(null),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      const task = tasks.find(t => t.id === draggedTaskId);
+      if (task && !isSameDay(new Date(task.due_date), day)) {
+        onReschedule(task, day);
+      }
+      setDraggedTaskId(null);
+      setDropDay(null);
+    },
+  });
+
+  const renderChip = (task: T, compact = false) => {
+    const canEdit = canEditTask ? canEditTask(task) : task.user_id === currentUserId;
+    const overdue = isOverdue(task);
+    return (
+      <div
+        key={task.id}
+        draggable={canEdit}
+        onDragStart={(e) => {
+          setDraggedTaskId(task.id);
+          e.dataTransfer.effectAllowed = 'move';
+        }}
+        onDragEnd={() => {
+          setDraggedTaskId(null);
+          setDropDay(null);
+        }}
+        onClick={() => canEdit && onEditTask(task)}
+        title={`${task.title} — ${new Date(task.due_date).toLocaleString()}`}
+        className={`flex items-center gap-1 rounded border px-1.5 py-0.5 text-xs text-left ${
+          canEdit ? 'cursor-grab active:cursor-grabbing' : ''
+        } ${
+          task.completed
+            ? 'border-transparent bg-muted text-muted-foreground line-through opacity-60'
+            : overdue
+              ? 'border-destructive bg-destructive/20 text-destructive'
+              : 'border-accent/40 bg-accent/20'
+        } ${draggedTaskId === task.id ? 'opacity-40' : ''}`}
+      >
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            if (canEdit) onToggleTask(task);
+          }}
+          aria-label={`Mark ${task.title} ${task.completed ? 'incomplete' : 'complete'}`}
+          className="flex-shrink-0"
+        >
+          {task.completed ? <CheckCircle2 className="h-3 w-3" /> : <Circle className="h-3 w-3" />}
+        </button>
+        {!compact && <span className="flex-shrink-0 opacity-70">{format(new Date(task.due_date), 'HH:mm')}</span>}
+        <span className="truncate">{task.title}</span>
+      </div>
+    );
+  };
+
+  const renderDayCell = (day: Date, outside: boolean, minHeight: string) => {
+    const dayTasks = tasksOn(day);
+    const isDropTarget = dropDay && isSameDay(dropDay, day);
+    return (
+      <div
+        {...dropHandlers(day)}
+        className={`h-full ${minHeight} p-1 space-y-1 text-left transition ${outside ? 'opacity-50' : ''} ${
+          isDropTarget ? 'bg-accent/20 ring-2 ring-inset ring-accent' : ''
+        }`}
+      >
+        <div className={`text-xs font-medium ${isToday(day) ? 'inline-flex h-5 w-5 items-center justify-center rounded-full bg-accent text-accent-foreground' : 'text-muted-foreground'}`}>
+          {format(day, 'd')}
+        </div>
+        {dayTasks.map(task => renderChip(task, true))}
+      </div>
+    );
+  };
+
+  // DayPicker remounts days whenever the Day component changes identity, which
+  // would cancel an in-progress drag, so keep it stable and read the latest renderer
+  const renderDayCellRef = useRef(renderDayCell);
+  renderDayCellRef.current = renderDayCell;
+  const monthComponents = useMemo(() => ({
+    Day: ({ date, displayMonth }: DayProps) =>
+      renderDayCellRef.current(date, !isSameMonth(date, displayMonth), 'min-h-[96px]'),
+  }), []);
+
+  const weekDays = eachDayOfInterval({ start: startOfWeek(cursor), end: endOfWeek(cursor) });
+
+  const agendaGroups = useMemo(() => {
+    const today = startOfDay(new Date());
+    const overdue = datedTasks.filter(t => isOverdue(t) && isBefore(new Date(t.due_date), today));
+    const days = eachDayOfInterval({ start: today, end: addDays(today, AGENDA_DAYS - 1) })
+      .map(day => ({ day, tasks: datedTasks.filter(t => isSameDay(new Date(t.due_date), day)) }))
+      .filter(group => group.tasks.length > 0);
+    return { overdue, days };
+  }, [datedTasks]);
+
+  const shift = (direction: -1 | 1) => {
+    setCursor(view === 'week' ? addWeeks(cursor, direction) : addMonths(cursor, direction));
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            {view !== 'agenda' && (
+              <>
+                <Button size="icon" variant="outline" className="h-8 w-8" onClick={() => shift(-1)} aria-label="Previous">
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="outline" className="h-8 w-8" onClick={() => shift(1)} aria-label="Next">
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+            <Button size="sm" variant="ghost" onClick={() => setCursor(new Date())}>Today</Button>
+            <h2 className="font-semibold">
+              {view === 'month' && format(cursor, 'MMMM yyyy')}
+              {view === 'week' && `${format(weekDays[0], 'MMM d')} – ${format(weekDays[6], 'MMM d, yyyy')}`}
+              {view === 'agenda' && `Next ${AGENDA_DAYS} days`}
+            </h2>
+          </div>
+          <Tabs value={view} onValueChange={(v) => setView(v as CalendarView)}>
+            <TabsList>
+              <TabsTrigger value="month" className="gap-2">
+                <CalendarDays className="h-4 w-4" />
+                Month
+              </TabsTrigger>
+              <TabsTrigger value="week">Week</TabsTrigger>
+              <TabsTrigger value="agenda" className="gap-2">
+                <List className="h-4 w-4" />
+                Agenda
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+
+        {view === 'month' && (
+          <Calendar
+            month={cursor}
+            onMonthChange={setCursor}
+            className="p-0"
+            classNames={{
+              months: 'w-full',
+              month: 'w-full',
+              caption: 'hidden',
+              nav: 'hidden',
+              table: 'w-full border-collapse table-fixed',
+              head_row: '',
+              head_cell: 'text-muted-foreground font-normal text-xs pb-2',
+              row: 'border-t border-border',
+              cell: 'p-0 align-top border-l border-border first:border-l-0',
+            }}
+            components={monthComponents}
+          />
+        )}
+
+        {view === 'week' && (
+          <div className="grid grid-cols-1 sm:grid-cols-7 border border-border rounded-md divide-y sm:divide-y-0 sm:divide-x divide-border">
+            {weekDays.map(day => (
+              <div key={day.toISOString()}>
+                <div className="px-2 py-1 text-xs text-muted-foreground border-b border-border">{format(day, 'EEE')}</div>
+                {renderDayCell(day, false, 'min-h-[240px]')}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {view === 'agenda' && (
+          <div className="space-y-4">
+            {agendaGroups.overdue.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <h3 className="text-sm font-semibold text-destructive">Overdue</h3>
+                  <Badge variant="destructive" className="text-xs">{agendaGroups.overdue.length}</Badge>
+                </div>
+                <div className="grid gap-1">{agendaGroups.overdue.map(task => renderChip(task))}</div>
+              </div>
+            )}
+            {agendaGroups.days.map(group => (
+              <div key={group.day.toISOString()} className="space-y-2">
+                <h3 className={`text-sm font-semibold ${isToday(group.day) ? 'text-accent' : ''}`}>
+                  {isToday(group.day) ? 'Today' : format(group.day, 'EEEE, MMM d')}
+                </h3>
+                <div className="grid gap-1">{group.tasks.map(task => renderChip(task))}</div>
+              </div>
+            ))}
+            {agendaGroups.overdue.length === 0 && agendaGroups.days.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-8">Nothing due in the next {AGENDA_DAYS} days</p>
+            )}
+          </div>
+        )}
+
+        {datedTasks.length < tasks.length && (
+          <p className="text-xs text-muted-foreground">
+            {tasks.length - datedTasks.length} task(s) without a due date are not shown. Edit a task to schedule it.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
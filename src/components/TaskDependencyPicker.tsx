@@ -0,0 +1,95 @@
+import { Check, Link2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { TaskDependency, wouldCreateCycle } from '@/lib/task-dependencies';
+
+interface PickerTask {
+  id: string;
+  title: string;
+  completed: boolean;
+}
+
+interface TaskDependencyPickerProps<T extends PickerTask> {
+  tasks: T[];
+  /** task being edited, null while creating a new one */
+  taskId: string | null;
+  dependencies: TaskDependency[];
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+}
+
+export function TaskDependencyPicker<T extends PickerTask>({
+  tasks,
+  taskId,
+  dependencies,
+  selectedIds,
+  onChange,
+}: TaskDependencyPickerProps<T>) {
+  const selected = tasks.filter(t => selectedIds.includes(t.id));
+
+  // A new task has no dependents yet, so only an existing task can close a loop
+  const isAllowed = (candidate: T) =>
+    !taskId || (candidate.id !== taskId && !wouldCreateCycle(dependencies, taskId, candidate.id));
+
+  const toggle = (id: string) => {
+    onChange(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {selected.map(task => (
+        <Badge key={task.id} variant="secondary" className={`gap-1 text-xs ${task.completed ? 'line-through opacity-60' : ''}`}>
+          {task.title}
+          <button type="button" onClick={() => toggle(task.id)} aria-label={`Remove blocker ${task.title}`}>
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button type="button" size="sm" variant="outline" className="gap-2 h-7">
+            <Link2 className="h-3 w-3" />
+            {selected.length > 0 ? 'Edit blockers' : 'Add blocker'}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Search tasks..." />
+            <CommandList>
+              <CommandEmpty>No tasks found.</CommandEmpty>
+              <CommandGroup>
+                {tasks.filter(t => t.id !== taskId).map(task => {
+                  const allowed = isAllowed(task) || selectedIds.includes(task.id);
+                  return (
+                    <CommandItem
+                      key={task.id}
+                      value={`${task.title} ${task.id}`}
+                      disabled={!allowed}
+                      onSelect={() => toggle(task.id)}
+                      className="gap-2"
+                    >
+                      <Check className={`h-4 w-4 ${selectedIds.includes(task.id) ? 'opacity-100' : 'opacity-0'}`} />
+                      <span className={`flex-1 truncate ${task.completed ? 'line-through text-muted-foreground' : ''}`}>
+                        {task.title}
+                      </span>
+                      {!allowed && <span className="text-xs text-muted-foreground">would loop</span>}
+                    </CommandItem>
+                  );
+                })}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,516 @@
+import { useMemo, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle2, Copy, FileUp, Upload, XCircle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ColumnMapping,
+  detectImportFormat,
+  findDuplicates,
+  guessColumnMapping,
+  IMPORT_FIELDS,
+  ImportedTask,
+  ImportFormat,
+  ImportRow,
+  mapCSVRows,
+  parseCSV,
+  parseICS,
+  parseTaskJSON,
+  parseTodoistCSV,
+} from '@/lib/task-import';
+import { LABEL_COLORS, TaskLabel } from '@/lib/task-labels';
+
+interface TaskImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** tasks already in the list, for duplicate detection */
+  existingTasks: { title: string; due_date: string | null; parent_id: string | null }[];
+  labels: TaskLabel[];
+  onImported: () => void;
+}
+
+type ImportStep = 'upload' | 'mapping' | 'preview' | 'report';
+
+interface ReportEntry {
+  source: number;
+  title: string;
+  status: 'imported' | 'skipped' | 'failed';
+  message?: string;
+}
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  json: 'StudySpace JSON export',
+  csv: 'CSV (map columns)',
+  todoist: 'Todoist CSV',
+  ics: 'iCalendar (VTODO)',
+};
+
+/** Rows sent to Supabase per insert request */
+const BATCH_SIZE = 50;
+
+const countSubtasks = (task: ImportedTask): number =>
+  task.subtasks.reduce((sum, sub) => sum + 1 + countSubtasks(sub), 0);
+
+export function TaskImportDialog({ open, onOpenChange, existingTasks, labels, onImported }: TaskImportDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [fileText, setFileText] = useState('');
+  const [format, setFormat] = useState<ImportFormat>('csv');
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [report, setReport] = useState<ReportEntry[]>([]);
+
+  const duplicates = useMemo(() => findDuplicates(rows, existingTasks), [rows, existingTasks]);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setFileText('');
+    setCsvRows([]);
+    setMapping(null);
+    setRows([]);
+    setSelected(new Set());
+    setProgress({ done: 0, total: 0 });
+    setReport([]);
+  };
+
+  // Parse the file and go to the preview (or the column mapping for generic CSV)
+  const readFile = (text: string, nextFormat: ImportFormat) => {
+    try {
+      if (nextFormat === 'csv') {
+        const parsed = parseCSV(text);
+        if (parsed.length < 2) throw new Error('The file needs a header row and at least one task');
+        setCsvRows(parsed);
+        setMapping(guessColumnMapping(parsed[0]));
+        setStep('mapping');
+        return;
+      }
+      const parsedRows = nextFormat === 'json' ? parseTaskJSON(text)
+        : nextFormat === 'todoist' ? parseTodoistCSV(text)
+        : parseICS(text);
+      if (parsedRows.length === 0) throw new Error('No tasks found in this file');
+      showPreview(parsedRows);
+    } catch (err) {
+      toast({
+        title: 'Could not read file',
+        description: (err as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const showPreview = (parsedRows: ImportRow[]) => {
+    const dupes = findDuplicates(parsedRows, existingTasks);
+    setRows(parsedRows);
+    // Valid, non-duplicate rows are selected by default
+    setSelected(new Set(parsedRows.filter(r => r.task && !dupes.has(r.source)).map(r => r.source)));
+    setStep('preview');
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    const detected = detectImportFormat(file.name, text);
+    setFileName(file.name);
+    setFileText(text);
+    setFormat(detected);
+    readFile(text, detected);
+  };
+
+  const toggleRow = (source: number) => {
+    const next = new Set(selected);
+    if (next.has(source)) {
+      next.delete(source);
+    } else {
+      next.add(source);
+    }
+    setSelected(next);
+  };
+
+  // Find or create every label used by the imported tasks
+  const resolveLabels = async (names: string[]) => {
+    const byName = new Map(labels.map(l => [l.name.toLowerCase(), l.id]));
+    const missing = Array.from(new Set(names.map(n => n.trim()).filter(n => n && !byName.has(n.toLowerCase()))));
+    if (missing.length > 0) {
+      const { data } = await supabase
+        .from('task_labels')
+        .insert(missing.map((name, i) => ({ user_id: user?.id, name, color: LABEL_COLORS[i % LABEL_COLORS.length] })))
+        .select('id, name');
+      (data || []).forEach(l => byName.set(l.name.toLowerCase(), l.id));
+    }
+    return byName;
+  };
+
+  const toInsert = (task: ImportedTask, parentId: string | null, position: number) => ({
+    user_id: user?.id,
+    title: task.title,
+    description: task.description,
+    due_date: task.due_date,
+    completed: task.completed,
+    priority: task.priority,
+    subject: task.subject,
+    recurrence_rule: task.recurrence_rule,
+    parent_id: parentId,
+    position,
+  });
+
+  /**
+   * Insert tasks in one request, falling back to one request per task when the
+   * batch fails so a single bad row does not sink the others
+   * @returns The new id of every task, or the error message for it
+   */
+  const insertBatch = async (tasks: ImportedTask[], parentId: string | null, firstPosition: number) => {
+    const payload = tasks.map((task, i) => toInsert(task, parentId, firstPosition + i));
+    const { data, error } = await supabase.from('tasks').insert(payload).select('id');
+    if (!error && data && data.length === tasks.length) {
+      return data.map(row => ({ id: row.id as string, error: null as string | null }));
+    }
+
+    const results: { id: string | null; error: string | null }[] = [];
+    for (const item of payload) {
+      const single = await supabase.from('tasks').insert(item).select('id').single();
+      results.push(single.error ? { id: null, error: single.error.message } : { id: single.data.id, error: null });
+    }
+    return results;
+  };
+
+  const handleImport = async () => {
+    const chosen = rows.filter(r => r.task && selected.has(r.source));
+    if (chosen.length === 0) return;
+
+    setImporting(true);
+    const total = chosen.reduce((sum, r) => sum + 1 + countSubtasks(r.task), 0);
+    let done = 0;
+    setProgress({ done, total });
+
+    const allLabels: string[] = [];
+    const collectLabels = (task: ImportedTask) => {
+      allLabels.push(...task.labels);
+      task.subtasks.forEach(collectLabels);
+    };
+    chosen.forEach(r => collectLabels(r.task));
+    const labelIds = await resolveLabels(allLabels);
+    const assignments: { task_id: string; label_id: string }[] = [];
+
+    const entries: ReportEntry[] = rows
+      .filter(r => !selected.has(r.source) || !r.task)
+      .map(r => ({
+        source: r.source,
+        title: r.task?.title ?? '—',
+        status: r.task ? 'skipped' : 'failed',
+        message: r.error ?? duplicates.get(r.source) ?? 'Not selected',
+      }));
+
+    const assignLabels = (task: ImportedTask, taskId: string) => {
+      task.labels.forEach(name => {
+        const labelId = labelIds.get(name.trim().toLowerCase());
+        if (labelId) assignments.push({ task_id: taskId, label_id: labelId });
+      });
+    };
+
+    // Subtasks go in after their parent so they can point at its new id
+    const insertChildren = async (parent: ImportedTask, parentId: string, row: ImportRow, failures: string[]) => {
+      if (parent.subtasks.length === 0) return;
+      const results = await insertBatch(parent.subtasks, parentId, 0);
+      done += parent.subtasks.length;
+      setProgress({ done, total });
+      for (let i = 0; i < parent.subtasks.length; i++) {
+        const child = parent.subtasks[i];
+        const result = results[i];
+        if (result.id) {
+          assignLabels(child, result.id);
+          await insertChildren(child, result.id, row, failures);
+        } else {
+          failures.push(`Subtask "${child.title}": ${result.error}`);
+          done += countSubtasks(child);
+        }
+      }
+    };
+
+    let position = existingTasks.filter(t => t.parent_id === null).length;
+    for (let start = 0; start < chosen.length; start += BATCH_SIZE) {
+      const batch = chosen.slice(start, start + BATCH_SIZE);
+      const results = await insertBatch(batch.map(r => r.task), null, position);
+      position += batch.length;
+      done += batch.length;
+      setProgress({ done, total });
+
+      for (let i = 0; i < batch.length; i++) {
+        const row = batch[i];
+        const result = results[i];
+        if (!result.id) {
+          entries.push({ source: row.source, title: row.task.title, status: 'failed', message: result.error ?? 'Insert failed' });
+          done += countSubtasks(row.task);
+          continue;
+        }
+        assignLabels(row.task, result.id);
+        const failures: string[] = [];
+        await insertChildren(row.task, result.id, row, failures);
+        entries.push({
+          source: row.source,
+          title: row.task.title,
+          status: 'imported',
+          message: failures.length > 0 ? failures.join('; ') : undefined,
+        });
+      }
+    }
+
+    for (let start = 0; start < assignments.length; start += BATCH_SIZE) {
+      await supabase.from('task_label_assignments').insert(assignments.slice(start, start + BATCH_SIZE));
+    }
+
+    setReport(entries.sort((a, b) => a.source - b.source));
+    setImporting(false);
+    setStep('report');
+    onImported();
+
+    const imported = entries.filter(e => e.status === 'imported').length;
+    toast({
+      title: 'Import finished',
+      description: `${imported} of ${rows.length} row(s) imported`,
+    });
+  };
+
+  const validCount = rows.filter(r => r.task).length;
+  const selectedCount = rows.filter(r => r.task && selected.has(r.source)).length;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      if (importing) return;
+      if (!isOpen) reset();
+      onOpenChange(isOpen);
+    }}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Tasks</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Import from a StudySpace JSON export, a CSV file, a Todoist CSV export or an iCalendar (.ics) file.'}
+            {step === 'mapping' && `Choose which columns of ${fileName} hold each task field.`}
+            {step === 'preview' && `${validCount} of ${rows.length} row(s) in ${fileName} can be imported. Duplicates are unselected.`}
+            {step === 'report' && 'Import report'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div
+            className="border-2 border-dashed rounded-lg p-8 text-center cursor-pointer hover:bg-secondary/30 transition"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <FileUp className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+            <p className="font-medium">Choose a file to import</p>
+            <p className="text-sm text-muted-foreground">.json, .csv or .ics</p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.csv,.ics,application/json,text/csv,text/calendar"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+          </div>
+        )}
+
+        {(step === 'mapping' || step === 'preview') && (
+          <div className="flex items-center gap-2 text-sm">
+            <Label htmlFor="import-format">Format</Label>
+            <Select
+              value={format}
+              onValueChange={(v) => {
+                setFormat(v as ImportFormat);
+                readFile(fileText, v as ImportFormat);
+              }}
+            >
+              <SelectTrigger id="import-format" className="w-[220px] h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(FORMAT_LABELS) as ImportFormat[]).map(f => (
+                  <SelectItem key={f} value={f}>{FORMAT_LABELS[f]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {step === 'mapping' && mapping && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {IMPORT_FIELDS.map(({ field, label }) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`map-${field}`}>{label}{field === 'title' && ' *'}</Label>
+                  <Select
+                    value={String(mapping[field])}
+                    onValueChange={(v) => setMapping({ ...mapping, [field]: parseInt(v, 10) })}
+                  >
+                    <SelectTrigger id={`map-${field}`} className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="-1">Don't import</SelectItem>
+                      {csvRows[0].map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={reset}>Back</Button>
+              <Button
+                onClick={() => showPreview(mapCSVRows(csvRows.slice(1), mapping))}
+                disabled={mapping.title < 0}
+              >
+                Preview
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="max-h-[50vh] overflow-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead className="w-12">Row</TableHead>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Due</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => (
+                    <TableRow key={row.source} className={row.task ? '' : 'opacity-60'}>
+                      <TableCell>
+                        <Checkbox
+                          checked={Boolean(row.task) && selected.has(row.source)}
+                          disabled={!row.task}
+                          onCheckedChange={() => toggleRow(row.source)}
+                          aria-label={`Import row ${row.source}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{row.source}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{row.task?.title ?? '—'}</div>
+                        {row.task && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {row.task.completed && <Badge variant="secondary" className="text-xs">Completed</Badge>}
+                            {row.task.priority && <Badge variant="outline" className="text-xs capitalize">{row.task.priority}</Badge>}
+                            {row.task.recurrence_rule && <Badge variant="outline" className="text-xs">Repeats</Badge>}
+                            {row.task.labels.map(l => <Badge key={l} variant="outline" className="text-xs">{l}</Badge>)}
+                            {row.task.subtasks.length > 0 && (
+                              <Badge variant="outline" className="text-xs">{countSubtasks(row.task)} subtask(s)</Badge>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs whitespace-nowrap">
+                        {row.task?.due_date ? new Date(row.task.due_date).toLocaleString() : ''}
+                      </TableCell>
+                      <TableCell>
+                        {row.error ? (
+                          <span className="flex items-center gap-1 text-xs text-destructive">
+                            <AlertCircle className="h-3 w-3 flex-shrink-0" />
+                            {row.error}
+                          </span>
+                        ) : duplicates.has(row.source) ? (
+                          <span className="flex items-center gap-1 text-xs text-yellow-600">
+                            <Copy className="h-3 w-3 flex-shrink-0" />
+                            {duplicates.get(row.source)}
+                          </span>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">Ready</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {importing && (
+              <div className="space-y-1">
+                <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} />
+                <p className="text-xs text-muted-foreground">{progress.done} / {progress.total} tasks</p>
+              </div>
+            )}
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={reset} disabled={importing}>Back</Button>
+              <Button onClick={handleImport} disabled={importing || selectedCount === 0} className="gap-2">
+                <Upload className="h-4 w-4" />
+                {importing ? 'Importing...' : `Import ${selectedCount} task(s)`}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'report' && (
+          <div className="space-y-4">
+            <div className="flex gap-2 text-sm">
+              <Badge variant="secondary">{report.filter(e => e.status === 'imported').length} imported</Badge>
+              <Badge variant="outline">{report.filter(e => e.status === 'skipped').length} skipped</Badge>
+              <Badge variant="destructive">{report.filter(e => e.status === 'failed').length} failed</Badge>
+            </div>
+            <div className="max-h-[50vh] overflow-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Row</TableHead>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.map(entry => (
+                    <TableRow key={entry.source}>
+                      <TableCell className="text-muted-foreground">{entry.source}</TableCell>
+                      <TableCell>{entry.title}</TableCell>
+                      <TableCell>
+                        <span className={`flex items-center gap-1 text-xs ${
+                          entry.status === 'failed' ? 'text-destructive' : entry.status === 'skipped' ? 'text-muted-foreground' : ''
+                        }`}>
+                          {entry.status === 'imported' && <CheckCircle2 className="h-3 w-3 text-accent flex-shrink-0" />}
+                          {entry.status === 'failed' && <XCircle className="h-3 w-3 flex-shrink-0" />}
+                          <span className="capitalize">{entry.status}</span>
+                          {entry.message && <span>— {entry.message}</span>}
+                        </span>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={() => { reset(); onOpenChange(false); }}>Done</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
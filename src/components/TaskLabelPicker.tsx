@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { Check, Plus, Tag, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { getLabelStyle, LABEL_COLORS, TaskLabel } from '@/lib/task-labels';
+
+interface TaskLabelPickerProps {
+  labels: TaskLabel[];
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+  /** create a new label; resolves to the label, or null when it failed */
+  onCreateLabel: (name: string, color: string) => Promise<TaskLabel | null>;
+  onDeleteLabel?: (label: TaskLabel) => void;
+}
+
+export function TaskLabelPicker({ labels, selectedIds, onChange, onCreateLabel, onDeleteLabel }: TaskLabelPickerProps) {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(LABEL_COLORS[0]);
+  const [creating, setCreating] = useState(false);
+
+  const selected = labels.filter(label => selectedIds.includes(label.id));
+
+  const toggle = (id: string) => {
+    onChange(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+  };
+
+  const handleCreate = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const existing = labels.find(label => label.name.toLowerCase() === trimmed.toLowerCase());
+    if (existing) {
+      if (!selectedIds.includes(existing.id)) onChange([...selectedIds, existing.id]);
+      setName('');
+      return;
+    }
+    setCreating(true);
+    const label = await onCreateLabel(trimmed, color);
+    setCreating(false);
+    if (label) {
+      onChange([...selectedIds, label.id]);
+      setName('');
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {selected.map(label => (
+        <Badge key={label.id} variant="outline" className="gap-1 text-xs" style={getLabelStyle(label.color)}>
+          {label.name}
+          <button type="button" onClick={() => toggle(label.id)} aria-label={`Remove label ${label.name}`}>
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button type="button" size="sm" variant="outline" className="gap-2 h-7">
+            <Tag className="h-3 w-3" />
+            {selected.length > 0 ? 'Edit labels' : 'Add labels'}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 space-y-3" align="start">
+          <div className="max-h-48 overflow-y-auto space-y-1">
+            {labels.length === 0 && (
+              <p className="text-xs text-muted-foreground">No labels yet. Create one below.</p>
+            )}
+            {labels.map(label => (
+              <div key={label.id} className="group flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => toggle(label.id)}
+                  className="flex flex-1 items-center gap-2 rounded px-2 py-1 text-sm hover:bg-secondary text-left"
+                >
+                  <span className="h-3 w-3 rounded-full flex-shrink-0" style={{ backgroundColor: label.color }} />
+                  <span className="flex-1 truncate">{label.name}</span>
+                  {selectedIds.includes(label.id) && <Check className="h-4 w-4" />}
+                </button>
+                {onDeleteLabel && (
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                    onClick={() => onDeleteLabel(label)}
+                    aria-label={`Delete label ${label.name}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2 border-t pt-3">
+            <div className="flex gap-2">
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleCreate();
+                  }
+                }}
+                placeholder="New label"
+                className="h-8"
+                aria-label="New label name"
+              />
+              <Button type="button" size="icon" className="h-8 w-8 flex-shrink-0" onClick={handleCreate} disabled={!name.trim() || creating} aria-label="Create label">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {LABEL_COLORS.map(c => (
+                <button
+                  key={c}
+                  type="button"
+                  onClick={() => setColor(c)}
+                  className={`h-5 w-5 rounded-full ${color === c ? 'ring-2 ring-offset-2 ring-offset-background ring-foreground' : ''}`}
+                  style={{ backgroundColor: c }}
+                  aria-label={`Use color ${c}`}
+                />
+              ))}
+            </div>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
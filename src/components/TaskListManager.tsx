@@ -0,0 +1,280 @@
+import { useCallback, useEffect, useState } from 'react';
+import { LogOut, Plus, Trash2, UserPlus, Users, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { getListRole, TaskList, TaskListMember } from '@/lib/task-lists';
+
+interface TaskListManagerProps {
+  lists: TaskList[];
+  members: TaskListMember[];
+  /** username per user id for owners and members */
+  usernames: Map<string, string>;
+  onChanged: () => void;
+}
+
+interface Friend {
+  id: string;
+  username: string;
+}
+
+export function TaskListManager({ lists, members, usernames, onChanged }: TaskListManagerProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [friends, setFriends] = useState<Friend[]>([]);
+  const [invite, setInvite] = useState<Record<string, { friendId: string; role: string }>>({});
+
+  // Only accepted friends can be invited
+  const fetchFriends = useCallback(async () => {
+    if (!user) return;
+    const { data } = await supabase
+      .from('friendships')
+      .select('user_id, friend_id')
+      .eq('status', 'accepted')
+      .or(`user_id.eq.${user.id},friend_id.eq.${user.id}`);
+    const ids = (data || []).map(f => (f.user_id === user.id ? f.friend_id : f.user_id));
+    if (ids.length === 0) {
+      setFriends([]);
+      return;
+    }
+    const { data: profiles } = await supabase.from('profiles').select('id, username').in('id', ids);
+    setFriends((profiles || []).sort((a, b) => a.username.localeCompare(b.username)));
+  }, [user]);
+
+  useEffect(() => {
+    if (open) fetchFriends();
+  }, [open, fetchFriends]);
+
+  const showError = (description: string) => {
+    toast({
+      title: 'Error',
+      description,
+      variant: 'destructive',
+    });
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+    const { error } = await supabase.from('task_lists').insert({ owner_id: user?.id, name: name.trim() });
+    if (error) {
+      showError('Failed to create list');
+      return;
+    }
+    setName('');
+    onChanged();
+  };
+
+  const handleDelete = async (list: TaskList) => {
+    if (!confirm(`Delete "${list.name}"? Its tasks go back to the people who created them.`)) return;
+    const { error } = await supabase.from('task_lists').delete().eq('id', list.id);
+    if (error) {
+      showError('Failed to delete list');
+      return;
+    }
+    onChanged();
+  };
+
+  const handleInvite = async (list: TaskList) => {
+    const choice = invite[list.id];
+    if (!choice?.friendId) return;
+    const { error } = await supabase
+      .from('task_list_members')
+      .insert({ list_id: list.id, user_id: choice.friendId, role: choice.role });
+    if (error) {
+      showError('Failed to invite friend');
+      return;
+    }
+    setInvite({ ...invite, [list.id]: { friendId: '', role: choice.role } });
+    toast({
+      title: 'Friend added',
+      description: `${usernames.get(choice.friendId) ?? friends.find(f => f.id === choice.friendId)?.username} can now see "${list.name}"`,
+    });
+    onChanged();
+  };
+
+  const handleRoleChange = async (member: TaskListMember, role: string) => {
+    const { error } = await supabase
+      .from('task_list_members')
+      .update({ role })
+      .eq('list_id', member.list_id)
+      .eq('user_id', member.user_id);
+    if (error) {
+      showError('Failed to change role');
+      return;
+    }
+    onChanged();
+  };
+
+  const handleRemove = async (member: TaskListMember, leaving: boolean) => {
+    const list = lists.find(l => l.id === member.list_id);
+    const prompt = leaving
+      ? `Leave "${list?.name}"? Tasks assigned to you there will be unassigned.`
+      : `Remove ${usernames.get(member.user_id) ?? 'this member'} from "${list?.name}"?`;
+    if (!confirm(prompt)) return;
+    const { error } = await supabase
+      .from('task_list_members')
+      .delete()
+      .eq('list_id', member.list_id)
+      .eq('user_id', member.user_id);
+    if (error) {
+      showError(leaving ? 'Failed to leave list' : 'Failed to remove member');
+      return;
+    }
+    onChanged();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Users className="h-4 w-4" />
+          Shared Lists
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Shared Task Lists</DialogTitle>
+          <DialogDescription>
+            Share a list with friends. Viewers see its tasks, editors can add and change them,
+            and anyone can tick off tasks assigned to them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder="New list, e.g. Biology group project"
+          />
+          <Button onClick={handleCreate} disabled={!name.trim()} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Create
+          </Button>
+        </div>
+
+        <div className="space-y-4">
+          {lists.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">No shared lists yet.</p>
+          )}
+          {lists.map(list => {
+            const role = getListRole(lists, members, list.id, user?.id);
+            const isOwner = role === 'owner';
+            const listMembers = members.filter(m => m.list_id === list.id);
+            const invitable = friends.filter(f => !listMembers.some(m => m.user_id === f.id));
+            const choice = invite[list.id] ?? { friendId: '', role: 'editor' };
+            const self = listMembers.find(m => m.user_id === user?.id);
+
+            return (
+              <div key={list.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <h3 className="font-semibold">{list.name}</h3>
+                    <p className="text-xs text-muted-foreground">
+                      {isOwner ? 'You own this list' : `Owned by ${usernames.get(list.owner_id) ?? 'unknown'}`}
+                    </p>
+                  </div>
+                  {isOwner ? (
+                    <Button size="icon" variant="ghost" onClick={() => handleDelete(list)} aria-label={`Delete ${list.name}`}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  ) : self && (
+                    <Button size="sm" variant="outline" className="gap-2" onClick={() => handleRemove(self, true)}>
+                      <LogOut className="h-4 w-4" />
+                      Leave
+                    </Button>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  {listMembers.map(member => (
+                    <div key={member.user_id} className="flex items-center justify-between gap-2 text-sm">
+                      <span>{usernames.get(member.user_id) ?? 'Unknown'}{member.user_id === user?.id && ' (you)'}</span>
+                      {isOwner ? (
+                        <div className="flex items-center gap-1">
+                          <Select value={member.role} onValueChange={(v) => handleRoleChange(member, v)}>
+                            <SelectTrigger className="h-7 w-[100px] text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="viewer">Viewer</SelectItem>
+                              <SelectItem value="editor">Editor</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7"
+                            onClick={() => handleRemove(member, false)}
+                            aria-label={`Remove ${usernames.get(member.user_id)}`}
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <Badge variant="outline" className="text-xs capitalize">{member.role}</Badge>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                {isOwner && (
+                  invitable.length > 0 ? (
+                    <div className="flex gap-2">
+                      <Select
+                        value={choice.friendId}
+                        onValueChange={(v) => setInvite({ ...invite, [list.id]: { ...choice, friendId: v } })}
+                      >
+                        <SelectTrigger className="h-8 flex-1">
+                          <SelectValue placeholder="Invite a friend" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {invitable.map(friend => (
+                            <SelectItem key={friend.id} value={friend.id}>{friend.username}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={choice.role}
+                        onValueChange={(v) => setInvite({ ...invite, [list.id]: { ...choice, role: v } })}
+                      >
+                        <SelectTrigger className="h-8 w-[100px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="viewer">Viewer</SelectItem>
+                          <SelectItem value="editor">Editor</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button size="sm" className="h-8 gap-2" onClick={() => handleInvite(list)} disabled={!choice.friendId}>
+                        <UserPlus className="h-4 w-4" />
+                        Invite
+                      </Button>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      {friends.length === 0 ? 'Add friends from the Inbox to invite them.' : 'All your friends are in this list.'}
+                    </p>
+                  )
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
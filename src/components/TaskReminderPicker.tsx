@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Bell, BellRing, Check, Plus, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { describeReminder, isSameReminder, ReminderDraft, REMINDER_PRESETS } from '@/lib/task-reminders';
+
+interface TaskReminderPickerProps {
+  value: ReminderDraft[];
+  onChange: (reminders: ReminderDraft[]) => void;
+  /** due date from the form, offset reminders need one */
+  dueDate: string;
+}
+
+export function TaskReminderPicker({ value, onChange, dueDate }: TaskReminderPickerProps) {
+  const [customTime, setCustomTime] = useState('');
+  const [permission, setPermission] = useState(
+    'Notification' in window ? Notification.permission : 'denied'
+  );
+
+  const toggle = (draft: ReminderDraft) => {
+    onChange(value.some(r => isSameReminder(r, draft))
+      ? value.filter(r => !isSameReminder(r, draft))
+      : [...value, draft]);
+  };
+
+  const addCustom = () => {
+    if (!customTime) return;
+    const draft = { offset_minutes: null, remind_at: new Date(customTime).toISOString() };
+    if (!value.some(r => isSameReminder(r, draft))) onChange([...value, draft]);
+    setCustomTime('');
+  };
+
+  const requestPermission = async () => {
+    setPermission(await Notification.requestPermission());
+  };
+
+  const needsDueDate = !dueDate && value.some(r => r.offset_minutes !== null);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {value.map(reminder => (
+          <Badge key={`${reminder.offset_minutes}-${reminder.remind_at}`} variant="secondary" className="gap-1 text-xs">
+            <Bell className="h-3 w-3" />
+            {describeReminder(reminder)}
+            <button type="button" onClick={() => toggle(reminder)} aria-label={`Remove reminder ${describeReminder(reminder)}`}>
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button type="button" size="sm" variant="outline" className="gap-2 h-7">
+              <Plus className="h-3 w-3" />
+              Add reminder
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 p-2 space-y-2" align="start">
+            <div className="space-y-1">
+              {REMINDER_PRESETS.map(preset => {
+                const draft = { offset_minutes: preset.minutes, remind_at: null };
+                const active = value.some(r => isSameReminder(r, draft));
+                return (
+                  <button
+                    key={preset.minutes}
+                    type="button"
+                    onClick={() => toggle(draft)}
+                    className="flex w-full items-center gap-2 rounded px-2 py-1.5 text-sm hover:bg-secondary"
+                  >
+                    <Check className={`h-4 w-4 ${active ? 'opacity-100' : 'opacity-0'}`} />
+                    {preset.label}
+                  </button>
+                );
+              })}
+            </div>
+            <div className="border-t pt-2 space-y-2">
+              <p className="text-xs text-muted-foreground">Custom time</p>
+              <div className="flex gap-2">
+                <Input
+                  type="datetime-local"
+                  value={customTime}
+                  onChange={(e) => setCustomTime(e.target.value)}
+                  className="h-8"
+                />
+                <Button type="button" size="sm" className="h-8" onClick={addCustom} disabled={!customTime}>
+                  Add
+                </Button>
+              </div>
+            </div>
+          </PopoverContent>
+        </Popover>
+      </div>
+      {needsDueDate && (
+        <p className="text-xs text-destructive">Set a due date for reminders relative to it</p>
+      )}
+      {value.length > 0 && permission === 'default' && (
+        <Button type="button" size="sm" variant="ghost" className="gap-2 h-7 text-xs" onClick={requestPermission}>
+          <BellRing className="h-3 w-3" />
+          Enable browser notifications
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,762 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import {
+  ArrowLeft,
+  Download,
+  LayoutTemplate,
+  Paperclip,
+  Pencil,
+  Play,
+  Plus,
+  Share2,
+  Trash2,
+  Upload,
+  X,
+} from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { copyFile, deleteFile, formatFileSize, uploadFile } from '@/lib/file-upload';
+import { TASK_PRIORITIES } from '@/lib/task-priority';
+import {
+  buildTemplateExport,
+  formatOffset,
+  getItemDueDate,
+  parseOffset,
+  parseTemplateExport,
+  parseTemplateOutline,
+  TaskTemplate,
+  TemplateAttachment,
+  TemplateItem,
+  TemplateItemDraft,
+} from '@/lib/task-templates';
+
+interface TaskTemplatesDialogProps {
+  /** position of the first created task among top-level tasks */
+  nextPosition: number;
+  disabled?: boolean;
+  onCreated: () => void;
+}
+
+interface TemplateShare {
+  template_id: string;
+  user_id: string;
+}
+
+interface TemplateItemRowProps {
+  item: TemplateItem;
+  attachments: TemplateAttachment[];
+  onSave: (item: TemplateItem, patch: Partial<TemplateItemDraft>) => void;
+  onDelete: (item: TemplateItem) => void;
+  onUpload: (item: TemplateItem, files: FileList) => void;
+  onDeleteAttachment: (attachment: TemplateAttachment) => void;
+}
+
+/** One step of a template; fields are saved when they lose focus */
+const TemplateItemRow = ({ item, attachments, onSave, onDelete, onUpload, onDeleteAttachment }: TemplateItemRowProps) => {
+  const [title, setTitle] = useState(item.title);
+  const [offset, setOffset] = useState(formatOffset(item.offset_minutes));
+  const [subject, setSubject] = useState(item.subject ?? '');
+  const [description, setDescription] = useState(item.description ?? '');
+  const fileInput = useRef<HTMLInputElement>(null);
+  const offsetMinutes = parseOffset(offset);
+
+  return (
+    <div className="border rounded-lg p-3 space-y-2">
+      <div className="flex gap-2">
+        <Input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={() => title.trim() && title !== item.title && onSave(item, { title: title.trim() })}
+          placeholder="Step title"
+          className="flex-1"
+        />
+        <Input
+          value={offset}
+          onChange={(e) => setOffset(e.target.value)}
+          onBlur={() => {
+            if (offsetMinutes === null) return;
+            setOffset(formatOffset(offsetMinutes));
+            if (offsetMinutes !== item.offset_minutes) onSave(item, { offset_minutes: offsetMinutes });
+          }}
+          className={`w-[110px] ${offsetMinutes === null ? 'border-destructive' : ''}`}
+          aria-label="Due offset"
+          title='Relative to the anchor date, e.g. "-7d", "-1d 12h" or "0d"'
+        />
+        <Button size="icon" variant="ghost" onClick={() => onDelete(item)} aria-label={`Remove ${item.title}`}>
+          <Trash2 className="h-4 w-4 text-destructive" />
+        </Button>
+      </div>
+      <div className="flex gap-2">
+        <Input
+          value={subject}
+          onChange={(e) => setSubject(e.target.value)}
+          onBlur={() => (subject.trim() || null) !== item.subject && onSave(item, { subject: subject.trim() || null })}
+          placeholder="Subject (optional)"
+          className="flex-1"
+        />
+        <Select value={item.priority} onValueChange={(v) => onSave(item, { priority: v })}>
+          <SelectTrigger className="w-[110px]" aria-label="Priority">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TASK_PRIORITIES.map(p => (
+              <SelectItem key={p} value={p} className="capitalize">{p}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        onBlur={() => (description.trim() || null) !== item.description && onSave(item, { description: description.trim() || null })}
+        placeholder="Description (optional)"
+        rows={2}
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        {attachments.map(attachment => (
+          <Badge key={attachment.id} variant="secondary" className="gap-1 text-xs">
+            <Paperclip className="h-3 w-3" />
+            {attachment.file_name}
+            <span className="text-muted-foreground">({formatFileSize(attachment.file_size)})</span>
+            <button
+              type="button"
+              onClick={() => onDeleteAttachment(attachment)}
+              aria-label={`Remove ${attachment.file_name}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <input
+          ref={fileInput}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files?.length) onUpload(item, e.target.files);
+            e.target.value = '';
+          }}
+        />
+        <Button size="sm" variant="outline" className="h-7 gap-2" onClick={() => fileInput.current?.click()}>
+          <Paperclip className="h-3 w-3" />
+          Attach
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export function TaskTemplatesDialog({ nextPosition, disabled, onCreated }: TaskTemplatesDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [items, setItems] = useState<TemplateItem[]>([]);
+  const [attachments, setAttachments] = useState<TemplateAttachment[]>([]);
+  const [shares, setShares] = useState<TemplateShare[]>([]);
+  const [friends, setFriends] = useState<{ id: string; username: string }[]>([]);
+  const [usernames, setUsernames] = useState<Map<string, string>>(new Map());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [usingId, setUsingId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [outline, setOutline] = useState('');
+  const [shareWith, setShareWith] = useState('');
+  const [anchor, setAnchor] = useState('');
+  const [creating, setCreating] = useState(false);
+  const importInput = useRef<HTMLInputElement>(null);
+
+  const editing = templates.find(t => t.id === editingId);
+  const using = templates.find(t => t.id === usingId);
+
+  const showError = useCallback((description: string) => {
+    toast({
+      title: 'Error',
+      description,
+      variant: 'destructive',
+    });
+  }, [toast]);
+
+  const fetchTemplates = useCallback(async () => {
+    if (!user) return;
+    const { data: templateRows, error } = await supabase
+      .from('task_templates')
+      .select('id, owner_id, name, description')
+      .order('name');
+    if (error) {
+      showError('Failed to load templates');
+      return;
+    }
+    const templateIds = (templateRows || []).map(t => t.id);
+    const ownIds = (templateRows || []).filter(t => t.owner_id === user.id).map(t => t.id);
+
+    const [{ data: itemRows }, { data: shareRows }, { data: friendships }] = await Promise.all([
+      supabase.from('task_template_items').select('*').in('template_id', templateIds).order('position'),
+      supabase.from('task_template_shares').select('template_id, user_id').in('template_id', ownIds),
+      supabase
+        .from('friendships')
+        .select('user_id, friend_id')
+        .eq('status', 'accepted')
+        .or(`user_id.eq.${user.id},friend_id.eq.${user.id}`),
+    ]);
+    const itemIds = (itemRows || []).map(i => i.id);
+    const { data: attachmentRows } = await supabase
+      .from('task_template_attachments')
+      .select('id, item_id, file_name, file_size, file_type, storage_path')
+      .in('item_id', itemIds);
+
+    // Names for template owners, shared friends and friends to share with
+    const friendIds = (friendships || []).map(f => (f.user_id === user.id ? f.friend_id : f.user_id));
+    const profileIds = [...new Set([...friendIds, ...(templateRows || []).map(t => t.owner_id)])];
+    const { data: profiles } = profileIds.length > 0
+      ? await supabase.from('profiles').select('id, username').in('id', profileIds)
+      : { data: [] };
+
+    setTemplates(templateRows || []);
+    setItems(itemRows || []);
+    setAttachments(attachmentRows || []);
+    setShares(shareRows || []);
+    setUsernames(new Map((profiles || []).map(p => [p.id, p.username])));
+    setFriends((profiles || []).filter(p => friendIds.includes(p.id)).sort((a, b) => a.username.localeCompare(b.username)));
+  }, [user, showError]);
+
+  useEffect(() => {
+    if (open) fetchTemplates();
+  }, [open, fetchTemplates]);
+
+  const templateItems = (templateId: string) => items.filter(i => i.template_id === templateId);
+
+  const insertItems = async (templateId: string, drafts: TemplateItemDraft[]) => {
+    const start = templateItems(templateId).length;
+    const { error } = await supabase
+      .from('task_template_items')
+      .insert(drafts.map((draft, index) => ({ ...draft, template_id: templateId, position: start + index })));
+    if (error) showError('Failed to add steps');
+    return !error;
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    const { data, error } = await supabase
+      .from('task_templates')
+      .insert({ owner_id: user?.id, name: newName.trim() })
+      .select('id')
+      .single();
+    if (error) {
+      showError('Failed to create template');
+      return;
+    }
+    setNewName('');
+    await fetchTemplates();
+    setEditingId(data.id);
+  };
+
+  const handleImport = async (file: File) => {
+    let parsed: ReturnType<typeof parseTemplateExport>;
+    try {
+      parsed = parseTemplateExport(await file.text());
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to read template');
+      return;
+    }
+    const { data, error } = await supabase
+      .from('task_templates')
+      .insert({ owner_id: user?.id, name: parsed.name, description: parsed.description })
+      .select('id')
+      .single();
+    if (error) {
+      showError('Failed to import template');
+      return;
+    }
+    if (parsed.items.length > 0) await insertItems(data.id, parsed.items);
+    toast({
+      title: 'Template imported',
+      description: `"${parsed.name}" with ${parsed.items.length} step(s). Attachments are not included in exports.`,
+    });
+    fetchTemplates();
+  };
+
+  const handleExport = (template: TaskTemplate) => {
+    const itemList = templateItems(template.id);
+    const data = buildTemplateExport(template, itemList, attachments.filter(a => itemList.some(i => i.id === a.item_id)));
+
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `template_${template.name.replace(/[^a-z0-9]+/gi, '_').toLowerCase()}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDelete = async (template: TaskTemplate) => {
+    const isOwner = template.owner_id === user?.id;
+    const prompt = isOwner
+      ? `Delete the template "${template.name}"? Tasks already created from it are kept.`
+      : `Remove "${template.name}" from your templates?`;
+    if (!confirm(prompt)) return;
+
+    const { error } = isOwner
+      ? await supabase.from('task_templates').delete().eq('id', template.id)
+      : await supabase.from('task_template_shares').delete().eq('template_id', template.id).eq('user_id', user?.id);
+    if (error) {
+      showError('Failed to delete template');
+      return;
+    }
+    if (isOwner) {
+      // Tasks created from the template have their own copies of the files
+      const itemIds = templateItems(template.id).map(i => i.id);
+      await Promise.all(attachments
+        .filter(a => itemIds.includes(a.item_id))
+        .map(a => deleteFile('task-attachments', a.storage_path)));
+    }
+    fetchTemplates();
+  };
+
+  const handleSaveTemplate = async (patch: { name?: string; description?: string | null }) => {
+    if (!editing) return;
+    const { error } = await supabase.from('task_templates').update(patch).eq('id', editing.id);
+    if (error) {
+      showError('Failed to save template');
+      return;
+    }
+    setTemplates(templates.map(t => (t.id === editing.id ? { ...t, ...patch } : t)));
+  };
+
+  const handleAddOutline = async () => {
+    if (!editing) return;
+    const { items: drafts, invalid } = parseTemplateOutline(outline);
+    if (invalid.length > 0) {
+      showError(`Could not read the offset of: ${invalid.join(', ')}. Use e.g. "draft: -3d".`);
+      return;
+    }
+    if (drafts.length === 0) return;
+    if (await insertItems(editing.id, drafts)) {
+      setOutline('');
+      fetchTemplates();
+    }
+  };
+
+  const handleAddStep = async () => {
+    if (!editing) return;
+    const added = await insertItems(editing.id, [
+      { title: 'New step', description: null, subject: null, priority: 'medium', offset_minutes: 0 },
+    ]);
+    if (added) fetchTemplates();
+  };
+
+  const handleSaveItem = async (item: TemplateItem, patch: Partial<TemplateItemDraft>) => {
+    const { error } = await supabase.from('task_template_items').update(patch).eq('id', item.id);
+    if (error) {
+      showError('Failed to save step');
+      return;
+    }
+    setItems(prev => prev.map(i => (i.id === item.id ? { ...i, ...patch } : i)));
+  };
+
+  const handleDeleteItem = async (item: TemplateItem) => {
+    if (!confirm(`Remove the step "${item.title}"?`)) return;
+    const files = attachments.filter(a => a.item_id === item.id);
+    const { error } = await supabase.from('task_template_items').delete().eq('id', item.id);
+    if (error) {
+      showError('Failed to remove step');
+      return;
+    }
+    await Promise.all(files.map(a => deleteFile('task-attachments', a.storage_path)));
+    setItems(prev => prev.filter(i => i.id !== item.id));
+    setAttachments(prev => prev.filter(a => a.item_id !== item.id));
+  };
+
+  const handleUpload = async (item: TemplateItem, files: FileList) => {
+    for (const file of Array.from(files)) {
+      const result = await uploadFile(file, 'task-attachments', user?.id || '');
+      if (!result.success || !result.path) {
+        showError(result.error || 'Failed to upload file');
+        continue;
+      }
+      const { data, error } = await supabase
+        .from('task_template_attachments')
+        .insert({
+          item_id: item.id,
+          user_id: user?.id,
+          file_name: result.fileName,
+          file_size: result.fileSize,
+          file_type: result.fileType,
+          storage_path: result.path,
+        })
+        .select('id, item_id, file_name, file_size, file_type, storage_path')
+        .single();
+      if (error) {
+        showError('Failed to save attachment metadata');
+        continue;
+      }
+      setAttachments(prev => [...prev, data]);
+    }
+  };
+
+  const handleDeleteAttachment = async (attachment: TemplateAttachment) => {
+    const result = await deleteFile('task-attachments', attachment.storage_path);
+    if (!result.success) {
+      showError('Failed to delete attachment');
+      return;
+    }
+    await supabase.from('task_template_attachments').delete().eq('id', attachment.id);
+    setAttachments(prev => prev.filter(a => a.id !== attachment.id));
+  };
+
+  const handleShare = async () => {
+    if (!editing || !shareWith) return;
+    const { error } = await supabase.from('task_template_shares').insert({ template_id: editing.id, user_id: shareWith });
+    if (error) {
+      showError('Failed to share template');
+      return;
+    }
+    setShares([...shares, { template_id: editing.id, user_id: shareWith }]);
+    setShareWith('');
+  };
+
+  const handleUnshare = async (share: TemplateShare) => {
+    const { error } = await supabase
+      .from('task_template_shares')
+      .delete()
+      .eq('template_id', share.template_id)
+      .eq('user_id', share.user_id);
+    if (error) {
+      showError('Failed to stop sharing');
+      return;
+    }
+    setShares(shares.filter(s => s !== share));
+  };
+
+  const startUsing = (template: TaskTemplate) => {
+    setUsingId(template.id);
+    setAnchor(format(new Date(), "yyyy-MM-dd'T'23:59"));
+  };
+
+  // Create one task per step, with its own copy of the step's files
+  const handleInstantiate = async () => {
+    if (!using || !anchor || !user) return;
+    const anchorDate = new Date(anchor);
+    const steps = templateItems(using.id);
+    setCreating(true);
+    let created = 0;
+    try {
+      for (const [index, item] of steps.entries()) {
+        const { data: task, error } = await supabase
+          .from('tasks')
+          .insert({
+            user_id: user.id,
+            title: item.title,
+            description: item.description,
+            subject: item.subject,
+            priority: item.priority,
+            due_date: getItemDueDate(anchorDate, item.offset_minutes).toISOString(),
+            parent_id: null,
+            position: nextPosition + index,
+          })
+          .select('id')
+          .single();
+        if (error) {
+          showError(`Failed to create "${item.title}"`);
+          continue;
+        }
+        created++;
+
+        for (const attachment of attachments.filter(a => a.item_id === item.id)) {
+          const copy = await copyFile('task-attachments', attachment.storage_path, user.id);
+          if (!copy.success || !copy.path) {
+            showError(`Failed to copy ${attachment.file_name}`);
+            continue;
+          }
+          await supabase.from('task_attachments').insert({
+            task_id: task.id,
+            user_id: user.id,
+            file_name: attachment.file_name,
+            file_size: attachment.file_size,
+            file_type: attachment.file_type,
+            storage_path: copy.path,
+          });
+        }
+      }
+    } finally {
+      setCreating(false);
+    }
+
+    if (created > 0) {
+      toast({
+        title: 'Tasks created',
+        description: `${created} task(s) created from "${using.name}"`,
+      });
+      onCreated();
+      setUsingId(null);
+      setOpen(false);
+    }
+  };
+
+  const renderList = () => (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          placeholder="New template, e.g. Lab report"
+        />
+        <Button onClick={handleCreate} disabled={!newName.trim()} className="gap-2">
+          <Plus className="h-4 w-4" />
+          Create
+        </Button>
+        <input
+          ref={importInput}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+        <Button variant="outline" className="gap-2" onClick={() => importInput.current?.click()}>
+          <Upload className="h-4 w-4" />
+          Import
+        </Button>
+      </div>
+
+      {templates.length === 0 && (
+        <p className="text-sm text-muted-foreground text-center py-4">No templates yet.</p>
+      )}
+      {templates.map(template => {
+        const isOwner = template.owner_id === user?.id;
+        const steps = templateItems(template.id);
+        return (
+          <div key={template.id} className="border rounded-lg p-4 flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <h3 className="font-semibold truncate">{template.name}</h3>
+              {template.description && <p className="text-sm text-muted-foreground">{template.description}</p>}
+              <p className="text-xs text-muted-foreground mt-1">
+                {steps.length} step(s)
+                {steps.length > 0 && ` · ${steps.map(s => `${s.title} ${formatOffset(s.offset_minutes)}`).join(', ')}`}
+              </p>
+              {!isOwner && (
+                <Badge variant="outline" className="mt-1 text-xs">
+                  Shared by {usernames.get(template.owner_id) ?? 'a friend'}
+                </Badge>
+              )}
+            </div>
+            <div className="flex gap-1 shrink-0">
+              <Button size="sm" className="gap-2" onClick={() => startUsing(template)} disabled={disabled || steps.length === 0}>
+                <Play className="h-3 w-3" />
+                Use
+              </Button>
+              {isOwner && (
+                <Button size="icon" variant="ghost" onClick={() => setEditingId(template.id)} aria-label={`Edit ${template.name}`}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              )}
+              <Button size="icon" variant="ghost" onClick={() => handleExport(template)} aria-label={`Export ${template.name}`}>
+                <Download className="h-4 w-4" />
+              </Button>
+              <Button size="icon" variant="ghost" onClick={() => handleDelete(template)} aria-label={`Delete ${template.name}`}>
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const renderEditor = (template: TaskTemplate) => {
+    const templateShares = shares.filter(s => s.template_id === template.id);
+    const shareable = friends.filter(f => !templateShares.some(s => s.user_id === f.id));
+    return (
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="template-name">Name</Label>
+          <Input
+            id="template-name"
+            key={`name-${template.id}`}
+            defaultValue={template.name}
+            onBlur={(e) => e.target.value.trim() && e.target.value.trim() !== template.name && handleSaveTemplate({ name: e.target.value.trim() })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="template-description">Description (Optional)</Label>
+          <Textarea
+            id="template-description"
+            key={`description-${template.id}`}
+            defaultValue={template.description ?? ''}
+            onBlur={(e) => (e.target.value.trim() || null) !== template.description && handleSaveTemplate({ description: e.target.value.trim() || null })}
+            rows={2}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Steps</Label>
+          <p className="text-xs text-muted-foreground">
+            Offsets are relative to the date you pick when using the template, e.g. "-7d" is a week before.
+          </p>
+          {templateItems(template.id).map(item => (
+            <TemplateItemRow
+              key={item.id}
+              item={item}
+              attachments={attachments.filter(a => a.item_id === item.id)}
+              onSave={handleSaveItem}
+              onDelete={handleDeleteItem}
+              onUpload={handleUpload}
+              onDeleteAttachment={handleDeleteAttachment}
+            />
+          ))}
+          <Button variant="outline" size="sm" className="gap-2" onClick={handleAddStep}>
+            <Plus className="h-4 w-4" />
+            Add step
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="template-outline">Add steps from an outline</Label>
+          <div className="flex gap-2">
+            <Input
+              id="template-outline"
+              value={outline}
+              onChange={(e) => setOutline(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddOutline()}
+              placeholder="outline: -7d, draft: -3d, submit: 0d"
+            />
+            <Button variant="outline" onClick={handleAddOutline} disabled={!outline.trim()}>
+              Add
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Shared with</Label>
+          {templateShares.map(share => (
+            <div key={share.user_id} className="flex items-center justify-between text-sm">
+              <span>{usernames.get(share.user_id) ?? 'Unknown'}</span>
+              <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleUnshare(share)} aria-label="Stop sharing">
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          {shareable.length > 0 ? (
+            <div className="flex gap-2">
+              <Select value={shareWith} onValueChange={setShareWith}>
+                <SelectTrigger className="h-8 flex-1">
+                  <SelectValue placeholder="Share with a friend" />
+                </SelectTrigger>
+                <SelectContent>
+                  {shareable.map(friend => (
+                    <SelectItem key={friend.id} value={friend.id}>{friend.username}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" className="h-8 gap-2" onClick={handleShare} disabled={!shareWith}>
+                <Share2 className="h-4 w-4" />
+                Share
+              </Button>
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              {friends.length === 0 ? 'Add friends from the Inbox to share templates.' : 'Shared with all your friends.'}
+            </p>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderUse = (template: TaskTemplate) => {
+    const anchorDate = anchor ? new Date(anchor) : null;
+    return (
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="template-anchor">Anchor date</Label>
+          <Input
+            id="template-anchor"
+            type="datetime-local"
+            value={anchor}
+            onChange={(e) => setAnchor(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">Usually the deadline, e.g. when the report is handed in.</p>
+        </div>
+        <div className="space-y-1">
+          {templateItems(template.id).map(item => (
+            <div key={item.id} className="flex items-center justify-between gap-2 text-sm border-b py-1.5">
+              <span className="truncate">{item.title}</span>
+              <span className="text-muted-foreground shrink-0">
+                {formatOffset(item.offset_minutes)}
+                {anchorDate && ` · ${format(getItemDueDate(anchorDate, item.offset_minutes), 'EEE MMM d, h:mm a')}`}
+              </span>
+            </div>
+          ))}
+        </div>
+        <Button className="w-full" onClick={handleInstantiate} disabled={!anchor || creating}>
+          {creating ? 'Creating...' : `Create ${templateItems(template.id).length} task(s)`}
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (!isOpen) {
+          setEditingId(null);
+          setUsingId(null);
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <LayoutTemplate className="h-4 w-4" />
+          Templates
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {(editing || using) && (
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                onClick={() => {
+                  setEditingId(null);
+                  setUsingId(null);
+                }}
+                aria-label="Back to templates"
+              >
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            )}
+            {editing ? `Edit "${editing.name}"` : using ? `Use "${using.name}"` : 'Task Templates'}
+          </DialogTitle>
+          <DialogDescription>
+            {using
+              ? 'Pick the date the steps are counted from.'
+              : 'Reusable checklists for recurring work like lab reports and essays.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {editing ? renderEditor(editing) : using ? renderUse(using) : renderList()}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,152 @@
+import { useMemo } from 'react';
+import { Timer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  formatMinutes,
+  getTrackedMinutes,
+  summarizeTime,
+  summarizeTimeBySubject,
+  TimeEntry,
+} from '@/lib/time-tracking';
+
+interface ReportTask {
+  id: string;
+  title: string;
+  subject: string | null;
+  completed: boolean;
+  estimated_minutes: number | null;
+}
+
+interface TaskTimeReportProps {
+  tasks: ReportTask[];
+  entries: TimeEntry[];
+}
+
+/** Tracked time against the estimate; estimates of 0 have nothing to compare */
+const EstimateBar = ({ estimated, actual }: { estimated: number; actual: number }) => {
+  if (!estimated) return <span className="text-xs text-muted-foreground">No estimate</span>;
+  const ratio = actual / estimated;
+  return (
+    <div className="flex items-center gap-2 min-w-[140px]">
+      <Progress value={Math.min(100, ratio * 100)} className="h-1.5 flex-1" />
+      <span className={`text-xs w-10 text-right ${ratio > 1 ? 'text-destructive' : 'text-muted-foreground'}`}>
+        {Math.round(ratio * 100)}%
+      </span>
+    </div>
+  );
+};
+
+export function TaskTimeReport({ tasks, entries }: TaskTimeReportProps) {
+  const bySubject = useMemo(() => summarizeTimeBySubject(tasks, entries), [tasks, entries]);
+  const total = useMemo(() => summarizeTime(tasks, entries), [tasks, entries]);
+  const byTask = useMemo(() => {
+    const tracked = getTrackedMinutes(entries);
+    return tasks
+      .filter(task => task.estimated_minutes || tracked.has(task.id))
+      .map(task => ({ task, actual: tracked.get(task.id) ?? 0 }))
+      .sort((a, b) => b.actual - a.actual);
+  }, [tasks, entries]);
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Timer className="h-4 w-4" />
+          Time
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Estimated vs. Actual Time</DialogTitle>
+          <DialogDescription>
+            Actual time is logged from Pomodoro focus sessions. Pick a task on the Pomodoro page to track it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {byTask.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            Add estimates to your tasks or track a Pomodoro session to see a report.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div className="p-3 rounded-lg bg-secondary/40">
+                <div className="text-2xl font-bold">{formatMinutes(total.estimated)}</div>
+                <div className="text-xs text-muted-foreground">Estimated</div>
+              </div>
+              <div className="p-3 rounded-lg bg-secondary/40">
+                <div className="text-2xl font-bold">{formatMinutes(total.actual)}</div>
+                <div className="text-xs text-muted-foreground">Tracked</div>
+              </div>
+              <div className="p-3 rounded-lg bg-secondary/40">
+                <div className={`text-2xl font-bold ${total.actualEstimated > total.estimated ? 'text-destructive' : ''}`}>
+                  {total.estimated ? `${Math.round((total.actualEstimated / total.estimated) * 100)}%` : '—'}
+                </div>
+                <div className="text-xs text-muted-foreground">Of estimate used</div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-semibold">By Subject</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Subject</TableHead>
+                    <TableHead className="text-right">Tasks</TableHead>
+                    <TableHead className="text-right">Estimated</TableHead>
+                    <TableHead className="text-right">Tracked</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {bySubject.map(row => (
+                    <TableRow key={row.subject ?? ''}>
+                      <TableCell className={row.subject ? 'font-medium' : 'text-muted-foreground italic'}>
+                        {row.subject ?? 'No subject'}
+                      </TableCell>
+                      <TableCell className="text-right">{row.tasks}</TableCell>
+                      <TableCell className="text-right">{row.estimated ? formatMinutes(row.estimated) : '—'}</TableCell>
+                      <TableCell className="text-right">{formatMinutes(row.actual)}</TableCell>
+                      <TableCell><EstimateBar estimated={row.estimated} actual={row.actualEstimated} /></TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-semibold">By Task</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Task</TableHead>
+                    <TableHead className="text-right">Estimated</TableHead>
+                    <TableHead className="text-right">Tracked</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {byTask.map(({ task, actual }) => (
+                    <TableRow key={task.id}>
+                      <TableCell className={task.completed ? 'line-through text-muted-foreground' : 'font-medium'}>
+                        {task.title}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {task.estimated_minutes ? formatMinutes(task.estimated_minutes) : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">{formatMinutes(actual)}</TableCell>
+                      <TableCell><EstimateBar estimated={task.estimated_minutes ?? 0} actual={actual} /></TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,353 @@
+import { RefObject, useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import * as Y from 'yjs';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import {
+  applyTextChange,
+  createSeedUpdate,
+  decodeUpdate,
+  encodeUpdate,
+  getCollabColor,
+  NoteCollabCaret,
+  NoteCollabPresence,
+  NOTE_COLLAB_COMPACT_AFTER,
+  NOTE_COLLAB_CONTENT_SAVE_MS,
+  NOTE_COLLAB_FLUSH_MS,
+  NOTE_COLLAB_TEXT,
+  resolveCollabCursor,
+  toCollabCursor,
+} from '@/lib/note-collab';
+
+export type NoteCollabStatus = 'loading' | 'connecting' | 'connected' | 'offline' | 'error';
+
+const sameVector = (a: Uint8Array | undefined, b: Uint8Array) =>
+  a !== undefined && a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+/**
+ * Shared editing session for one note. Edits are merged as a Yjs document:
+ * local changes are broadcast as they happen, and every (re)connect pushes
+ * the whole local state and asks peers for what was missed, so edits made
+ * while offline converge once the connection is back.
+ */
+export function useNoteCollab(noteId: string | null, textareaRef: RefObject<HTMLTextAreaElement>) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [text, setText] = useState('');
+  const [status, setStatus] = useState<NoteCollabStatus>('loading');
+  const [presences, setPresences] = useState<NoteCollabPresence[]>([]);
+  const [unsaved, setUnsaved] = useState(false);
+  // Bumped to restart the session, e.g. when the note is saved from outside
+  const [session, setSession] = useState(0);
+
+  const docRef = useRef<Y.Doc | null>(null);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const presenceRef = useRef<NoteCollabPresence | null>(null);
+  const pendingSelection = useRef<{ anchor: number; head: number } | null>(null);
+  const cursorTimer = useRef<number | undefined>(undefined);
+
+  useEffect(() => {
+    if (!noteId || !user) return;
+
+    let disposed = false;
+    let epoch: number | null = null;
+    let savedContent = '';
+    // State vector of what is known to be stored; undefined when nothing is
+    let persistedVector: Uint8Array | undefined;
+    let flushing = false;
+
+    const doc = new Y.Doc();
+    const shared = doc.getText(NOTE_COLLAB_TEXT);
+    docRef.current = doc;
+    setStatus('loading');
+    setText('');
+    setPresences([]);
+
+    shared.observe(() => setText(shared.toString()));
+
+    const broadcast = (event: string, payload: Record<string, unknown>) => {
+      if (channelRef.current?.state !== 'joined') return;
+      channelRef.current.send({ type: 'broadcast', event, payload });
+    };
+
+    doc.on('update', (update: Uint8Array, origin: unknown) => {
+      if (origin === 'local') {
+        setUnsaved(true);
+        broadcast('update', { update: encodeUpdate(update) });
+      }
+    });
+
+    // Keep the local caret in place across a remote change
+    const applyRemote = (update: Uint8Array) => {
+      const el = textareaRef.current;
+      const selection = el && document.activeElement === el
+        ? toCollabCursor(shared, el.selectionStart, el.selectionEnd)
+        : null;
+      Y.applyUpdate(doc, update, 'remote');
+      if (selection) pendingSelection.current = resolveCollabCursor(doc, selection);
+    };
+
+    const restart = () => {
+      toast({
+        title: 'Note replaced',
+        description: 'This note was saved outside the shared editor, so the session restarted from the saved version.',
+      });
+      setSession(s => s + 1);
+    };
+
+    const flush = async () => {
+      if (flushing || epoch === null) return;
+      const vector = Y.encodeStateVector(doc);
+      if (sameVector(persistedVector, vector)) {
+        setUnsaved(false);
+        return;
+      }
+      flushing = true;
+      const { error } = await supabase.from('note_collab_updates').insert({
+        note_id: noteId,
+        epoch,
+        user_id: user.id,
+        update_data: encodeUpdate(Y.encodeStateAsUpdate(doc, persistedVector)),
+      });
+      flushing = false;
+      if (error || disposed) return;
+      persistedVector = vector;
+      setUnsaved(!sameVector(vector, Y.encodeStateVector(doc)));
+    };
+
+    // Only text that is already stored as updates is copied into the note
+    const saveContent = async () => {
+      await flush();
+      const content = shared.toString();
+      if (epoch === null || content === savedContent || !sameVector(persistedVector, Y.encodeStateVector(doc))) return;
+      const { error } = await supabase.rpc('save_note_collab_content', {
+        p_note_id: noteId,
+        p_epoch: epoch,
+        p_content: content,
+      });
+      if (!error) savedContent = content;
+    };
+
+    const checkEpoch = async () => {
+      const { data } = await supabase.from('notes').select('collab_epoch').eq('id', noteId).single();
+      if (!disposed && data && epoch !== null && data.collab_epoch !== epoch) restart();
+    };
+
+    const connect = () => {
+      // Private: only the owner and collaborators may join (see add-note-collaboration.sql)
+      const channel = supabase.channel(`note-collab:${noteId}:${epoch}`, {
+        config: { private: true, broadcast: { self: false }, presence: { key: user.id } },
+      });
+      channelRef.current = channel;
+
+      channel
+        .on('broadcast', { event: 'update' }, ({ payload }) => applyRemote(decodeUpdate(payload.update)))
+        .on('broadcast', { event: 'sync-request' }, ({ payload }) => {
+          broadcast('sync-reply', {
+            to: payload.from,
+            update: encodeUpdate(Y.encodeStateAsUpdate(doc, decodeUpdate(payload.stateVector))),
+          });
+        })
+        .on('broadcast', { event: 'sync-reply' }, ({ payload }) => {
+          if (payload.to === user.id) applyRemote(decodeUpdate(payload.update));
+        })
+        .on('presence', { event: 'sync' }, () => {
+          const state = channel.presenceState<NoteCollabPresence>();
+          setPresences(Object.values(state).flat());
+        })
+        .subscribe(async (channelStatus) => {
+          if (disposed) return;
+          if (channelStatus === 'SUBSCRIBED') {
+            setStatus('connected');
+            broadcast('update', { update: encodeUpdate(Y.encodeStateAsUpdate(doc)) });
+            broadcast('sync-request', { from: user.id, stateVector: encodeUpdate(Y.encodeStateVector(doc)) });
+            if (presenceRef.current) await channel.track(presenceRef.current);
+            checkEpoch();
+          } else {
+            setStatus(channelStatus === 'CLOSED' ? 'connecting' : 'offline');
+          }
+        });
+    };
+
+    const epochChannel = supabase
+      .channel(`note-collab-epoch:${noteId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'notes', filter: `id=eq.${noteId}` },
+        (payload) => {
+          const next = (payload.new as { collab_epoch?: number }).collab_epoch;
+          if (epoch !== null && next !== undefined && next !== epoch) restart();
+        }
+      )
+      .subscribe();
+
+    const load = async () => {
+      const [{ data: note, error }, { data: profile }] = await Promise.all([
+        supabase.from('notes').select('content, collab_epoch').eq('id', noteId).single(),
+        supabase.from('profiles').select('username, avatar_url').eq('id', user.id).single(),
+      ]);
+      if (disposed) return;
+      if (error || !note) {
+        setStatus('error');
+        return;
+      }
+
+      const { data: rows, error: rowsError } = await supabase
+        .from('note_collab_updates')
+        .select('id, update_data')
+        .eq('note_id', noteId)
+        .eq('epoch', note.collab_epoch)
+        .order('created_at', { ascending: true });
+      if (disposed) return;
+      if (rowsError) {
+        setStatus('error');
+        return;
+      }
+
+      epoch = note.collab_epoch;
+      savedContent = note.content;
+      presenceRef.current = {
+        user_id: user.id,
+        username: profile?.username ?? 'Someone',
+        avatar_url: profile?.avatar_url ?? null,
+        color: getCollabColor(user.id),
+        cursor: null,
+      };
+
+      if (rows && rows.length > 0) {
+        doc.transact(() => {
+          rows.forEach(row => Y.applyUpdate(doc, decodeUpdate(row.update_data)));
+        }, 'load');
+        persistedVector = Y.encodeStateVector(doc);
+        if (rows.length > NOTE_COLLAB_COMPACT_AFTER) {
+          supabase.rpc('compact_note_collab_updates', {
+            p_note_id: noteId,
+            p_epoch: epoch,
+            p_snapshot: encodeUpdate(Y.encodeStateAsUpdate(doc)),
+            p_replaced: rows.map(row => row.id),
+          });
+        }
+      } else {
+        Y.applyUpdate(doc, createSeedUpdate(note.content), 'load');
+        flush();
+      }
+
+      setStatus('connecting');
+      connect();
+    };
+
+    load();
+
+    const flushTimer = window.setInterval(flush, NOTE_COLLAB_FLUSH_MS);
+    const contentTimer = window.setInterval(saveContent, NOTE_COLLAB_CONTENT_SAVE_MS);
+    const handleOffline = () => setStatus('offline');
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      disposed = true;
+      window.clearInterval(flushTimer);
+      window.clearInterval(contentTimer);
+      window.clearTimeout(cursorTimer.current);
+      window.removeEventListener('offline', handleOffline);
+
+      // Store what this session still holds before letting go of it
+      if (epoch !== null) {
+        const finalEpoch = epoch;
+        const vector = Y.encodeStateVector(doc);
+        const content = shared.toString();
+        const pending = sameVector(persistedVector, vector) ? null : Y.encodeStateAsUpdate(doc, persistedVector);
+        (async () => {
+          if (pending) {
+            const { error } = await supabase.from('note_collab_updates').insert({
+              note_id: noteId,
+              epoch: finalEpoch,
+              user_id: user.id,
+              update_data: encodeUpdate(pending),
+            });
+            if (error) return;
+          }
+          if (content !== savedContent) {
+            await supabase.rpc('save_note_collab_content', { p_note_id: noteId, p_epoch: finalEpoch, p_content: content });
+          }
+        })();
+      }
+
+      if (channelRef.current) supabase.removeChannel(channelRef.current);
+      channelRef.current = null;
+      supabase.removeChannel(epochChannel);
+      docRef.current = null;
+      doc.destroy();
+    };
+  }, [noteId, user, session, textareaRef, toast]);
+
+  useLayoutEffect(() => {
+    const el = textareaRef.current;
+    const selection = pendingSelection.current;
+    if (!el || !selection) return;
+    pendingSelection.current = null;
+    el.setSelectionRange(Math.min(selection.anchor, selection.head), Math.max(selection.anchor, selection.head));
+  }, [text, textareaRef]);
+
+  /** Shares a new textarea value typed by the local user */
+  const updateText = useCallback((value: string) => {
+    const doc = docRef.current;
+    if (!doc) return;
+    const shared = doc.getText(NOTE_COLLAB_TEXT);
+    doc.transact(() => applyTextChange(shared, shared.toString(), value), 'local');
+  }, []);
+
+  /** Shares the local selection, at most every 100ms */
+  const updateCursor = useCallback((anchor: number, head: number) => {
+    const doc = docRef.current;
+    if (!doc || !presenceRef.current) return;
+    presenceRef.current = {
+      ...presenceRef.current,
+      cursor: toCollabCursor(doc.getText(NOTE_COLLAB_TEXT), anchor, head),
+    };
+    window.clearTimeout(cursorTimer.current);
+    cursorTimer.current = window.setTimeout(() => {
+      if (channelRef.current?.state === 'joined' && presenceRef.current) {
+        channelRef.current.track(presenceRef.current);
+      }
+    }, 100);
+  }, []);
+
+  // One entry per person, the local user first
+  const participants = useMemo(() => {
+    const seen = new Set<string>();
+    return presences
+      .slice()
+      .sort((a, b) => (a.user_id === user?.id ? -1 : b.user_id === user?.id ? 1 : a.username.localeCompare(b.username)))
+      .filter(p => {
+        if (seen.has(p.user_id)) return false;
+        seen.add(p.user_id);
+        return true;
+      });
+  }, [presences, user?.id]);
+
+  // Other people's selections in the current text
+  const carets = useMemo(() => {
+    const doc = docRef.current;
+    if (!doc) return [];
+    return presences
+      .filter(p => p.user_id !== user?.id)
+      .flatMap((p): NoteCollabCaret[] => {
+        const position = resolveCollabCursor(doc, p.cursor);
+        if (!position) return [];
+        return [{
+          userId: p.user_id,
+          username: p.username,
+          color: p.color,
+          from: Math.min(position.anchor, position.head, text.length),
+          to: Math.min(Math.max(position.anchor, position.head), text.length),
+          head: Math.min(position.head, text.length),
+        }];
+      });
+    // text: positions move whenever the document changes
+  }, [presences, text, user?.id]);
+
+  return { text, status, unsaved, participants, carets, updateText, updateCursor };
+}
+
+export default useNoteCollab;
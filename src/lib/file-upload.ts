@@ -229,6 +229,41 @@ export const deleteFile = async (
   }
 };
 
+/**
+ * Copy a file into the user's own folder, so the copy can be deleted
+ * without affecting the original
+ * @param bucket - Storage bucket name
+ * @param filePath - File path to copy
+ * @param userId - User ID for organizing files
+ * @returns Path of the copy or error
+ */
+export const copyFile = async (
+  bucket: 'note-attachments' | 'task-attachments',
+  filePath: string,
+  userId: string
+): Promise<{ success: boolean; path?: string; error?: string }> => {
+  try {
+    const fileExtension = filePath.split('.').pop() || '';
+    const randomString = Math.random().toString(36).substring(2, 10);
+    const newPath = `${userId}/${Date.now()}-${randomString}.${fileExtension}`;
+
+    const { error } = await supabase.storage
+      .from(bucket)
+      .copy(filePath, newPath);
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, path: newPath };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+};
+
 /**
  * Get a public URL for a file
  * @param bucket - Storage bucket name
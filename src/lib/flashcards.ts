@@ -0,0 +1,260 @@
+import { addDays, addMinutes, endOfDay, format, subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+
+export type FlashcardKind = 'qa' | 'cloze';
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
+/** A card as written in a note */
+export interface ParsedFlashcard {
+  /** Stable id of the card within its note, so edits elsewhere keep its schedule */
+  key: string;
+  kind: FlashcardKind;
+  front: string;
+  back: string;
+}
+
+export interface CardSchedule {
+  ease: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: string;
+}
+
+export interface Flashcard extends CardSchedule {
+  id: string;
+  note_id: string;
+  card_key: string;
+  kind: string;
+  front: string;
+  back: string;
+  last_reviewed_at: string | null;
+}
+
+export interface FlashcardNote {
+  id: string;
+  title: string;
+  subject: string | null;
+  content: string;
+}
+
+export const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+/** Failed cards come back after this long */
+export const RELEARN_MINUTES = 10;
+
+/** Cards seen for the first time per day */
+export const NEW_CARDS_PER_DAY = 20;
+
+/** Answer buttons, with the SM-2 quality (0-5) each one stands for */
+export const REVIEW_RATINGS: { rating: ReviewRating; label: string; quality: number; key: string }[] = [
+  { rating: 'again', label: 'Again', quality: 1, key: '1' },
+  { rating: 'hard', label: 'Hard', quality: 3, key: '2' },
+  { rating: 'good', label: 'Good', quality: 4, key: '3' },
+  { rating: 'easy', label: 'Easy', quality: 5, key: '4' },
+];
+
+const QUESTION = /^\s*(?:[-*+]\s+)?Q::\s?(.*)$/;
+const ANSWER = /^\s*(?:[-*+]\s+)?A::\s?(.*)$/;
+const INLINE_ANSWER = /\s+A::\s?/;
+const CLOZE = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^\s*#{1,6}\s/;
+
+// FNV-1a, enough to tell card texts apart within a note
+const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const clozeCards = (block: string): ParsedFlashcard[] => {
+  const numbers = Array.from(new Set(Array.from(block.matchAll(CLOZE), m => Number(m[1])))).sort((a, b) => a - b);
+  return numbers.map(n => ({
+    key: `cloze:${hashText(block)}:${n}`,
+    kind: 'cloze',
+    front: block.replace(CLOZE, (_, num, text, hint) => (Number(num) === n ? `[${hint?.trim() || '...'}]` : text)),
+    back: block.replace(CLOZE, (_, num, text) => (Number(num) === n ? `**${text}**` : text)),
+  }));
+};
+
+/**
+ * Cards written in a note: `Q:: question` followed by `A:: answer` (on the
+ * same line or the next ones, until a blank line), and paragraphs with cloze
+ * deletions like `{{c1::Paris}}` or `{{c1::Paris::capital}}`, one card per
+ * cloze number. Code blocks are skipped.
+ */
+export const parseFlashcards = (content: string): ParsedFlashcard[] => {
+  const cards: ParsedFlashcard[] = [];
+  let question: string[] | null = null;
+  let answer: string[] | null = null;
+  let paragraph: string[] = [];
+  let fence: string | null = null;
+
+  const endCard = () => {
+    const front = question?.join('\n').trim();
+    const back = answer?.join('\n').trim();
+    if (front && back) cards.push({ key: `qa:${hashText(front)}`, kind: 'qa', front, back });
+    question = null;
+    answer = null;
+  };
+
+  const endParagraph = () => {
+    const block = paragraph.join('\n').trim();
+    if (block) cards.push(...clozeCards(block));
+    paragraph = [];
+  };
+
+  content.split('\n').forEach(line => {
+    const fenceMatch = line.match(FENCE);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1] === fence) fence = null;
+      return;
+    }
+    if (fenceMatch) {
+      endCard();
+      endParagraph();
+      fence = fenceMatch[1];
+      return;
+    }
+    if (!line.trim() || HEADING.test(line)) {
+      endCard();
+      endParagraph();
+      return;
+    }
+
+    const q = line.match(QUESTION);
+    if (q) {
+      endCard();
+      endParagraph();
+      const [front, ...rest] = q[1].split(INLINE_ANSWER);
+      question = [front];
+      answer = rest.length > 0 ? [rest.join(' A:: ')] : null;
+      return;
+    }
+    const a = line.match(ANSWER);
+    if (question && !answer && a) {
+      answer = [a[1]];
+      return;
+    }
+    if (answer) answer.push(line);
+    else if (question) question.push(line);
+    else paragraph.push(line);
+  });
+  endCard();
+  endParagraph();
+
+  // The same card written twice in a note keeps separate schedules
+  const seen = new Map<string, number>();
+  return cards.map(card => {
+    const count = (seen.get(card.key) ?? 0) + 1;
+    seen.set(card.key, count);
+    return count === 1 ? card : { ...card, key: `${card.key}#${count}` };
+  });
+};
+
+/**
+ * Next schedule after an answer, following SM-2: the ease factor moves with
+ * the answer quality, intervals go 1 day, 6 days, then grow by the ease.
+ * "Again" starts the card over and shows it again in a few minutes.
+ */
+export const scheduleReview = (card: CardSchedule, rating: ReviewRating, now = new Date()): CardSchedule => {
+  const quality = REVIEW_RATINGS.find(r => r.rating === rating)?.quality ?? 4;
+  const ease = Math.max(MIN_EASE, card.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+
+  if (rating === 'again') {
+    return {
+      ease,
+      interval_days: 0,
+      repetitions: 0,
+      lapses: card.lapses + (card.repetitions > 0 ? 1 : 0),
+      due_at: addMinutes(now, RELEARN_MINUTES).toISOString(),
+    };
+  }
+
+  let interval = card.repetitions === 0 ? 1 : card.repetitions === 1 ? 6 : Math.round(card.interval_days * ease);
+  if (card.repetitions > 1) interval = Math.max(interval, card.interval_days + 1);
+  return {
+    ease,
+    interval_days: interval,
+    repetitions: card.repetitions + 1,
+    lapses: card.lapses,
+    due_at: addDays(now, interval).toISOString(),
+  };
+};
+
+/** Short label for when a card would be due after an answer, e.g. `10m` or `6d` */
+export const formatNextReview = (schedule: CardSchedule): string => {
+  const days = schedule.interval_days;
+  if (days === 0) return `${RELEARN_MINUTES}m`;
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
+
+/** Whether a card should be reviewed today (by the end of the local day) */
+export const isDue = (card: Pick<CardSchedule, 'due_at'>, now = new Date()): boolean =>
+  new Date(card.due_at) <= endOfDay(now);
+
+export const isNewCard = (card: Pick<Flashcard, 'last_reviewed_at'>): boolean => card.last_reviewed_at === null;
+
+/** Local calendar day, as stored in flashcard_reviews.reviewed_on */
+export const toStudyDay = (date = new Date()): string => format(date, 'yyyy-MM-dd');
+
+/** A stored streak only still counts if the user studied today or yesterday */
+export const getCurrentStreak = (streak: number, lastStudyDate: string | null, now = new Date()): number =>
+  lastStudyDate && lastStudyDate >= toStudyDay(subDays(now, 1)) ? streak : 0;
+
+/**
+ * Brings the user's stored cards in line with their notes: new cards are
+ * added, edited ones updated in place (keeping their schedule) and cards no
+ * longer in any note removed.
+ */
+export const syncFlashcards = async (userId: string, notes: FlashcardNote[]): Promise<{ cards: Flashcard[]; error?: string }> => {
+  const { data: stored, error } = await supabase
+    .from('flashcards')
+    .select('id, note_id, card_key, kind, front, back, ease, interval_days, repetitions, lapses, due_at, last_reviewed_at')
+    .eq('user_id', userId);
+  if (error) return { cards: [], error: error.message };
+
+  const storedByKey = new Map((stored || []).map(card => [`${card.note_id}|${card.card_key}`, card]));
+  const wanted = new Set<string>();
+  const inserts: { user_id: string; note_id: string; card_key: string; kind: string; front: string; back: string }[] = [];
+  const updates: { id: string; front: string; back: string }[] = [];
+
+  notes.forEach(note => {
+    parseFlashcards(note.content).forEach(card => {
+      const id = `${note.id}|${card.key}`;
+      wanted.add(id);
+      const existing = storedByKey.get(id);
+      if (!existing) {
+        inserts.push({ user_id: userId, note_id: note.id, card_key: card.key, kind: card.kind, front: card.front, back: card.back });
+      } else if (existing.front !== card.front || existing.back !== card.back) {
+        updates.push({ id: existing.id, front: card.front, back: card.back });
+      }
+    });
+  });
+  const removed = (stored || []).filter(card => !wanted.has(`${card.note_id}|${card.card_key}`)).map(card => card.id);
+
+  const results = await Promise.all([
+    inserts.length > 0
+      ? supabase.from('flashcards').upsert(inserts, { onConflict: 'user_id,note_id,card_key', ignoreDuplicates: true })
+      : null,
+    ...updates.map(u => supabase.from('flashcards').update({ front: u.front, back: u.back }).eq('id', u.id)),
+    removed.length > 0 ? supabase.from('flashcards').delete().in('id', removed) : null,
+  ]);
+  const failed = results.find(r => r?.error);
+  if (failed?.error) return { cards: [], error: failed.error.message };
+
+  if (inserts.length === 0 && updates.length === 0 && removed.length === 0) return { cards: stored || [] };
+  const { data: cards, error: reloadError } = await supabase
+    .from('flashcards')
+    .select('id, note_id, card_key, kind, front, back, ease, interval_days, repetitions, lapses, due_at, last_reviewed_at')
+    .eq('user_id', userId);
+  if (reloadError) return { cards: [], error: reloadError.message };
+  return { cards: cards || [] };
+};
@@ -0,0 +1,2 @@
+// The iCalendar writer is shared with the calendar-feed Supabase function
+export * from '../../supabase/functions/_shared/ics';
@@ -0,0 +1,88 @@
+import type { Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import { remarkWikiLinks } from '@/lib/note-links';
+
+/**
+ * Allow-list applied to every rendered Markdown tree. Raw HTML is never parsed,
+ * and anything outside GitHub's schema (event handlers, `style`, `javascript:`
+ * URLs, iframes, forms) is dropped before it reaches React.
+ */
+export const markdownSanitizeSchema = {
+  ...defaultSchema,
+  // remark-rehype already prefixes footnote ids; prefixing twice breaks their links
+  clobberPrefix: '',
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [['className', /^language-[\w-]+$/, 'math-inline', 'math-display']],
+  },
+};
+
+type PluginList = NonNullable<Options['remarkPlugins']>;
+
+/** GFM tables, task lists, strikethrough, autolinks and footnotes */
+export const markdownRemarkPlugins: PluginList = [remarkGfm];
+
+/** Sanitizing runs before any plugin that emits trusted markup of its own */
+export const markdownRehypePlugins: PluginList = [[rehypeSanitize, markdownSanitizeSchema]];
+
+/** Notes add `$inline$` and `$$block$$` math and `[[Note Title]]` links on top of the shared plugins */
+export const noteRemarkPlugins: PluginList = [...markdownRemarkPlugins, remarkMath, remarkWikiLinks];
+
+/** KaTeX output is generated from the sanitized tree, so it is added afterwards */
+export const noteRehypePlugins: PluginList = [...markdownRehypePlugins, [rehypeKatex, { throwOnError: false, trust: false }]];
+
+/** Note exports write math as MathML, which browsers render without KaTeX's fonts */
+export const exportRehypePlugins: PluginList = [...markdownRehypePlugins, [rehypeKatex, { throwOnError: false, trust: false, output: 'mathml' }]];
+
+/** Fenced code blocks in this language render as Mermaid diagrams */
+export const MERMAID_LANGUAGE = 'mermaid';
+
+type MermaidApi = typeof import('mermaid')['default'];
+
+let mermaidPromise: Promise<MermaidApi> | null = null;
+
+/** Mermaid is large, so it is bundled as its own chunk and loaded on first use */
+export const loadMermaid = (): Promise<MermaidApi> => {
+  if (!mermaidPromise) {
+    mermaidPromise = import('mermaid').then(({ default: mermaid }) => {
+      // Strict mode sanitizes labels and disables click handlers in diagrams
+      mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', theme: 'dark' });
+      return mermaid;
+    });
+  }
+  return mermaidPromise;
+};
+
+/** Content flavour recorded in note exports so other tools know how to render it */
+export const NOTE_CONTENT_FORMAT = 'markdown+gfm+math+mermaid';
+
+/**
+ * Terminates a trailing unclosed ``` fence or `$$` block so that, when several
+ * notes are concatenated into one export, it cannot swallow the notes after it.
+ */
+export const closeOpenMarkdownBlocks = (content: string): string => {
+  let fence: string | null = null;
+  let inMath = false;
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    const marker = /^(`{3,}|~{3,})/.exec(trimmed)?.[1];
+    if (!inMath && marker) {
+      if (fence === null) fence = marker;
+      else if (trimmed.startsWith(fence) && trimmed.slice(fence.length).trim() === '') fence = null;
+    } else if (fence === null && trimmed.startsWith('$$')) {
+      // A one-line `$$x$$` block opens and closes on the same line
+      const closesInline = trimmed.length > 2 && trimmed.endsWith('$$') && trimmed !== '$$';
+      if (!closesInline || inMath) inMath = !inMath;
+    }
+  }
+  let closed = content;
+  if (inMath) closed += '\n$$';
+  if (fence !== null) closed += `\n${fence}`;
+  return closed;
+};
+
+/** Language of a fenced code block from its `language-*` class, or '' */
+export const getCodeLanguage = (className?: string): string => /language-([\w-]+)/.exec(className || '')?.[1] ?? '';
@@ -0,0 +1,111 @@
+import * as Y from 'yjs';
+
+/** Name of the shared text in a note's Yjs document */
+export const NOTE_COLLAB_TEXT = 'content';
+
+/** How often unsaved updates are appended to note_collab_updates */
+export const NOTE_COLLAB_FLUSH_MS = 2000;
+
+/** How often the merged text is copied into notes.content */
+export const NOTE_COLLAB_CONTENT_SAVE_MS = 30000;
+
+/** Stored update rows replayed on open before they are compacted into one */
+export const NOTE_COLLAB_COMPACT_AFTER = 50;
+
+const COLLAB_COLORS = ['#f97316', '#22c55e', '#3b82f6', '#a855f7', '#ec4899', '#eab308', '#14b8a6', '#ef4444'];
+
+/** A collaborator's selection, as Yjs relative positions so it survives edits */
+export interface NoteCollabCursor {
+  anchor: unknown;
+  head: unknown;
+}
+
+/** What each participant tracks on the presence channel */
+export interface NoteCollabPresence {
+  user_id: string;
+  username: string;
+  avatar_url: string | null;
+  color: string;
+  cursor: NoteCollabCursor | null;
+}
+
+/** A remote selection resolved against the local document */
+export interface NoteCollabCaret {
+  userId: string;
+  username: string;
+  color: string;
+  from: number;
+  to: number;
+  head: number;
+}
+
+/** Stable color for a participant */
+export const getCollabColor = (userId: string): string => {
+  let hash = 0;
+  for (const char of userId) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return COLLAB_COLORS[Math.abs(hash) % COLLAB_COLORS.length];
+};
+
+export const encodeUpdate = (update: Uint8Array): string => {
+  let binary = '';
+  update.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const decodeUpdate = (data: string): Uint8Array =>
+  Uint8Array.from(atob(data), char => char.charCodeAt(0));
+
+/**
+ * Document holding `content` as if a fixed client had typed it. Everyone who
+ * starts a session before any update is stored builds the same items, so
+ * their documents merge without duplicating the text.
+ */
+export const createSeedUpdate = (content: string): Uint8Array => {
+  const seed = new Y.Doc();
+  seed.clientID = 0;
+  seed.getText(NOTE_COLLAB_TEXT).insert(0, content);
+  const update = Y.encodeStateAsUpdate(seed);
+  seed.destroy();
+  return update;
+};
+
+/**
+ * Applies the edit that turns `oldValue` into `newValue` to the shared text,
+ * as one replacement between their common prefix and suffix.
+ */
+export const applyTextChange = (text: Y.Text, oldValue: string, newValue: string) => {
+  if (oldValue === newValue) return;
+  let start = 0;
+  const maxStart = Math.min(oldValue.length, newValue.length);
+  while (start < maxStart && oldValue[start] === newValue[start]) start++;
+  let oldEnd = oldValue.length;
+  let newEnd = newValue.length;
+  while (oldEnd > start && newEnd > start && oldValue[oldEnd - 1] === newValue[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+  if (oldEnd > start) text.delete(start, oldEnd - start);
+  if (newEnd > start) text.insert(start, newValue.slice(start, newEnd));
+};
+
+export const toCollabCursor = (text: Y.Text, anchor: number, head: number): NoteCollabCursor => ({
+  anchor: Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(text, anchor)),
+  head: Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(text, head)),
+});
+
+const toIndex = (doc: Y.Doc, position: unknown): number | null => {
+  if (!position) return null;
+  const absolute = Y.createAbsolutePositionFromRelativePosition(Y.createRelativePositionFromJSON(position), doc);
+  return absolute ? absolute.index : null;
+};
+
+/** Where a shared cursor is in the local document, or null if it can't be placed yet */
+export const resolveCollabCursor = (doc: Y.Doc, cursor: NoteCollabCursor | null): { anchor: number; head: number } | null => {
+  if (!cursor) return null;
+  const anchor = toIndex(doc, cursor.anchor);
+  const head = toIndex(doc, cursor.head);
+  if (anchor === null || head === null) return null;
+  return { anchor, head };
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from 'vitest';
+import { renderNotesDocument, type ExportNote } from '@/lib/note-export';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const note = (id: string, title: string, content: string): ExportNote => ({
+  id,
+  title,
+  content,
+  subject: null,
+  is_public: false,
+  created_at: '2026-10-19T10:00:00Z',
+  profiles: { username: 'sam' },
+});
+
+describe('renderNotesDocument', () => {
+  it('renders each note in its own article', async () => {
+    const html = await renderNotesDocument([note('1', 'One', '**bold**'), note('2', 'Two', 'plain')], [], { embed: false });
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<title>Study Notes</title>');
+    expect(html).toContain('<strong>bold</strong>');
+    expect(html.match(/<article /g)).toHaveLength(2);
+  });
+
+  it('keeps notes after one left inside a code fence or math block intact', async () => {
+    const html = await renderNotesDocument([
+      note('1', 'Fence', '```js\nlet a = 1;'),
+      note('2', 'Math', '$$\nx^2'),
+      note('3', 'After', 'Still **formatted**'),
+    ], [], { embed: false });
+    expect(html).toContain('<code class="language-js">let a = 1;</code>');
+    expect(html).toContain('<strong>formatted</strong>');
+  });
+
+  it('links wiki links to notes in the export and unlinks the rest', async () => {
+    const html = await renderNotesDocument([note('1', 'One', 'See [[Two]] and [[Missing]]'), note('2', 'Two', 'x')], [], { embed: false });
+    expect(html).toContain('<a href="#note-2">Two</a>');
+    expect(html).toContain('<span>Missing</span>');
+  });
+});
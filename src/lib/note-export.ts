@@ -0,0 +1,255 @@
+import { createElement } from 'react';
+import { strToU8, zipSync } from 'fflate';
+import { supabase } from '@/integrations/supabase/client';
+import { DocumentParts, NoteAssetScanner, NotesDocument } from '@/components/NoteExportDocument';
+import { getFileUrl } from '@/lib/file-upload';
+import { closeOpenMarkdownBlocks, loadMermaid } from '@/lib/markdown';
+import { getFolderPath, NoteFolder } from '@/lib/note-folders';
+
+export interface ExportNote {
+  id: string;
+  title: string;
+  content: string;
+  subject: string | null;
+  is_public: boolean;
+  created_at: string;
+  folder_id?: string | null;
+  profiles: {
+    username: string;
+  };
+}
+
+export interface ExportAttachment {
+  id: string;
+  note_id: string;
+  file_name: string;
+  file_size: number;
+  file_type: string;
+  storage_path: string;
+  /** The file itself, or null when it could not be downloaded */
+  data: Blob | null;
+}
+
+// Characters that are not allowed in file names on common systems
+const UNSAFE_FILE_CHARS = /[/\\:*?"<>|\p{Cc}]/gu;
+const MAX_FILE_NAME = 100;
+
+/** File name for a note title or attachment, safe on Windows, macOS and Linux */
+export const toFileName = (name: string, fallback = 'Untitled'): string =>
+  name.replace(UNSAFE_FILE_CHARS, '-').replace(/\s+/g, ' ').replace(/^[.\s]+|[.\s]+$/g, '').slice(0, MAX_FILE_NAME).trim() || fallback;
+
+/** `name.md`, `name (2).md`, ... so files in the same folder don't overwrite each other */
+const uniquePath = (taken: Set<string>, folder: string, name: string): string => {
+  const dot = name.lastIndexOf('.');
+  const stem = dot > 0 ? name.slice(0, dot) : name;
+  const ext = dot > 0 ? name.slice(dot) : '';
+  let path = folder ? `${folder}/${name}` : name;
+  for (let n = 2; taken.has(path.toLowerCase()); n++) {
+    path = folder ? `${folder}/${stem} (${n})${ext}` : `${stem} (${n})${ext}`;
+  }
+  taken.add(path.toLowerCase());
+  return path;
+};
+
+// Relative link target that Markdown parsers and the importer read back
+const encodePath = (path: string): string =>
+  path.split('/').map(part => encodeURIComponent(part).replace(/\(/g, '%28').replace(/\)/g, '%29')).join('/');
+
+/** Date stamp used in export file names */
+export const exportDate = (): string => new Date().toISOString().split('T')[0];
+
+/** Save a generated file through the browser */
+export const downloadFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * The notes' attachments with their files. Files are downloaded one at a
+ * time; a file that fails to download is kept with `data: null`.
+ */
+export const fetchExportAttachments = async (noteIds: string[]): Promise<ExportAttachment[]> => {
+  if (noteIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from('note_attachments')
+    .select('id, note_id, file_name, file_size, file_type, storage_path')
+    .in('note_id', noteIds)
+    .is('deleted_at', null)
+    .order('created_at');
+  if (error) throw new Error(error.message);
+
+  const attachments: ExportAttachment[] = [];
+  for (const attachment of data || []) {
+    const { data: file } = await supabase.storage.from('note-attachments').download(attachment.storage_path);
+    attachments.push({ ...attachment, data: file ?? null });
+  }
+  return attachments;
+};
+
+const yamlString = (value: string): string => JSON.stringify(value);
+
+/**
+ * A zip the note importer reads back: each note is a Markdown file with
+ * front-matter for its title, subject and visibility, placed in its
+ * notebook's folders. Attachments sit in `attachments/<note>/` next to it,
+ * are listed in the front-matter, and links to them in the note are
+ * rewritten to those relative paths. Everything is inside one `root`
+ * folder, which the importer drops.
+ */
+export const buildNotesZip = async (
+  notes: ExportNote[],
+  attachments: ExportAttachment[],
+  folders: NoteFolder[],
+  root: string
+): Promise<Uint8Array> => {
+  const files: Record<string, Uint8Array> = {};
+  const taken = new Set<string>();
+
+  for (const note of notes) {
+    const folder = [root, ...getFolderPath(folders, note.folder_id).map(name => toFileName(name, 'Folder'))].join('/');
+    const notePath = uniquePath(taken, folder, `${toFileName(note.title)}.md`);
+    const stem = notePath.split('/').pop()!.replace(/\.md$/, '');
+    const assetFolder = `attachments/${stem}`;
+
+    let content = note.content;
+    const listed: string[] = [];
+    for (const attachment of attachments.filter(a => a.note_id === note.id && a.data)) {
+      const fullPath = uniquePath(taken, `${folder}/${assetFolder}`, toFileName(attachment.file_name, 'file'));
+      files[fullPath] = new Uint8Array(await attachment.data!.arrayBuffer());
+      const relative = encodePath(fullPath.slice(folder.length + 1));
+      listed.push(relative);
+      content = content.split(getFileUrl('note-attachments', attachment.storage_path)).join(relative);
+    }
+
+    const frontMatter = [
+      '---',
+      `title: ${yamlString(note.title)}`,
+      ...(note.subject ? [`subject: ${yamlString(note.subject)}`] : []),
+      `visibility: ${note.is_public ? 'public' : 'private'}`,
+      `author: ${yamlString(note.profiles.username)}`,
+      `created: ${note.created_at}`,
+      ...(listed.length > 0 ? ['attachments:', ...listed.map(path => `  - ${yamlString(path)}`)] : []),
+      '---',
+      '',
+    ].join('\n');
+    files[notePath] = strToU8(`${frontMatter}${closeOpenMarkdownBlocks(content)}\n`);
+  }
+
+  return zipSync(files);
+};
+
+interface ExportOptions {
+  /** Inline images and attachments as data URLs so the file works offline */
+  embed: boolean;
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * A standalone HTML document of the notes with their formatting, math,
+ * diagrams and attachments. With `embed`, images and attachment files are
+ * inlined as data URLs so the document opens without the app.
+ */
+export const renderNotesDocument = async (
+  notes: ExportNote[],
+  attachments: ExportAttachment[],
+  { embed }: ExportOptions
+): Promise<string> => {
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  const parts: DocumentParts = { diagrams: new Map(), images: new Map() };
+  const links = new Map(attachments.map(a => [a.id, getFileUrl('note-attachments', a.storage_path)]));
+
+  // A first render finds the diagrams and images the notes use
+  const diagramCodes = new Set<string>();
+  const imageUrls = new Set<string>();
+  renderToStaticMarkup(createElement(NoteAssetScanner, {
+    content: notes.map(n => closeOpenMarkdownBlocks(n.content)).join('\n\n'),
+    onDiagram: code => diagramCodes.add(code),
+    onImage: src => imageUrls.add(src),
+  }));
+
+  if (diagramCodes.size > 0) {
+    const mermaid = await loadMermaid();
+    let n = 0;
+    for (const code of diagramCodes) {
+      try {
+        // The app's dark theme doesn't suit paper
+        const { svg } = await mermaid.render(`note-export-diagram-${n++}`, `%%{init: {"theme": "default"}}%%\n${code}`);
+        parts.diagrams.set(code, svg);
+      } catch {
+        // Diagrams that fail to render are shown as their source
+      }
+    }
+  }
+
+  if (embed) {
+    for (const attachment of attachments) {
+      if (!attachment.data) continue;
+      const dataUrl = await blobToDataUrl(attachment.data);
+      parts.images.set(links.get(attachment.id)!, dataUrl);
+      links.set(attachment.id, dataUrl);
+    }
+    for (const url of imageUrls) {
+      if (parts.images.has(url) || url.startsWith('data:')) continue;
+      try {
+        const response = await fetch(url);
+        if (response.ok) parts.images.set(url, await blobToDataUrl(await response.blob()));
+      } catch {
+        // Images the browser isn't allowed to read keep their URL
+      }
+    }
+  }
+
+  return `<!DOCTYPE html>\n${renderToStaticMarkup(createElement(NotesDocument, { notes, attachments, parts, links }))}`;
+};
+
+// How long the print view may take to load before printing gives up
+const PRINT_LOAD_TIMEOUT_MS = 30000;
+
+/**
+ * Print a standalone HTML document from a hidden frame, so the browser's
+ * "Save as PDF" keeps the rendered formatting. Waits for the document's
+ * images before printing.
+ */
+export const printDocument = (html: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const frame = document.createElement('iframe');
+    frame.setAttribute('aria-hidden', 'true');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    // Same origin so it can be printed from here, but no scripts: nothing in
+    // an exported note can run or reach the app's session
+    frame.sandbox.add('allow-modals', 'allow-same-origin');
+    const timer = setTimeout(() => {
+      frame.remove();
+      reject(new Error('The print view took too long to load'));
+    }, PRINT_LOAD_TIMEOUT_MS);
+    frame.onload = async () => {
+      clearTimeout(timer);
+      const view = frame.contentWindow;
+      if (!view) {
+        frame.remove();
+        reject(new Error('Could not open the print view'));
+        return;
+      }
+      await Promise.all(Array.from(view.document.images, img => img.decode().catch(() => undefined)));
+      view.addEventListener('afterprint', () => frame.remove());
+      view.focus();
+      view.print();
+      resolve();
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  });
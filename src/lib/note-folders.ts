@@ -0,0 +1,102 @@
+export type FolderVisibility = 'inherit' | 'public' | 'private';
+
+export interface NoteFolder {
+  id: string;
+  user_id: string;
+  parent_id: string | null;
+  name: string;
+  default_visibility: string;
+}
+
+export interface NoteFolderNode extends NoteFolder {
+  children: NoteFolderNode[];
+  depth: number;
+  /** Notes in this folder and all of its subfolders */
+  noteCount: number;
+}
+
+interface FiledNote {
+  folder_id?: string | null;
+}
+
+/** Label of each visibility choice in the folder menu */
+export const FOLDER_VISIBILITY_LABELS: Record<FolderVisibility, string> = {
+  inherit: 'Inherit',
+  public: 'Always public',
+  private: 'Always private',
+};
+
+/**
+ * Folders as a tree of notebooks (top-level folders) sorted by name, with
+ * note counts that include subfolders. Folders whose parent is missing are
+ * shown as notebooks.
+ */
+export const buildFolderTree = (folders: NoteFolder[], notes: FiledNote[]): NoteFolderNode[] => {
+  const direct = new Map<string, number>();
+  notes.forEach(note => {
+    if (note.folder_id) direct.set(note.folder_id, (direct.get(note.folder_id) ?? 0) + 1);
+  });
+
+  const ids = new Set(folders.map(f => f.id));
+  const build = (parentId: string | null, depth: number, seen: Set<string>): NoteFolderNode[] =>
+    folders
+      .filter(f => (parentId === null ? !f.parent_id || !ids.has(f.parent_id) : f.parent_id === parentId) && !seen.has(f.id))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(folder => {
+        const children = build(folder.id, depth + 1, new Set(seen).add(folder.id));
+        const noteCount = (direct.get(folder.id) ?? 0) + children.reduce((sum, c) => sum + c.noteCount, 0);
+        return { ...folder, children, depth, noteCount };
+      });
+
+  return build(null, 0, new Set());
+};
+
+/** A folder and every folder below it */
+export const getSubtreeIds = (folders: NoteFolder[], folderId: string): Set<string> => {
+  const ids = new Set([folderId]);
+  let added = true;
+  while (added) {
+    added = false;
+    folders.forEach(f => {
+      if (f.parent_id && ids.has(f.parent_id) && !ids.has(f.id)) {
+        ids.add(f.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+};
+
+/** Whether `folderId` can be moved under `targetId` (null for top level) */
+export const canMoveFolder = (folders: NoteFolder[], folderId: string, targetId: string | null): boolean =>
+  targetId === null || !getSubtreeIds(folders, folderId).has(targetId);
+
+/** Names from the notebook down to the folder, e.g. `['Year 2', 'Physics']` */
+export const getFolderPath = (folders: NoteFolder[], folderId: string | null | undefined): string[] => {
+  const path: string[] = [];
+  const seen = new Set<string>();
+  let current = folders.find(f => f.id === folderId);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current.name);
+    current = folders.find(f => f.id === current?.parent_id);
+  }
+  return path;
+};
+
+/**
+ * Visibility forced on notes in a folder by the nearest folder that sets
+ * one: true for public, false for private, null when notes choose their own.
+ * Mirrors note_folder_visibility() in add-note-folders.sql.
+ */
+export const getForcedVisibility = (folders: NoteFolder[], folderId: string | null | undefined): boolean | null => {
+  const seen = new Set<string>();
+  let current = folders.find(f => f.id === folderId);
+  while (current && !seen.has(current.id)) {
+    if (current.default_visibility === 'public') return true;
+    if (current.default_visibility === 'private') return false;
+    seen.add(current.id);
+    current = folders.find(f => f.id === current?.parent_id);
+  }
+  return null;
+};
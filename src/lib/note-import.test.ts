@@ -0,0 +1,225 @@
+import { describe, expect, it, vi } from 'vitest';
+import { strToU8 } from 'fflate';
+import { fillAssetLinks, parseFrontMatter, parseNoteBundle, readImportFiles, type ImportBundle } from '@/lib/note-import';
+import { buildNotesZip, type ExportAttachment, type ExportNote } from '@/lib/note-export';
+import type { NoteFolder } from '@/lib/note-folders';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    storage: {
+      from: (bucket: string) => ({
+        getPublicUrl: (path: string) => ({ data: { publicUrl: `https://files.test/${bucket}/${path}` } }),
+      }),
+    },
+  },
+}));
+
+const bundle = (files: Record<string, string | Uint8Array>): ImportBundle =>
+  new Map(Object.entries(files).map(([path, content]) => [path, typeof content === 'string' ? strToU8(content) : content]));
+
+describe('parseFrontMatter', () => {
+  it('reads strings, booleans and both list styles', () => {
+    const { data, body } = parseFrontMatter([
+      '---',
+      'Title: Waves',
+      'public: true',
+      'tags: [physics, "waves, sound", \'it\'\'s\']',
+      'aliases:',
+      '  - Oscillation',
+      '  - "Sound \\"waves\\""',
+      'nested:',
+      '  key: ignored',
+      '---',
+      '# Body',
+    ].join('\n'));
+    expect(data).toEqual({
+      title: 'Waves',
+      public: 'true',
+      tags: ['physics', '"waves', 'sound"', "it's"],
+      aliases: ['Oscillation', 'Sound "waves"'],
+    });
+    expect(body).toBe('# Body');
+  });
+
+  it('unquotes single- and double-quoted values', () => {
+    const { data } = parseFrontMatter('---\ntitle: "Line\\none"\nsubject: \'Maths: Year 2\'\n---\n');
+    expect(data.title).toBe('Line\none');
+    expect(data.subject).toBe('Maths: Year 2');
+  });
+
+  it('accepts a byte order mark, CRLF line endings and a `...` end marker', () => {
+    const { data, body } = parseFrontMatter('\uFEFF---\r\ntitle: Notes\r\n...\r\nText');
+    expect(data.title).toBe('Notes');
+    expect(body).toBe('Text');
+  });
+
+  it('leaves text without a closing fence alone', () => {
+    const text = '---\ntitle: Draft\nNo closing fence here';
+    expect(parseFrontMatter(text)).toEqual({ data: {}, body: text });
+  });
+
+  it('treats text without front matter as the body', () => {
+    expect(parseFrontMatter('# Just a note')).toEqual({ data: {}, body: '# Just a note' });
+  });
+});
+
+describe('parseNoteBundle', () => {
+  const files = bundle({
+    'Year 2/Physics/Waves.md': '# Waves',
+    'Year 2/Chemistry abcdef0123456789abcdef0123456789/Acids.md': '---\nsubject: Chem\n---\nAcids',
+    'Loose.md': 'No folder',
+  });
+
+  it('maps nested folders to subjects', () => {
+    const notes = parseNoteBundle(files, 'subjects');
+    const byTitle = new Map(notes.map(n => [n.title, n]));
+    expect(byTitle.get('Waves')?.subject).toBe('Year 2 / Physics');
+    // Front-matter wins over the folders
+    expect(byTitle.get('Acids')?.subject).toBe('Chem');
+    expect(byTitle.get('Loose')?.subject).toBeNull();
+    expect(notes.every(n => n.folders.length === 0)).toBe(true);
+  });
+
+  it('maps nested folders to notebooks, without Notion ids', () => {
+    const notes = parseNoteBundle(files, 'notebooks');
+    const byTitle = new Map(notes.map(n => [n.title, n]));
+    expect(byTitle.get('Waves')?.folders).toEqual(['Year 2', 'Physics']);
+    expect(byTitle.get('Waves')?.subject).toBeNull();
+    expect(byTitle.get('Acids')?.folders).toEqual(['Year 2', 'Chemistry']);
+    expect(byTitle.get('Loose')?.folders).toEqual([]);
+  });
+
+  it('reads title and visibility from front matter', () => {
+    const [note] = parseNoteBundle(bundle({ 'a.md': '---\ntitle: Real title\nvisibility: private\n---\nx' }), 'subjects');
+    expect(note.title).toBe('Real title');
+    expect(note.isPublic).toBe(false);
+  });
+
+  it('turns links to imported notes into wiki links', () => {
+    const notes = parseNoteBundle(bundle({
+      'Physics/Waves.md': '---\ntitle: Wave Motion\n---\nSee [sound](../Sound%20Notes.md), [[Sound Notes|the sound note]] and [[Elsewhere]].',
+      'Sound Notes.md': 'Sound',
+    }), 'subjects');
+    const waves = notes.find(n => n.title === 'Wave Motion')!;
+    expect(waves.content).toBe('See [[Sound Notes|sound]], [[Sound Notes|the sound note]] and [[Elsewhere]].');
+    // The Obsidian link already pointed at the right title
+    expect(waves.linksRewritten).toBe(1);
+  });
+
+  it('rewrites linked files to asset placeholders and collects them', () => {
+    const notes = parseNoteBundle(bundle({
+      'Physics/Waves.md': [
+        '![diagram](<img/wave (1).png> "A wave")',
+        '![[chart.png|300]]',
+        '[Handout](<../Handouts/Sheet.pdf>)',
+        '[site](https://example.com) [top](#top)',
+        '```',
+        '![in code](<img/wave (1).png>)',
+        '```',
+        '[gone](missing.png)',
+      ].join('\n'),
+      'Physics/img/wave (1).png': new Uint8Array([1]),
+      'Attachments/chart.png': new Uint8Array([2]),
+      'Handouts/Sheet.pdf': new Uint8Array([3]),
+    }), 'subjects');
+    const [note] = notes;
+    expect(note.content).toBe([
+      '![diagram](import-asset:Physics%2Fimg%2Fwave%20%281%29.png "A wave")',
+      '![chart.png](import-asset:Attachments%2Fchart.png)',
+      '[Handout](import-asset:Handouts%2FSheet.pdf)',
+      '[site](https://example.com) [top](#top)',
+      '```',
+      '![in code](<img/wave (1).png>)',
+      '```',
+      '[gone](missing.png)',
+    ].join('\n'));
+    expect(note.assets.sort()).toEqual(['Attachments/chart.png', 'Handouts/Sheet.pdf', 'Physics/img/wave (1).png']);
+    expect(note.linksRewritten).toBe(3);
+    expect(note.warnings).toEqual(['Missing linked file: missing.png']);
+  });
+
+  it('attaches files listed in front matter', () => {
+    const [note] = parseNoteBundle(bundle({
+      'Notes/a.md': '---\nattachments:\n  - "files/Data%20set.csv"\n  - files/none.txt\n---\nx',
+      'Notes/files/Data set.csv': 'a,b',
+    }), 'subjects');
+    expect(note.assets).toEqual(['Notes/files/Data set.csv']);
+    expect(note.warnings).toEqual(['Missing attachment: Notes/files/none.txt']);
+  });
+
+  it('leaves out files over the upload limit', () => {
+    const [note] = parseNoteBundle(bundle({
+      'a.md': '![big](big.png)',
+      'big.png': new Uint8Array(10 * 1024 * 1024 + 1),
+    }), 'subjects');
+    expect(note.assets).toEqual([]);
+    expect(note.content).toBe('![big](big.png)');
+    expect(note.warnings[0]).toMatch(/over the 10MB upload limit/);
+  });
+});
+
+describe('fillAssetLinks', () => {
+  it('points placeholders at uploaded files and falls back to the file name', () => {
+    const content = '![a](import-asset:img%2Fwave%20%281%29.png) [b](import-asset:docs%2FSheet%20one.pdf)';
+    const urls = new Map([['img/wave (1).png', 'https://files.test/wave.png']]);
+    expect(fillAssetLinks(content, urls)).toBe('![a](https://files.test/wave.png) [b](Sheet%20one.pdf)');
+  });
+});
+
+describe('export and import round trip', () => {
+  it('reads a zip from buildNotesZip back into the same notes and attachments', async () => {
+    const folders: NoteFolder[] = [
+      { id: 'f1', user_id: 'u', parent_id: null, name: 'Science', default_visibility: 'private' },
+      { id: 'f2', user_id: 'u', parent_id: 'f1', name: 'Physics: Waves', default_visibility: 'private' },
+    ];
+    const notes: ExportNote[] = [
+      {
+        id: 'n1',
+        title: 'Waves (part 1)',
+        content: 'See [[Sound]].\n\n![wave](https://files.test/note-attachments/u/wave.png)',
+        subject: 'Physics',
+        is_public: true,
+        created_at: '2026-10-19T10:00:00Z',
+        folder_id: 'f2',
+        profiles: { username: 'sam' },
+      },
+      {
+        id: 'n2',
+        title: 'Sound',
+        content: '```js\nunclosed',
+        subject: null,
+        is_public: false,
+        created_at: '2026-10-19T11:00:00Z',
+        folder_id: null,
+        profiles: { username: 'sam' },
+      },
+    ];
+    const attachments: ExportAttachment[] = [
+      { id: 'a1', note_id: 'n1', file_name: 'wave.png', file_size: 3, file_type: 'image/png', storage_path: 'u/wave.png', data: new Blob([new Uint8Array([7, 8, 9])]) },
+      { id: 'a2', note_id: 'n1', file_name: 'notes.pdf', file_size: 1, file_type: 'application/pdf', storage_path: 'u/notes.pdf', data: new Blob([new Uint8Array([1])]) },
+      { id: 'a3', note_id: 'n2', file_name: 'lost.txt', file_size: 1, file_type: 'text/plain', storage_path: 'u/lost.txt', data: null },
+    ];
+
+    const zip = await buildNotesZip(notes, attachments, folders, 'Study Notes');
+    const files = await readImportFiles([new File([zip.slice()], 'export.zip')]);
+    const imported = parseNoteBundle(files, 'notebooks');
+    const byTitle = new Map(imported.map(n => [n.title, n]));
+
+    const waves = byTitle.get('Waves (part 1)')!;
+    expect(waves.subject).toBe('Physics');
+    expect(waves.isPublic).toBe(true);
+    expect(waves.folders).toEqual(['Science', 'Physics- Waves']);
+    expect(waves.assets.map(path => path.split('/').pop()).sort()).toEqual(['notes.pdf', 'wave.png']);
+    expect(waves.warnings).toEqual([]);
+    const urls = new Map(waves.assets.map(path => [path, `https://new.test/${path.split('/').pop()}`]));
+    expect(fillAssetLinks(waves.content, urls)).toBe('See [[Sound]].\n\n![wave](https://new.test/wave.png)');
+    const wavePath = waves.assets.find(path => path.endsWith('wave.png'))!;
+    expect(Array.from(files.get(wavePath)!)).toEqual([7, 8, 9]);
+
+    const sound = byTitle.get('Sound')!;
+    expect(sound.isPublic).toBe(false);
+    expect(sound.folders).toEqual([]);
+    expect(sound.content).toBe('```js\nunclosed\n```');
+    expect(sound.assets).toEqual([]);
+  });
+});
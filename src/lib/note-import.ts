@@ -0,0 +1,365 @@
+import { unzipSync } from 'fflate';
+import { MAX_UPLOAD_SIZE } from '@/lib/file-upload';
+import { normalizeNoteTitle } from '@/lib/note-links';
+
+/** What the folders of an import become */
+export type FolderMapping = 'subjects' | 'notebooks';
+
+/** Files of an import by their path inside it, e.g. `Physics/Waves.md` */
+export type ImportBundle = Map<string, Uint8Array>;
+
+export interface ImportedNote {
+  /** Path of the Markdown file, used in the report */
+  source: string;
+  title: string;
+  subject: string | null;
+  /** From front-matter; null when it doesn't say */
+  isPublic: boolean | null;
+  /** Notebook and folder names the note is filed under (notebooks mapping) */
+  folders: string[];
+  /** Markdown with bundled files pointing at `import-asset:` placeholders */
+  content: string;
+  /** Bundle paths of the files to upload as the note's attachments */
+  assets: string[];
+  /** Links and embeds pointed at other imported notes or uploaded files */
+  linksRewritten: number;
+  warnings: string[];
+}
+
+const MARKDOWN_FILE = /\.(md|markdown)$/i;
+const FENCE = /^\s*(```|~~~)/;
+const FRONT_MATTER = /^---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+// ![alt](target "title") and [label](target), target optionally in <>
+const MARKDOWN_LINK = /(!?)\[([^\]\n]*)\]\(\s*(<[^>\n]+>|[^\s)]+)(\s+"[^"\n]*")?\s*\)/g;
+// Obsidian [[Note]], [[folder/Note#Heading|alias]] and ![[image.png|300]]
+const OBSIDIAN_LINK = /(!?)\[\[([^[\]|\n#]*)(#[^[\]|\n]*)?(?:\|([^[\]\n]*))?\]\]/g;
+const ASSET_PLACEHOLDER = /import-asset:([^\s)>"]+)/g;
+// Notion appends a 32 character id to exported file and folder names
+const NOTION_ID = /\s+[0-9a-f]{32}$/i;
+
+const FILE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  md: 'text/markdown',
+  mp3: 'audio/mpeg',
+  mp4: 'video/mp4',
+  zip: 'application/zip',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/** MIME type for a file name, from its extension */
+export const guessFileType = (path: string): string =>
+  FILE_TYPES[path.split('.').pop()?.toLowerCase() ?? ''] ?? 'application/octet-stream';
+
+const baseName = (path: string): string => path.split('/').pop() ?? path;
+
+const dirName = (path: string): string => path.split('/').slice(0, -1).join('/');
+
+const stripNotionId = (name: string): string => name.replace(NOTION_ID, '').trim() || name;
+
+const isIgnoredPath = (path: string): boolean =>
+  path.endsWith('/') || path.split('/').some(part => part === '__MACOSX' || part.startsWith('.'));
+
+/** Resolve `./` and `../` in a path relative to a folder of the bundle */
+const resolvePath = (folder: string, target: string): string => {
+  const parts: string[] = target.startsWith('/') ? [] : folder.split('/').filter(Boolean);
+  target.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Read the chosen files into a bundle: zip archives are unpacked, other files
+ * keep their name. A single folder wrapping everything (as when zipping a
+ * folder) is dropped, along with hidden files and macOS metadata.
+ */
+export const readImportFiles = async (files: File[]): Promise<ImportBundle> => {
+  const entries: [string, Uint8Array][] = [];
+  for (const file of files) {
+    const data = new Uint8Array(await file.arrayBuffer());
+    if (/\.zip$/i.test(file.name)) {
+      Object.entries(unzipSync(data)).forEach(([path, content]) => entries.push([path.replace(/\\/g, '/'), content]));
+    } else {
+      entries.push([file.webkitRelativePath || file.name, data]);
+    }
+  }
+
+  const kept = entries.filter(([path]) => !isIgnoredPath(path));
+  const roots = new Set(kept.map(([path]) => (path.includes('/') ? path.split('/')[0] : '')));
+  const root = roots.size === 1 && !roots.has('') ? `${Array.from(roots)[0]}/` : '';
+  return new Map(kept.map(([path, content]) => [path.slice(root.length), content]));
+};
+
+const unquote = (value: string): string => {
+  const v = value.trim();
+  if (v.length > 1 && v.startsWith('"') && v.endsWith('"')) {
+    // Double-quoted YAML strings use JSON's escapes
+    try {
+      return JSON.parse(v);
+    } catch {
+      return v.slice(1, -1);
+    }
+  }
+  if (v.length > 1 && v.startsWith("'") && v.endsWith("'")) return v.slice(1, -1).replace(/''/g, "'");
+  return v;
+};
+
+/**
+ * The simple `key: value` front-matter written by note apps: strings, booleans
+ * and lists (`[a, b]` or `- item` lines). Nested values are ignored.
+ * @returns Lower-cased keys with their values, and the content after it
+ */
+export const parseFrontMatter = (text: string): { data: Record<string, string | string[]>; body: string } => {
+  const source = text.replace(/^\uFEFF/, '');
+  const match = source.match(FRONT_MATTER);
+  if (!match) return { data: {}, body: source };
+
+  const data: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+  match[1].split(/\r?\n/).forEach(line => {
+    const item = line.match(/^\s+-\s+(.*)$|^-\s+(.*)$/);
+    if (item && listKey) {
+      const list = Array.isArray(data[listKey]) ? (data[listKey] as string[]) : [];
+      data[listKey] = [...list, unquote(item[1] ?? item[2])];
+      return;
+    }
+    const pair = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!pair) return;
+    const key = pair[1].toLowerCase();
+    const value = pair[2].trim();
+    listKey = value ? null : key;
+    if (value.startsWith('[') && value.endsWith(']')) {
+      data[key] = value.slice(1, -1).split(',').map(unquote).filter(Boolean);
+    } else if (value) {
+      data[key] = unquote(value);
+    }
+  });
+  return { data, body: source.slice(match[0].length) };
+};
+
+const firstValue = (data: Record<string, string | string[]>, keys: string[]): string | null => {
+  for (const key of keys) {
+    const value = data[key];
+    const text = Array.isArray(value) ? value[0] : value;
+    if (text?.trim()) return text.trim();
+  }
+  return null;
+};
+
+const readVisibility = (data: Record<string, string | string[]>): boolean | null => {
+  const visibility = firstValue(data, ['visibility'])?.toLowerCase();
+  if (visibility === 'public') return true;
+  if (visibility === 'private') return false;
+  const flag = firstValue(data, ['public', 'is_public'])?.toLowerCase();
+  if (flag === 'true' || flag === 'yes') return true;
+  if (flag === 'false' || flag === 'no') return false;
+  const hidden = firstValue(data, ['private'])?.toLowerCase();
+  if (hidden === 'true' || hidden === 'yes') return false;
+  if (hidden === 'false' || hidden === 'no') return true;
+  return null;
+};
+
+/** Rewrite links outside code blocks, leaving fenced code untouched */
+const mapOutsideCode = (content: string, rewrite: (text: string) => string): string => {
+  const out: string[] = [];
+  let chunk: string[] = [];
+  let fence: string | null = null;
+  const flush = () => {
+    if (chunk.length > 0) out.push(rewrite(chunk.join('\n')));
+    chunk = [];
+  };
+  content.split('\n').forEach(line => {
+    const fenceMatch = line.match(FENCE);
+    if (fence) {
+      out.push(line);
+      if (fenceMatch && fenceMatch[1] === fence) fence = null;
+      return;
+    }
+    if (fenceMatch) {
+      flush();
+      fence = fenceMatch[1];
+      out.push(line);
+      return;
+    }
+    chunk.push(line);
+  });
+  flush();
+  return out.join('\n');
+};
+
+// Titles can't contain brackets or pipes in a wiki link
+const wikiLink = (title: string, label: string): string => {
+  if (/[[\]|]/.test(title)) return label || title;
+  return label && normalizeNoteTitle(label) !== normalizeNoteTitle(title) ? `[[${title}|${label}]]` : `[[${title}]]`;
+};
+
+/**
+ * Notes found in an import bundle, ready for a dry run.
+ *
+ * Front-matter sets the title (`title`), subject (`subject`, `course` or
+ * `class`) and visibility (`visibility: public|private`, `public` or
+ * `private`); otherwise the file name is the title and the folders give the
+ * subject (`Year 2 / Physics`) or, with the notebooks mapping, the notebook
+ * and folders to file it in. Links to other Markdown files in the bundle
+ * become wiki links, and images and files it links to become attachments.
+ * Files listed under `attachments` in the front-matter are attached too.
+ */
+export const parseNoteBundle = (bundle: ImportBundle, mapping: FolderMapping): ImportedNote[] => {
+  const decoder = new TextDecoder();
+  const paths = Array.from(bundle.keys());
+  const markdownPaths = paths.filter(p => MARKDOWN_FILE.test(p)).sort((a, b) => a.localeCompare(b));
+
+  const parsed = markdownPaths.map(path => {
+    const { data, body } = parseFrontMatter(decoder.decode(bundle.get(path)));
+    const fileTitle = stripNotionId(baseName(path).replace(MARKDOWN_FILE, ''));
+    const folders = dirName(path).split('/').filter(Boolean).map(stripNotionId);
+    const listed = data.attachments;
+    return {
+      path,
+      body,
+      title: firstValue(data, ['title']) ?? fileTitle,
+      subject: firstValue(data, ['subject', 'course', 'class']) ?? (mapping === 'subjects' && folders.length > 0 ? folders.join(' / ') : null),
+      isPublic: readVisibility(data),
+      folders: mapping === 'notebooks' ? folders : [],
+      listedAssets: (Array.isArray(listed) ? listed : listed ? [listed] : []).map(p => resolvePath(dirName(path), safeDecode(p))),
+    };
+  });
+
+  const titleByPath = new Map(parsed.map(note => [note.path.toLowerCase(), note.title]));
+  // Obsidian links by file name; the first file with a name wins
+  const titleByName = new Map<string, string>();
+  parsed.forEach(note => {
+    const name = baseName(note.path).replace(MARKDOWN_FILE, '').toLowerCase();
+    if (!titleByName.has(name)) titleByName.set(name, note.title);
+  });
+  const pathsByLower = new Map(paths.map(p => [p.toLowerCase(), p]));
+  const pathsByName = new Map<string, string>();
+  paths.forEach(p => {
+    if (!pathsByName.has(baseName(p).toLowerCase())) pathsByName.set(baseName(p).toLowerCase(), p);
+  });
+
+  return parsed.map(note => {
+    const folder = dirName(note.path);
+    const assets = new Set<string>();
+    const warnings: string[] = [];
+    let linksRewritten = 0;
+
+    const addAsset = (path: string): boolean => {
+      const size = bundle.get(path)?.length ?? 0;
+      if (size > MAX_UPLOAD_SIZE) {
+        warnings.push(`${baseName(path)} is over the 10MB upload limit and was left out`);
+        return false;
+      }
+      assets.add(path);
+      return true;
+    };
+
+    // Parentheses are encoded too so they can't end the Markdown link early
+    const assetRef = (path: string) => `import-asset:${encodeURIComponent(path).replace(/\(/g, '%28').replace(/\)/g, '%29')}`;
+
+    const rewriteMarkdownLink = (whole: string, bang: string, label: string, rawTarget: string, title = '') => {
+      const target = rawTarget.replace(/^<|>$/g, '');
+      if (/^[a-z][a-z\d+.-]*:/i.test(target) || target.startsWith('#') || target.startsWith('//')) return whole;
+      const [pathPart] = target.split(/[?#]/);
+      const path = resolvePath(folder, safeDecode(pathPart));
+      const found = pathsByLower.get(path.toLowerCase());
+      if (!found) {
+        warnings.push(`Missing linked file: ${safeDecode(pathPart)}`);
+        return whole;
+      }
+      if (MARKDOWN_FILE.test(found) && !bang) {
+        linksRewritten++;
+        return wikiLink(titleByPath.get(found.toLowerCase()) ?? label, label);
+      }
+      if (!addAsset(found)) return whole;
+      linksRewritten++;
+      return `${bang}[${label}](${assetRef(found)}${title})`;
+    };
+
+    const rewriteObsidianLink = (whole: string, bang: string, target: string, heading: string | undefined, alias: string | undefined) => {
+      const name = target.trim();
+      if (!name) return whole;
+      const byPath = pathsByLower.get(resolvePath(folder, name).toLowerCase())
+        ?? pathsByLower.get(resolvePath('', name).toLowerCase());
+      const isNote = !/\.[a-z\d]+$/i.test(name) || MARKDOWN_FILE.test(name);
+
+      // Embedded notes become plain links
+      if (isNote) {
+        const notePath = byPath ?? pathsByLower.get(`${resolvePath(folder, name)}.md`.toLowerCase()) ?? pathsByLower.get(`${resolvePath('', name)}.md`.toLowerCase());
+        const title = (notePath && titleByPath.get(notePath.toLowerCase()))
+          ?? titleByName.get(baseName(name).replace(MARKDOWN_FILE, '').toLowerCase());
+        // Links to notes outside the import are kept, they may already exist
+        if (!title) return whole;
+        const label = alias?.trim() || (heading ? `${baseName(name)}${heading}` : '');
+        const rewritten = wikiLink(title, label);
+        if (rewritten !== whole) linksRewritten++;
+        return rewritten;
+      }
+
+      const found = byPath ?? pathsByName.get(baseName(name).toLowerCase());
+      if (!found) {
+        warnings.push(`Missing linked file: ${name}`);
+        return whole;
+      }
+      if (!addAsset(found)) return whole;
+      linksRewritten++;
+      // Obsidian puts image sizes where the alias goes
+      const label = alias && !/^\d+(x\d+)?$/.test(alias.trim()) ? alias.trim() : baseName(found);
+      return `${bang}[${label}](${assetRef(found)})`;
+    };
+
+    const content = mapOutsideCode(note.body, text => text
+      .replace(OBSIDIAN_LINK, rewriteObsidianLink)
+      .replace(MARKDOWN_LINK, rewriteMarkdownLink)
+    ).trim();
+
+    note.listedAssets.forEach(path => {
+      const found = pathsByLower.get(path.toLowerCase());
+      if (found) addAsset(found);
+      else warnings.push(`Missing attachment: ${path}`);
+    });
+
+    return {
+      source: note.path,
+      title: note.title,
+      subject: note.subject,
+      isPublic: note.isPublic,
+      folders: note.folders,
+      content,
+      assets: Array.from(assets),
+      linksRewritten,
+      warnings: Array.from(new Set(warnings)),
+    };
+  });
+};
+
+/**
+ * Point `import-asset:` placeholders at the uploaded files. Files that could
+ * not be uploaded fall back to their name in the import.
+ * @param urls - Public URL of each uploaded file by its bundle path
+ */
+export const fillAssetLinks = (content: string, urls: Map<string, string>): string =>
+  content.replace(ASSET_PLACEHOLDER, (_, encoded: string) => {
+    const path = safeDecode(encoded);
+    return urls.get(path) ?? encodeURI(baseName(path));
+  });
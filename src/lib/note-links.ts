@@ -0,0 +1,100 @@
+import { findAndReplace } from 'mdast-util-find-and-replace';
+
+/** `[[Title]]` or `[[Title|label]]`; titles can't contain brackets or pipes */
+const WIKI_LINK_PATTERN = /\[\[([^[\]|\n]+)(?:\|([^[\]\n]+))?\]\]/g;
+
+/** Rendered wiki links point here; NoteMarkdown turns them back into titles */
+export const WIKI_LINK_HREF_PREFIX = '#wiki/';
+
+/** Titles are matched case-insensitively and ignoring surrounding spaces */
+export const normalizeNoteTitle = (title: string): string => title.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/** Distinct titles linked from a note, as written (first spelling wins) */
+export const extractWikiLinks = (content: string): string[] => {
+  const titles = new Map<string, string>();
+  for (const match of content.matchAll(WIKI_LINK_PATTERN)) {
+    const title = match[1].trim();
+    if (title && !titles.has(normalizeNoteTitle(title))) titles.set(normalizeNoteTitle(title), title);
+  }
+  return Array.from(titles.values());
+};
+
+/** Whether a note's content links to the given title */
+export const linksToTitle = (content: string, title: string): boolean => {
+  const target = normalizeNoteTitle(title);
+  return extractWikiLinks(content).some(t => normalizeNoteTitle(t) === target);
+};
+
+/** Rewrites links to `oldTitle` so they point at `newTitle`, keeping their labels */
+export const rewriteWikiLinks = (content: string, oldTitle: string, newTitle: string): string => {
+  const target = normalizeNoteTitle(oldTitle);
+  return content.replace(WIKI_LINK_PATTERN, (whole, title: string, label?: string) =>
+    normalizeNoteTitle(title) === target ? `[[${newTitle}${label ? `|${label}` : ''}]]` : whole
+  );
+};
+
+/** Title a rendered wiki link points to, or null for any other href or a malformed one */
+export const getWikiLinkTitle = (href?: string): string | null => {
+  if (!href?.startsWith(WIKI_LINK_HREF_PREFIX)) return null;
+  try {
+    return decodeURIComponent(href.slice(WIKI_LINK_HREF_PREFIX.length));
+  } catch {
+    // A hand-written `#wiki/%E0%A4%A` is not valid percent-encoding
+    return null;
+  }
+};
+
+/**
+ * Remark plugin turning `[[Title]]` in text into links. Code spans and code
+ * blocks are left alone.
+ */
+export const remarkWikiLinks = () => (tree: Parameters<typeof findAndReplace>[0]) => {
+  findAndReplace(tree, [
+    WIKI_LINK_PATTERN,
+    (_: string, title: string, label?: string) => ({
+      type: 'link',
+      url: `${WIKI_LINK_HREF_PREFIX}${encodeURIComponent(title.trim())}`,
+      title: null,
+      children: [{ type: 'text', value: (label ?? title).trim() }],
+    }),
+  ]);
+};
+
+/**
+ * The unfinished `[[...` link being typed just before the caret, if any:
+ * `start` is the index of the opening brackets and `query` what follows them.
+ */
+export const findWikiLinkQuery = (text: string, caret: number): { start: number; query: string } | null => {
+  const before = text.slice(0, caret);
+  const start = before.lastIndexOf('[[');
+  if (start === -1) return null;
+  const query = before.slice(start + 2);
+  if (/[[\]|\n]/.test(query)) return null;
+  return { start, query };
+};
+
+/**
+ * Completes the link being typed at the caret with `title`.
+ * @returns The new text and the caret position after the closing brackets
+ */
+export const completeWikiLink = (text: string, caret: number, title: string): { text: string; caret: number } => {
+  const found = findWikiLinkQuery(text, caret);
+  if (!found) return { text, caret };
+  // Reuse closing brackets the editor may already have after the caret
+  const after = text.slice(caret).replace(/^[^[\]\n]*\]\]/, '');
+  const link = `[[${title}]]`;
+  return { text: text.slice(0, found.start) + link + after, caret: found.start + link.length };
+};
+
+/** Titles matching a partial query, prefix matches first */
+export const suggestNoteTitles = (titles: string[], query: string, limit = 8): string[] => {
+  const q = normalizeNoteTitle(query);
+  const unique = Array.from(new Map(titles.map(t => [normalizeNoteTitle(t), t])).values());
+  const matches = unique.filter(t => normalizeNoteTitle(t).includes(q));
+  matches.sort((a, b) => {
+    const aPrefix = normalizeNoteTitle(a).startsWith(q) ? 0 : 1;
+    const bPrefix = normalizeNoteTitle(b).startsWith(q) ? 0 : 1;
+    return aPrefix - bPrefix || a.localeCompare(b);
+  });
+  return matches.slice(0, limit);
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines, diffStats } from '@/lib/note-revisions';
+
+describe('diffLines', () => {
+  it('marks added, removed and unchanged lines in order', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'B' },
+      { type: 'same', text: 'c' },
+      { type: 'added', text: 'd' },
+    ]);
+  });
+
+  it('finds unchanged lines inside an edit', () => {
+    expect(diffLines('x\n1\ny', '2\nx\ny\n3').map(l => l.type)).toEqual(['added', 'same', 'removed', 'same', 'added']);
+  });
+
+  it('replaces edits past the table limit as one block, keeping the shared start and end', () => {
+    // The 2001 x 2001 edited lines are over the limit. Every other line is
+    // kept, which a full diff would show as unchanged.
+    const lines = (prefix: string) => Array.from({ length: 2001 }, (_, i) => (i % 2 ? `same${i}` : `${prefix}${i}`)).join('\n');
+    const diff = diffLines(`title\n${lines('old')}\nend`, `title\n${lines('new')}\nend`);
+    expect(diff.filter(l => l.type === 'same').map(l => l.text)).toEqual(['title', 'end']);
+    expect(diff[1]).toEqual({ type: 'removed', text: 'old0' });
+    expect(diff[2]).toEqual({ type: 'removed', text: 'same1' });
+    expect(diff[2002]).toEqual({ type: 'added', text: 'new0' });
+    expect(diffStats(diff)).toEqual({ added: 2001, removed: 2001 });
+  });
+});
@@ -0,0 +1,109 @@
+/** Revisions older than this are coalesced to the last one of each day (see add-note-revisions.sql) */
+export const NOTE_REVISION_RETENTION_DAYS = 30;
+
+export interface NoteRevision {
+  id: string;
+  note_id: string;
+  author_id: string | null;
+  title: string;
+  content: string;
+  created_at: string;
+}
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/** One row of a side-by-side diff; a missing side is shown as blank */
+export interface DiffRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+// Largest LCS table built (changed lines before x after); past it the edit is
+// shown as one removed block followed by one added block
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Line diff of two texts from their longest common subsequence, in the order
+ * the lines appear. Removed lines come before the lines that replace them.
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Common prefix and suffix are trimmed so the table only covers the edit
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.slice(0, start).map(text => ({ type: 'same' as const, text })),
+      ...midA.map(text => ({ type: 'removed' as const, text })),
+      ...midB.map(text => ({ type: 'added' as const, text })),
+      ...a.slice(endA).map(text => ({ type: 'same' as const, text })),
+    ];
+  }
+
+  const lcs: number[][] = Array.from({ length: midA.length + 1 }, () => new Array(midB.length + 1).fill(0));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      lines.push({ type: 'same', text: midA[i] });
+      i++;
+      j++;
+    } else if (j >= midB.length || (i < midA.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ type: 'removed', text: midA[i] });
+      i++;
+    } else {
+      lines.push({ type: 'added', text: midB[j] });
+      j++;
+    }
+  }
+  a.slice(endA).forEach(text => lines.push({ type: 'same', text }));
+  return lines;
+};
+
+/** Pairs each run of removed lines with the added lines that follow it */
+export const toSideBySide = (lines: DiffLine[]): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type === 'same') {
+      rows.push({ left: lines[i], right: lines[i] });
+      i++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < lines.length && lines[i].type === 'removed') removed.push(lines[i++]);
+    while (i < lines.length && lines[i].type === 'added') added.push(lines[i++]);
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k] ?? null, right: added[k] ?? null });
+    }
+  }
+  return rows;
+};
+
+/** Counts of added and removed lines, for the revision list */
+export const diffStats = (lines: DiffLine[]): { added: number; removed: number } => ({
+  added: lines.filter(l => l.type === 'added').length,
+  removed: lines.filter(l => l.type === 'removed').length,
+});
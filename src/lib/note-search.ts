@@ -0,0 +1,63 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/** Delimiters search_notes() wraps around matched words (see add-note-search.sql) */
+const HIGHLIGHT_START = '\uE000';
+const HIGHLIGHT_END = '\uE001';
+
+/** Wait after the last keystroke before querying the server */
+export const NOTE_SEARCH_DEBOUNCE_MS = 250;
+
+export interface NoteSearchHit {
+  id: string;
+  rank: number;
+  title_highlight: string;
+  snippet: string;
+  matched_attachments: string[];
+}
+
+export interface NoteSearchFilters {
+  subject?: string | null;
+  ownerId?: string | null;
+  limit?: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Ranked full-text search over the notes the user can read.
+ * Each word of `query` matches as a prefix.
+ */
+export const searchNotes = async (
+  query: string,
+  filters: NoteSearchFilters = {}
+): Promise<{ hits: NoteSearchHit[]; error?: string }> => {
+  const { data, error } = await supabase.rpc('search_notes', {
+    p_query: query,
+    p_subject: filters.subject ?? undefined,
+    p_owner_id: filters.ownerId ?? undefined,
+    p_limit: filters.limit,
+  });
+  if (error) return { hits: [], error: error.message };
+  return { hits: data || [] };
+};
+
+/** Splits server highlights into plain and matched runs for safe rendering */
+export const splitHighlights = (text: string): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+  let highlighted = false;
+  let current = '';
+  for (const char of text) {
+    if (char === HIGHLIGHT_START || char === HIGHLIGHT_END) {
+      if (current) segments.push({ text: current, highlighted });
+      current = '';
+      highlighted = char === HIGHLIGHT_START;
+    } else {
+      current += char;
+    }
+  }
+  if (current) segments.push({ text: current, highlighted });
+  return segments;
+};
@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuickAdd } from '@/lib/quick-add';
+
+// Monday 19 October 2026, 10:00 local time
+const NOW = new Date(2026, 9, 19, 10, 0);
+
+const parse = (input: string) => parseQuickAdd(input, NOW);
+const local = (month: number, day: number, hours = 23, minutes = 59, year = 2026) =>
+  new Date(year, month, day, hours, minutes, 0, 0);
+
+describe('parseQuickAdd', () => {
+  it('parses the full example line', () => {
+    const result = parse('read chapter 4 tomorrow 5pm #biology !high every monday');
+    expect(result.title).toBe('read chapter 4');
+    expect(result.dueDate).toEqual(local(9, 20, 17, 0));
+    expect(result.hasTime).toBe(true);
+    expect(result.subject).toBe('biology');
+    expect(result.priority).toBe('high');
+    expect(result.recurrence).toEqual({ freq: 'weekly', interval: 1, byWeekday: [1] });
+  });
+
+  it('leaves plain text untouched', () => {
+    expect(parse('buy milk')).toEqual({
+      title: 'buy milk',
+      dueDate: null,
+      hasTime: false,
+      subject: null,
+      priority: null,
+      recurrence: null,
+    });
+  });
+
+  describe('dates', () => {
+    it('understands named days', () => {
+      expect(parse('essay today').dueDate).toEqual(local(9, 19));
+      expect(parse('essay tomorrow').dueDate).toEqual(local(9, 20));
+      expect(parse('essay tmrw').dueDate).toEqual(local(9, 20));
+      expect(parse('essay day after tomorrow').dueDate).toEqual(local(9, 21));
+      expect(parse('essay tonight').dueDate).toEqual(local(9, 19, 20, 0));
+    });
+
+    it('understands relative offsets', () => {
+      expect(parse('essay in 3 days').dueDate).toEqual(local(9, 22));
+      expect(parse('essay in two weeks').dueDate).toEqual(local(10, 2));
+      expect(parse('essay in a month').dueDate).toEqual(local(10, 19));
+      expect(parse('essay in 2 hours').dueDate).toEqual(local(9, 19, 12, 0));
+      expect(parse('essay in 30 min').dueDate).toEqual(local(9, 19, 10, 30));
+    });
+
+    it('understands weekdays', () => {
+      expect(parse('essay fri').dueDate).toEqual(local(9, 23));
+      expect(parse('essay this friday').dueDate).toEqual(local(9, 23));
+      expect(parse('essay next fri').dueDate).toEqual(local(9, 23));
+      // Today counts, unless "next" asks for the following one
+      expect(parse('essay monday').dueDate).toEqual(local(9, 19));
+      expect(parse('essay next monday').dueDate).toEqual(local(9, 26));
+    });
+
+    it('understands next week and next month', () => {
+      expect(parse('essay next week').dueDate).toEqual(local(9, 26));
+      expect(parse('essay next month').dueDate).toEqual(local(10, 19));
+    });
+
+    it('understands absolute dates', () => {
+      expect(parse('essay 2026-12-01').dueDate).toEqual(local(11, 1));
+      expect(parse('essay oct 24').dueDate).toEqual(local(9, 24));
+      expect(parse('essay 24th october').dueDate).toEqual(local(9, 24));
+      expect(parse('essay 12/5').dueDate).toEqual(local(11, 5));
+      expect(parse('essay dec 5, 2027').dueDate).toEqual(local(11, 5, 23, 59, 2027));
+    });
+
+    it('moves dates already past to next year', () => {
+      expect(parse('essay jan 3').dueDate).toEqual(local(0, 3, 23, 59, 2027));
+    });
+
+    it('ignores impossible dates', () => {
+      const result = parse('essay feb 30');
+      expect(result.dueDate).toBeNull();
+      expect(result.title).toBe('essay feb 30');
+    });
+  });
+
+  describe('times', () => {
+    it('reads 12 and 24 hour times', () => {
+      expect(parse('call tomorrow at 5:30 pm').dueDate).toEqual(local(9, 20, 17, 30));
+      expect(parse('call tomorrow 9am').dueDate).toEqual(local(9, 20, 9, 0));
+      expect(parse('call tomorrow 12am').dueDate).toEqual(local(9, 20, 0, 0));
+      expect(parse('call tomorrow 17:45').dueDate).toEqual(local(9, 20, 17, 45));
+      expect(parse('call tomorrow noon').dueDate).toEqual(local(9, 20, 12, 0));
+    });
+
+    it('puts a time on its own today, or tomorrow once it has passed', () => {
+      expect(parse('call 3pm').dueDate).toEqual(local(9, 19, 15, 0));
+      expect(parse('call 8am').dueDate).toEqual(local(9, 20, 8, 0));
+    });
+
+    it('defaults to the end of the day without a time', () => {
+      const result = parse('call tomorrow');
+      expect(result.hasTime).toBe(false);
+      expect(result.dueDate).toEqual(local(9, 20));
+    });
+
+    it('rejects hours outside 1-12 with am/pm', () => {
+      expect(parse('call 13pm').dueDate).toBeNull();
+    });
+  });
+
+  describe('recurrence', () => {
+    it('reads weekday lists', () => {
+      const result = parse('gym every mon, wed and fri');
+      expect(result.recurrence).toEqual({ freq: 'weekly', interval: 1, byWeekday: [1, 3, 5] });
+      expect(result.title).toBe('gym');
+      // Starts at the first of those days still ahead
+      expect(result.dueDate).toEqual(local(9, 19));
+    });
+
+    it('reads numeric and word intervals', () => {
+      expect(parse('water plants every 3 days').recurrence).toEqual({ freq: 'daily', interval: 3 });
+      expect(parse('review every two weeks').recurrence).toEqual({ freq: 'weekly', interval: 2, byWeekday: [1] });
+      expect(parse('rent every other month').recurrence).toEqual({ freq: 'monthly', interval: 2, byMonthDay: 19 });
+      expect(parse('standup every day').recurrence).toEqual({ freq: 'daily', interval: 1 });
+      expect(parse('water plants every 3 days').title).toBe('water plants');
+    });
+
+    it('reads every weekday and the single-word forms', () => {
+      expect(parse('standup every weekday').recurrence).toEqual({ freq: 'weekly', interval: 1, byWeekday: [1, 2, 3, 4, 5] });
+      expect(parse('journal daily').recurrence).toEqual({ freq: 'daily', interval: 1 });
+      expect(parse('report monthly').recurrence).toEqual({ freq: 'monthly', interval: 1, byMonthDay: 19 });
+    });
+
+    it('anchors weekly rules on the due date', () => {
+      expect(parse('quiz weekly fri').recurrence).toEqual({ freq: 'weekly', interval: 1, byWeekday: [5] });
+    });
+  });
+
+  describe('priority', () => {
+    it('reads words and numbers', () => {
+      expect(parse('task !high').priority).toBe('high');
+      expect(parse('task !urgent').priority).toBe('high');
+      expect(parse('task !med').priority).toBe('medium');
+      expect(parse('task !3').priority).toBe('low');
+      expect(parse('task !l').title).toBe('task');
+    });
+
+    it('ignores unknown priorities', () => {
+      const result = parse('task !soon');
+      expect(result.priority).toBeNull();
+      expect(result.title).toBe('task !soon');
+    });
+  });
+
+  describe('subject tags', () => {
+    it('takes the first #tag as the subject', () => {
+      const result = parse('lab report #chem-101 #extra');
+      expect(result.subject).toBe('chem-101');
+      expect(result.title).toBe('lab report #extra');
+    });
+
+    it('accepts non-Latin letters', () => {
+      expect(parse('vocab #español').subject).toBe('español');
+    });
+
+    it('does not treat a mid-word # as a tag', () => {
+      const result = parse('fix issue#12');
+      expect(result.subject).toBeNull();
+      expect(result.title).toBe('fix issue#12');
+    });
+  });
+});
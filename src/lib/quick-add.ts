@@ -0,0 +1,254 @@
+import { addDays, addHours, addMinutes, addMonths, addWeeks, isBefore, set, startOfDay } from 'date-fns';
+import { RecurrenceRule } from '@/lib/recurrence';
+import { TaskPriority } from '@/lib/task-priority';
+
+export interface QuickAddResult {
+  title: string;
+  /** due date in the user's local time zone */
+  dueDate: Date | null;
+  /** whether an explicit time of day was given */
+  hasTime: boolean;
+  subject: string | null;
+  priority: TaskPriority | null;
+  recurrence: RecurrenceRule | null;
+}
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, weds: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5, jul: 6, aug: 7, sep: 8, sept: 8, oct: 9, nov: 10, dec: 11,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+const PRIORITIES: Record<string, TaskPriority> = {
+  high: 'high', h: 'high', urgent: 'high', '1': 'high',
+  medium: 'medium', med: 'medium', m: 'medium', '2': 'medium',
+  low: 'low', l: 'low', '3': 'low',
+};
+
+const WEEKDAY_PATTERN = Object.keys(WEEKDAYS).sort((a, b) => b.length - a.length).join('|');
+const MONTH_PATTERN = '(jan|feb|mar|apr|may|jun|jul|aug|sept?|oct|nov|dec)[a-z]*\\.?';
+const NUMBER_PATTERN = `\\d+|${Object.keys(NUMBER_WORDS).join('|')}`;
+
+/** Time used when only a date was given: the end of that day */
+const DEFAULT_TIME = { hours: 23, minutes: 59 };
+
+const toNumber = (value: string): number => NUMBER_WORDS[value.toLowerCase()] ?? parseInt(value, 10);
+
+/** Next date falling on `weekday`; today counts unless `strictlyAfter` is set */
+const nextWeekday = (from: Date, weekday: number, strictlyAfter: boolean): Date => {
+  let diff = (weekday - from.getDay() + 7) % 7;
+  if (diff === 0 && strictlyAfter) diff = 7;
+  return addDays(startOfDay(from), diff);
+};
+
+/**
+ * Parse a natural-language quick-add line such as
+ * "read chapter 4 tomorrow 5pm #biology !high every monday".
+ *
+ * Recognised pieces are removed from the text and whatever is left becomes the
+ * title. All dates are computed with local Date methods, i.e. in the user's
+ * browser time zone.
+ * @param input - Text typed by the user
+ * @param now - Reference time, defaults to the current time
+ */
+export const parseQuickAdd = (input: string, now: Date = new Date()): QuickAddResult => {
+  let text = ` ${input} `;
+  let date: Date | null = null;
+  let time: { hours: number; minutes: number } | null = null;
+  let subject: string | null = null;
+  let priority: TaskPriority | null = null;
+  let recurrence: RecurrenceRule | null = null;
+
+  // Remove the first match of `pattern` and hand its groups to `handle`
+  const take = (pattern: RegExp, handle: (match: RegExpMatchArray) => boolean | void) => {
+    const match = text.match(pattern);
+    if (!match || match.index === undefined) return;
+    if (handle(match) === false) return;
+    text = `${text.slice(0, match.index)} ${text.slice(match.index + match[0].length)}`;
+  };
+
+  // #subject
+  take(/\s#([\p{L}\d][\p{L}\d_-]*)(?=\s)/iu, m => {
+    subject = m[1];
+  });
+
+  // !priority
+  take(/\s!(high|urgent|medium|med|low|h|m|l|1|2|3)(?=\s)/i, m => {
+    priority = PRIORITIES[m[1].toLowerCase()];
+  });
+
+  // Recurrence: "every monday and wed", "every other week", "every 3 days", "daily"
+  take(new RegExp(`\\s(?:repeat\\s+)?every\\s+((?:(?:${WEEKDAY_PATTERN})(?:\\s*(?:,|and|&)\\s*)?)+)(?=\\s)`, 'i'), m => {
+    const days = m[1].toLowerCase().split(/\s*(?:,|and|&)\s*|\s+/).filter(Boolean).map(d => WEEKDAYS[d]);
+    recurrence = { freq: 'weekly', interval: 1, byWeekday: Array.from(new Set(days)) };
+  });
+  if (!recurrence) {
+    take(new RegExp(`\\s(?:repeat\\s+)?every\\s+(?:(other|${NUMBER_PATTERN})\\s+)?(day|week|month|weekday)s?(?=\\s)`, 'i'), m => {
+      const interval = !m[1] ? 1 : m[1].toLowerCase() === 'other' ? 2 : toNumber(m[1]);
+      const unit = m[2].toLowerCase();
+      if (unit === 'weekday') {
+        recurrence = { freq: 'weekly', interval: 1, byWeekday: [1, 2, 3, 4, 5] };
+      } else {
+        recurrence = { freq: unit === 'day' ? 'daily' : unit === 'week' ? 'weekly' : 'monthly', interval };
+      }
+    });
+  }
+  if (!recurrence) {
+    take(/\s(daily|weekly|monthly)(?=\s)/i, m => {
+      const freq = m[1].toLowerCase();
+      recurrence = { freq: freq === 'daily' ? 'daily' : freq === 'weekly' ? 'weekly' : 'monthly', interval: 1 };
+    });
+  }
+
+  // Relative offsets: "in 3 days", "in two weeks", "in 2 hours"
+  take(new RegExp(`\\sin\\s+(${NUMBER_PATTERN})\\s+(minute|min|hour|hr|day|week|month)s?(?=\\s)`, 'i'), m => {
+    const amount = toNumber(m[1]);
+    const unit = m[2].toLowerCase();
+    if (unit === 'minute' || unit === 'min' || unit === 'hour' || unit === 'hr') {
+      const exact = unit.startsWith('h') ? addHours(now, amount) : addMinutes(now, amount);
+      date = startOfDay(exact);
+      time = { hours: exact.getHours(), minutes: exact.getMinutes() };
+    } else if (unit === 'day') {
+      date = addDays(startOfDay(now), amount);
+    } else if (unit === 'week') {
+      date = addWeeks(startOfDay(now), amount);
+    } else {
+      date = addMonths(startOfDay(now), amount);
+    }
+  });
+
+  // Named days
+  if (!date) {
+    take(/\s(?:(?:on|by|due)\s+)?(day after tomorrow|today|tonight|tomorrow|tmrw|tmr)(?=\s)/i, m => {
+      const word = m[1].toLowerCase();
+      if (word === 'day after tomorrow') {
+        date = addDays(startOfDay(now), 2);
+      } else if (word === 'today' || word === 'tonight') {
+        date = startOfDay(now);
+        if (word === 'tonight') time = { hours: 20, minutes: 0 };
+      } else {
+        date = addDays(startOfDay(now), 1);
+      }
+    });
+  }
+
+  // "next week", "next month"
+  if (!date) {
+    take(/\s(?:(?:on|by|due)\s+)?next\s+(week|month)(?=\s)/i, m => {
+      date = m[1].toLowerCase() === 'week' ? addWeeks(startOfDay(now), 1) : addMonths(startOfDay(now), 1);
+    });
+  }
+
+  // Weekdays: "fri", "this friday", "next fri"
+  if (!date) {
+    take(new RegExp(`\\s(?:(?:on|by|due)\\s+)?(next\\s+|this\\s+)?(${WEEKDAY_PATTERN})(?=\\s)`, 'i'), m => {
+      const strictlyAfter = Boolean(m[1]) && m[1].trim().toLowerCase() === 'next';
+      date = nextWeekday(now, WEEKDAYS[m[2].toLowerCase()], strictlyAfter);
+    });
+  }
+
+  // Absolute dates: 2026-10-24, "oct 24", "24th october", "10/24"
+  const resolveYear = (month: number, day: number, year?: number) => {
+    const candidate = new Date(year ?? now.getFullYear(), month, day);
+    if (candidate.getMonth() !== month) return null;
+    // Without an explicit year a date already past means next year
+    if (year === undefined && isBefore(candidate, startOfDay(now))) {
+      candidate.setFullYear(candidate.getFullYear() + 1);
+    }
+    return candidate;
+  };
+  if (!date) {
+    take(/\s(?:(?:on|by|due)\s+)?(\d{4})-(\d{1,2})-(\d{1,2})(?=\s)/, m => {
+      date = resolveYear(parseInt(m[2], 10) - 1, parseInt(m[3], 10), parseInt(m[1], 10));
+      return Boolean(date);
+    });
+  }
+  if (!date) {
+    take(new RegExp(`\\s(?:(?:on|by|due)\\s+)?${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?(?=\\s)`, 'i'), m => {
+      date = resolveYear(MONTHS[m[1].toLowerCase()], parseInt(m[2], 10), m[3] ? parseInt(m[3], 10) : undefined);
+      return Boolean(date);
+    });
+  }
+  if (!date) {
+    take(new RegExp(`\\s(?:(?:on|by|due)\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}(?:,?\\s+(\\d{4}))?(?=\\s)`, 'i'), m => {
+      date = resolveYear(MONTHS[m[2].toLowerCase()], parseInt(m[1], 10), m[3] ? parseInt(m[3], 10) : undefined);
+      return Boolean(date);
+    });
+  }
+  if (!date) {
+    take(/\s(?:(?:on|by|due)\s+)?(\d{1,2})\/(\d{1,2})(?:\/(\d{4}))?(?=\s)/, m => {
+      date = resolveYear(parseInt(m[1], 10) - 1, parseInt(m[2], 10), m[3] ? parseInt(m[3], 10) : undefined);
+      return Boolean(date);
+    });
+  }
+
+  // Times: "5pm", "at 5:30 pm", "17:00", "noon"
+  if (!time) {
+    take(/\s(?:at\s+|@\s*)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)(?=\s)/i, m => {
+      const hour = parseInt(m[1], 10);
+      if (hour < 1 || hour > 12) return false;
+      const pm = m[3].toLowerCase() === 'pm';
+      time = { hours: (hour % 12) + (pm ? 12 : 0), minutes: m[2] ? parseInt(m[2], 10) : 0 };
+    });
+  }
+  if (!time) {
+    take(/\s(?:at\s+|@\s*)?([01]?\d|2[0-3]):([0-5]\d)(?=\s)/, m => {
+      time = { hours: parseInt(m[1], 10), minutes: parseInt(m[2], 10) };
+    });
+  }
+  if (!time) {
+    take(/\s(?:at\s+)?(noon|midnight)(?=\s)/i, m => {
+      time = m[1].toLowerCase() === 'noon' ? { hours: 12, minutes: 0 } : { hours: 23, minutes: 59 };
+    });
+  }
+
+  // A recurrence without a date starts at its first occurrence that is still ahead
+  if (!date && recurrence) {
+    const rule = recurrence as RecurrenceRule;
+    const weekdays = rule.byWeekday && rule.byWeekday.length > 0 ? rule.byWeekday : null;
+    const candidates = weekdays
+      ? weekdays.flatMap(d => [nextWeekday(now, d, false), nextWeekday(now, d, true)])
+      : [startOfDay(now), addDays(startOfDay(now), 1)];
+    date = candidates
+      .sort((a, b) => a.getTime() - b.getTime())
+      .find(candidate => !isBefore(set(candidate, { ...(time ?? DEFAULT_TIME), seconds: 0 }), now)) ?? null;
+  }
+
+  // A time on its own means today, or tomorrow once that time has passed
+  if (!date && time) {
+    date = startOfDay(now);
+    if (isBefore(set(date, { ...time, seconds: 0 }), now)) date = addDays(date, 1);
+  }
+
+  let dueDate: Date | null = null;
+  if (date) {
+    dueDate = set(date, { ...(time ?? DEFAULT_TIME), seconds: 0, milliseconds: 0 });
+  }
+
+  if (recurrence && dueDate) {
+    const rule = recurrence as RecurrenceRule;
+    if (rule.freq === 'weekly' && !rule.byWeekday) rule.byWeekday = [dueDate.getDay()];
+    if (rule.freq === 'monthly') rule.byMonthDay = dueDate.getDate();
+  }
+
+  return {
+    title: text.replace(/\s+/g, ' ').trim(),
+    dueDate,
+    hasTime: Boolean(time),
+    subject,
+    priority,
+    recurrence,
+  };
+};
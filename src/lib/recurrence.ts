@@ -0,0 +1,175 @@
+import { addDays, addMonths, differenceInCalendarWeeks, endOfDay, format, getDaysInMonth, parse, setDate } from 'date-fns';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  /** repeat every N days/weeks/months */
+  interval: number;
+  /** weekdays for weekly rules, 0 = Sunday ... 6 = Saturday */
+  byWeekday?: number[];
+  /** day of the month for monthly rules */
+  byMonthDay?: number;
+  /** last date (inclusive) an occurrence may fall on, as yyyy-MM-dd */
+  until?: string;
+  /** total number of occurrences in the series */
+  count?: number;
+}
+
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const FREQ_CODES: Record<RecurrenceFrequency, string> = {
+  daily: 'DAILY',
+  weekly: 'WEEKLY',
+  monthly: 'MONTHLY',
+};
+
+/**
+ * Serialize a rule to an RRULE-style string,
+ * e.g. FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE;COUNT=10
+ */
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${FREQ_CODES[rule.freq]}`, `INTERVAL=${Math.max(1, rule.interval)}`];
+  if (rule.freq === 'weekly' && rule.byWeekday && rule.byWeekday.length > 0) {
+    parts.push(`BYDAY=${[...rule.byWeekday].sort().map(d => WEEKDAY_CODES[d]).join(',')}`);
+  }
+  if (rule.freq === 'monthly' && rule.byMonthDay) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  }
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  return parts.join(';');
+};
+
+/**
+ * Parse an RRULE-style string produced by formatRRule
+ * @returns The rule, or null when the string is empty or invalid
+ */
+export const parseRRule = (value: string | null | undefined): RecurrenceRule | null => {
+  if (!value) return null;
+
+  const fields = new Map(
+    value
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .map(part => part.split('=') as [string, string])
+      .filter(([key, val]) => key && val)
+      .map(([key, val]) => [key.toUpperCase(), val.toUpperCase()])
+  );
+
+  const freq = (Object.keys(FREQ_CODES) as RecurrenceFrequency[]).find(f => FREQ_CODES[f] === fields.get('FREQ'));
+  if (!freq) return null;
+
+  const rule: RecurrenceRule = { freq, interval: Math.max(1, parseInt(fields.get('INTERVAL') || '1', 10) || 1) };
+
+  const byDay = fields.get('BYDAY');
+  if (byDay) {
+    rule.byWeekday = byDay.split(',').map(code => WEEKDAY_CODES.indexOf(code)).filter(d => d >= 0);
+  }
+  const byMonthDay = parseInt(fields.get('BYMONTHDAY') || '', 10);
+  if (byMonthDay >= 1 && byMonthDay <= 31) {
+    rule.byMonthDay = byMonthDay;
+  }
+  const until = fields.get('UNTIL');
+  if (until && /^\d{8}/.test(until)) {
+    rule.until = `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}`;
+  }
+  const count = parseInt(fields.get('COUNT') || '', 10);
+  if (count > 0) {
+    rule.count = count;
+  }
+
+  return rule;
+};
+
+/**
+ * Calculate the occurrence that follows `from`
+ * @param rule - Recurrence rule
+ * @param from - Due date of the current occurrence
+ * @param occurrenceIndex - 1-based position of the current occurrence in the series
+ * @returns Next due date, or null once the series has ended
+ */
+export const getNextOccurrence = (rule: RecurrenceRule, from: Date, occurrenceIndex = 1): Date | null => {
+  if (rule.count && occurrenceIndex >= rule.count) return null;
+
+  const interval = Math.max(1, rule.interval);
+  let next: Date;
+
+  if (rule.freq === 'daily') {
+    next = addDays(from, interval);
+  } else if (rule.freq === 'weekly') {
+    const weekdays = rule.byWeekday && rule.byWeekday.length > 0 ? rule.byWeekday : [from.getDay()];
+    next = addDays(from, 1);
+    // Walk forward day by day until we land on a selected weekday in an active week
+    while (
+      !weekdays.includes(next.getDay()) ||
+      differenceInCalendarWeeks(next, from) % interval !== 0
+    ) {
+      next = addDays(next, 1);
+    }
+  } else {
+    const monthDay = rule.byMonthDay || from.getDate();
+    const month = addMonths(setDate(from, 1), interval);
+    next = setDate(month, Math.min(monthDay, getDaysInMonth(month)));
+  }
+
+  if (rule.until && next > endOfDay(parse(rule.until, 'yyyy-MM-dd', new Date()))) {
+    return null;
+  }
+
+  return next;
+};
+
+/**
+ * List the next `limit` occurrences after `from`
+ */
+export const getUpcomingOccurrences = (
+  rule: RecurrenceRule,
+  from: Date,
+  occurrenceIndex = 1,
+  limit = 3
+): Date[] => {
+  const result: Date[] = [];
+  let current = from;
+  let index = occurrenceIndex;
+  while (result.length < limit) {
+    const next = getNextOccurrence(rule, current, index);
+    if (!next) break;
+    result.push(next);
+    current = next;
+    index += 1;
+  }
+  return result;
+};
+
+/**
+ * Human readable summary, e.g. "Every 2 weeks on Mon, Wed, 5 times"
+ */
+export const describeRule = (rule: RecurrenceRule): string => {
+  const units: Record<RecurrenceFrequency, [string, string]> = {
+    daily: ['Daily', 'days'],
+    weekly: ['Weekly', 'weeks'],
+    monthly: ['Monthly', 'months'],
+  };
+  const [single, plural] = units[rule.freq];
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${plural}` : single;
+
+  if (rule.freq === 'weekly' && rule.byWeekday && rule.byWeekday.length > 0) {
+    text += ` on ${[...rule.byWeekday].sort().map(d => WEEKDAY_LABELS[d]).join(', ')}`;
+  }
+  if (rule.freq === 'monthly' && rule.byMonthDay) {
+    text += ` on day ${rule.byMonthDay}`;
+  }
+  if (rule.until) {
+    text += ` until ${format(parse(rule.until, 'yyyy-MM-dd', new Date()), 'PP')}`;
+  }
+  if (rule.count) {
+    text += `, ${rule.count} times`;
+  }
+  return text;
+};
@@ -0,0 +1,48 @@
+export type TaskActivityAction =
+  | 'created'
+  | 'retitled'
+  | 'due_date_changed'
+  | 'completed'
+  | 'uncompleted'
+  | 'attachment_added'
+  | 'attachment_removed';
+
+export interface TaskActivity {
+  id: string;
+  task_id: string;
+  actor_id: string | null;
+  action: string;
+  old_value: string | null;
+  new_value: string | null;
+  created_at: string;
+}
+
+const formatDue = (value: string | null): string =>
+  value ? new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' }) : 'no date';
+
+/**
+ * One line describing an activity entry, without the actor,
+ * e.g. `moved the due date from Mar 3 to Mar 5`
+ */
+export const describeActivity = (activity: Pick<TaskActivity, 'action' | 'old_value' | 'new_value'>): string => {
+  switch (activity.action as TaskActivityAction) {
+    case 'created':
+      return 'created the task';
+    case 'retitled':
+      return `renamed it from "${activity.old_value ?? ''}" to "${activity.new_value ?? ''}"`;
+    case 'due_date_changed':
+      if (!activity.new_value) return `removed the due date (was ${formatDue(activity.old_value)})`;
+      if (!activity.old_value) return `set the due date to ${formatDue(activity.new_value)}`;
+      return `moved the due date from ${formatDue(activity.old_value)} to ${formatDue(activity.new_value)}`;
+    case 'completed':
+      return 'marked it complete';
+    case 'uncompleted':
+      return 'marked it incomplete';
+    case 'attachment_added':
+      return `attached ${activity.new_value ?? 'a file'}`;
+    case 'attachment_removed':
+      return `removed ${activity.new_value ?? 'a file'}`;
+    default:
+      return activity.action;
+  }
+};
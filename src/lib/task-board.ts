@@ -0,0 +1,47 @@
+export interface BoardColumn {
+  id: string;
+  name: string;
+  position: number;
+  is_terminal: boolean;
+}
+
+export interface BoardTask {
+  id: string;
+  title: string;
+  completed: boolean;
+  due_date: string | null;
+  user_id: string;
+  board_column_id: string | null;
+  board_position: number;
+}
+
+export const DEFAULT_BOARD_COLUMNS = [
+  { name: 'Backlog', is_terminal: false },
+  { name: 'Doing', is_terminal: false },
+  { name: 'Review', is_terminal: false },
+  { name: 'Done', is_terminal: true },
+];
+
+/**
+ * Work out which column a task is displayed in. Completed tasks always live in
+ * the terminal column and open tasks never do, so the board and the completed
+ * flag can't disagree.
+ */
+export const getTaskColumnId = (task: BoardTask, columns: BoardColumn[]): string | undefined => {
+  const terminal = columns.find(c => c.is_terminal);
+  const firstOpen = columns.find(c => !c.is_terminal) ?? columns[0];
+  if (task.completed && terminal) return terminal.id;
+
+  const stored = columns.find(c => c.id === task.board_column_id);
+  if (!stored || (stored.is_terminal && !task.completed)) return firstOpen?.id;
+  return stored.id;
+};
+
+/**
+ * Get the tasks shown in a column, in board order
+ */
+export const getColumnTasks = <T extends BoardTask>(tasks: T[], columns: BoardColumn[], columnId: string): T[] => {
+  return tasks
+    .filter(task => getTaskColumnId(task, columns) === columnId)
+    .sort((a, b) => a.board_position - b.board_position);
+};
@@ -0,0 +1,55 @@
+export interface TaskDependency {
+  /** the blocked task */
+  task_id: string;
+  /** the task that has to be completed first */
+  blocker_id: string;
+}
+
+interface DependencyTask {
+  id: string;
+  title: string;
+  completed: boolean;
+}
+
+/**
+ * Check whether letting `blockerId` block `taskId` would close a loop,
+ * i.e. `blockerId` already (indirectly) waits on `taskId`
+ */
+export const wouldCreateCycle = (dependencies: TaskDependency[], taskId: string, blockerId: string): boolean => {
+  if (taskId === blockerId) return true;
+
+  const visited = new Set<string>();
+  const queue = [blockerId];
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    dependencies.filter(d => d.task_id === current).forEach(d => queue.push(d.blocker_id));
+  }
+  return false;
+};
+
+/**
+ * Incomplete tasks that still block `taskId`
+ */
+export const getOpenBlockers = <T extends DependencyTask>(
+  tasks: T[],
+  dependencies: TaskDependency[],
+  taskId: string
+): T[] => {
+  const blockerIds = new Set(dependencies.filter(d => d.task_id === taskId).map(d => d.blocker_id));
+  return tasks.filter(t => blockerIds.has(t.id) && !t.completed);
+};
+
+/**
+ * Ids of open tasks that are waiting on at least one incomplete blocker
+ */
+export const getBlockedTaskIds = (tasks: DependencyTask[], dependencies: TaskDependency[]): Set<string> => {
+  const open = new Set(tasks.filter(t => !t.completed).map(t => t.id));
+  return new Set(
+    dependencies
+      .filter(d => open.has(d.task_id) && open.has(d.blocker_id))
+      .map(d => d.task_id)
+  );
+};
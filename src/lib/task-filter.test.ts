@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { matchesTaskFilter, parseTaskFilter, type FilterableTask } from '@/lib/task-filter';
+
+// Monday 19 October 2026, 10:00 local time
+const NOW = new Date(2026, 9, 19, 10, 0);
+
+const local = (month: number, day: number, hours = 12) => new Date(2026, month, day, hours).toISOString();
+
+const task = (overrides: Partial<FilterableTask> = {}): FilterableTask => ({
+  title: 'Write essay',
+  description: 'History coursework',
+  completed: false,
+  due_date: null,
+  priority: null,
+  subject: null,
+  parent_id: null,
+  recurrence_rule: null,
+  ...overrides,
+});
+
+const matches = (query: string, t: FilterableTask, labels: string[] = []) =>
+  matchesTaskFilter(t, parseTaskFilter(query), labels, NOW);
+
+describe('parseTaskFilter', () => {
+  it('splits keys, comma separated values and free text', () => {
+    expect(parseTaskFilter('label:exam priority:High,medium essay')).toEqual([
+      { key: 'label', values: ['exam'], negate: false },
+      { key: 'priority', values: ['high', 'medium'], negate: false },
+      { key: 'text', values: ['essay'], negate: false },
+    ]);
+  });
+
+  it('reads quoted values and quoted free text', () => {
+    expect(parseTaskFilter('label:"Final Exam" "lab report"')).toEqual([
+      { key: 'label', values: ['final exam'], negate: false },
+      { key: 'text', values: ['lab report'], negate: false },
+    ]);
+  });
+
+  it('negates terms with a leading "-"', () => {
+    expect(parseTaskFilter('-label:done -"group work" -essay')).toEqual([
+      { key: 'label', values: ['done'], negate: true },
+      { key: 'text', values: ['group work'], negate: true },
+      { key: 'text', values: ['essay'], negate: true },
+    ]);
+  });
+
+  it('accepts key aliases in any case', () => {
+    expect(parseTaskFilter('TAG:exam p:low Status:open labels:a').map(t => t.key))
+      .toEqual(['label', 'priority', 'is', 'label']);
+  });
+
+  it('searches for unknown keys and empty values as text', () => {
+    expect(parseTaskFilter('foo:bar -colour:red label: label:""')).toEqual([
+      { key: 'text', values: ['foo:bar'], negate: false },
+      { key: 'text', values: ['colour:red'], negate: true },
+      { key: 'text', values: ['label:'], negate: false },
+      { key: 'text', values: ['label:""'], negate: false },
+    ]);
+  });
+
+  it('returns no terms for an empty query', () => {
+    expect(parseTaskFilter('   ')).toEqual([]);
+  });
+});
+
+describe('matchesTaskFilter', () => {
+  it('matches everything without terms', () => {
+    expect(matchesTaskFilter(task(), [], [], NOW)).toBe(true);
+  });
+
+  it('matches free text against the title and description', () => {
+    expect(matches('essay', task())).toBe(true);
+    expect(matches('COURSEWORK', task())).toBe(true);
+    expect(matches('"essay history"', task())).toBe(false);
+    expect(matches('essay maths', task())).toBe(false);
+    expect(matches('essay', task({ title: 'Revise', description: null }))).toBe(false);
+  });
+
+  it('matches labels by name, any of the alternatives or none', () => {
+    expect(matches('label:exam', task(), ['Exam', 'Urgent'])).toBe(true);
+    expect(matches('label:"final exam"', task(), ['Final Exam'])).toBe(true);
+    expect(matches('label:quiz,urgent', task(), ['Urgent'])).toBe(true);
+    expect(matches('label:quiz', task(), ['Urgent'])).toBe(false);
+    expect(matches('label:none', task(), [])).toBe(true);
+    expect(matches('label:none', task(), ['Urgent'])).toBe(false);
+  });
+
+  it('matches priority and subject, including none', () => {
+    expect(matches('priority:high', task({ priority: 'high' }))).toBe(true);
+    expect(matches('priority:low,medium', task({ priority: 'high' }))).toBe(false);
+    expect(matches('priority:none', task())).toBe(true);
+    expect(matches('subject:biology', task({ subject: 'Biology' }))).toBe(true);
+    expect(matches('subject:bio', task({ subject: 'Biology' }))).toBe(false);
+    expect(matches('subject:none', task({ subject: 'Biology' }))).toBe(false);
+  });
+
+  it('matches named due dates', () => {
+    const today = task({ due_date: local(9, 19, 18) });
+    const tomorrow = task({ due_date: local(9, 20) });
+    const yesterday = task({ due_date: local(9, 18) });
+    expect(matches('due:today', today)).toBe(true);
+    expect(matches('due:today', tomorrow)).toBe(false);
+    expect(matches('due:tomorrow', tomorrow)).toBe(true);
+    expect(matches('due:overdue', yesterday)).toBe(true);
+    expect(matches('due:overdue', today)).toBe(false);
+    expect(matches('due:overdue', task({ due_date: local(9, 18), completed: true }))).toBe(false);
+    expect(matches('due:none', task())).toBe(true);
+    expect(matches('due:none', today)).toBe(false);
+    expect(matches('due:any', today)).toBe(true);
+    expect(matches('due:any', task())).toBe(false);
+    expect(matches('due:today', task())).toBe(false);
+  });
+
+  it('compares due dates with relative amounts', () => {
+    const inThreeDays = task({ due_date: local(9, 22) });
+    expect(matches('due:<7d', inThreeDays)).toBe(true);
+    expect(matches('due:>7d', inThreeDays)).toBe(false);
+    expect(matches('due:<2d', inThreeDays)).toBe(false);
+    expect(matches('due:<=1w', inThreeDays)).toBe(true);
+    expect(matches('due:>=1m', inThreeDays)).toBe(false);
+    expect(matches('due:<12h', task({ due_date: local(9, 19, 18) }))).toBe(true);
+    expect(matches('due:<7d', task())).toBe(false);
+  });
+
+  it('compares due dates with whole calendar days', () => {
+    const due = task({ due_date: local(9, 22) });
+    expect(matches('due:<2026-10-22', due)).toBe(false);
+    expect(matches('due:<=2026-10-22', due)).toBe(true);
+    expect(matches('due:>2026-10-22', due)).toBe(false);
+    expect(matches('due:>=2026-10-22', due)).toBe(true);
+    expect(matches('due:<2026-10-23', due)).toBe(true);
+    expect(matches('due:>2026-10-21', due)).toBe(true);
+  });
+
+  it('matches each is: state', () => {
+    const done = task({ completed: true });
+    expect(matches('is:done', done)).toBe(true);
+    expect(matches('is:completed', task())).toBe(false);
+    expect(matches('is:open', task())).toBe(true);
+    expect(matches('is:active', done)).toBe(false);
+    expect(matches('is:overdue', task({ due_date: local(9, 18) }))).toBe(true);
+    expect(matches('is:recurring', task({ recurrence_rule: 'FREQ=WEEKLY' }))).toBe(true);
+    expect(matches('is:recurring', task())).toBe(false);
+    expect(matches('is:subtask', task({ parent_id: 'parent' }))).toBe(true);
+    expect(matches('is:subtask', task())).toBe(false);
+    expect(matches('is:blocked', task({ blocked: true }))).toBe(true);
+    expect(matches('is:ready', task({ blocked: true }))).toBe(false);
+    expect(matches('is:ready', task())).toBe(true);
+    expect(matches('is:ready', done)).toBe(false);
+  });
+
+  it('negates terms and requires every term to match', () => {
+    const exam = task({ priority: 'high' });
+    expect(matches('-label:done', exam, ['Exam'])).toBe(true);
+    expect(matches('-label:exam,done', exam, ['Exam'])).toBe(false);
+    expect(matches('-essay', exam)).toBe(false);
+    expect(matches('-due:none', exam)).toBe(false);
+    expect(matches('label:exam priority:high is:open', exam, ['Exam'])).toBe(true);
+    expect(matches('label:exam priority:low', exam, ['Exam'])).toBe(false);
+  });
+
+  it('matches nothing for values it cannot read', () => {
+    const due = task({ due_date: local(9, 22) });
+    expect(matches('due:soon', due)).toBe(false);
+    expect(matches('due:<abc', due)).toBe(false);
+    expect(matches('due:<7x', due)).toBe(false);
+    expect(matches('due:<2026-13-45', due)).toBe(false);
+    expect(matches('is:bogus', due)).toBe(false);
+    expect(matches('-is:bogus', due)).toBe(true);
+    // An unknown key is searched for as text
+    expect(matches('foo:bar', due)).toBe(false);
+    expect(matches('foo:bar', task({ title: 'Ask about foo:bar' }))).toBe(true);
+  });
+});
@@ -0,0 +1,175 @@
+import { addDays, addHours, addMonths, addWeeks, endOfDay, isSameDay, parse, startOfDay } from 'date-fns';
+
+export type TaskFilterKey = 'text' | 'label' | 'priority' | 'subject' | 'due' | 'is';
+
+export interface TaskFilterTerm {
+  key: TaskFilterKey;
+  /** alternatives, the term matches when any of them does */
+  values: string[];
+  /** term was prefixed with "-" */
+  negate: boolean;
+}
+
+export interface FilterableTask {
+  title: string;
+  description: string | null;
+  completed: boolean;
+  due_date: string | null;
+  priority: string | null;
+  subject: string | null;
+  parent_id: string | null;
+  recurrence_rule: string | null;
+  /** waiting on an incomplete blocker */
+  blocked?: boolean;
+}
+
+const FILTER_KEYS: TaskFilterKey[] = ['label', 'priority', 'subject', 'due', 'is'];
+
+const KEY_ALIASES: Record<string, TaskFilterKey> = {
+  tag: 'label',
+  labels: 'label',
+  p: 'priority',
+  status: 'is',
+};
+
+/** Short syntax reference shown next to the filter input */
+export const FILTER_SYNTAX_HELP =
+  'label:exam  priority:high,medium  subject:biology  due:<7d  due:today  due:overdue  due:none  is:open  is:ready  -label:done';
+
+/**
+ * Split a filter expression such as `label:exam priority:high due:<7d essay`
+ * into terms. Values may be quoted (`label:"final exam"`) and comma separated
+ * (`priority:high,medium`); a leading "-" negates the term. Anything that is
+ * not a known `key:value` pair is matched against the title and description.
+ */
+export const parseTaskFilter = (query: string): TaskFilterTerm[] => {
+  const terms: TaskFilterTerm[] = [];
+  const pattern = /(-)?(?:([a-z]+):)?(?:"([^"]*)"|(\S+))/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    const [raw, minus, rawKey, quoted, bare] = match;
+    const value = quoted ?? bare ?? '';
+    const name = rawKey?.toLowerCase();
+    const key = name ? KEY_ALIASES[name] ?? (FILTER_KEYS as string[]).find(k => k === name) : undefined;
+
+    if (key && value) {
+      terms.push({
+        key: key as TaskFilterKey,
+        values: value.toLowerCase().split(',').map(v => v.trim()).filter(Boolean),
+        negate: Boolean(minus),
+      });
+    } else if (!key && !rawKey && value) {
+      terms.push({ key: 'text', values: [value.toLowerCase()], negate: Boolean(minus) });
+    } else if (raw.trim()) {
+      // Unknown key: search for the literal text instead
+      terms.push({ key: 'text', values: [raw.replace(/^-/, '').toLowerCase()], negate: Boolean(minus) });
+    }
+  }
+
+  return terms;
+};
+
+/** Resolve a relative amount such as 7d, 2w, 12h or 1m to a date */
+const resolveRelative = (value: string, now: Date): Date | null => {
+  const match = value.match(/^(\d+)([hdwm])$/);
+  if (!match) return null;
+  const amount = parseInt(match[1], 10);
+  switch (match[2]) {
+    case 'h': return addHours(now, amount);
+    case 'd': return addDays(now, amount);
+    case 'w': return addWeeks(now, amount);
+    default: return addMonths(now, amount);
+  }
+};
+
+const matchesDue = (task: FilterableTask, value: string, now: Date): boolean => {
+  const due = task.due_date ? new Date(task.due_date) : null;
+
+  if (value === 'none') return !due;
+  if (value === 'any') return Boolean(due);
+  if (!due) return false;
+  if (value === 'overdue') return !task.completed && due < now;
+  if (value === 'today') return isSameDay(due, now);
+  if (value === 'tomorrow') return isSameDay(due, addDays(now, 1));
+
+  // Comparisons: <7d, <=2w, >3d, <2026-11-01, >=2026-11-01
+  const comparison = value.match(/^(<=|>=|<|>)(.+)$/);
+  if (!comparison) return false;
+  const [, operator, amount] = comparison;
+
+  let boundary = resolveRelative(amount, now);
+  if (!boundary) {
+    const date = parse(amount, 'yyyy-MM-dd', now);
+    if (isNaN(date.getTime())) return false;
+    // Whole days: "<" is before the day starts, "<=" includes the whole day
+    boundary = operator === '<=' || operator === '>' ? endOfDay(date) : startOfDay(date);
+  }
+
+  switch (operator) {
+    case '<': return due < boundary;
+    case '<=': return due <= boundary;
+    case '>': return due > boundary;
+    default: return due >= boundary;
+  }
+};
+
+const matchesIs = (task: FilterableTask, value: string, now: Date): boolean => {
+  switch (value) {
+    case 'done':
+    case 'completed':
+      return task.completed;
+    case 'open':
+    case 'active':
+      return !task.completed;
+    case 'overdue':
+      return matchesDue(task, 'overdue', now);
+    case 'recurring':
+      return Boolean(task.recurrence_rule);
+    case 'subtask':
+      return Boolean(task.parent_id);
+    case 'blocked':
+      return Boolean(task.blocked);
+    case 'ready':
+      return !task.completed && !task.blocked;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Check a task against parsed filter terms; all terms must match
+ * @param task - Task to check
+ * @param terms - Terms from parseTaskFilter
+ * @param labelNames - Names of the labels assigned to the task
+ * @param now - Reference time for relative due filters
+ */
+export const matchesTaskFilter = (
+  task: FilterableTask,
+  terms: TaskFilterTerm[],
+  labelNames: string[],
+  now: Date = new Date()
+): boolean => {
+  const labels = labelNames.map(name => name.toLowerCase());
+
+  return terms.every(term => {
+    const matches = term.values.some(value => {
+      switch (term.key) {
+        case 'label':
+          return value === 'none' ? labels.length === 0 : labels.includes(value);
+        case 'priority':
+          return value === 'none' ? !task.priority : task.priority === value;
+        case 'subject':
+          return value === 'none' ? !task.subject : task.subject?.toLowerCase() === value;
+        case 'due':
+          return matchesDue(task, value, now);
+        case 'is':
+          return matchesIs(task, value, now);
+        default:
+          return task.title.toLowerCase().includes(value) ||
+            Boolean(task.description?.toLowerCase().includes(value));
+      }
+    });
+    return term.negate ? !matches : matches;
+  });
+};
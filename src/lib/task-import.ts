@@ -0,0 +1,452 @@
+import { parseQuickAdd } from '@/lib/quick-add';
+import { formatRRule, parseRRule } from '@/lib/recurrence';
+import { TaskPriority } from '@/lib/task-priority';
+
+export type ImportFormat = 'json' | 'csv' | 'todoist' | 'ics';
+
+export interface ImportedTask {
+  title: string;
+  description: string | null;
+  /** ISO timestamp */
+  due_date: string | null;
+  completed: boolean;
+  priority: TaskPriority | null;
+  subject: string | null;
+  recurrence_rule: string | null;
+  labels: string[];
+  subtasks: ImportedTask[];
+}
+
+export interface ImportRow {
+  /** 1-based row, line or item number in the source file, used in the error report */
+  source: number;
+  task: ImportedTask | null;
+  /** why the row could not be read */
+  error?: string;
+}
+
+export type ImportField = 'title' | 'description' | 'due_date' | 'completed' | 'priority' | 'subject' | 'labels';
+
+/** Column index for each task field, -1 when the field is not imported */
+export type ColumnMapping = Record<ImportField, number>;
+
+export const IMPORT_FIELDS: { field: ImportField; label: string }[] = [
+  { field: 'title', label: 'Title' },
+  { field: 'description', label: 'Description' },
+  { field: 'due_date', label: 'Due date' },
+  { field: 'completed', label: 'Completed' },
+  { field: 'priority', label: 'Priority' },
+  { field: 'subject', label: 'Subject' },
+  { field: 'labels', label: 'Labels' },
+];
+
+const FIELD_HEADERS: Record<ImportField, string[]> = {
+  title: ['title', 'name', 'task', 'content', 'summary', 'subject line'],
+  description: ['description', 'notes', 'note', 'details', 'body'],
+  due_date: ['due_date', 'due date', 'due', 'deadline', 'date'],
+  completed: ['completed', 'done', 'status', 'complete'],
+  priority: ['priority', 'importance'],
+  subject: ['subject', 'course', 'class', 'project'],
+  labels: ['labels', 'label', 'tags', 'tag', 'categories'],
+};
+
+const emptyTask = (title: string): ImportedTask => ({
+  title,
+  description: null,
+  due_date: null,
+  completed: false,
+  priority: null,
+  subject: null,
+  recurrence_rule: null,
+  labels: [],
+  subtasks: [],
+});
+
+/** Guess the format from the file name and contents */
+export const detectImportFormat = (fileName: string, text: string): ImportFormat => {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.ics') || /^BEGIN:VCALENDAR/m.test(text)) return 'ics';
+  if (name.endsWith('.json') || /^\s*[[{]/.test(text)) return 'json';
+  const header = text.split(/\r?\n/, 1)[0]?.toUpperCase() ?? '';
+  if (header.includes('TYPE') && header.includes('CONTENT') && header.includes('INDENT')) return 'todoist';
+  return 'csv';
+};
+
+const parsePriority = (value: string | undefined | null): TaskPriority | null => {
+  const v = (value ?? '').trim().toLowerCase();
+  if (['high', 'h', '1', 'p1', 'urgent'].includes(v)) return 'high';
+  if (['medium', 'med', 'm', '2', 'p2', 'normal'].includes(v)) return 'medium';
+  if (['low', 'l', '3', 'p3'].includes(v)) return 'low';
+  return null;
+};
+
+const parseBoolean = (value: string | undefined | null): boolean =>
+  ['true', 'yes', 'y', '1', 'x', 'done', 'completed', 'complete'].includes((value ?? '').trim().toLowerCase());
+
+/**
+ * Read a date written either as an ISO/RFC date or in words ("next fri")
+ * @returns ISO timestamp, null for an empty value, or undefined when unreadable
+ */
+const parseDateValue = (value: string | undefined | null): string | null | undefined => {
+  const v = (value ?? '').trim();
+  if (!v) return null;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(v)) {
+    // A bare date means the end of that day in the user's time zone
+    const [y, m, d] = v.split('-').map(Number);
+    return new Date(y, m - 1, d, 23, 59).toISOString();
+  }
+  const direct = new Date(v);
+  if (/\d/.test(v) && !isNaN(direct.getTime())) return direct.toISOString();
+  const parsed = parseQuickAdd(v);
+  return parsed.dueDate ? parsed.dueDate.toISOString() : undefined;
+};
+
+// ---------------------------------------------------------------------------
+// JSON (our own export)
+// ---------------------------------------------------------------------------
+
+interface ExportedTaskJSON {
+  title?: unknown;
+  description?: unknown;
+  completed?: unknown;
+  due_date?: unknown;
+  recurrence_rule?: unknown;
+  subject?: unknown;
+  priority?: unknown;
+  labels?: unknown;
+  subtasks?: unknown;
+}
+
+const readExportedTask = (item: ExportedTaskJSON): ImportedTask => {
+  if (typeof item?.title !== 'string' || !item.title.trim()) {
+    throw new Error('Missing title');
+  }
+  const due = typeof item.due_date === 'string' ? new Date(item.due_date) : null;
+  if (due && isNaN(due.getTime())) {
+    throw new Error(`Invalid due date "${item.due_date}"`);
+  }
+  return {
+    title: item.title.trim(),
+    description: typeof item.description === 'string' && item.description ? item.description : null,
+    due_date: due ? due.toISOString() : null,
+    completed: item.completed === true,
+    priority: parsePriority(typeof item.priority === 'string' ? item.priority : null),
+    subject: typeof item.subject === 'string' && item.subject ? item.subject : null,
+    recurrence_rule: typeof item.recurrence_rule === 'string' && parseRRule(item.recurrence_rule) ? item.recurrence_rule : null,
+    labels: Array.isArray(item.labels) ? item.labels.filter((l): l is string => typeof l === 'string') : [],
+    subtasks: Array.isArray(item.subtasks) ? item.subtasks.map(readExportedTask) : [],
+  };
+};
+
+/**
+ * Read a file written by exportToJSON in Tasks.tsx; a bare array of tasks is accepted too
+ */
+export const parseTaskJSON = (text: string): ImportRow[] => {
+  const data = JSON.parse(text);
+  const items: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.tasks) ? data.tasks : null;
+  if (!items) throw new Error('Expected a "tasks" array');
+
+  return items.map((item, index) => {
+    try {
+      return { source: index + 1, task: readExportedTask(item as ExportedTaskJSON) };
+    } catch (err) {
+      return { source: index + 1, task: null, error: (err as Error).message };
+    }
+  });
+};
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+/**
+ * Split CSV text into rows of cells (RFC 4180: quoted cells, escaped quotes, CRLF)
+ */
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(c => c.trim()));
+};
+
+/** Pick the most likely column for every field from the header row */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(h => h.trim().toLowerCase());
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+  IMPORT_FIELDS.forEach(({ field }) => {
+    const index = normalized.findIndex((h, i) => !used.has(i) && FIELD_HEADERS[field].includes(h));
+    mapping[field] = index;
+    if (index >= 0) used.add(index);
+  });
+  return mapping;
+};
+
+/**
+ * Turn CSV data rows into tasks using a column mapping
+ * @param rows - Data rows without the header
+ */
+export const mapCSVRows = (rows: string[][], mapping: ColumnMapping): ImportRow[] =>
+  rows.map((cells, index) => {
+    // Header is line 1
+    const source = index + 2;
+    const get = (field: ImportField) => (mapping[field] >= 0 ? cells[mapping[field]]?.trim() ?? '' : '');
+
+    const title = get('title');
+    if (!title) return { source, task: null, error: 'Missing title' };
+
+    const due = parseDateValue(get('due_date'));
+    if (due === undefined) return { source, task: null, error: `Unreadable due date "${get('due_date')}"` };
+
+    return {
+      source,
+      task: {
+        ...emptyTask(title),
+        description: get('description') || null,
+        due_date: due,
+        completed: parseBoolean(get('completed')),
+        priority: parsePriority(get('priority')),
+        subject: get('subject') || null,
+        labels: get('labels').split(/[,;|]/).map(l => l.trim()).filter(Boolean),
+      },
+    };
+  });
+
+// ---------------------------------------------------------------------------
+// Todoist CSV
+// ---------------------------------------------------------------------------
+
+/**
+ * Read a Todoist project CSV export. Tasks are TYPE=task rows, INDENT nests
+ * subtasks under the previous less-indented task, PRIORITY 1 is the most
+ * urgent, DATE holds Todoist's natural language due string and "@label" words
+ * in CONTENT become labels.
+ */
+export const parseTodoistCSV = (text: string): ImportRow[] => {
+  const [header, ...rows] = parseCSV(text);
+  const column = (name: string) => header.findIndex(h => h.trim().toUpperCase() === name);
+  const col = {
+    type: column('TYPE'),
+    content: column('CONTENT'),
+    description: column('DESCRIPTION'),
+    priority: column('PRIORITY'),
+    indent: column('INDENT'),
+    date: column('DATE'),
+  };
+  if (col.type < 0 || col.content < 0) throw new Error('Not a Todoist CSV export (missing TYPE or CONTENT column)');
+
+  const result: ImportRow[] = [];
+  // Most recent task at every indent level, for attaching subtasks
+  const stack: ImportedTask[] = [];
+
+  rows.forEach((cells, index) => {
+    const source = index + 2;
+    if ((cells[col.type] ?? '').trim().toLowerCase() !== 'task') return;
+
+    const content = (cells[col.content] ?? '').trim();
+    const labels = Array.from(content.matchAll(/(?:^|\s)@([\p{L}\d_-]+)/gu)).map(m => m[1]);
+    const title = content.replace(/(?:^|\s)@[\p{L}\d_-]+/gu, '').trim();
+    if (!title) {
+      result.push({ source, task: null, error: 'Missing content' });
+      return;
+    }
+
+    const task: ImportedTask = {
+      ...emptyTask(title),
+      description: col.description >= 0 ? (cells[col.description] ?? '').trim() || null : null,
+      priority: parsePriority(col.priority >= 0 ? cells[col.priority] : null),
+      labels,
+    };
+
+    const dateText = col.date >= 0 ? (cells[col.date] ?? '').trim() : '';
+    if (dateText) {
+      const parsed = parseQuickAdd(dateText);
+      const due = parsed.dueDate ? parsed.dueDate.toISOString() : parseDateValue(dateText);
+      if (!due) {
+        result.push({ source, task: null, error: `Unreadable date "${dateText}"` });
+        return;
+      }
+      task.due_date = due;
+      task.recurrence_rule = parsed.recurrence ? formatRRule(parsed.recurrence) : null;
+    }
+
+    const indent = Math.max(1, parseInt(cells[col.indent] ?? '1', 10) || 1);
+    const parent = indent > 1 ? stack[indent - 2] : undefined;
+    stack[indent - 1] = task;
+    stack.length = indent;
+
+    if (parent) {
+      parent.subtasks.push(task);
+    } else {
+      result.push({ source, task });
+    }
+  });
+
+  return result;
+};
+
+// ---------------------------------------------------------------------------
+// iCalendar VTODO
+// ---------------------------------------------------------------------------
+
+/** Undo iCalendar TEXT escaping */
+const unescapeText = (value: string) =>
+  value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+
+/** Read a DATE or DATE-TIME value; floating and TZID times are read as local time */
+const parseICSDate = (value: string, isDate: boolean): string | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, y, m, d, hh, mm, ss, utc] = match;
+  if (isDate || !hh) {
+    return new Date(Number(y), Number(m) - 1, Number(d), 23, 59).toISOString();
+  }
+  const parts = [Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss ?? 0)] as const;
+  return (utc ? new Date(Date.UTC(...parts)) : new Date(...parts)).toISOString();
+};
+
+/**
+ * Read VTODO components from an iCalendar file. RELATED-TO links become
+ * subtasks, CATEGORIES become labels and ICS priorities 1-4 / 5 / 6-9 map to
+ * high / medium / low.
+ */
+export const parseICS = (text: string): ImportRow[] => {
+  // Unfold continuation lines (RFC 5545 3.1)
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const todos: { source: number; uid: string | null; parentUid: string | null; row: ImportRow }[] = [];
+
+  let current: Record<string, { value: string; params: string }> | null = null;
+  let count = 0;
+
+  lines.forEach(line => {
+    if (line === 'BEGIN:VTODO') {
+      current = {};
+      return;
+    }
+    if (line === 'END:VTODO' && current) {
+      count += 1;
+      const props = current;
+      current = null;
+      const summary = props.SUMMARY ? unescapeText(props.SUMMARY.value).trim() : '';
+      if (!summary) {
+        todos.push({ source: count, uid: null, parentUid: null, row: { source: count, task: null, error: 'Missing SUMMARY' } });
+        return;
+      }
+
+      const task = emptyTask(summary);
+      task.description = props.DESCRIPTION ? unescapeText(props.DESCRIPTION.value) : null;
+      task.completed = props.STATUS?.value.toUpperCase() === 'COMPLETED' || Boolean(props.COMPLETED);
+      task.labels = props.CATEGORIES ? unescapeText(props.CATEGORIES.value).split(',').map(c => c.trim()).filter(Boolean) : [];
+
+      const priority = parseInt(props.PRIORITY?.value ?? '0', 10);
+      task.priority = priority >= 1 && priority <= 4 ? 'high' : priority === 5 ? 'medium' : priority >= 6 ? 'low' : null;
+
+      const due = props.DUE ?? props.DTSTART;
+      if (due) {
+        task.due_date = parseICSDate(due.value, /VALUE=DATE(?!-)/i.test(due.params));
+        if (!task.due_date) {
+          todos.push({ source: count, uid: null, parentUid: null, row: { source: count, task: null, error: `Unreadable DUE "${due.value}"` } });
+          return;
+        }
+      }
+      if (props.RRULE && parseRRule(props.RRULE.value)) {
+        task.recurrence_rule = formatRRule(parseRRule(props.RRULE.value));
+      }
+
+      const related = props['RELATED-TO'];
+      const parentUid = related && !/RELTYPE=(CHILD|SIBLING)/i.test(related.params) ? related.value : null;
+      todos.push({ source: count, uid: props.UID?.value ?? null, parentUid, row: { source: count, task } });
+      return;
+    }
+    if (!current) return;
+
+    const colon = line.indexOf(':');
+    if (colon < 0) return;
+    const [name, ...params] = line.slice(0, colon).split(';');
+    const key = name.toUpperCase();
+    // Keep the first occurrence of each property
+    if (!current[key]) current[key] = { value: line.slice(colon + 1), params: params.join(';') };
+  });
+
+  // Attach children to their parents; orphans stay top-level
+  const byUid = new Map(todos.filter(t => t.uid && t.row.task).map(t => [t.uid, t]));
+  return todos
+    .filter(todo => {
+      const parent = todo.parentUid ? byUid.get(todo.parentUid) : undefined;
+      if (parent && parent !== todo && todo.row.task) {
+        parent.row.task.subtasks.push(todo.row.task);
+        return false;
+      }
+      return true;
+    })
+    .map(todo => todo.row);
+};
+
+// ---------------------------------------------------------------------------
+// Duplicates
+// ---------------------------------------------------------------------------
+
+const duplicateKey = (title: string, dueDate: string | null) =>
+  `${title.trim().toLowerCase()}|${dueDate ? new Date(dueDate).toISOString().slice(0, 16) : ''}`;
+
+/**
+ * Find rows whose task already exists (same title and due minute) or that
+ * repeat an earlier row of the same file
+ * @returns Map of row source number to the reason it is a duplicate
+ */
+export const findDuplicates = (
+  rows: ImportRow[],
+  existing: { title: string; due_date: string | null }[]
+): Map<number, string> => {
+  const known = new Set(existing.map(t => duplicateKey(t.title, t.due_date)));
+  const seen = new Map<string, number>();
+  const duplicates = new Map<number, string>();
+
+  rows.forEach(row => {
+    if (!row.task) return;
+    const key = duplicateKey(row.task.title, row.task.due_date);
+    if (known.has(key)) {
+      duplicates.set(row.source, 'Already in your tasks');
+    } else if (seen.has(key)) {
+      duplicates.set(row.source, `Same as row ${seen.get(key)}`);
+    } else {
+      seen.set(key, row.source);
+    }
+  });
+  return duplicates;
+};
@@ -0,0 +1,28 @@
+import type { CSSProperties } from 'react';
+
+export interface TaskLabel {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface TaskLabelAssignment {
+  task_id: string;
+  label_id: string;
+}
+
+/** Colors offered when creating a label */
+export const LABEL_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899', '#64748b'];
+
+/** Inline badge style for a label color */
+export const getLabelStyle = (color: string): CSSProperties => ({
+  backgroundColor: `${color}33`,
+  borderColor: color,
+  color,
+});
+
+/** Labels assigned to a task, in label order */
+export const getTaskLabels = (labels: TaskLabel[], assignments: TaskLabelAssignment[], taskId: string): TaskLabel[] => {
+  const ids = new Set(assignments.filter(a => a.task_id === taskId).map(a => a.label_id));
+  return labels.filter(label => ids.has(label.id));
+};
@@ -0,0 +1,84 @@
+export type TaskListRole = 'owner' | 'editor' | 'viewer';
+
+export interface TaskList {
+  id: string;
+  owner_id: string;
+  name: string;
+}
+
+export interface TaskListMember {
+  list_id: string;
+  user_id: string;
+  role: string;
+}
+
+interface SharedTask {
+  user_id: string;
+  list_id: string | null;
+  assignee_id: string | null;
+}
+
+/**
+ * Role of `userId` in a list, or null when they are not part of it
+ */
+export const getListRole = (
+  lists: TaskList[],
+  members: TaskListMember[],
+  listId: string | null,
+  userId: string | undefined
+): TaskListRole | null => {
+  if (!listId || !userId) return null;
+  if (lists.find(l => l.id === listId)?.owner_id === userId) return 'owner';
+  const member = members.find(m => m.list_id === listId && m.user_id === userId);
+  return member ? (member.role as TaskListRole) : null;
+};
+
+/**
+ * Whether `userId` may edit or delete a task: its creator while it is not in
+ * a list, otherwise the list's owner and editors
+ */
+export const canEditTask = (
+  task: SharedTask,
+  lists: TaskList[],
+  members: TaskListMember[],
+  userId: string | undefined
+): boolean => {
+  if (!userId) return false;
+  if (!task.list_id) return task.user_id === userId;
+  const role = getListRole(lists, members, task.list_id, userId);
+  return role === 'owner' || role === 'editor';
+};
+
+/** Whether `userId` may tick a task off; assignees can even as viewers */
+export const canCompleteTask = (
+  task: SharedTask,
+  lists: TaskList[],
+  members: TaskListMember[],
+  userId: string | undefined
+): boolean => canEditTask(task, lists, members, userId) || (Boolean(userId) && task.assignee_id === userId);
+
+/**
+ * User ids that can be assigned tasks in a list: the owner and every member
+ */
+export const getListMemberIds = (lists: TaskList[], members: TaskListMember[], listId: string): string[] => {
+  const owner = lists.find(l => l.id === listId)?.owner_id;
+  return [
+    ...(owner ? [owner] : []),
+    ...members.filter(m => m.list_id === listId && m.user_id !== owner).map(m => m.user_id),
+  ];
+};
+
+/**
+ * Whether `userId` can see a task's activity and comment on it: its creator,
+ * its assignee and every member of its list, viewers included
+ */
+export const canDiscussTask = (
+  task: SharedTask,
+  lists: TaskList[],
+  members: TaskListMember[],
+  userId: string | undefined
+): boolean => {
+  if (!userId) return false;
+  if (task.user_id === userId || task.assignee_id === userId) return true;
+  return getListRole(lists, members, task.list_id, userId) !== null;
+};
@@ -0,0 +1,11 @@
+export type TaskPriority = 'low' | 'medium' | 'high';
+
+/** Priorities from most to least urgent */
+export const TASK_PRIORITIES: TaskPriority[] = ['high', 'medium', 'low'];
+
+/** Badge classes for each priority */
+export const PRIORITY_STYLES: Record<TaskPriority, string> = {
+  high: 'bg-destructive/20 text-destructive border-destructive/40',
+  medium: 'bg-yellow-500/20 text-yellow-600 border-yellow-500/40',
+  low: 'bg-secondary text-muted-foreground',
+};
@@ -0,0 +1,104 @@
+import { format } from 'date-fns';
+
+export interface TaskReminder {
+  id: string;
+  task_id: string;
+  /** minutes before the due date, null for a reminder at a fixed time */
+  offset_minutes: number | null;
+  /** fixed time, used when offset_minutes is null */
+  remind_at: string | null;
+  fired_at: string | null;
+  /** fell due while the app was closed */
+  missed: boolean;
+}
+
+export type ReminderDraft = Pick<TaskReminder, 'offset_minutes' | 'remind_at'>;
+
+interface ReminderTask {
+  id: string;
+  title: string;
+  due_date: string | null;
+  completed: boolean;
+}
+
+export interface PendingReminder<T extends ReminderTask = ReminderTask> {
+  reminder: TaskReminder;
+  task: T;
+  time: Date;
+}
+
+export const REMINDER_PRESETS: { label: string; minutes: number }[] = [
+  { label: 'At due time', minutes: 0 },
+  { label: '10 minutes before', minutes: 10 },
+  { label: '1 hour before', minutes: 60 },
+  { label: '1 day before', minutes: 24 * 60 },
+  { label: '1 week before', minutes: 7 * 24 * 60 },
+];
+
+/** A reminder noticed this late (e.g. after the laptop slept) counts as missed */
+export const MISSED_AFTER_MS = 5 * 60 * 1000;
+
+/**
+ * When a reminder should fire
+ * @returns null for an offset reminder on a task without a due date
+ */
+export const getReminderTime = (reminder: ReminderDraft, dueDate: string | null): Date | null => {
+  if (reminder.offset_minutes === null) {
+    return reminder.remind_at ? new Date(reminder.remind_at) : null;
+  }
+  if (!dueDate) return null;
+  return new Date(new Date(dueDate).getTime() - reminder.offset_minutes * 60 * 1000);
+};
+
+export const describeReminder = (reminder: ReminderDraft): string => {
+  if (reminder.offset_minutes === null) {
+    return reminder.remind_at ? format(new Date(reminder.remind_at), 'MMM d, h:mm a') : 'Custom';
+  }
+  const preset = REMINDER_PRESETS.find(p => p.minutes === reminder.offset_minutes);
+  if (preset) return preset.label;
+  const minutes = reminder.offset_minutes;
+  if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)} days before`;
+  if (minutes % 60 === 0) return `${minutes / 60} hours before`;
+  return `${minutes} minutes before`;
+};
+
+export const isSameReminder = (a: ReminderDraft, b: ReminderDraft): boolean =>
+  a.offset_minutes === b.offset_minutes &&
+  (a.offset_minutes !== null || new Date(a.remind_at ?? 0).getTime() === new Date(b.remind_at ?? 0).getTime());
+
+/**
+ * Split unfired reminders that are already due into ones to fire now and ones
+ * that were missed. On the first check after opening the app everything
+ * overdue was missed; later only reminders noticed too late are.
+ * Reminders of completed tasks are returned as `silenced` so they can be
+ * marked fired without notifying.
+ */
+export const collectDueReminders = <T extends ReminderTask>(
+  reminders: TaskReminder[],
+  tasks: T[],
+  now: Date,
+  firstCheck: boolean
+) => {
+  const due: PendingReminder<T>[] = [];
+  const missed: PendingReminder<T>[] = [];
+  const silenced: PendingReminder<T>[] = [];
+
+  reminders.forEach(reminder => {
+    if (reminder.fired_at) return;
+    const task = tasks.find(t => t.id === reminder.task_id);
+    if (!task) return;
+    const time = getReminderTime(reminder, task.due_date);
+    if (!time || time > now) return;
+
+    const pending = { reminder, task, time };
+    if (task.completed) {
+      silenced.push(pending);
+    } else if (firstCheck || now.getTime() - time.getTime() > MISSED_AFTER_MS) {
+      missed.push(pending);
+    } else {
+      due.push(pending);
+    }
+  });
+
+  return { due, missed, silenced };
+};
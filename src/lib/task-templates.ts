@@ -0,0 +1,168 @@
+import { addMinutes } from 'date-fns';
+import { TASK_PRIORITIES, TaskPriority } from '@/lib/task-priority';
+
+export interface TaskTemplate {
+  id: string;
+  owner_id: string;
+  name: string;
+  description: string | null;
+}
+
+export interface TemplateItem {
+  id: string;
+  template_id: string;
+  position: number;
+  title: string;
+  description: string | null;
+  subject: string | null;
+  priority: string;
+  /** due date relative to the anchor date, negative is before it */
+  offset_minutes: number;
+}
+
+export interface TemplateAttachment {
+  id: string;
+  item_id: string;
+  file_name: string;
+  file_size: number;
+  file_type: string;
+  storage_path: string;
+}
+
+export type TemplateItemDraft = Pick<TemplateItem, 'title' | 'description' | 'subject' | 'priority' | 'offset_minutes'>;
+
+/** Shape of an exported template file */
+export interface TemplateExport {
+  type: 'studyspace-task-template';
+  version: 1;
+  name: string;
+  description: string | null;
+  items: {
+    title: string;
+    description: string | null;
+    subject: string | null;
+    priority: string;
+    /** e.g. "-7d" or "-1d 12h" */
+    offset: string;
+    /** file names only, files themselves are not exported */
+    attachments: string[];
+  }[];
+}
+
+const UNIT_MINUTES: Record<string, number> = { w: 7 * 24 * 60, d: 24 * 60, h: 60, m: 1 };
+
+/**
+ * Parse an offset such as "-7d", "0d", "+1w", "-2d 12h" or "-90m"
+ * @returns Minutes, or null when the input is not an offset
+ */
+export const parseOffset = (input: string): number | null => {
+  const value = input.trim().toLowerCase().replace(/\s+/g, '');
+  if (value === '0') return 0;
+  const match = value.match(/^([+-]?)((?:\d+[wdhm])+)$/);
+  if (!match) return null;
+
+  let total = 0;
+  for (const [, amount, unit] of match[2].matchAll(/(\d+)([wdhm])/g)) {
+    total += parseInt(amount, 10) * UNIT_MINUTES[unit];
+  }
+  return match[1] === '-' && total > 0 ? -total : total;
+};
+
+/** Format minutes as an offset: "0d", "-7d", "+1d 12h" */
+export const formatOffset = (minutes: number): string => {
+  if (minutes === 0) return '0d';
+  const sign = minutes < 0 ? '-' : '+';
+  let rest = Math.abs(minutes);
+  const parts: string[] = [];
+  for (const unit of ['d', 'h', 'm']) {
+    const amount = Math.floor(rest / UNIT_MINUTES[unit]);
+    if (amount > 0) parts.push(`${amount}${unit}`);
+    rest %= UNIT_MINUTES[unit];
+  }
+  return sign + parts.join(' ');
+};
+
+/** Due date of a template item when the template is used for `anchor` */
+export const getItemDueDate = (anchor: Date, offsetMinutes: number): Date => addMinutes(anchor, offsetMinutes);
+
+/**
+ * Parse a quick outline such as "outline: -7d, draft: -3d, submit: 0d".
+ * Steps are separated by commas or new lines; a step without an offset is
+ * due on the anchor date.
+ * @returns Items in outline order and the steps whose offset was not understood
+ */
+export const parseTemplateOutline = (text: string): { items: TemplateItemDraft[]; invalid: string[] } => {
+  const items: TemplateItemDraft[] = [];
+  const invalid: string[] = [];
+
+  text.split(/[,\n]/).map(step => step.trim()).filter(Boolean).forEach(step => {
+    const colon = step.lastIndexOf(':');
+    const title = (colon >= 0 ? step.slice(0, colon) : step).trim();
+    const offset = colon >= 0 ? parseOffset(step.slice(colon + 1)) : 0;
+    if (!title || offset === null) {
+      invalid.push(step);
+      return;
+    }
+    items.push({ title, description: null, subject: null, priority: 'medium', offset_minutes: offset });
+  });
+
+  return { items, invalid };
+};
+
+/** Template as a JSON document that can be imported again */
+export const buildTemplateExport = (
+  template: Pick<TaskTemplate, 'name' | 'description'>,
+  items: TemplateItem[],
+  attachments: TemplateAttachment[]
+): TemplateExport => ({
+  type: 'studyspace-task-template',
+  version: 1,
+  name: template.name,
+  description: template.description,
+  items: [...items]
+    .sort((a, b) => a.position - b.position)
+    .map(item => ({
+      title: item.title,
+      description: item.description,
+      subject: item.subject,
+      priority: item.priority,
+      offset: formatOffset(item.offset_minutes),
+      attachments: attachments.filter(a => a.item_id === item.id).map(a => a.file_name),
+    })),
+});
+
+const optionalText = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+/** Read a file written by buildTemplateExport */
+export const parseTemplateExport = (
+  text: string
+): { name: string; description: string | null; items: TemplateItemDraft[] } => {
+  let data: Partial<TemplateExport>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a valid JSON file');
+  }
+  if (data?.type !== 'studyspace-task-template' || !Array.isArray(data.items)) {
+    throw new Error('Not a StudySpace task template');
+  }
+  const name = optionalText(data.name);
+  if (!name) throw new Error('Template has no name');
+
+  const items = data.items.map((item, index) => {
+    const title = optionalText(item?.title);
+    if (!title) throw new Error(`Step ${index + 1} has no title`);
+    const offset = parseOffset(String(item.offset ?? '0d'));
+    if (offset === null) throw new Error(`Invalid offset "${item.offset}" in "${title}"`);
+    return {
+      title,
+      description: optionalText(item.description),
+      subject: optionalText(item.subject),
+      priority: TASK_PRIORITIES.includes(item.priority as TaskPriority) ? item.priority : 'medium',
+      offset_minutes: offset,
+    };
+  });
+
+  return { name, description: optionalText(data.description), items };
+};
@@ -0,0 +1,124 @@
+export interface TreeTask {
+  id: string;
+  parent_id: string | null;
+  completed: boolean;
+}
+
+export type TaskNode<T extends TreeTask> = T & {
+  children: TaskNode<T>[];
+  depth: number;
+};
+
+/**
+ * Build a parent/child tree from a flat list of tasks.
+ * Tasks whose parent is missing from the list are treated as roots,
+ * so a filtered list still renders every task exactly once.
+ * @param tasks - Flat list of tasks
+ * @param compare - Optional comparator applied to every level of siblings
+ * @returns Root nodes with nested children
+ */
+export const buildTaskTree = <T extends TreeTask>(
+  tasks: T[],
+  compare?: (a: T, b: T) => number
+): TaskNode<T>[] => {
+  const byId = new Map<string, TaskNode<T>>();
+  tasks.forEach(task => byId.set(task.id, { ...task, children: [], depth: 0 }));
+
+  const roots: TaskNode<T>[] = [];
+  byId.forEach(node => {
+    const parent = node.parent_id ? byId.get(node.parent_id) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const finalize = (nodes: TaskNode<T>[], depth: number) => {
+    if (compare) nodes.sort(compare);
+    nodes.forEach(node => {
+      node.depth = depth;
+      finalize(node.children, depth + 1);
+    });
+  };
+  finalize(roots, 0);
+
+  return roots;
+};
+
+/**
+ * Get the ids of every descendant of a task (children, grandchildren, ...)
+ */
+export const getDescendantIds = <T extends TreeTask>(tasks: T[], taskId: string): string[] => {
+  const result: string[] = [];
+  const stack = [taskId];
+  while (stack.length > 0) {
+    const current = stack.pop();
+    tasks.forEach(task => {
+      if (task.parent_id === current && !result.includes(task.id)) {
+        result.push(task.id);
+        stack.push(task.id);
+      }
+    });
+  }
+  return result;
+};
+
+/**
+ * Check whether `candidateId` is `taskId` itself or one of its descendants.
+ * Used to stop a task from being moved underneath its own subtree.
+ */
+export const isInSubtree = <T extends TreeTask>(tasks: T[], taskId: string, candidateId: string): boolean => {
+  return candidateId === taskId || getDescendantIds(tasks, taskId).includes(candidateId);
+};
+
+/**
+ * Count completed and total descendants of a node
+ */
+export const getTaskProgress = <T extends TreeTask>(node: TaskNode<T>): { done: number; total: number } => {
+  return node.children.reduce(
+    (acc, child) => {
+      const nested = getTaskProgress(child);
+      return {
+        done: acc.done + (child.completed ? 1 : 0) + nested.done,
+        total: acc.total + 1 + nested.total,
+      };
+    },
+    { done: 0, total: 0 }
+  );
+};
+
+/**
+ * Work out which parents change state after their children changed.
+ * A parent becomes completed once all of its children are completed and is
+ * reopened as soon as one of them is not. Changes bubble up to grandparents.
+ * @param tasks - Flat list of tasks with the new child values already applied
+ * @param parentIds - Ids of the parents whose children were toggled, added or moved
+ * @returns Map of ancestor id to its new completed value
+ */
+export const getParentCompletionUpdates = <T extends TreeTask>(
+  tasks: T[],
+  parentIds: (string | null)[]
+): Map<string, boolean> => {
+  const state = new Map(tasks.map(task => [task.id, task.completed]));
+  const updates = new Map<string, boolean>();
+  const parentsToCheck = new Set(parentIds.filter((id): id is string => Boolean(id)));
+
+  while (parentsToCheck.size > 0) {
+    const [parentId] = parentsToCheck;
+    parentsToCheck.delete(parentId);
+
+    const children = tasks.filter(t => t.parent_id === parentId);
+    if (children.length === 0 || !state.has(parentId)) continue;
+
+    const allDone = children.every(child => state.get(child.id));
+    if (state.get(parentId) !== allDone) {
+      state.set(parentId, allDone);
+      updates.set(parentId, allDone);
+      const grandParentId = tasks.find(t => t.id === parentId)?.parent_id;
+      if (grandParentId) parentsToCheck.add(grandParentId);
+    }
+  }
+
+  return updates;
+};
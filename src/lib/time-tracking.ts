@@ -0,0 +1,102 @@
+export interface TimeEntry {
+  task_id: string;
+  minutes: number;
+}
+
+interface TimedTask {
+  id: string;
+  title: string;
+  subject: string | null;
+  completed: boolean;
+  estimated_minutes: number | null;
+}
+
+export interface TimeSummary {
+  /** sum of estimates, only tasks that have one */
+  estimated: number;
+  actual: number;
+  /** actual time of the tasks that have an estimate, for a like-for-like comparison */
+  actualEstimated: number;
+  tasks: number;
+}
+
+export interface SubjectTimeSummary extends TimeSummary {
+  /** null for tasks without a subject */
+  subject: string | null;
+}
+
+/** Format minutes as "45m", "2h" or "1h 30m" */
+export const formatMinutes = (minutes: number): string => {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+/**
+ * Parse a duration such as "90", "45m", "1.5h", "2h 30m", "1h30" or "1:30"
+ * @returns Minutes, or null when the input is not a positive duration
+ */
+export const parseDuration = (input: string): number | null => {
+  const value = input.trim().toLowerCase();
+  if (!value) return null;
+
+  let minutes: number | null = null;
+  const clock = value.match(/^(\d+):([0-5]\d)$/);
+  if (clock) {
+    minutes = parseInt(clock[1], 10) * 60 + parseInt(clock[2], 10);
+  } else if (/^\d+(\.\d+)?$/.test(value)) {
+    minutes = parseFloat(value);
+  } else {
+    const parts = value.match(/^(?:(\d+(?:\.\d+)?)\s*h(?:ours?|rs?)?)?\s*(?:(\d+)\s*(?:m(?:in(?:ute)?s?)?)?)?$/);
+    if (parts && (parts[1] || parts[2])) {
+      minutes = parseFloat(parts[1] ?? '0') * 60 + parseInt(parts[2] ?? '0', 10);
+    }
+  }
+
+  return minutes && minutes > 0 ? Math.round(minutes) : null;
+};
+
+/** Total tracked minutes per task id */
+export const getTrackedMinutes = (entries: TimeEntry[]): Map<string, number> => {
+  const totals = new Map<string, number>();
+  entries.forEach(entry => totals.set(entry.task_id, (totals.get(entry.task_id) ?? 0) + entry.minutes));
+  return totals;
+};
+
+const summarize = (tasks: TimedTask[], tracked: Map<string, number>): TimeSummary =>
+  tasks.reduce<TimeSummary>((sum, task) => {
+    const actual = tracked.get(task.id) ?? 0;
+    return {
+      estimated: sum.estimated + (task.estimated_minutes ?? 0),
+      actual: sum.actual + actual,
+      actualEstimated: sum.actualEstimated + (task.estimated_minutes ? actual : 0),
+      tasks: sum.tasks + 1,
+    };
+  }, { estimated: 0, actual: 0, actualEstimated: 0, tasks: 0 });
+
+/**
+ * Estimated vs. tracked time per subject, busiest subject first. Only tasks
+ * with an estimate or tracked time are counted.
+ */
+export const summarizeTimeBySubject = (tasks: TimedTask[], entries: TimeEntry[]): SubjectTimeSummary[] => {
+  const tracked = getTrackedMinutes(entries);
+  const groups = new Map<string | null, TimedTask[]>();
+  tasks
+    .filter(task => task.estimated_minutes || tracked.has(task.id))
+    .forEach(task => {
+      const key = task.subject?.trim().toLowerCase() || null;
+      groups.set(key, [...(groups.get(key) ?? []), task]);
+    });
+
+  return Array.from(groups.entries())
+    .map(([, group]) => ({ subject: group[0].subject?.trim() || null, ...summarize(group, tracked) }))
+    .sort((a, b) => b.actual - a.actual || b.estimated - a.estimated);
+};
+
+/** Totals across all tasks with an estimate or tracked time */
+export const summarizeTime = (tasks: TimedTask[], entries: TimeEntry[]): TimeSummary => {
+  const tracked = getTrackedMinutes(entries);
+  return summarize(tasks.filter(task => task.estimated_minutes || tracked.has(task.id)), tracked);
+};
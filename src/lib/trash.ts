@@ -0,0 +1,40 @@
+import { differenceInCalendarDays } from 'date-fns';
+
+/** Days an item stays in the trash before it is purged */
+export const TRASH_RETENTION_DAYS = 30;
+
+interface TrashedTask {
+  id: string;
+  parent_id: string | null;
+  deleted_at: string | null;
+}
+
+/** Whole days left before a trashed item is purged, never below 0 */
+export const getDaysLeft = (deletedAt: string, now: Date = new Date()): number =>
+  Math.max(0, TRASH_RETENTION_DAYS - differenceInCalendarDays(now, new Date(deletedAt)));
+
+/**
+ * Trashed tasks that were deleted on their own, not together with their
+ * parent. Subtasks trashed with their parent are restored with it.
+ */
+export const getTrashRoots = <T extends TrashedTask>(trashed: T[]): T[] =>
+  trashed.filter(task => {
+    const parent = trashed.find(t => t.id === task.parent_id);
+    return !parent || parent.deleted_at !== task.deleted_at;
+  });
+
+/**
+ * A trashed task and the subtasks that were trashed together with it
+ * (same deleted_at), which are restored or deleted as one
+ */
+export const getTrashGroupIds = <T extends TrashedTask>(trashed: T[], rootId: string): string[] => {
+  const root = trashed.find(t => t.id === rootId);
+  if (!root) return [];
+  const ids = [root.id];
+  for (let i = 0; i < ids.length; i++) {
+    trashed
+      .filter(t => t.parent_id === ids[i] && t.deleted_at === root.deleted_at)
+      .forEach(t => ids.push(t.id));
+  }
+  return ids;
+};
@@ -99,7 +99,7 @@ export default function AdminPanel() {
       const { error } = await supabase
         .from('settings')
         .update({ [key]: value })
-        .eq('id', settings.id) as any;
+        .eq('id', settings.id);
 
       if (error) throw error;
 
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { Send, Trash2, MessageCircle, Lock } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -136,6 +137,7 @@ const Chat = () => {
         *,
         profiles (username, avatar_url)
       `)
+      .is('deleted_at', null)
       .order('created_at', { ascending: true });
 
     if (!error && data) {
@@ -175,13 +177,28 @@ const Chat = () => {
 
   // Delete message handler
   const handleDeleteMessage = async (id: string) => {
-    const { error } = await supabase.from('chat_messages').delete().eq('id', id);
+    const { error } = await supabase
+      .from('chat_messages')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', id);
     if (error) {
       toast({
         title: 'Error',
         description: 'Failed to delete message',
         variant: 'destructive',
       });
+    } else {
+      toast({
+        title: 'Message deleted',
+        action: (
+          <ToastAction
+            altText="Undo delete"
+            onClick={() => supabase.from('chat_messages').update({ deleted_at: null }).eq('id', id)}
+          >
+            Undo
+          </ToastAction>
+        ),
+      });
     }
   };
 
@@ -2,7 +2,10 @@
 import { useEffect, useState, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
 import { useAuth } from '@/components/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
@@ -22,6 +25,7 @@ import {
 
 export default function DMChat() {
   const { user, signOut } = useAuth();
+  const { toast } = useToast();
   const navigate = useNavigate();
   const { userId } = useParams();
   const [messages, setMessages] = useState<any[]>([]);
@@ -64,14 +68,15 @@ export default function DMChat() {
     if (!user || !userId) return;
     fetchMessages();
     
-    // Subscribe to new DMs
+    const inConversation = (message: Tables<'direct_messages'>) =>
+      (message.from_user_id === user.id && message.to_user_id === userId) ||
+      (message.from_user_id === userId && message.to_user_id === user.id);
+
+    // Subscribe to new, edited, deleted and restored DMs
     const channel = supabase
       .channel('direct_messages')
       .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'direct_messages' }, (payload) => {
-        if (
-          (payload.new.from_user_id === user.id && payload.new.to_user_id === userId) ||
-          (payload.new.from_user_id === userId && payload.new.to_user_id === user.id)
-        ) {
+        if (inConversation(payload.new as Tables<'direct_messages'>)) {
           fetchMessages();
           // Mark incoming messages as read
           if (payload.new.to_user_id === user.id && payload.new.from_user_id === userId) {
@@ -79,6 +84,15 @@ export default function DMChat() {
           }
         }
       })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'direct_messages' }, (payload) => {
+        const message = payload.new as Tables<'direct_messages'>;
+        if (!inConversation(message)) return;
+        setMessages(prev => {
+          if (message.deleted_at) return prev.filter(m => m.id !== message.id);
+          if (prev.some(m => m.id === message.id)) return prev.map(m => (m.id === message.id ? message : m));
+          return [...prev, message].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+        });
+      })
       .subscribe();
 
     return () => { 
@@ -96,6 +110,7 @@ export default function DMChat() {
         .or(
           `and(from_user_id.eq.${user.id},to_user_id.eq.${userId}),and(from_user_id.eq.${userId},to_user_id.eq.${user.id})`
         )
+        .is('deleted_at', null)
         .order('created_at', { ascending: true });
       
       setMessages(data || []);
@@ -150,11 +165,25 @@ export default function DMChat() {
     try {
       const { error } = await supabase
         .from('direct_messages')
-        .delete()
+        .update({ deleted_at: new Date().toISOString() })
         .eq('id', messageId);
 
       if (error) throw error;
       setMessages(prev => prev.filter(m => m.id !== messageId));
+      toast({
+        title: 'Message deleted',
+        action: (
+          <ToastAction
+            altText="Undo delete"
+            onClick={async () => {
+              await supabase.from('direct_messages').update({ deleted_at: null }).eq('id', messageId);
+              fetchMessages();
+            }}
+          >
+            Undo
+          </ToastAction>
+        ),
+      });
     } catch (error) {
       console.error('Error deleting message:', error);
     }
@@ -294,7 +323,7 @@ export default function DMChat() {
                         <AlertDialogHeader>
                           <AlertDialogTitle>Delete Message</AlertDialogTitle>
                           <AlertDialogDescription>
-                            Are you sure you want to delete this message? This action cannot be undone.
+                            Are you sure you want to delete this message?
                           </AlertDialogDescription>
                         </AlertDialogHeader>
                         <div className="flex gap-2">
@@ -1,6 +1,8 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/components/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/card';
 import { Link } from 'react-router-dom';
@@ -30,6 +32,7 @@ interface Conversation {
 
 export default function DMList() {
   const { user, signOut } = useAuth();
+  const { toast } = useToast();
   const navigate = useNavigate();
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [loading, setLoading] = useState(true);
@@ -74,6 +77,7 @@ export default function DMList() {
             .or(
               `and(from_user_id.eq.${user.id},to_user_id.eq.${partner.id}),and(from_user_id.eq.${partner.id},to_user_id.eq.${user.id})`
             )
+            .is('deleted_at', null)
             .order('created_at', { ascending: false })
             .limit(1);
 
@@ -95,13 +99,33 @@ export default function DMList() {
 
   const handleRemoveChat = async (conversationId: string) => {
     try {
-      // Delete all messages in this conversation
-      await supabase
+      // Trash the messages we sent in this conversation
+      const { data: trashed } = await supabase
         .from('direct_messages')
-        .delete()
-        .or(`and(from_user_id.eq.${user?.id},to_user_id.eq.${conversationId}),and(from_user_id.eq.${conversationId},to_user_id.eq.${user?.id})`);
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('from_user_id', user?.id)
+        .eq('to_user_id', conversationId)
+        .is('deleted_at', null)
+        .select('id');
       
       setConversations(prev => prev.filter(c => c.id !== conversationId));
+      toast({
+        title: 'Chat removed',
+        action: (
+          <ToastAction
+            altText="Undo remove"
+            onClick={async () => {
+              await supabase
+                .from('direct_messages')
+                .update({ deleted_at: null })
+                .in('id', (trashed || []).map(m => m.id));
+              fetchConversations();
+            }}
+          >
+            Undo
+          </ToastAction>
+        ),
+      });
     } catch (error) {
       console.error('Error removing chat:', error);
     }
@@ -7,6 +7,7 @@ import { Link, useNavigate } from 'react-router-dom';
 import { Flame, Trophy, Target, TrendingUp, LogOut, Settings, Clock } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
+import { getCurrentStreak } from '@/lib/flashcards';
 
 const GREETINGS = [
   'Ready to crush your study goals today?',
@@ -34,6 +35,7 @@ const GREETINGS = [
 interface ProfileData {
   username: string;
   streak: number;
+  last_study_date: string | null;
   points: number;
   rank: number;
 }
@@ -56,7 +58,7 @@ const Dashboard = () => {
 
       const { data, error } = await supabase
         .from('profiles')
-        .select('username, streak, points, rank')
+        .select('username, streak, last_study_date, points, rank')
         .eq('id', user.id)
         .single();
 
@@ -123,7 +125,7 @@ const Dashboard = () => {
             <Flame className="h-5 w-5 text-accent" />
           </CardHeader>
           <CardContent>
-            <div className="text-3xl font-bold">{profile?.streak || 0}</div>
+            <div className="text-3xl font-bold">{profile ? getCurrentStreak(profile.streak, profile.last_study_date) : 0}</div>
             <p className="text-xs text-muted-foreground mt-1">days in a row</p>
           </CardContent>
         </Card>
@@ -2,6 +2,8 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -189,6 +191,7 @@ const UserAvatar = ({ username, avatarUrl, isOnline, size = 'md' }: { username:
 // Main Component
 export default function Inbox() {
   const navigate = useNavigate();
+  const { toast } = useToast();
 
   // user + data
   const [user, setUser] = useState<any>(null);
@@ -247,6 +250,7 @@ export default function Inbox() {
       .from('direct_messages')
       .select('*')
       .eq('to_user_id', user.id)
+      .is('deleted_at', null)
       .order('created_at', { ascending: false })
       .limit(100);
 
@@ -334,6 +338,7 @@ export default function Inbox() {
         .from('direct_messages')
         .select('*')
         .or(`and(from_user_id.eq.${user.id},to_user_id.eq.${friendId}),and(from_user_id.eq.${friendId},to_user_id.eq.${user.id})`)
+        .is('deleted_at', null)
         .order('created_at', { ascending: true })
         .limit(500);
 
@@ -382,15 +387,33 @@ export default function Inbox() {
   const handleDeleteMessage = useCallback((messageId: string) => {
     setConfirmDialog({
       title: 'Delete message',
-      description: 'This will permanently delete the message.',
+      description: 'This will delete the message for both of you.',
       onConfirm: async () => {
         setConfirmDialog(null);
         setChatMessages((s) => s.filter((m) => m.id !== messageId));
-        const { error } = await supabase.from('direct_messages').delete().eq('id', messageId);
-        if (error) console.error('delete message error', error);
+        const { error } = await supabase
+          .from('direct_messages')
+          .update({ deleted_at: new Date().toISOString() })
+          .eq('id', messageId);
+        if (error) {
+          console.error('delete message error', error);
+          return;
+        }
+        // The realtime subscription reloads the chat once the message is restored
+        toast({
+          title: 'Message deleted',
+          action: (
+            <ToastAction
+              altText="Undo delete"
+              onClick={() => supabase.from('direct_messages').update({ deleted_at: null }).eq('id', messageId)}
+            >
+              Undo
+            </ToastAction>
+          ),
+        });
       },
     });
-  }, []);
+  }, [toast]);
 
   const handleSendFriendRequest = useCallback(async (friendId: string) => {
     if (!user?.id) return;
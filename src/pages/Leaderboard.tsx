@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { getCurrentStreak } from '@/lib/flashcards';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Trophy, Medal, Award } from 'lucide-react';
 
@@ -8,6 +9,7 @@ interface LeaderboardEntry {
   username: string;
   points: number;
   streak: number;
+  last_study_date: string | null;
 }
 
 const Leaderboard = () => {
@@ -20,7 +22,7 @@ const Leaderboard = () => {
   const fetchLeaderboard = async () => {
     const { data, error } = await supabase
       .from('profiles')
-      .select('id, username, points, streak')
+      .select('id, username, points, streak, last_study_date')
       .order('points', { ascending: false })
       .limit(10);
 
@@ -58,7 +60,7 @@ const Leaderboard = () => {
                 <div className="flex-1">
                   <h3 className="font-semibold">{leader.username}</h3>
                   <p className="text-sm text-muted-foreground">
-                    {leader.streak} day streak
+                    {getCurrentStreak(leader.streak, leader.last_study_date)} day streak
                   </p>
                 </div>
                 <div className="text-right">
@@ -7,12 +7,12 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, FileText, Trash2, Bold, Italic, Underline, List, ChevronDown, Paperclip, X, Download, ClipboardCopy, Edit, Filter, ArrowUpDown, BookOpen, Download as DownloadIcon, CheckSquare } from 'lucide-react';
-import ReactMarkdown from 'react-markdown';
-import { uploadFile, deleteFile, getFileUrl, formatFileSize, getFileIcon, isImageFile, getImagePreview, MAX_UPLOAD_SIZE } from '@/lib/file-upload';
+import { ToastAction } from '@/components/ui/toast';
+import { Link } from 'react-router-dom';
+import { Plus, FileText, Trash2, Bold, Italic, Underline, List, ChevronDown, Paperclip, X, Download, ClipboardCopy, Edit, Filter, ArrowUpDown, BookOpen, Download as DownloadIcon, CheckSquare, Sigma, Workflow, History, Link2, Users, Layers, FileUp } from 'lucide-react';
+import { uploadFile, getFileUrl, formatFileSize, getFileIcon, isImageFile, getImagePreview, MAX_UPLOAD_SIZE } from '@/lib/file-upload';
 import {
   Select,
   SelectContent,
@@ -23,69 +23,20 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
 import { NotesGridSkeleton } from '@/components/SkeletonLoaders';
-
-// Component to render formatted text
-const FormattedText = ({ text }: { text: string }) => {
-  const parts: any[] = [];
-  let lastIndex = 0;
-
-  // Regex patterns for different formatting
-  const patterns = [
-    { regex: /\*\*([^\*]+)\*\*/g, type: 'bold' },
-    { regex: /\*([^\*]+)\*/g, type: 'italic' },
-    { regex: /__([^_]+)__/g, type: 'underline' },
-    { regex: /`([^`]+)`/g, type: 'code' },
-  ];
-
-  // Process all patterns
-  let result = text;
-  result = result.replace(/\*\*([^\*]+)\*\*/g, '<strong>$1</strong>');
-  result = result.replace(/(?<!\*)\*(?!\*)([^\*]+)(?<!\*)\*(?!\*)/g, '<em>$1</em>');
-  result = result.replace(/__([^_]+)__/g, '<u>$1</u>');
-  result = result.replace(/`([^`]+)`/g, '<code>$1</code>');
-  result = result.replace(/^# (.*?)$/gm, '<h1>$1</h1>');
-  result = result.replace(/^## (.*?)$/gm, '<h2>$1</h2>');
-  result = result.replace(/^### (.*?)$/gm, '<h3>$1</h3>');
-  result = result.replace(/^- (.*?)$/gm, '<li>$1</li>');
-
-  return (
-    <div
-      className="space-y-2 break-words whitespace-normal"
-      dangerouslySetInnerHTML={{
-        __html: result
-          .split('\n')
-          .map((line) => {
-            // Preserve empty lines with a non-breaking space
-            if (line.trim() === '') return `<div class="text-white font-semibold my-1 break-words h-4">&nbsp;</div>`;
-            if (line.includes('<h1>')) return `<div class="text-white font-bold text-lg mt-4 mb-2 break-words">${line.replace(/<h1>(.*?)<\/h1>/, '$1')}</div>`;
-            if (line.includes('<h2>')) return `<div class="text-white font-bold text-base mt-4 mb-2 break-words">${line.replace(/<h2>(.*?)<\/h2>/, '$1')}</div>`;
-            if (line.includes('<h3>')) return `<div class="text-white font-bold text-sm mt-3 mb-1 break-words">${line.replace(/<h3>(.*?)<\/h3>/, '$1')}</div>`;
-            if (line.includes('<li>')) return `<div class="text-white font-semibold my-1 ml-4 break-words">• ${line.replace(/<li>(.*?)<\/li>/, '$1')}</div>`;
-            return `<div class="text-white font-semibold my-2 break-words">${line}</div>`;
-          })
-          .join('')
-          .replace(/<strong>(.*?)<\/strong>/g, '<span class="font-bold text-white break-words">$1</span>')
-          .replace(/<em>(.*?)<\/em>/g, '<span class="italic text-white break-words">$1</span>')
-          .replace(/<u>(.*?)<\/u>/g, '<span class="underline text-white break-words">$1</span>')
-          .replace(/<code>(.*?)<\/code>/g, '<span class="bg-slate-700 text-white px-1.5 py-0.5 rounded text-xs break-words">$1</span>'),
-      }}
-    />
-  );
-};
-
-// Custom markdown components to handle formatting
-const markdownComponents = {
-  strong: ({ children }: any) => <strong className="font-bold text-white">{children}</strong>,
-  em: ({ children }: any) => <em className="italic text-white">{children}</em>,
-  code: ({ children }: any) => <code className="bg-slate-700 text-white px-1.5 py-0.5 rounded text-xs">{children}</code>,
-  p: ({ children }: any) => <p className="text-white font-semibold my-2">{children}</p>,
-  li: ({ children }: any) => <li className="text-white font-semibold my-1 ml-4">• {children}</li>,
-  h1: ({ children }: any) => <h1 className="text-white font-bold text-lg mt-4 mb-2">{children}</h1>,
-  h2: ({ children }: any) => <h2 className="text-white font-bold text-base mt-4 mb-2">{children}</h2>,
-  h3: ({ children }: any) => <h3 className="text-white font-bold text-sm mt-3 mb-1">{children}</h3>,
-  blockquote: ({ children }: any) => <blockquote className="border-l-4 border-white pl-4 text-white italic my-2">{children}</blockquote>,
-  hr: () => <hr className="border-slate-600 my-3" />,
-};
+import { NoteMarkdown } from '@/components/NoteMarkdown';
+import { NoteEditor } from '@/components/NoteEditor';
+import { NoteHistoryPanel } from '@/components/NoteHistoryPanel';
+import { HighlightedText } from '@/components/HighlightedText';
+import { NoteCollabEditor } from '@/components/NoteCollabEditor';
+import { NoteImportDialog } from '@/components/NoteImportDialog';
+import { NoteFolderTree, NoteFolderSelect, NOTE_DRAG_TYPE, FolderSelection } from '@/components/NoteFolderTree';
+import { closeOpenMarkdownBlocks, NOTE_CONTENT_FORMAT } from '@/lib/markdown';
+import { linksToTitle, normalizeNoteTitle, rewriteWikiLinks } from '@/lib/note-links';
+import { TRASH_RETENTION_DAYS } from '@/lib/trash';
+import { searchNotes, NoteSearchHit, NOTE_SEARCH_DEBOUNCE_MS } from '@/lib/note-search';
+import { parseFlashcards } from '@/lib/flashcards';
+import { getFolderPath, getForcedVisibility, getSubtreeIds, NoteFolder } from '@/lib/note-folders';
+import { buildNotesZip, downloadFile, exportDate, fetchExportAttachments, printDocument, renderNotesDocument, toFileName } from '@/lib/note-export';
 
 interface Note {
   id: string;
@@ -94,12 +45,17 @@ interface Note {
   subject: string | null;
   is_public: boolean;
   created_at: string;
+  updated_at?: string;
   user_id: string;
+  folder_id?: string | null;
   profiles: {
     username: string;
   };
 }
 
+// Everything the page shows; search_vector is left on the server
+const NOTE_COLUMNS = 'id, title, content, subject, is_public, created_at, updated_at, user_id, folder_id, profiles (username)';
+
 interface Attachment {
   id: string;
   file_name: string;
@@ -118,6 +74,12 @@ const Notes = () => {
   const [selectedNote, setSelectedNote] = useState<Note | null>(null);
   const [editingNote, setEditingNote] = useState<Note | null>(null);
   const [editOpen, setEditOpen] = useState(false);
+  const [historyNote, setHistoryNote] = useState<Note | null>(null);
+  const [collabNote, setCollabNote] = useState<Note | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  // Notes other people added the user to as a collaborator
+  const [sharedNoteIds, setSharedNoteIds] = useState<Set<string>>(new Set());
   // Create form state
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
@@ -136,10 +98,19 @@ const Notes = () => {
   const [filePreviews, setFilePreviews] = useState<{ [key: string]: string }>({});
   const [dragActive, setDragActive] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  // Server matches for the current search, by note id; null when not searching
+  const [searchHits, setSearchHits] = useState<Map<string, NoteSearchHit> | null>(null);
+  // The notes search_notes() matched, which may include notes not in `notes`
+  const [searchResults, setSearchResults] = useState<Note[]>([]);
+  const [searching, setSearching] = useState(false);
   const [filterBy, setFilterBy] = useState<'all' | 'my' | 'public'>('all');
   const [sortBy, setSortBy] = useState<'created' | 'title' | 'subject'>('created');
   const [selectedSubject, setSelectedSubject] = useState<string>('all');
   const [selectedNotes, setSelectedNotes] = useState<Set<string>>(new Set());
+  const [folders, setFolders] = useState<NoteFolder[]>([]);
+  const [selectedFolder, setSelectedFolder] = useState<FolderSelection>('all');
+  const [folderId, setFolderId] = useState<string | null>(null);
+  const [editFolderId, setEditFolderId] = useState<string | null>(null);
   const contentRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -150,23 +121,36 @@ const Notes = () => {
   const editDraftKey = editingNote ? `draft:note:edit:${editingNote.id}` : `draft:note:edit:noop`;
   const { hasDraft: hasEditDraft, lastSavedAt: editSavedAt, restore: restoreEditDraft, clear: clearEditDraft } = useAutoSave(editDraftKey, { editTitle, editContent, editSubject, editIsPublic }, { wait: 1000, shouldSave: (v) => Boolean(v && ((v.editTitle && v.editTitle.trim()) || (v.editContent && v.editContent.trim()))) });
 
+  // The selected folder and its subfolders
+  const folderSubtree = useMemo(
+    () => (selectedFolder === 'all' || selectedFolder === 'unfiled' ? new Set<string>() : getSubtreeIds(folders, selectedFolder)),
+    [folders, selectedFolder]
+  );
+
+  const myNotes = useMemo(() => notes.filter(n => n.user_id === user?.id), [notes, user?.id]);
+
   // Memoized filtered and sorted notes
   const filteredAndSortedNotes = useMemo(() => {
-    let filtered = notes.filter(note => {
-      const matchesSearch = note.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        note.content.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        note.subject?.toLowerCase().includes(searchQuery.toLowerCase());
-      
+    // Searching is done by search_notes() on the server
+    let filtered = (searchHits ? searchResults : notes).filter(note => {
       const matchesFilter = filterBy === 'all' ? true :
         filterBy === 'my' ? note.user_id === user?.id :
         note.is_public;
       
       const matchesSubject = selectedSubject === 'all' || note.subject === selectedSubject;
+
+      const matchesFolder = selectedFolder === 'all' ? true :
+        selectedFolder === 'unfiled' ? note.user_id === user?.id && !note.folder_id :
+        Boolean(note.folder_id && folderSubtree.has(note.folder_id));
       
-      return matchesSearch && matchesFilter && matchesSubject;
+      return matchesFilter && matchesSubject && matchesFolder;
     });
 
     filtered.sort((a, b) => {
+      // Search results are ranked unless sorted by title or subject
+      if (searchHits && sortBy === 'created') {
+        return (searchHits.get(b.id)?.rank ?? 0) - (searchHits.get(a.id)?.rank ?? 0);
+      }
       // Apply regular sorting
       if (sortBy === 'title') {
         return a.title.localeCompare(b.title);
@@ -178,7 +162,7 @@ const Notes = () => {
     });
 
     return filtered;
-  }, [notes, searchQuery, filterBy, sortBy, selectedSubject, user?.id]);
+  }, [notes, searchHits, searchResults, filterBy, sortBy, selectedSubject, selectedFolder, folderSubtree, user?.id]);
 
   // Get unique subjects for filter
   const uniqueSubjects = useMemo(() => {
@@ -198,6 +182,32 @@ const Notes = () => {
     return { total, myNotes, publicNotes, subjects };
   }, [notes, uniqueSubjects, user?.id]);
 
+  // Folder visibility overrides the note's own toggle (see add-note-folders.sql)
+  const createForcedVisibility = getForcedVisibility(folders, folderId);
+  const editForcedVisibility = getForcedVisibility(folders, editFolderId);
+
+  // Titles offered by [[ link autocomplete, and lookup of link targets
+  const noteTitles = useMemo(() => notes.map(n => n.title), [notes]);
+
+  const findNoteByTitle = useCallback((title: string) => {
+    const matches = notes.filter(n => normalizeNoteTitle(n.title) === normalizeNoteTitle(title));
+    return matches.find(n => n.user_id === user?.id) ?? matches[0] ?? null;
+  }, [notes, user?.id]);
+
+  const resolveWikiLink = useCallback((title: string) => findNoteByTitle(title) !== null, [findNoteByTitle]);
+
+  // Notes whose content links to the open note
+  const backlinks = useMemo(() => {
+    if (!selectedNote) return [];
+    return notes.filter(n => n.id !== selectedNote.id && linksToTitle(n.content, selectedNote.title));
+  }, [notes, selectedNote]);
+
+  // Cards written in the open note, studied on the Review page
+  const selectedFlashcards = useMemo(
+    () => (selectedNote ? parseFlashcards(selectedNote.content).length : 0),
+    [selectedNote]
+  );
+
   // Check if notes are locked and if user is admin
   useEffect(() => {
     const checkSettings = async () => {
@@ -217,8 +227,24 @@ const Notes = () => {
     }
   }, [user?.id]);
 
+  const restoreNotes = async (ids: string[]) => {
+    const { error } = await supabase.from('notes').update({ deleted_at: null }).in('id', ids);
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to restore note',
+        variant: 'destructive',
+      });
+      return;
+    }
+    fetchNotes();
+  };
+
   const handleDeleteNote = async (id: string) => {
-    const { error } = await supabase.from('notes').delete().eq('id', id);
+    const { error } = await supabase
+      .from('notes')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', id);
     if (error) {
       toast({
         title: 'Error',
@@ -227,8 +253,9 @@ const Notes = () => {
       });
     } else {
       toast({
-        title: 'Deleted',
-        description: 'Note deleted successfully',
+        title: 'Moved to trash',
+        description: `Note moved to trash. It is deleted for good after ${TRASH_RETENTION_DAYS} days.`,
+        action: <ToastAction altText="Undo delete" onClick={() => restoreNotes([id])}>Undo</ToastAction>,
       });
       fetchNotes();
     }
@@ -256,10 +283,11 @@ const Notes = () => {
   const bulkDeleteNotes = async () => {
     if (selectedNotes.size === 0) return;
     
+    const ids = Array.from(selectedNotes);
     const { error } = await supabase
       .from('notes')
-      .delete()
-      .in('id', Array.from(selectedNotes));
+      .update({ deleted_at: new Date().toISOString() })
+      .in('id', ids);
     
     if (error) {
       toast({
@@ -269,8 +297,9 @@ const Notes = () => {
       });
     } else {
       toast({
-        title: 'Success',
-        description: `${selectedNotes.size} note(s) deleted successfully`,
+        title: 'Moved to trash',
+        description: `${ids.length} note(s) moved to trash`,
+        action: <ToastAction altText="Undo delete" onClick={() => restoreNotes(ids)}>Undo</ToastAction>,
       });
       setSelectedNotes(new Set());
       fetchNotes();
@@ -287,7 +316,7 @@ const Notes = () => {
       if (note.subject) {
         markdown += `**Subject:** ${note.subject}\n\n`;
       }
-      markdown += `${note.content}\n\n`;
+      markdown += `${closeOpenMarkdownBlocks(note.content)}\n\n`;
       markdown += `*By ${note.profiles.username} - ${note.is_public ? 'Public' : 'Private'}*\n\n`;
       markdown += '---\n\n';
     });
@@ -309,6 +338,7 @@ const Notes = () => {
   const exportNotesToJSON = () => {
     const data = {
       exported: new Date().toISOString(),
+      format: NOTE_CONTENT_FORMAT,
       notes: filteredAndSortedNotes.map(n => ({
         title: n.title,
         content: n.content,
@@ -333,12 +363,54 @@ const Notes = () => {
     });
   };
 
+  // Selected notes with their attachments, as a printable PDF, a standalone HTML file or a zip the importer reads back
+  const exportSelectedNotes = async (kind: 'pdf' | 'html' | 'zip') => {
+    const chosen = filteredAndSortedNotes.filter(n => selectedNotes.has(n.id));
+    if (chosen.length === 0) return;
+
+    setExporting(true);
+    try {
+      const attachments = await fetchExportAttachments(chosen.map(n => n.id));
+      const baseName = chosen.length === 1 ? toFileName(chosen[0].title) : `notes_${exportDate()}`;
+      if (kind === 'zip') {
+        const zip = await buildNotesZip(chosen, attachments, folders, baseName);
+        downloadFile(new Blob([zip.slice()], { type: 'application/zip' }), `${baseName}.zip`);
+      } else {
+        const html = await renderNotesDocument(chosen, attachments, { embed: kind === 'html' });
+        if (kind === 'pdf') {
+          await printDocument(html);
+        } else {
+          downloadFile(new Blob([html], { type: 'text/html' }), `${baseName}.html`);
+        }
+      }
+
+      const missing = attachments.filter(a => !a.data).length;
+      toast({
+        title: kind === 'pdf' ? 'Ready to print' : 'Exported!',
+        description: missing > 0
+          ? `${missing} attachment(s) could not be downloaded and were left out`
+          : kind === 'pdf'
+            ? 'Choose "Save as PDF" in the print dialog'
+            : `${chosen.length} note(s) exported`,
+      });
+    } catch {
+      toast({
+        title: 'Error',
+        description: 'Failed to export notes',
+        variant: 'destructive',
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const openEditDialog = (note: Note) => {
     setEditingNote(note);
     setEditTitle(note.title);
     setEditContent(note.content);
     setEditSubject(note.subject || '');
     setEditIsPublic(note.is_public);
+    setEditFolderId(note.folder_id ?? null);
     setEditOpen(true);
     setSelectedNote(null);
   };
@@ -354,15 +426,40 @@ const Notes = () => {
       return;
     }
 
-    const { error } = await supabase
+    // Offer to point [[links]] at the new title when the note is renamed.
+    // Only the user's own notes can be rewritten.
+    const oldTitle = editingNote.title;
+    const newTitle = editTitle.trim();
+    const renamed = normalizeNoteTitle(oldTitle) !== normalizeNoteTitle(newTitle);
+    const incoming = renamed
+      ? notes.filter(n => n.id !== editingNote.id && n.user_id === user?.id && linksToTitle(n.content, oldTitle))
+      : [];
+    const rewriteLinks = incoming.length > 0
+      && confirm(`${incoming.length} of your note(s) link to "${oldTitle}". Update those links to "${newTitle}"?`);
+
+    // Only save over the version that was opened, so a change made meanwhile
+    // (another tab, a shared editing session) is not silently overwritten
+    let query = supabase
       .from('notes')
       .update({
-        title: editTitle.trim(),
+        title: newTitle,
         content: editContent.trim(),
         subject: editSubject.trim() || null,
         is_public: editIsPublic,
+        folder_id: editFolderId,
       })
       .eq('id', editingNote.id);
+    if (editingNote.updated_at) query = query.eq('updated_at', editingNote.updated_at);
+    const { data: saved, error } = await query.select('id');
+
+    if (!error && saved?.length === 0) {
+      toast({
+        title: 'Note changed',
+        description: 'Someone saved this note after you opened it. Your changes are still here; reopen the note to see the latest version before saving again.',
+        variant: 'destructive',
+      });
+      return;
+    }
 
     if (error) {
       toast({
@@ -371,9 +468,24 @@ const Notes = () => {
         variant: 'destructive',
       });
     } else {
+      if (rewriteLinks) {
+        const results = await Promise.all(incoming.map(n =>
+          supabase
+            .from('notes')
+            .update({ content: rewriteWikiLinks(n.content, oldTitle, newTitle) })
+            .eq('id', n.id)
+        ));
+        if (results.some(r => r.error)) {
+          toast({
+            title: 'Error',
+            description: 'Some links could not be updated',
+            variant: 'destructive',
+          });
+        }
+      }
       toast({
         title: 'Success',
-        description: 'Note updated successfully',
+        description: rewriteLinks ? `Note updated and ${incoming.length} linking note(s) rewritten` : 'Note updated successfully',
       });
       setEditOpen(false);
       // clear edit draft after successful update
@@ -387,6 +499,26 @@ const Notes = () => {
     }
   };
 
+  // Follow a [[link]], or offer to create the note it points to
+  const openWikiLink = (title: string) => {
+    const target = findNoteByTitle(title);
+    if (target) {
+      setSelectedNote(target);
+      return;
+    }
+    if (notesLocked && !isAdmin) {
+      toast({
+        title: 'Note not found',
+        description: `There is no note called "${title}" yet.`,
+      });
+      return;
+    }
+    if (!confirm(`There is no note called "${title}" yet. Create it?`)) return;
+    setSelectedNote(null);
+    setTitle(title);
+    setOpen(true);
+  };
+
   const formatSavedAt = (ts: number | null) => {
     if (!ts) return '';
     const diff = Date.now() - ts;
@@ -531,40 +663,47 @@ const Notes = () => {
     const { data, error } = await supabase
       .from('note_attachments')
       .select('*')
-      .eq('note_id', noteId);
+      .eq('note_id', noteId)
+      .is('deleted_at', null);
 
     if (!error && data) {
       setAttachments(data);
     }
   };
 
-  const handleDeleteAttachment = async (attachmentId: string, storagePath: string) => {
-    try {
-      // Delete from storage
-      const result = await deleteFile('note-attachments', storagePath);
-      
-      if (result.success) {
-        // Delete from database
-        const { error } = await supabase
-          .from('note_attachments')
-          .delete()
-          .eq('id', attachmentId);
-
-        if (!error) {
-          setAttachments(attachments.filter(a => a.id !== attachmentId));
-          toast({
-            title: 'Success',
-            description: 'Attachment deleted',
-          });
-        }
-      }
-    } catch (error) {
+  // The file stays in storage until the attachment is deleted from the trash
+  const handleDeleteAttachment = async (attachmentId: string) => {
+    const { error } = await supabase
+      .from('note_attachments')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', attachmentId);
+
+    if (error) {
       toast({
         title: 'Error',
         description: 'Failed to delete attachment',
         variant: 'destructive',
       });
+      return;
     }
+
+    setAttachments(attachments.filter(a => a.id !== attachmentId));
+    const noteId = selectedNote?.id;
+    toast({
+      title: 'Moved to trash',
+      description: 'Attachment moved to trash',
+      action: (
+        <ToastAction
+          altText="Undo delete"
+          onClick={async () => {
+            await supabase.from('note_attachments').update({ deleted_at: null }).eq('id', attachmentId);
+            if (noteId) fetchNoteAttachments(noteId);
+          }}
+        >
+          Undo
+        </ToastAction>
+      ),
+    });
   };
 
   useEffect(() => {
@@ -585,12 +724,91 @@ const Notes = () => {
     return () => window.removeEventListener('keydown', handleShortcut);
   }, [notesLocked, isAdmin]);
 
+  const fetchFolders = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('note_folders')
+      .select('*')
+      .eq('user_id', user?.id)
+      .order('name');
+
+    if (!error && data) {
+      setFolders(data);
+    }
+  }, [user?.id]);
+
   useEffect(() => {
     if (user?.id) {
       fetchNotes();
     }
   }, [user?.id]);
 
+  useEffect(() => {
+    if (user?.id) {
+      fetchFolders();
+    }
+  }, [user?.id, fetchFolders]);
+
+  const fetchSharedNotes = useCallback(async () => {
+    if (!user?.id) return;
+    const { data } = await supabase
+      .from('note_collaborators')
+      .select('note_id')
+      .eq('user_id', user.id);
+    setSharedNoteIds(new Set((data || []).map(c => c.note_id)));
+  }, [user?.id]);
+
+  useEffect(() => {
+    fetchSharedNotes();
+  }, [fetchSharedNotes]);
+
+  // Debounced server-side search; subject and owner filters narrow it there.
+  // It runs again whenever notes are reloaded so edits and deletes show up.
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchHits(null);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      const { hits, error } = await searchNotes(query, {
+        subject: selectedSubject === 'all' ? null : selectedSubject,
+        ownerId: filterBy === 'my' ? user?.id : null,
+        limit: 200,
+      });
+      const { data: rows, error: rowsError } = hits.length > 0
+        ? await supabase.from('notes').select(NOTE_COLUMNS).in('id', hits.map(hit => hit.id))
+        : { data: [], error: null };
+      if (cancelled) return;
+      setSearching(false);
+      if (error || rowsError) {
+        toast({
+          title: 'Error',
+          description: 'Search failed',
+          variant: 'destructive',
+        });
+        return;
+      }
+      setSearchResults((rows || []) as Note[]);
+      setSearchHits(new Map(hits.map(hit => [hit.id, hit])));
+    }, NOTE_SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, selectedSubject, filterBy, user?.id, toast, notes]);
+
+  // New notes go into the folder being browsed
+  useEffect(() => {
+    if (open && selectedFolder !== 'all' && selectedFolder !== 'unfiled') {
+      setFolderId(prev => prev ?? selectedFolder);
+    }
+  }, [open, selectedFolder]);
+
   useEffect(() => {
     if (selectedNote) {
       fetchNoteAttachments(selectedNote.id);
@@ -601,10 +819,8 @@ const Notes = () => {
     setLoading(true);
     const { data, error } = await supabase
       .from('notes')
-      .select(`
-        *,
-        profiles (username)
-      `)
+      .select(NOTE_COLUMNS)
+      .is('deleted_at', null)
       .order('created_at', { ascending: false });
 
     if (!error && data) {
@@ -613,6 +829,27 @@ const Notes = () => {
     setLoading(false);
   };
 
+  const moveNoteToFolder = async (noteId: string, targetFolderId: string | null) => {
+    const note = notes.find(n => n.id === noteId);
+    if (!note || note.user_id !== user?.id || (note.folder_id ?? null) === targetFolderId) return;
+
+    const { error } = await supabase.from('notes').update({ folder_id: targetFolderId }).eq('id', noteId);
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to move note',
+        variant: 'destructive',
+      });
+      return;
+    }
+    const path = getFolderPath(folders, targetFolderId);
+    toast({
+      title: 'Moved',
+      description: path.length > 0 ? `"${note.title}" moved to ${path.join(' / ')}` : `"${note.title}" is no longer in a folder`,
+    });
+    fetchNotes();
+  };
+
   const handleCreateNote = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -632,6 +869,7 @@ const Notes = () => {
       content,
       subject: subject || null,
       is_public: isPublic,
+      folder_id: folderId,
     }).select().single();
 
     if (error) {
@@ -657,6 +895,7 @@ const Notes = () => {
       setContent('');
       setSubject('');
       setIsPublic(true);
+      setFolderId(null);
       setSelectedAttachments([]);
       setFilePreviews({});
       fetchNotes();
@@ -676,6 +915,17 @@ const Notes = () => {
               <Badge variant="secondary" className="px-3 py-1">
                 {selectedNotes.size} selected
               </Badge>
+              <Select value="" onValueChange={(value) => exportSelectedNotes(value as 'pdf' | 'html' | 'zip')} disabled={exporting}>
+                <SelectTrigger className="w-[170px] h-9">
+                  <DownloadIcon className="h-4 w-4 mr-2" />
+                  <SelectValue placeholder={exporting ? 'Exporting...' : 'Export selected'} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pdf">PDF (print)</SelectItem>
+                  <SelectItem value="html">HTML file</SelectItem>
+                  <SelectItem value="zip">Zip with attachments</SelectItem>
+                </SelectContent>
+              </Select>
               {Array.from(selectedNotes).every(id => notes.find(n => n.id === id)?.user_id === user?.id) && (
                 <Button 
                   size="sm" 
@@ -689,6 +939,22 @@ const Notes = () => {
               )}
             </>
           )}
+          <Button variant="outline" className="gap-2" asChild>
+            <Link to="/trash">
+              <Trash2 className="h-4 w-4" />
+              Trash
+            </Link>
+          </Button>
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={() => setImportOpen(true)}
+            disabled={notesLocked && !isAdmin}
+            title={notesLocked && !isAdmin ? 'Notes are locked - only admins can create' : ''}
+          >
+            <FileUp className="h-4 w-4" />
+            Import
+          </Button>
           <Select onValueChange={(value) => value === 'markdown' ? exportNotesToMarkdown() : exportNotesToJSON()}>
             <SelectTrigger className="w-[140px]">
               <DownloadIcon className="h-4 w-4 mr-2" />
@@ -753,46 +1019,69 @@ const Notes = () => {
               </div>
               <div className="space-y-2">
                 <Label htmlFor="content">Content</Label>
-                <div className="flex gap-1 mb-2 flex-wrap">
-                  <Button type="button" size="sm" variant="outline" onClick={() => insertFormatting('**', '**')} title="Bold">
-                    <Bold className="w-4 h-4" />
-                  </Button>
-                  <Button type="button" size="sm" variant="outline" onClick={() => insertFormatting('*', '*')} title="Italic">
-                    <Italic className="w-4 h-4" />
-                  </Button>
-                  <Button type="button" size="sm" variant="outline" onClick={() => insertFormatting('__', '__')} title="Underline">
-                    <Underline className="w-4 h-4" />
-                  </Button>
-                  <Button type="button" size="sm" variant="outline" onClick={() => insertFormatting('- ', '')} title="List">
-                    <List className="w-4 h-4" />
-                  </Button>
-                  <Button type="button" size="sm" variant="outline" onClick={() => insertFormatting('# ', '')} title="Heading">
-                    H1
-                  </Button>
-                  <Button type="button" size="sm" variant="outline" onClick={() => insertFormatting('## ', '')} title="Subheading">
-                    H2
-                  </Button>
-                  <Button type="button" size="sm" variant="outline" onClick={() => insertFormatting('`', '`')} title="Code">
-                    &lt;/&gt;
-                  </Button>
-                </div>
-                <Textarea
-                  ref={contentRef}
+                <NoteEditor
                   id="content"
+                  textareaRef={contentRef}
+                  linkTitles={noteTitles}
                   value={content}
-                  onChange={(e) => setContent(e.target.value)}
+                  onChange={setContent}
                   rows={6}
                   required
-                  placeholder="Use formatting buttons above or type markdown..."
+                  placeholder="Use formatting buttons above or type markdown, $math$ or ```mermaid diagrams..."
+                  toolbar={
+                    <div className="flex gap-1 mb-2 flex-wrap">
+                      <Button type="button" size="sm" variant="outline" onClick={() => insertFormatting('**', '**')} title="Bold">
+                        <Bold className="w-4 h-4" />
+                      </Button>
+                      <Button type="button" size="sm" variant="outline" onClick={() => insertFormatting('*', '*')} title="Italic">
+                        <Italic className="w-4 h-4" />
+                      </Button>
+                      <Button type="button" size="sm" variant="outline" onClick={() => insertFormatting('__', '__')} title="Underline">
+                        <Underline className="w-4 h-4" />
+                      </Button>
+                      <Button type="button" size="sm" variant="outline" onClick={() => insertFormatting('- ', '')} title="List">
+                        <List className="w-4 h-4" />
+                      </Button>
+                      <Button type="button" size="sm" variant="outline" onClick={() => insertFormatting('# ', '')} title="Heading">
+                        H1
+                      </Button>
+                      <Button type="button" size="sm" variant="outline" onClick={() => insertFormatting('## ', '')} title="Subheading">
+                        H2
+                      </Button>
+                      <Button type="button" size="sm" variant="outline" onClick={() => insertFormatting('`', '`')} title="Code">
+                        &lt;/&gt;
+                      </Button>
+                      <Button type="button" size="sm" variant="outline" onClick={() => insertFormatting('[[', ']]')} title="Link to note">
+                        <Link2 className="w-4 h-4" />
+                      </Button>
+                      <Button type="button" size="sm" variant="outline" onClick={() => insertFormatting('$', '$')} title="Math">
+                        <Sigma className="w-4 h-4" />
+                      </Button>
+                      <Button type="button" size="sm" variant="outline" onClick={() => insertFormatting('```mermaid\n', '\n```')} title="Diagram">
+                        <Workflow className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  }
                 />
               </div>
+              {folders.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Folder</Label>
+                  <NoteFolderSelect folders={folders} value={folderId} onChange={setFolderId} />
+                </div>
+              )}
               <div className="flex items-center space-x-2">
                 <Switch
                   id="public"
-                  checked={isPublic}
+                  checked={createForcedVisibility ?? isPublic}
                   onCheckedChange={setIsPublic}
+                  disabled={createForcedVisibility !== null}
                 />
-                <Label htmlFor="public">Make this note public</Label>
+                <Label htmlFor="public">
+                  {createForcedVisibility === null
+                    ? 'Make this note public'
+                    : `${createForcedVisibility ? 'Public' : 'Private'} (set by folder)`}
+                </Label>
               </div>
 
               {/* File Upload Section */}
@@ -957,20 +1246,32 @@ const Notes = () => {
 
             <div>
               <Label htmlFor="edit-content">Content</Label>
-              <Textarea
+              <NoteEditor
                 id="edit-content"
+                linkTitles={noteTitles}
                 value={editContent}
-                onChange={(e) => setEditContent(e.target.value)}
+                onChange={setEditContent}
                 placeholder="Note content"
                 className="min-h-[300px] resize-none"
               />
             </div>
 
-            <div className="flex items-center gap-4">
+            <div className="flex flex-col md:flex-row md:items-center gap-4">
+              {folders.length > 0 && (
+                <div className="md:w-[260px]">
+                  <NoteFolderSelect folders={folders} value={editFolderId} onChange={setEditFolderId} />
+                </div>
+              )}
               <div className="flex items-center gap-2">
-                <Switch id="edit-public" checked={editIsPublic} onCheckedChange={setEditIsPublic} />
+                <Switch
+                  id="edit-public"
+                  checked={editForcedVisibility ?? editIsPublic}
+                  onCheckedChange={setEditIsPublic}
+                  disabled={editForcedVisibility !== null}
+                />
                 <Label htmlFor="edit-public" className="cursor-pointer">
-                  {editIsPublic ? 'Public' : 'Private'}
+                  {(editForcedVisibility ?? editIsPublic) ? 'Public' : 'Private'}
+                  {editForcedVisibility !== null && ' (set by folder)'}
                 </Label>
               </div>
             </div>
@@ -985,173 +1286,216 @@ const Notes = () => {
         </DialogContent>
       </Dialog>
 
-      {/* Filters and Search */}
-      <Card>
-        <CardContent className="pt-6">
-          <div className="flex flex-col gap-3">
-            <div className="flex items-center gap-3">
-              <Checkbox
-                checked={selectedNotes.size > 0 && selectedNotes.size === filteredAndSortedNotes.length}
-                onCheckedChange={selectAllNotes}
-                aria-label="Select all notes"
+      <div className="grid gap-6 md:grid-cols-[240px_1fr]">
+        <aside>
+          <Card className="md:sticky md:top-4">
+            <CardContent className="p-3">
+              <NoteFolderTree
+                folders={folders}
+                notes={myNotes}
+                selected={selectedFolder}
+                onSelect={setSelectedFolder}
+                onMoveNote={moveNoteToFolder}
+                onChanged={() => {
+                  fetchFolders();
+                  fetchNotes();
+                }}
               />
-              <span className="text-sm text-muted-foreground">
-                {selectedNotes.size === filteredAndSortedNotes.length && filteredAndSortedNotes.length > 0
-                  ? 'Deselect all'
-                  : 'Select all'}
-              </span>
-            </div>
-            <div className="flex flex-col md:flex-row gap-3">
-              <div className="flex-1">
-                <Input
-                  placeholder="Search notes by title, subject, or content..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  aria-label="Search notes"
-                  className="w-full"
-                />
-              </div>
-              <Select value={filterBy} onValueChange={(v: any) => setFilterBy(v)}>
-                <SelectTrigger className="w-full md:w-[180px]">
-                  <Filter className="h-4 w-4 mr-2" />
-                  <SelectValue placeholder="Filter" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Notes</SelectItem>
-                  <SelectItem value="my">My Notes</SelectItem>
-                  <SelectItem value="public">Public Only</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-            <div className="flex flex-col md:flex-row gap-3">
-              <Select value={selectedSubject} onValueChange={setSelectedSubject}>
-                <SelectTrigger className="w-full md:w-[180px]">
-                  <BookOpen className="h-4 w-4 mr-2" />
-                  <SelectValue placeholder="Subject" />
-                </SelectTrigger>
-                <SelectContent>
-                  {uniqueSubjects.map(subj => (
-                    <SelectItem key={subj} value={subj}>
-                      {subj === 'all' ? 'All Subjects' : subj}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              <Select value={sortBy} onValueChange={(v: any) => setSortBy(v)}>
-                <SelectTrigger className="w-full md:w-[180px]">
-                  <ArrowUpDown className="h-4 w-4 mr-2" />
-                  <SelectValue placeholder="Sort by" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="created">Date Created</SelectItem>
-                  <SelectItem value="title">Alphabetical</SelectItem>
-                  <SelectItem value="subject">By Subject</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
-
-      {loading ? (
-        <NotesGridSkeleton />
-      ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 max-w-full">
-          {filteredAndSortedNotes.map((note) => (
-            <Card 
-              key={note.id} 
-              className={`shadow-card hover:shadow-card-hover transition-smooth cursor-pointer group overflow-hidden max-w-full ${
-                selectedNotes.has(note.id) ? 'ring-2 ring-accent' : ''
-              }`}
-              onClick={() => !selectedNotes.has(note.id) && setSelectedNote(note)}
-            >
-              <CardHeader className="flex flex-col items-start justify-start gap-2 w-full overflow-hidden">
-                <div className="flex flex-row items-start justify-between gap-2 w-full overflow-hidden">
-                  <div className="flex items-start gap-2 flex-1 min-w-0">
-                    <Checkbox
-                      checked={selectedNotes.has(note.id)}
-                      onCheckedChange={() => toggleNoteSelection(note.id)}
-                      onClick={(e) => e.stopPropagation()}
-                      aria-label={`Select ${note.title}`}
-                      className="mt-1"
+            </CardContent>
+          </Card>
+        </aside>
+
+        <div className="space-y-6 min-w-0">
+          {/* Filters and Search */}
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex flex-col gap-3">
+                <div className="flex items-center gap-3">
+                  <Checkbox
+                    checked={selectedNotes.size > 0 && selectedNotes.size === filteredAndSortedNotes.length}
+                    onCheckedChange={selectAllNotes}
+                    aria-label="Select all notes"
+                  />
+                  <span className="text-sm text-muted-foreground">
+                    {selectedNotes.size === filteredAndSortedNotes.length && filteredAndSortedNotes.length > 0
+                      ? 'Deselect all'
+                      : 'Select all'}
+                  </span>
+                </div>
+                <div className="flex flex-col md:flex-row gap-3">
+                  <div className="flex-1">
+                    <Input
+                      placeholder="Search titles, contents and attachment names..."
+                      value={searchQuery}
+                      onChange={(e) => setSearchQuery(e.target.value)}
+                      aria-label="Search notes"
+                      className="w-full"
                     />
-                    <div className="flex-1 min-w-0">
-                      <CardTitle className="flex items-center gap-2">
-                        <FileText className="h-5 w-5 text-accent flex-shrink-0" />
-                        <span className="break-words">{note.title}</span>
-                      </CardTitle>
-                      {note.subject && (
-                        <Badge variant="outline" className="mt-1 text-xs">{note.subject}</Badge>
-                      )}
-                    </div>
                   </div>
-                  {user?.id === note.user_id && (
-                    <div className="flex gap-2 flex-shrink-0">
-                      <Button
-                        size="icon"
-                        variant="ghost"
-                        onClick={(e: React.MouseEvent<HTMLButtonElement>) => {
-                          e.preventDefault();
-                          e.stopPropagation();
-                          openEditDialog(note);
-                        }}
-                        aria-label="Edit Note"
-                        className="hover:bg-accent/20 hover:text-accent transition-colors"
-                      >
-                        <Edit className="h-5 w-5 text-accent" />
-                      </Button>
-                      <Button
-                        size="icon"
-                        variant="ghost"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleDeleteNote(note.id);
-                        }}
-                      aria-label="Delete Note"
-                    >
-                      <Trash2 className="h-5 w-5 text-destructive" />
-                    </Button>
-                  </div>
-                )}
-              </div>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              <div className="text-sm text-white line-clamp-4 max-w-none break-words">
-                <FormattedText text={note.content} />
-              </div>
-              <div className="flex items-center justify-between text-xs text-white pt-2 border-t">
-                <span>By {note.profiles.username}</span>
-                <span>{note.is_public ? 'Public' : 'Private'}</span>
-              </div>
-              <div className="flex items-center justify-center gap-1 text-xs font-semibold text-white group-hover:text-white transition-colors pt-1">
-                <ChevronDown className="h-3 w-3" />
-                <span>Click to view more context</span>
+                  <Select value={filterBy} onValueChange={(v: any) => setFilterBy(v)}>
+                    <SelectTrigger className="w-full md:w-[180px]">
+                      <Filter className="h-4 w-4 mr-2" />
+                      <SelectValue placeholder="Filter" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Notes</SelectItem>
+                      <SelectItem value="my">My Notes</SelectItem>
+                      <SelectItem value="public">Public Only</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex flex-col md:flex-row gap-3">
+                  <Select value={selectedSubject} onValueChange={setSelectedSubject}>
+                    <SelectTrigger className="w-full md:w-[180px]">
+                      <BookOpen className="h-4 w-4 mr-2" />
+                      <SelectValue placeholder="Subject" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {uniqueSubjects.map(subj => (
+                        <SelectItem key={subj} value={subj}>
+                          {subj === 'all' ? 'All Subjects' : subj}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={sortBy} onValueChange={(v: any) => setSortBy(v)}>
+                    <SelectTrigger className="w-full md:w-[180px]">
+                      <ArrowUpDown className="h-4 w-4 mr-2" />
+                      <SelectValue placeholder="Sort by" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="created">Date Created</SelectItem>
+                      <SelectItem value="title">Alphabetical</SelectItem>
+                      <SelectItem value="subject">By Subject</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
             </CardContent>
           </Card>
-        ))}
-        </div>
-      )}
 
-      {!loading && filteredAndSortedNotes.length === 0 && notes.length > 0 && (
-        <Card className="shadow-card">
-          <CardContent className="flex flex-col items-center justify-center py-12">
-            <Filter className="h-12 w-12 text-muted-foreground mb-4" />
-            <p className="text-muted-foreground">No notes match your filters</p>
-            <Button 
-              variant="ghost" 
-              onClick={() => { 
-                setSearchQuery(''); 
-                setFilterBy('all'); 
-                setSelectedSubject('all'); 
-              }} 
-              className="mt-4"
-            >
-              Clear Filters
-            </Button>
-          </CardContent>
-        </Card>
-      )}
+          {loading ? (
+            <NotesGridSkeleton />
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 max-w-full">
+              {filteredAndSortedNotes.map((note) => (
+                <Card 
+                  key={note.id} 
+                  className={`shadow-card hover:shadow-card-hover transition-smooth cursor-pointer group overflow-hidden max-w-full ${
+                    selectedNotes.has(note.id) ? 'ring-2 ring-accent' : ''
+                  }`}
+                  onClick={() => !selectedNotes.has(note.id) && setSelectedNote(note)}
+                  draggable={user?.id === note.user_id}
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData(NOTE_DRAG_TYPE, note.id);
+                    e.dataTransfer.effectAllowed = 'move';
+                  }}
+                >
+                  <CardHeader className="flex flex-col items-start justify-start gap-2 w-full overflow-hidden">
+                    <div className="flex flex-row items-start justify-between gap-2 w-full overflow-hidden">
+                      <div className="flex items-start gap-2 flex-1 min-w-0">
+                        <Checkbox
+                          checked={selectedNotes.has(note.id)}
+                          onCheckedChange={() => toggleNoteSelection(note.id)}
+                          onClick={(e) => e.stopPropagation()}
+                          aria-label={`Select ${note.title}`}
+                          className="mt-1"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <CardTitle className="flex items-center gap-2">
+                            <FileText className="h-5 w-5 text-accent flex-shrink-0" />
+                            {searchHits?.get(note.id) ? (
+                              <HighlightedText text={searchHits.get(note.id)!.title_highlight} className="break-words" />
+                            ) : (
+                              <span className="break-words">{note.title}</span>
+                            )}
+                          </CardTitle>
+                          {note.subject && (
+                            <Badge variant="outline" className="mt-1 text-xs">{note.subject}</Badge>
+                          )}
+                        </div>
+                      </div>
+                      {user?.id === note.user_id && (
+                        <div className="flex gap-2 flex-shrink-0">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={(e: React.MouseEvent<HTMLButtonElement>) => {
+                              e.preventDefault();
+                              e.stopPropagation();
+                              openEditDialog(note);
+                            }}
+                            aria-label="Edit Note"
+                            className="hover:bg-accent/20 hover:text-accent transition-colors"
+                          >
+                            <Edit className="h-5 w-5 text-accent" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDeleteNote(note.id);
+                            }}
+                          aria-label="Delete Note"
+                        >
+                          <Trash2 className="h-5 w-5 text-destructive" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {searchHits?.get(note.id) ? (
+                    <div className="text-sm text-white/90 line-clamp-4 max-w-none break-words space-y-1">
+                      <HighlightedText text={searchHits.get(note.id)!.snippet} />
+                      {searchHits.get(note.id)!.matched_attachments.length > 0 && (
+                        <p className="flex items-center gap-1 text-xs text-white/70">
+                          <Paperclip className="h-3 w-3" />
+                          {searchHits.get(note.id)!.matched_attachments.join(', ')}
+                        </p>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="text-sm text-white line-clamp-4 max-w-none break-words">
+                      <NoteMarkdown content={note.content} resolveWikiLink={resolveWikiLink} onWikiLinkClick={openWikiLink} />
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between text-xs text-white pt-2 border-t">
+                    <span>By {note.profiles.username}</span>
+                    <span>{note.is_public ? 'Public' : 'Private'}</span>
+                  </div>
+                  <div className="flex items-center justify-center gap-1 text-xs font-semibold text-white group-hover:text-white transition-colors pt-1">
+                    <ChevronDown className="h-3 w-3" />
+                    <span>Click to view more context</span>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+            </div>
+          )}
+
+          {!loading && filteredAndSortedNotes.length === 0 && notes.length > 0 && (
+            <Card className="shadow-card">
+              <CardContent className="flex flex-col items-center justify-center py-12">
+                <Filter className="h-12 w-12 text-muted-foreground mb-4" />
+                <p className="text-muted-foreground">{searching ? 'Searching...' : 'No notes match your filters'}</p>
+                <Button 
+                  variant="ghost" 
+                  onClick={() => { 
+                    setSearchQuery(''); 
+                    setFilterBy('all'); 
+                    setSelectedSubject('all'); 
+                  }} 
+                  className="mt-4"
+                >
+                  Clear Filters
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
 
       {!loading && notes.length === 0 && (
         <Card className="shadow-card">
@@ -1177,25 +1521,79 @@ const Notes = () => {
                     <p className="text-sm text-muted-foreground mt-2 break-words">{selectedNote.subject}</p>
                   )}
                 </div>
-                {user?.id === selectedNote.user_id && (
-                  <Button
-                    size="icon"
-                    variant="ghost"
-                    onClick={() => {
-                      handleDeleteNote(selectedNote.id);
-                      setSelectedNote(null);
-                    }}
-                    aria-label="Delete Note"
-                  >
-                    <Trash2 className="h-5 w-5 text-destructive" />
-                  </Button>
-                )}
+                <div className="flex gap-1">
+                  {(user?.id === selectedNote.user_id || sharedNoteIds.has(selectedNote.id)) && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => {
+                        setCollabNote(selectedNote);
+                        setSelectedNote(null);
+                      }}
+                      aria-label="Edit together"
+                      title="Edit together"
+                    >
+                      <Users className="h-5 w-5 text-accent" />
+                    </Button>
+                  )}
+                  {user?.id === selectedNote.user_id && (
+                    <>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => {
+                          setHistoryNote(selectedNote);
+                          setSelectedNote(null);
+                        }}
+                        aria-label="Version history"
+                        title="Version history"
+                      >
+                        <History className="h-5 w-5 text-accent" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => {
+                          handleDeleteNote(selectedNote.id);
+                          setSelectedNote(null);
+                        }}
+                        aria-label="Delete Note"
+                      >
+                        <Trash2 className="h-5 w-5 text-destructive" />
+                      </Button>
+                    </>
+                  )}
+                </div>
               </DialogHeader>
               <div className="space-y-6 py-4">
                 <div className="max-w-none break-words">
-                  <FormattedText text={selectedNote.content} />
+                  <NoteMarkdown content={selectedNote.content} resolveWikiLink={resolveWikiLink} onWikiLinkClick={openWikiLink} />
                 </div>
 
+                {/* Backlinks Section */}
+                {backlinks.length > 0 && (
+                  <div className="space-y-2 p-4 bg-secondary/20 rounded-lg border border-border">
+                    <h4 className="font-semibold flex items-center gap-2">
+                      <Link2 className="h-4 w-4" />
+                      Linked from ({backlinks.length})
+                    </h4>
+                    <div className="flex flex-wrap gap-2">
+                      {backlinks.map(note => (
+                        <Button
+                          key={note.id}
+                          variant="outline"
+                          size="sm"
+                          className="gap-1"
+                          onClick={() => setSelectedNote(note)}
+                        >
+                          <FileText className="h-3 w-3" />
+                          {note.title}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Attachments Section */}
                 {attachments.length > 0 && (
                   <div className="space-y-2 p-4 bg-secondary/20 rounded-lg border border-border">
@@ -1220,7 +1618,7 @@ const Notes = () => {
                             <Button
                               variant="ghost"
                               size="sm"
-                              onClick={() => handleDeleteAttachment(attachment.id, attachment.storage_path)}
+                              onClick={() => handleDeleteAttachment(attachment.id)}
                             >
                               <X className="h-4 w-4" />
                             </Button>
@@ -1233,6 +1631,12 @@ const Notes = () => {
 
                 <div className="flex items-center justify-between text-sm text-muted-foreground pt-4 border-t">
                   <span>By {selectedNote.profiles.username}</span>
+                  {selectedFlashcards > 0 && user?.id === selectedNote.user_id && (
+                    <Link to={`/review?deck=note:${selectedNote.id}`} className="flex items-center gap-1 hover:text-accent transition-colors">
+                      <Layers className="h-4 w-4" />
+                      Study {selectedFlashcards} flashcard{selectedFlashcards === 1 ? '' : 's'}
+                    </Link>
+                  )}
                   <span>{selectedNote.is_public ? 'Public' : 'Private'}</span>
                 </div>
               </div>
@@ -1241,6 +1645,67 @@ const Notes = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Shared Editing Dialog */}
+      <Dialog
+        open={collabNote !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setCollabNote(null);
+            fetchNotes();
+          }
+        }}
+      >
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          {collabNote && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <Users className="h-5 w-5 text-accent" />
+                  Editing {collabNote.title} together
+                </DialogTitle>
+              </DialogHeader>
+              <NoteCollabEditor
+                noteId={collabNote.id}
+                ownerId={collabNote.user_id}
+                onLeft={() => {
+                  setCollabNote(null);
+                  fetchSharedNotes();
+                  fetchNotes();
+                }}
+              />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Version History Dialog */}
+      <Dialog open={historyNote !== null} onOpenChange={(open) => !open && setHistoryNote(null)}>
+        <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+          {historyNote && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <History className="h-5 w-5 text-accent" />
+                  History of {historyNote.title}
+                </DialogTitle>
+              </DialogHeader>
+              <NoteHistoryPanel noteId={historyNote.id} onRestored={fetchNotes} />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <NoteImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        existingNotes={myNotes}
+        folders={folders}
+        onImported={() => {
+          fetchNotes();
+          fetchFolders();
+        }}
+      />
+
       {notes.length === 0 && (
         <Card className="shadow-card">
           <CardContent className="flex flex-col items-center justify-center py-12">
@@ -1,13 +1,34 @@
 import { useState, useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/AuthProvider';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { Play, Pause, RotateCcw, Volume2, VolumeX, Settings, Coffee, Brain, Clock } from 'lucide-react';
+import { formatMinutes } from '@/lib/time-tracking';
+import { Play, Pause, RotateCcw, Volume2, VolumeX, Settings, Coffee, Brain, Clock, ListTodo } from 'lucide-react';
 
 type TimerMode = 'work' | 'break' | 'longBreak';
 
+interface FocusTask {
+  id: string;
+  title: string;
+  subject: string | null;
+  estimated_minutes: number | null;
+}
+
+const ACTIVE_TASK_KEY = 'pomodoro-active-task';
+
 interface TimerSettings {
   workDuration: number;
   breakDuration: number;
@@ -76,6 +97,8 @@ const CircularProgress = ({
 
 export default function PomodoroTimer() {
   const { toast } = useToast();
+  const { user } = useAuth();
+  const [searchParams] = useSearchParams();
   const [settings, setSettings] = useState<TimerSettings>({
     workDuration: 25,
     breakDuration: 5,
@@ -91,6 +114,79 @@ export default function PomodoroTimer() {
   const [editingSettings, setEditingSettings] = useState(false);
   const audioRef = useRef<HTMLAudioElement>(null);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [focusTasks, setFocusTasks] = useState<FocusTask[]>([]);
+  const [activeTaskId, setActiveTaskId] = useState<string | null>(
+    () => searchParams.get('task') ?? localStorage.getItem(ACTIVE_TASK_KEY)
+  );
+  const [trackedMinutes, setTrackedMinutes] = useState(0);
+
+  const activeTask = focusTasks.find(t => t.id === activeTaskId) ?? null;
+
+  // Open tasks the timer can track time against. Like the Tasks page this
+  // relies on RLS, so shared-list and assigned tasks are included.
+  useEffect(() => {
+    if (!user) return;
+    const fetchFocusTasks = async () => {
+      const { data } = await supabase
+        .from('tasks')
+        .select('id, title, subject, estimated_minutes')
+        .eq('completed', false)
+        .is('deleted_at', null)
+        .order('due_date', { ascending: true, nullsFirst: false });
+      if (data) setFocusTasks(data);
+    };
+    fetchFocusTasks();
+  }, [user]);
+
+  useEffect(() => {
+    if (activeTaskId) {
+      localStorage.setItem(ACTIVE_TASK_KEY, activeTaskId);
+    } else {
+      localStorage.removeItem(ACTIVE_TASK_KEY);
+    }
+  }, [activeTaskId]);
+
+  useEffect(() => {
+    if (!activeTaskId) {
+      setTrackedMinutes(0);
+      return;
+    }
+    const fetchTracked = async () => {
+      const { data } = await supabase
+        .from('task_time_entries')
+        .select('minutes')
+        .eq('task_id', activeTaskId);
+      setTrackedMinutes((data || []).reduce((sum, entry) => sum + entry.minutes, 0));
+    };
+    fetchTracked();
+  }, [activeTaskId]);
+
+  // Log a finished focus session against the active task
+  const logSession = async (minutes: number) => {
+    if (!user || !activeTask) return;
+    const endedAt = new Date();
+    const { error } = await supabase.from('task_time_entries').insert({
+      task_id: activeTask.id,
+      user_id: user.id,
+      minutes,
+      started_at: new Date(endedAt.getTime() - minutes * 60 * 1000).toISOString(),
+      ended_at: endedAt.toISOString(),
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to log session time',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setTrackedMinutes(prev => prev + minutes);
+    toast({
+      title: 'Session logged',
+      description: `${formatMinutes(minutes)} added to "${activeTask.title}"`,
+    });
+  };
 
   // Sound notification
   const playSound = () => {
@@ -140,6 +236,7 @@ export default function PomodoroTimer() {
 
     if (mode === 'work') {
       setSessionsCompleted((prev) => prev + 1);
+      logSession(settings.workDuration);
 
       const nextMode =
         (sessionsCompleted + 1) % settings.sessionsBeforeLongBreak === 0 ? 'longBreak' : 'break';
@@ -318,6 +415,55 @@ export default function PomodoroTimer() {
         </div>
       </div>
 
+      {/* Active Task */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <ListTodo className="w-5 h-5" />
+            Working On
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {focusTasks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No open tasks. <Link to="/tasks" className="text-primary underline">Add a task</Link> to track time against it.
+            </p>
+          ) : (
+            <Select
+              value={activeTask ? activeTask.id : 'none'}
+              onValueChange={(v) => setActiveTaskId(v === 'none' ? null : v)}
+              disabled={isRunning}
+            >
+              <SelectTrigger aria-label="Task to track">
+                <SelectValue placeholder="Pick a task" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No task (don't track time)</SelectItem>
+                {focusTasks.map(task => (
+                  <SelectItem key={task.id} value={task.id}>
+                    {task.title}{task.subject ? ` · ${task.subject}` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {activeTask && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Tracked</span>
+                <span className={activeTask.estimated_minutes && trackedMinutes > activeTask.estimated_minutes ? 'text-destructive font-medium' : 'font-medium'}>
+                  {formatMinutes(trackedMinutes)}
+                  {activeTask.estimated_minutes ? ` of ${formatMinutes(activeTask.estimated_minutes)} estimated` : ''}
+                </span>
+              </div>
+              {activeTask.estimated_minutes && (
+                <Progress value={Math.min(100, (trackedMinutes / activeTask.estimated_minutes) * 100)} className="h-1.5" />
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Controls */}
       <Card className="shadow-lg border-0">
         <CardContent className="pt-6">
@@ -2,6 +2,7 @@ import { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/components/AuthProvider';
+import { getCurrentStreak } from '@/lib/flashcards';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -136,7 +137,8 @@ const Profile = () => {
         username: data.username,
         email: data.email,
         avatar_url: data.avatar_url || undefined,
-        streak: data.streak || 0,
+        // The stored streak lapses once a day is missed
+        streak: getCurrentStreak(data.streak || 0, data.last_study_date),
         points: data.points || 0,
         rank: data.rank || 0,
         created_at: data.created_at,
@@ -159,21 +161,19 @@ const Profile = () => {
 
   const fetchStats = async () => {
     try {
-      // Fetch tasks
-      const { data: tasks } = await supabase
-        .from('tasks')
-        .select('completed')
-        .eq('user_id', userId);
+      // Other users' tasks are private, so only their counts are fetched
+      const { data: taskStats } = await supabase.rpc('profile_task_stats', { p_user_id: userId });
 
       // Fetch notes
       const { data: notes } = await supabase
         .from('notes')
         .select('id')
-        .eq('user_id', userId);
+        .eq('user_id', userId)
+        .is('deleted_at', null);
 
       setStats({
-        total_tasks: tasks?.length || 0,
-        completed_tasks: tasks?.filter((t) => t.completed).length || 0,
+        total_tasks: taskStats?.[0]?.total_tasks || 0,
+        completed_tasks: taskStats?.[0]?.completed_tasks || 0,
         total_notes: notes?.length || 0,
       });
     } catch (err) {
@@ -189,6 +189,7 @@ const Profile = () => {
         .select('*')
         .eq('user_id', userId)
         .eq('completed', true)
+        .is('deleted_at', null)
         .order('updated_at', { ascending: false })
         .limit(10);
 
@@ -197,6 +198,7 @@ const Profile = () => {
         .from('notes')
         .select('*')
         .eq('user_id', userId)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false })
         .limit(10);
 
@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import { getCurrentStreak } from '@/lib/flashcards';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -11,6 +12,7 @@ interface PublicProfile {
   id: string;
   username: string;
   streak: number;
+  last_study_date: string | null;
   points: number;
   rank: number;
   avatar_url: string | null;
@@ -43,7 +45,7 @@ const PublicProfiles = () => {
     try {
       const { data, error } = await supabase
         .from('profiles')
-        .select('id, username, streak, points, rank, avatar_url')
+        .select('id, username, streak, last_study_date, points, rank, avatar_url')
         .eq('is_public', true)
         .order('rank', { ascending: true })
         .limit(50) as any;
@@ -126,7 +128,7 @@ const PublicProfiles = () => {
                   <div className="grid grid-cols-3 gap-3">
                     <div className="flex flex-col items-center p-3 bg-muted/30 rounded-lg group-hover:bg-orange-500/10 transition-colors">
                       <Flame className="h-4 w-4 text-orange-500 mb-1" />
-                      <p className="text-lg font-bold">{profile.streak}</p>
+                      <p className="text-lg font-bold">{getCurrentStreak(profile.streak, profile.last_study_date)}</p>
                       <p className="text-xs text-muted-foreground">Streak</p>
                     </div>
 
@@ -0,0 +1,387 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { format, subDays } from 'date-fns';
+import { Brain, CalendarCheck, Flame, Layers, Sparkles } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { NoteMarkdown } from '@/components/NoteMarkdown';
+import {
+  Flashcard,
+  FlashcardNote,
+  formatNextReview,
+  getCurrentStreak,
+  isDue,
+  isNewCard,
+  NEW_CARDS_PER_DAY,
+  REVIEW_RATINGS,
+  ReviewRating,
+  scheduleReview,
+  syncFlashcards,
+  toStudyDay,
+} from '@/lib/flashcards';
+
+// Days shown in the review history chart
+const HISTORY_DAYS = 30;
+
+interface ReviewDay {
+  reviewed_on: string;
+  was_new: boolean;
+}
+
+// Deck values: 'all', 'subject:<name>' or 'note:<id>'
+const inDeck = (deck: string, card: Flashcard, notesById: Map<string, FlashcardNote>) => {
+  if (deck === 'all') return true;
+  if (deck.startsWith('note:')) return card.note_id === deck.slice(5);
+  return notesById.get(card.note_id)?.subject === deck.slice(8);
+};
+
+const Review = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const deck = searchParams.get('deck') || 'all';
+  const [notes, setNotes] = useState<FlashcardNote[]>([]);
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [history, setHistory] = useState<ReviewDay[]>([]);
+  const [streak, setStreak] = useState(0);
+  const [loading, setLoading] = useState(true);
+  // Card ids left in the current session; failed cards go to the back
+  const [queue, setQueue] = useState<string[] | null>(null);
+  const [revealed, setRevealed] = useState(false);
+  const [answering, setAnswering] = useState(false);
+
+  const fetchProfile = useCallback(async () => {
+    if (!user) return;
+    const { data } = await supabase.from('profiles').select('streak, last_study_date').eq('id', user.id).single();
+    if (data) setStreak(getCurrentStreak(data.streak, data.last_study_date));
+  }, [user]);
+
+  const fetchHistory = useCallback(async () => {
+    if (!user) return;
+    const { data } = await supabase
+      .from('flashcard_reviews')
+      .select('reviewed_on, was_new')
+      .eq('user_id', user.id)
+      .gte('reviewed_on', toStudyDay(subDays(new Date(), HISTORY_DAYS - 1)));
+    setHistory(data || []);
+  }, [user]);
+
+  // Cards are extracted from the user's own notes each time the page opens
+  const fetchCards = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('notes')
+      .select('id, title, subject, content')
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .order('title', { ascending: true });
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load notes',
+        variant: 'destructive',
+      });
+      setLoading(false);
+      return;
+    }
+    const { cards: synced, error: syncError } = await syncFlashcards(user.id, data || []);
+    if (syncError) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update flashcards',
+        variant: 'destructive',
+      });
+    }
+    setNotes(data || []);
+    setCards(synced);
+    setLoading(false);
+  }, [user, toast]);
+
+  useEffect(() => {
+    fetchCards();
+    fetchHistory();
+    fetchProfile();
+  }, [fetchCards, fetchHistory, fetchProfile]);
+
+  const notesById = useMemo(() => new Map(notes.map(n => [n.id, n])), [notes]);
+  const cardsById = useMemo(() => new Map(cards.map(c => [c.id, c])), [cards]);
+
+  const decks = useMemo(() => {
+    const counts = new Map<string, number>();
+    cards.forEach(card => {
+      const note = notesById.get(card.note_id);
+      counts.set(`note:${card.note_id}`, (counts.get(`note:${card.note_id}`) ?? 0) + 1);
+      if (note?.subject) counts.set(`subject:${note.subject}`, (counts.get(`subject:${note.subject}`) ?? 0) + 1);
+    });
+    const subjects = Array.from(new Set(notes.map(n => n.subject).filter((s): s is string => !!s)))
+      .filter(s => counts.has(`subject:${s}`))
+      .sort((a, b) => a.localeCompare(b));
+    return {
+      subjects: subjects.map(s => ({ value: `subject:${s}`, label: s, count: counts.get(`subject:${s}`) ?? 0 })),
+      notes: notes
+        .filter(n => counts.has(`note:${n.id}`))
+        .map(n => ({ value: `note:${n.id}`, label: n.title, count: counts.get(`note:${n.id}`) ?? 0 })),
+    };
+  }, [cards, notes, notesById]);
+
+  const today = toStudyDay();
+  const reviewedToday = history.filter(r => r.reviewed_on === today);
+  const newLeftToday = Math.max(0, NEW_CARDS_PER_DAY - reviewedToday.filter(r => r.was_new).length);
+  const deckCards = cards.filter(card => inDeck(deck, card, notesById));
+  const dueCards = deckCards
+    .filter(card => !isNewCard(card) && isDue(card))
+    .sort((a, b) => a.due_at.localeCompare(b.due_at));
+  const newCards = deckCards.filter(isNewCard).slice(0, newLeftToday);
+
+  const historyByDay = useMemo(() => {
+    const counts = new Map<string, number>();
+    history.forEach(r => counts.set(r.reviewed_on, (counts.get(r.reviewed_on) ?? 0) + 1));
+    return Array.from({ length: HISTORY_DAYS }, (_, i) => {
+      const day = subDays(new Date(), HISTORY_DAYS - 1 - i);
+      return { day, count: counts.get(toStudyDay(day)) ?? 0 };
+    });
+  }, [history]);
+  const maxPerDay = Math.max(1, ...historyByDay.map(d => d.count));
+
+  const current = queue && queue.length > 0 ? cardsById.get(queue[0]) : undefined;
+
+  const startSession = () => {
+    setQueue([...dueCards, ...newCards].map(c => c.id));
+    setRevealed(false);
+  };
+
+  const answer = useCallback(async (rating: ReviewRating) => {
+    if (!user || !current || answering) return;
+    setAnswering(true);
+    const now = new Date();
+    const next = scheduleReview(current, rating, now);
+    const wasNew = isNewCard(current);
+
+    const { error } = await supabase
+      .from('flashcards')
+      .update({ ...next, last_reviewed_at: now.toISOString() })
+      .eq('id', current.id);
+    if (!error) {
+      await supabase.from('flashcard_reviews').insert({
+        user_id: user.id,
+        card_id: current.id,
+        rating,
+        was_new: wasNew,
+        interval_days: next.interval_days,
+        ease: next.ease,
+        reviewed_on: toStudyDay(now),
+      });
+    }
+    setAnswering(false);
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to save your answer',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setCards(prev => prev.map(c => (c.id === current.id ? { ...c, ...next, last_reviewed_at: now.toISOString() } : c)));
+    setHistory(prev => [...prev, { reviewed_on: toStudyDay(now), was_new: wasNew }]);
+    setQueue(prev => {
+      if (!prev) return prev;
+      const rest = prev.slice(1);
+      return rating === 'again' ? [...rest, current.id] : rest;
+    });
+    setRevealed(false);
+    if (reviewedToday.length === 0) fetchProfile();
+  }, [user, current, answering, toast, reviewedToday.length, fetchProfile]);
+
+  // Space shows the answer, 1-4 grade it
+  useEffect(() => {
+    if (!current) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, [role="combobox"]')) return;
+      if (!revealed && (e.key === ' ' || e.key === 'Enter')) {
+        e.preventDefault();
+        setRevealed(true);
+        return;
+      }
+      const choice = REVIEW_RATINGS.find(r => r.key === e.key);
+      if (revealed && choice) answer(choice.rating);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [current, revealed, answer]);
+
+  const setDeck = (value: string) => {
+    setQueue(null);
+    setSearchParams(value === 'all' ? {} : { deck: value });
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Review</h1>
+          <p className="text-muted-foreground text-sm">
+            Flashcards from your notes, scheduled with spaced repetition
+          </p>
+        </div>
+        <Select value={deck} onValueChange={setDeck}>
+          <SelectTrigger className="w-full md:w-[280px]" aria-label="Deck">
+            <SelectValue placeholder="Choose a deck" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All decks ({cards.length})</SelectItem>
+            {decks.subjects.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>Subjects</SelectLabel>
+                {decks.subjects.map(d => (
+                  <SelectItem key={d.value} value={d.value}>{d.label} ({d.count})</SelectItem>
+                ))}
+              </SelectGroup>
+            )}
+            {decks.notes.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>Notes</SelectLabel>
+                {decks.notes.map(d => (
+                  <SelectItem key={d.value} value={d.value}>{d.label} ({d.count})</SelectItem>
+                ))}
+              </SelectGroup>
+            )}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-xs text-muted-foreground flex items-center gap-1"><CalendarCheck className="h-3 w-3" /> Due today</p>
+            <p className="text-2xl font-bold">{dueCards.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-xs text-muted-foreground flex items-center gap-1"><Sparkles className="h-3 w-3" /> New</p>
+            <p className="text-2xl font-bold">{newCards.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-xs text-muted-foreground flex items-center gap-1"><Brain className="h-3 w-3" /> Reviewed today</p>
+            <p className="text-2xl font-bold">{reviewedToday.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-xs text-muted-foreground flex items-center gap-1"><Flame className="h-3 w-3" /> Streak</p>
+            <p className="text-2xl font-bold">{streak} day{streak === 1 ? '' : 's'}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {current ? (
+        <Card className="shadow-card">
+          <CardHeader className="pb-2">
+            <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+              <span className="truncate">{notesById.get(current.note_id)?.title}</span>
+              <span className="flex items-center gap-2 shrink-0">
+                {isNewCard(current) && <Badge variant="secondary">New</Badge>}
+                {queue?.length} left
+              </span>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="min-h-[120px] text-lg break-words">
+              <NoteMarkdown content={current.front} />
+            </div>
+            {revealed ? (
+              <>
+                <div className="border-t pt-4 break-words">
+                  <NoteMarkdown content={current.back} />
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  {REVIEW_RATINGS.map(r => (
+                    <Button
+                      key={r.rating}
+                      variant={r.rating === 'again' ? 'destructive' : r.rating === 'good' ? 'default' : 'outline'}
+                      className="flex-col h-auto py-2"
+                      onClick={() => answer(r.rating)}
+                      disabled={answering}
+                    >
+                      <span>{r.label}</span>
+                      <span className="text-xs opacity-75">{formatNextReview(scheduleReview(current, r.rating))} · {r.key}</span>
+                    </Button>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <Button className="w-full" onClick={() => setRevealed(true)}>
+                Show answer <span className="ml-2 text-xs opacity-75">Space</span>
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="shadow-card">
+          <CardContent className="flex flex-col items-center justify-center py-12 gap-4 text-center">
+            <Layers className="h-12 w-12 text-muted-foreground" />
+            {loading ? (
+              <p className="text-muted-foreground">Collecting cards from your notes...</p>
+            ) : cards.length === 0 ? (
+              <div className="space-y-2 max-w-md">
+                <p className="text-muted-foreground">No flashcards yet.</p>
+                <p className="text-sm text-muted-foreground">
+                  Write <code>Q:: question</code> and <code>A:: answer</code> lines, or cloze deletions like{' '}
+                  <code>{'{{c1::Paris}} is the capital of France'}</code>, in your <Link to="/notes" className="text-accent underline">notes</Link>.
+                </p>
+              </div>
+            ) : dueCards.length + newCards.length === 0 ? (
+              <p className="text-muted-foreground">
+                {queue ? 'Session complete. ' : ''}Nothing left to review in this deck today.
+              </p>
+            ) : (
+              <>
+                <p className="text-muted-foreground">
+                  {dueCards.length} due and {newCards.length} new card{newCards.length === 1 ? '' : 's'} ready
+                </p>
+                <Button onClick={startSession}>Start review</Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Reviews in the last {HISTORY_DAYS} days</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-end gap-1 h-24" role="img" aria-label="Daily review counts">
+            {historyByDay.map(({ day, count }) => (
+              <div
+                key={day.toISOString()}
+                className="flex-1 rounded-t bg-accent/70 min-h-[2px]"
+                style={{ height: `${(count / maxPerDay) * 100}%` }}
+                title={`${format(day, 'MMM d')}: ${count} review${count === 1 ? '' : 's'}`}
+              />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Review;
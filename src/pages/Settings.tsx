@@ -10,11 +10,12 @@ import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
-import { ChevronLeft, Lock, User, Palette, Shield, Upload, X } from 'lucide-react';
+import { ChevronLeft, Lock, User, Palette, Shield, Upload, X, CalendarDays } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { uploadAvatar } from '@/lib/file-upload';
+import { CalendarFeedSettings } from '@/components/CalendarFeedSettings';
 
 const Settings = () => {
   const navigate = useNavigate();
@@ -456,7 +457,7 @@ const Settings = () => {
       </div>
 
       <Tabs defaultValue="profile" className="w-full">
-        <TabsList className="grid w-full max-w-2xl grid-cols-4">
+        <TabsList className="grid w-full max-w-2xl grid-cols-5">
           <TabsTrigger value="profile" className="flex items-center gap-2">
             <User className="h-4 w-4" />
             <span className="hidden sm:inline">Profile</span>
@@ -473,6 +474,10 @@ const Settings = () => {
             <Palette className="h-4 w-4" />
             <span className="hidden sm:inline">Theme</span>
           </TabsTrigger>
+          <TabsTrigger value="calendar" className="flex items-center gap-2">
+            <CalendarDays className="h-4 w-4" />
+            <span className="hidden sm:inline">Calendar</span>
+          </TabsTrigger>
         </TabsList>
 
         {/* Profile Tab */}
@@ -793,6 +798,11 @@ const Settings = () => {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Calendar Tab */}
+        <TabsContent value="calendar" className="space-y-4">
+          <CalendarFeedSettings />
+        </TabsContent>
       </Tabs>
     </div>
   );
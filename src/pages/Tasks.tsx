@@ -1,4 +1,5 @@
 import { useEffect, useState, useRef, useMemo, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import useAutoSave from '@/hooks/use-auto-save';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/components/AuthProvider';
@@ -10,9 +11,10 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, CheckCircle2, Circle, Trash2, Bold, Italic, Underline, List, Paperclip, X, Download, Edit, Filter, ArrowUpDown, Download as DownloadIcon, CheckSquare } from 'lucide-react';
+import { ToastAction } from '@/components/ui/toast';
+import { Plus, CheckCircle2, Circle, Trash2, Bold, Italic, Underline, List, Paperclip, X, Download, Edit, Filter, ArrowUpDown, Download as DownloadIcon, CheckSquare, ChevronDown, ChevronRight, ListTree, Repeat, LayoutList, Kanban, CalendarDays, Flag, Hash, Bookmark, Lock, Upload, Bell, BellOff, Timer, Users, UserCheck, MessageSquare } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
-import { uploadFile, deleteFile, getFileUrl, formatFileSize, getFileIcon, isImageFile, getImagePreview } from '@/lib/file-upload';
+import { uploadFile, getFileUrl, formatFileSize, getFileIcon, isImageFile, getImagePreview } from '@/lib/file-upload';
 import {
   Select,
   SelectContent,
@@ -23,6 +25,32 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { TasksGridSkeleton } from '@/components/SkeletonLoaders';
+import { RecurrencePicker } from '@/components/RecurrencePicker';
+import { QuickAddBar } from '@/components/QuickAddBar';
+import { TaskLabelPicker } from '@/components/TaskLabelPicker';
+import { TaskDependencyPicker } from '@/components/TaskDependencyPicker';
+import { TaskBoard } from '@/components/TaskBoard';
+import { TaskCalendar } from '@/components/TaskCalendar';
+import { TaskImportDialog } from '@/components/TaskImportDialog';
+import { TaskReminderPicker } from '@/components/TaskReminderPicker';
+import { TaskTimeReport } from '@/components/TaskTimeReport';
+import { TaskTemplatesDialog } from '@/components/TaskTemplatesDialog';
+import { TRASH_RETENTION_DAYS } from '@/lib/trash';
+import { TaskListManager } from '@/components/TaskListManager';
+import { TaskActivityPanel } from '@/components/TaskActivityPanel';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { BoardColumn, DEFAULT_BOARD_COLUMNS, getColumnTasks, getTaskColumnId } from '@/lib/task-board';
+import { describeRule, formatRRule, getNextOccurrence, getUpcomingOccurrences, parseRRule, RecurrenceRule } from '@/lib/recurrence';
+import { QuickAddResult } from '@/lib/quick-add';
+import { PRIORITY_STYLES, TASK_PRIORITIES, TaskPriority } from '@/lib/task-priority';
+import { FILTER_SYNTAX_HELP, matchesTaskFilter, parseTaskFilter } from '@/lib/task-filter';
+import { getLabelStyle, getTaskLabels, TaskLabel, TaskLabelAssignment } from '@/lib/task-labels';
+import { getBlockedTaskIds, getOpenBlockers, TaskDependency } from '@/lib/task-dependencies';
+import { buildICalendar } from '@/lib/ics';
+import { canCompleteTask, canDiscussTask, canEditTask, getListMemberIds, getListRole, TaskList, TaskListMember } from '@/lib/task-lists';
+import { formatMinutes, getTrackedMinutes, parseDuration, TimeEntry } from '@/lib/time-tracking';
+import { describeReminder, getReminderTime, isSameReminder, ReminderDraft, TaskReminder } from '@/lib/task-reminders';
+import { buildTaskTree, getDescendantIds, getParentCompletionUpdates, getTaskProgress, isInSubtree, TaskNode } from '@/lib/task-tree';
 
 interface Task {
   id: string;
@@ -32,6 +60,19 @@ interface Task {
   due_date: string | null;
   created_at: string;
   user_id: string;
+  parent_id: string | null;
+  position: number;
+  recurrence_rule: string | null;
+  recurrence_id: string | null;
+  occurrence_index: number;
+  board_column_id: string | null;
+  board_position: number;
+  subject: string | null;
+  priority: TaskPriority | null;
+  estimated_minutes: number | null;
+  list_id: string | null;
+  assignee_id: string | null;
+  deleted_at: string | null;
 }
 
 interface TaskAttachment {
@@ -43,6 +84,8 @@ interface TaskAttachment {
   created_at: string;
 }
 
+type TaskViewMode = 'list' | 'board' | 'calendar';
+
 // Component to handle line breaks and spacing in task descriptions
 const TaskDescription = ({ content }: { content: string }) => {
   return (
@@ -72,6 +115,30 @@ const Tasks = () => {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [dueDate, setDueDate] = useState('');
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [subject, setSubject] = useState('');
+  const [priority, setPriority] = useState<TaskPriority | null>(null);
+  const [labels, setLabels] = useState<TaskLabel[]>([]);
+  const [labelAssignments, setLabelAssignments] = useState<TaskLabelAssignment[]>([]);
+  const [selectedLabelIds, setSelectedLabelIds] = useState<string[]>([]);
+  const [dependencies, setDependencies] = useState<TaskDependency[]>([]);
+  const [selectedBlockerIds, setSelectedBlockerIds] = useState<string[]>([]);
+  const [reminders, setReminders] = useState<TaskReminder[]>([]);
+  const [selectedReminders, setSelectedReminders] = useState<ReminderDraft[]>([]);
+  const [estimate, setEstimate] = useState('');
+  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
+  const [taskLists, setTaskLists] = useState<TaskList[]>([]);
+  const [listMembers, setListMembers] = useState<TaskListMember[]>([]);
+  const [memberNames, setMemberNames] = useState<Map<string, string>>(new Map());
+  // 'all', 'mine', 'assigned' or the id of a shared list
+  const [listFilter, setListFilter] = useState('all');
+  const [taskListId, setTaskListId] = useState<string | null>(null);
+  const [assigneeId, setAssigneeId] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [activeSmartList, setActiveSmartList] = useState<{ id: string; name: string; query: string } | null>(null);
+  const [saveListOpen, setSaveListOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [smartListName, setSmartListName] = useState('');
   const [tasksLocked, setTasksLocked] = useState(false);
   const [isAdmin, setIsAdmin] = useState(false);
   const [attachments, setAttachments] = useState<TaskAttachment[]>([]);
@@ -81,47 +148,92 @@ const Tasks = () => {
   const [dragActive, setDragActive] = useState(false);
   const [expandedTask, setExpandedTask] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
-  const [filterStatus, setFilterStatus] = useState<'all' | 'active' | 'completed'>('all');
-  const [sortBy, setSortBy] = useState<'created' | 'due' | 'title'>('created');
+  const [filterStatus, setFilterStatus] = useState<'all' | 'active' | 'ready' | 'completed'>('all');
+  const [sortBy, setSortBy] = useState<'created' | 'due' | 'title' | 'priority'>('created');
   const [selectedTasks, setSelectedTasks] = useState<Set<string>>(new Set());
+  const [parentTaskId, setParentTaskId] = useState<string | null>(null);
+  const [collapsedTasks, setCollapsedTasks] = useState<Set<string>>(new Set());
+  const [viewMode, setViewMode] = useState<TaskViewMode>(() => {
+    const stored = localStorage.getItem('tasks:view');
+    return stored === 'board' || stored === 'calendar' ? stored : 'list';
+  });
+  const [boardColumns, setBoardColumns] = useState<BoardColumn[]>([]);
   const { toast } = useToast();
   const descriptionRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Autosave drafts for Create Task and Edit Task
   const createDraftKey = `draft:task:create:${user?.id || 'anon'}`;
-  const { hasDraft: hasCreateDraft, lastSavedAt: createTaskSavedAt, restore: restoreCreateTaskDraft, clear: clearCreateTaskDraft } = useAutoSave(createDraftKey, { title, description, dueDate }, { wait: 1000, shouldSave: (v) => Boolean(v && ((v.title && v.title.trim()) || (v.description && v.description.trim()))) });
+  const { hasDraft: hasCreateDraft, lastSavedAt: createTaskSavedAt, restore: restoreCreateTaskDraft, clear: clearCreateTaskDraft } = useAutoSave(createDraftKey, { title, description, dueDate, recurrence }, { wait: 1000, shouldSave: (v) => Boolean(v && ((v.title && v.title.trim()) || (v.description && v.description.trim()))) });
 
   const editDraftKey = editingTask ? `draft:task:edit:${editingTask.id}` : `draft:task:edit:noop`;
-  const { hasDraft: hasEditDraft, lastSavedAt: editTaskSavedAt, restore: restoreEditTaskDraft, clear: clearEditTaskDraft } = useAutoSave(editDraftKey, { title, description, dueDate }, { wait: 1000, shouldSave: (v) => Boolean(v && ((v.title && v.title.trim()) || (v.description && v.description.trim()))) });
+  const { hasDraft: hasEditDraft, lastSavedAt: editTaskSavedAt, restore: restoreEditTaskDraft, clear: clearEditTaskDraft } = useAutoSave(editDraftKey, { title, description, dueDate, recurrence }, { wait: 1000, shouldSave: (v) => Boolean(v && ((v.title && v.title.trim()) || (v.description && v.description.trim()))) });
+
+  const compareTasks = useCallback((a: Task, b: Task) => {
+    // Subtasks keep the order they were added in
+    if (a.parent_id && a.parent_id === b.parent_id) {
+      return a.position - b.position || new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+    }
+
+    // Apply regular sorting
+    if (sortBy === 'title') {
+      return a.title.localeCompare(b.title);
+    } else if (sortBy === 'priority') {
+      const rank = (t: Task) => (t.priority ? TASK_PRIORITIES.indexOf(t.priority) : TASK_PRIORITIES.length);
+      return rank(a) - rank(b) || new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+    } else if (sortBy === 'due') {
+      if (!a.due_date) return 1;
+      if (!b.due_date) return -1;
+      return new Date(a.due_date).getTime() - new Date(b.due_date).getTime();
+    } else {
+      return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+    }
+  }, [sortBy]);
+
+  // The search box accepts plain text as well as filter expressions like "label:exam due:<7d"
+  const filterTerms = useMemo(() => parseTaskFilter(searchQuery), [searchQuery]);
+
+  // Open tasks still waiting on an incomplete blocker
+  const trackedMinutes = useMemo(() => getTrackedMinutes(timeEntries), [timeEntries]);
+
+  const blockedTaskIds = useMemo(() => getBlockedTaskIds(tasks, dependencies), [tasks, dependencies]);
 
   // Memoized filtered and sorted tasks for better performance
   const filteredAndSortedTasks = useMemo(() => {
-    let filtered = tasks.filter(task => {
-      const matchesSearch = task.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        task.description?.toLowerCase().includes(searchQuery.toLowerCase());
+    const now = new Date();
+    const matches = tasks.filter(task => {
+      const taskLabelNames = getTaskLabels(labels, labelAssignments, task.id).map(label => label.name);
+      const blocked = blockedTaskIds.has(task.id);
+      const matchesSearch = matchesTaskFilter({ ...task, blocked }, filterTerms, taskLabelNames, now);
       
       const matchesStatus = filterStatus === 'all' ? true :
-        filterStatus === 'completed' ? task.completed : !task.completed;
+        filterStatus === 'completed' ? task.completed :
+        filterStatus === 'ready' ? !task.completed && !blocked : !task.completed;
+
+      const matchesList = listFilter === 'all' ? true :
+        listFilter === 'mine' ? task.user_id === user?.id || task.assignee_id === user?.id :
+        listFilter === 'assigned' ? task.assignee_id === user?.id : task.list_id === listFilter;
       
-      return matchesSearch && matchesStatus;
+      return matchesSearch && matchesStatus && matchesList;
     });
 
-    filtered.sort((a, b) => {
-      // Apply regular sorting
-      if (sortBy === 'title') {
-        return a.title.localeCompare(b.title);
-      } else if (sortBy === 'due') {
-        if (!a.due_date) return 1;
-        if (!b.due_date) return -1;
-        return new Date(a.due_date).getTime() - new Date(b.due_date).getTime();
-      } else {
-        return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+    // Keep the ancestors of every match so subtasks are shown in context
+    const visible = new Set(matches.map(t => t.id));
+    matches.forEach(task => {
+      let parentId = task.parent_id;
+      while (parentId && !visible.has(parentId)) {
+        visible.add(parentId);
+        parentId = tasks.find(t => t.id === parentId)?.parent_id ?? null;
       }
     });
 
-    return filtered;
-  }, [tasks, searchQuery, filterStatus, sortBy]);
+    return tasks.filter(t => visible.has(t.id)).sort(compareTasks);
+  }, [tasks, filterTerms, filterStatus, compareTasks, labels, labelAssignments, blockedTaskIds, listFilter, user?.id]);
+
+  const taskTree = useMemo(
+    () => buildTaskTree(filteredAndSortedTasks, compareTasks),
+    [filteredAndSortedTasks, compareTasks]
+  );
 
   // Calculate statistics
   const stats = useMemo(() => {
@@ -274,40 +386,46 @@ const Tasks = () => {
     const { data, error } = await supabase
       .from('task_attachments')
       .select('*')
-      .eq('task_id', taskId);
+      .eq('task_id', taskId)
+      .is('deleted_at', null);
 
     if (!error && data) {
       setAttachments(data);
     }
   };
 
-  const handleDeleteAttachment = async (attachmentId: string, storagePath: string) => {
-    try {
-      // Delete from storage
-      const result = await deleteFile('task-attachments', storagePath);
-      
-      if (result.success) {
-        // Delete from database
-        const { error } = await supabase
-          .from('task_attachments')
-          .delete()
-          .eq('id', attachmentId);
+  // The file stays in storage until the attachment is deleted from the trash
+  const handleDeleteAttachment = async (attachmentId: string) => {
+    const { error } = await supabase
+      .from('task_attachments')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', attachmentId);
 
-        if (!error) {
-          setAttachments(attachments.filter(a => a.id !== attachmentId));
-          toast({
-            title: 'Success',
-            description: 'Attachment deleted',
-          });
-        }
-      }
-    } catch (error) {
+    if (error) {
       toast({
         title: 'Error',
         description: 'Failed to delete attachment',
         variant: 'destructive',
       });
+      return;
     }
+
+    setAttachments(attachments.filter(a => a.id !== attachmentId));
+    toast({
+      title: 'Moved to trash',
+      description: 'Attachment moved to trash',
+      action: (
+        <ToastAction
+          altText="Undo delete"
+          onClick={async () => {
+            await supabase.from('task_attachments').update({ deleted_at: null }).eq('id', attachmentId);
+            fetchTasks();
+          }}
+        >
+          Undo
+        </ToastAction>
+      ),
+    });
   };
 
   useEffect(() => {
@@ -316,29 +434,383 @@ const Tasks = () => {
     }
   }, [user?.id]);
 
+  // Smart lists from the sidebar open as /tasks?list=<id>
+  const smartListId = searchParams.get('list');
+  useEffect(() => {
+    if (!user?.id) return;
+    if (!smartListId) {
+      setActiveSmartList(null);
+      return;
+    }
+    const loadSmartList = async () => {
+      const { data, error } = await supabase
+        .from('task_smart_lists')
+        .select('id, name, query')
+        .eq('id', smartListId)
+        .single();
+      if (error || !data) {
+        toast({
+          title: 'Error',
+          description: 'Smart list not found',
+          variant: 'destructive',
+        });
+        setSearchParams({});
+        return;
+      }
+      setActiveSmartList(data);
+      setSearchQuery(data.query);
+    };
+    loadSmartList();
+  }, [smartListId, user?.id, toast, setSearchParams]);
+
   const fetchTasks = async () => {
     setLoading(true);
     const { data, error } = await supabase
       .from('tasks')
       .select('*')
+      .is('deleted_at', null)
       .order('created_at', { ascending: false });
 
     if (!error && data) {
-      setTasks(data);
+      setTasks(data as Task[]);
       // Load attachments for all tasks
       if (data.length > 0) {
         const { data: attachmentData } = await supabase
           .from('task_attachments')
           .select('*')
-          .in('task_id', data.map(t => t.id));
+          .in('task_id', data.map(t => t.id))
+          .is('deleted_at', null);
         if (attachmentData) {
           setAttachments(attachmentData);
         }
+        const { data: assignmentData } = await supabase
+          .from('task_label_assignments')
+          .select('task_id, label_id')
+          .in('task_id', data.map(t => t.id));
+        if (assignmentData) {
+          setLabelAssignments(assignmentData);
+        }
+        const { data: dependencyData } = await supabase
+          .from('task_dependencies')
+          .select('task_id, blocker_id')
+          .in('task_id', data.map(t => t.id));
+        if (dependencyData) {
+          setDependencies(dependencyData);
+        }
+        const { data: reminderData } = await supabase
+          .from('task_reminders')
+          .select('*')
+          .in('task_id', data.map(t => t.id));
+        if (reminderData) {
+          setReminders(reminderData);
+        }
+        const { data: timeData } = await supabase
+          .from('task_time_entries')
+          .select('task_id, minutes')
+          .in('task_id', data.map(t => t.id));
+        if (timeData) {
+          setTimeEntries(timeData);
+        }
       }
     }
     setLoading(false);
   };
 
+  // Shared lists the user owns or was invited to, with every member's username
+  const fetchTaskLists = useCallback(async () => {
+    const { data: listData } = await supabase
+      .from('task_lists')
+      .select('id, owner_id, name')
+      .order('created_at', { ascending: true });
+    const { data: memberData } = await supabase
+      .from('task_list_members')
+      .select('list_id, user_id, role');
+
+    const nextLists = listData || [];
+    const nextMembers = memberData || [];
+    setTaskLists(nextLists);
+    setListMembers(nextMembers);
+
+    const ids = Array.from(new Set([...nextLists.map(l => l.owner_id), ...nextMembers.map(m => m.user_id)]));
+    if (ids.length > 0) {
+      const { data: profiles } = await supabase.from('profiles').select('id, username').in('id', ids);
+      setMemberNames(new Map((profiles || []).map(p => [p.id, p.username])));
+    }
+    // A list that was deleted or left can no longer be shown
+    setListFilter(prev => (['all', 'mine', 'assigned'].includes(prev) || nextLists.some(l => l.id === prev) ? prev : 'all'));
+  }, []);
+
+  // Keep shared and assigned tasks in sync with other members
+  const sharedListIds = taskLists.map(l => l.id).join(',');
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const applyTaskChange = (payload: { eventType: string; new: Partial<Task>; old: Partial<Task> }) => {
+      // Moving a task to the trash arrives as an update
+      if (payload.eventType === 'DELETE' || payload.new.deleted_at) {
+        setTasks(prev => prev.filter(t => t.id !== (payload.old.id ?? payload.new.id)));
+        return;
+      }
+      const changed = payload.new as Task;
+      setTasks(prev => prev.some(t => t.id === changed.id)
+        ? prev.map(t => (t.id === changed.id ? { ...t, ...changed } : t))
+        : [changed, ...prev]);
+      if (payload.eventType === 'INSERT' && changed.assignee_id === user.id && changed.user_id !== user.id) {
+        toast({
+          title: 'New task assigned to you',
+          description: changed.title,
+        });
+      }
+    };
+
+    let channel = supabase
+      .channel(`shared-tasks-${user.id}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'tasks', filter: `assignee_id=eq.${user.id}` }, applyTaskChange)
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'tasks' }, applyTaskChange)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'task_list_members', filter: `user_id=eq.${user.id}` }, () => fetchTaskLists());
+    if (sharedListIds) {
+      channel = channel
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'tasks', filter: `list_id=in.(${sharedListIds})` }, applyTaskChange)
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'tasks', filter: `list_id=in.(${sharedListIds})` }, applyTaskChange);
+    }
+    channel.subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user?.id, sharedListIds, toast, fetchTaskLists]);
+
+  const fetchLabels = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('task_labels')
+      .select('id, name, color')
+      .eq('user_id', user?.id)
+      .order('name', { ascending: true });
+
+    if (!error && data) {
+      setLabels(data);
+    }
+  }, [user?.id]);
+
+  const handleCreateLabel = async (name: string, color: string) => {
+    const { data, error } = await supabase
+      .from('task_labels')
+      .insert({ user_id: user?.id, name, color })
+      .select('id, name, color')
+      .single();
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to create label',
+        variant: 'destructive',
+      });
+      return null;
+    }
+    setLabels([...labels, data].sort((a, b) => a.name.localeCompare(b.name)));
+    return data;
+  };
+
+  const handleDeleteLabel = async (label: TaskLabel) => {
+    if (!confirm(`Delete the label "${label.name}"? It will be removed from all tasks.`)) return;
+
+    const { error } = await supabase.from('task_labels').delete().eq('id', label.id);
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete label',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setLabels(labels.filter(l => l.id !== label.id));
+    setLabelAssignments(labelAssignments.filter(a => a.label_id !== label.id));
+    setSelectedLabelIds(selectedLabelIds.filter(id => id !== label.id));
+  };
+
+  // Replace the labels of a task with `labelIds`
+  const saveTaskLabels = async (taskId: string, labelIds: string[]) => {
+    const current = labelAssignments.filter(a => a.task_id === taskId).map(a => a.label_id);
+    const removed = current.filter(id => !labelIds.includes(id));
+    const added = labelIds.filter(id => !current.includes(id));
+
+    if (removed.length > 0) {
+      await supabase.from('task_label_assignments').delete().eq('task_id', taskId).in('label_id', removed);
+    }
+    if (added.length > 0) {
+      const { error } = await supabase
+        .from('task_label_assignments')
+        .insert(added.map(labelId => ({ task_id: taskId, label_id: labelId })));
+      if (error) {
+        toast({
+          title: 'Error',
+          description: 'Failed to save labels',
+          variant: 'destructive',
+        });
+      }
+    }
+  };
+
+  // Replace the reminders of a task; reminders whose time has already passed are saved as fired
+  const saveTaskReminders = async (taskId: string, drafts: ReminderDraft[], due: string | null) => {
+    const current = reminders.filter(r => r.task_id === taskId);
+    // Due date changes alone re-arm offset reminders in the database
+    if (current.length === drafts.length && drafts.every(d => current.some(r => isSameReminder(r, d)))) return;
+
+    await supabase.from('task_reminders').delete().eq('task_id', taskId);
+    if (drafts.length === 0) return;
+
+    const now = new Date();
+    const { error } = await supabase.from('task_reminders').insert(drafts.map(draft => {
+      const time = getReminderTime(draft, due);
+      return {
+        task_id: taskId,
+        user_id: user?.id,
+        offset_minutes: draft.offset_minutes,
+        remind_at: draft.remind_at,
+        fired_at: time && time <= now ? now.toISOString() : null,
+      };
+    }));
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to save reminders',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Replace the blockers of a task with `blockerIds`
+  const saveTaskBlockers = async (taskId: string, blockerIds: string[]) => {
+    const current = dependencies.filter(d => d.task_id === taskId).map(d => d.blocker_id);
+    const removed = current.filter(id => !blockerIds.includes(id));
+    const added = blockerIds.filter(id => !current.includes(id));
+
+    if (removed.length > 0) {
+      await supabase.from('task_dependencies').delete().eq('task_id', taskId).in('blocker_id', removed);
+    }
+    if (added.length > 0) {
+      const { error } = await supabase
+        .from('task_dependencies')
+        .insert(added.map(blockerId => ({ task_id: taskId, blocker_id: blockerId })));
+      if (error) {
+        toast({
+          title: 'Error',
+          description: error.code === '23514'
+            ? 'A task cannot depend on a task that is waiting on it'
+            : 'Failed to save dependencies',
+          variant: 'destructive',
+        });
+      }
+    }
+  };
+
+  const handleSaveSmartList = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!smartListName.trim() || !searchQuery.trim()) return;
+
+    const { data, error } = await supabase
+      .from('task_smart_lists')
+      .insert({ user_id: user?.id, name: smartListName.trim(), query: searchQuery.trim() })
+      .select('id')
+      .single();
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to save smart list',
+        variant: 'destructive',
+      });
+      return;
+    }
+    toast({
+      title: 'Smart list saved',
+      description: `"${smartListName.trim()}" now appears in the sidebar`,
+    });
+    setSaveListOpen(false);
+    setSmartListName('');
+    setSearchParams({ list: data.id });
+  };
+
+  const handleUpdateSmartList = async () => {
+    if (!activeSmartList || !searchQuery.trim()) return;
+
+    const { error } = await supabase
+      .from('task_smart_lists')
+      .update({ query: searchQuery.trim() })
+      .eq('id', activeSmartList.id);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update smart list',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setActiveSmartList({ ...activeSmartList, query: searchQuery.trim() });
+    toast({
+      title: 'Success',
+      description: 'Smart list updated',
+    });
+  };
+
+  const handleDeleteSmartList = async () => {
+    if (!activeSmartList || !confirm(`Delete the smart list "${activeSmartList.name}"?`)) return;
+
+    const { error } = await supabase.from('task_smart_lists').delete().eq('id', activeSmartList.id);
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete smart list',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setSearchQuery('');
+    setSearchParams({});
+  };
+
+  const fetchBoardColumns = useCallback(async (createDefaults: boolean) => {
+    const { data, error } = await supabase
+      .from('task_board_columns')
+      .select('*')
+      .eq('user_id', user?.id)
+      .order('position', { ascending: true });
+
+    if (error || !data) return;
+
+    if (data.length === 0 && createDefaults) {
+      // First visit to the board: start with a sensible set of columns
+      const { data: created } = await supabase
+        .from('task_board_columns')
+        .insert(DEFAULT_BOARD_COLUMNS.map((column, index) => ({ ...column, user_id: user?.id, position: index })))
+        .select();
+      setBoardColumns((created || []).sort((a, b) => a.position - b.position));
+    } else {
+      setBoardColumns(data);
+    }
+  }, [user?.id]);
+
+  // Default board columns are only created when the page opens on the board
+  const opensOnBoard = useRef(viewMode === 'board');
+  useEffect(() => {
+    if (user?.id) {
+      fetchLabels();
+      fetchTaskLists();
+      fetchBoardColumns(opensOnBoard.current);
+    }
+  }, [user?.id, fetchLabels, fetchTaskLists, fetchBoardColumns]);
+
+  const handleViewModeChange = (mode: string) => {
+    const next: TaskViewMode = mode === 'board' || mode === 'calendar' ? mode : 'list';
+    setViewMode(next);
+    localStorage.setItem('tasks:view', next);
+    if (next === 'board' && boardColumns.length === 0) {
+      fetchBoardColumns(true);
+    }
+  };
+
   const handleCreateTask = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -352,11 +824,37 @@ const Tasks = () => {
       return;
     }
 
+    if (recurrence && !dueDate) {
+      toast({
+        title: 'Due date required',
+        description: 'Recurring tasks need a due date to repeat from.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (estimate.trim() && !parseDuration(estimate)) {
+      toast({
+        title: 'Invalid estimate',
+        description: 'Use a duration such as 45m, 1.5h or 2h 30m.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
     const { data, error } = await supabase.from('tasks').insert({
       user_id: user?.id,
       title,
       description: description || null,
       due_date: dueDate || null,
+      parent_id: parentTaskId,
+      position: tasks.filter(t => t.parent_id === parentTaskId).length,
+      recurrence_rule: recurrence ? formatRRule(recurrence) : null,
+      subject: subject.trim() || null,
+      priority,
+      estimated_minutes: parseDuration(estimate),
+      list_id: taskListId,
+      assignee_id: assigneeId,
     }).select().single();
 
     if (error) {
@@ -370,6 +868,15 @@ const Tasks = () => {
       if (selectedAttachments.length > 0) {
         await uploadAttachments(data.id);
       }
+      if (selectedLabelIds.length > 0) {
+        await saveTaskLabels(data.id, selectedLabelIds);
+      }
+      if (selectedBlockerIds.length > 0) {
+        await saveTaskBlockers(data.id, selectedBlockerIds);
+      }
+      if (selectedReminders.length > 0) {
+        await saveTaskReminders(data.id, selectedReminders, data.due_date);
+      }
 
       toast({
         title: 'Success',
@@ -379,25 +886,231 @@ const Tasks = () => {
       setTitle('');
       setDescription('');
       setDueDate('');
+      setRecurrence(null);
+      setSubject('');
+      setPriority(null);
+      setSelectedLabelIds([]);
+      setSelectedBlockerIds([]);
+      setSelectedReminders([]);
+      setEstimate('');
+      setTaskListId(null);
+      setAssigneeId(null);
+      setParentTaskId(null);
       setSelectedAttachments([]);
       clearCreateTaskDraft();
+      if (parentTaskId) {
+        // A new open subtask reopens its completed ancestors
+        await syncParentCompletion([...tasks, data as Task], [parentTaskId]);
+      }
       fetchTasks();
     }
   };
 
-  const toggleTask = async (taskId: string, completed: boolean) => {
+  // Save a task typed into the quick-add bar
+  const handleQuickAdd = async (parsed: QuickAddResult) => {
+    if (tasksLocked && !isAdmin) {
+      toast({
+        title: 'Tasks Locked',
+        description: 'Only admins can create tasks at this time.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    const { error } = await supabase.from('tasks').insert({
+      user_id: user?.id,
+      title: parsed.title,
+      due_date: parsed.dueDate ? parsed.dueDate.toISOString() : null,
+      parent_id: null,
+      position: tasks.filter(t => t.parent_id === null).length,
+      recurrence_rule: parsed.recurrence ? formatRRule(parsed.recurrence) : null,
+      subject: parsed.subject,
+      priority: parsed.priority,
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to create task',
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    toast({
+      title: 'Task added',
+      description: parsed.title,
+    });
+    fetchTasks();
+    return true;
+  };
+
+  // Complete or reopen parents whose children changed state
+  const syncParentCompletion = async (nextTasks: Task[], parentIds: (string | null)[]) => {
+    const updates = getParentCompletionUpdates(nextTasks, parentIds);
+    const completedIds = [...updates].filter(([, done]) => done).map(([id]) => id);
+    const reopenedIds = [...updates].filter(([, done]) => !done).map(([id]) => id);
+
+    if (completedIds.length > 0) {
+      await supabase.from('tasks').update({ completed: true }).in('id', completedIds);
+      toast({
+        title: 'Nice work!',
+        description: `${completedIds.length} parent task(s) completed automatically`,
+      });
+    }
+    if (reopenedIds.length > 0) {
+      await supabase.from('tasks').update({ completed: false }).in('id', reopenedIds);
+    }
+  };
+
+  // Set the completed state of tasks; completing a task also completes its subtasks
+  const setTasksCompleted = async (taskIds: string[], completed: boolean) => {
+    const ids = completed
+      ? Array.from(new Set(taskIds.flatMap(id => [id, ...getDescendantIds(tasks, id)])))
+      : taskIds;
+
     const { error } = await supabase
       .from('tasks')
-      .update({ completed: !completed })
-      .eq('id', taskId);
+      .update({ completed })
+      .in('id', ids);
+
+    if (error) return { error };
+
+    const newlyCompleted = completed ? tasks.filter(t => ids.includes(t.id) && !t.completed) : [];
+    const nextOccurrences = await createNextOccurrences(newlyCompleted);
+
+    const nextTasks = [...tasks.map(t => (ids.includes(t.id) ? { ...t, completed } : t)), ...nextOccurrences];
+    await syncParentCompletion(nextTasks, nextTasks.filter(t => ids.includes(t.id)).map(t => t.parent_id));
+
+    // Blocked state is derived from the blockers, so dependents unblock on the next fetch
+    if (completed) {
+      const stillBlocked = getBlockedTaskIds(nextTasks, dependencies);
+      const unblocked = tasks.filter(t => blockedTaskIds.has(t.id) && !stillBlocked.has(t.id) && !ids.includes(t.id));
+      if (unblocked.length > 0) {
+        toast({
+          title: 'Ready to start',
+          description: unblocked.length === 1
+            ? `"${unblocked[0].title}" is no longer blocked`
+            : `${unblocked.length} tasks are no longer blocked`,
+        });
+      }
+    }
+    return { error: null };
+  };
+
+  // Create the following instance of every recurring task that was just completed
+  const createNextOccurrences = async (completedTasks: Task[]) => {
+    const rows = completedTasks.flatMap(task => {
+      const rule = parseRRule(task.recurrence_rule);
+      if (!rule || !task.due_date) return [];
+      const next = getNextOccurrence(rule, new Date(task.due_date), task.occurrence_index);
+      if (!next) return [];
+      return [{
+        user_id: task.user_id,
+        title: task.title,
+        description: task.description,
+        due_date: next.toISOString(),
+        parent_id: task.parent_id,
+        position: task.position,
+        recurrence_rule: task.recurrence_rule,
+        recurrence_id: task.recurrence_id ?? task.id,
+        occurrence_index: task.occurrence_index + 1,
+        subject: task.subject,
+        priority: task.priority,
+        estimated_minutes: task.estimated_minutes,
+        list_id: task.list_id,
+        assignee_id: task.assignee_id,
+      }];
+    });
+    if (rows.length === 0) return [];
+
+    // Re-completing an instance must not create its successor twice
+    const { data, error } = await supabase
+      .from('tasks')
+      .upsert(rows, { onConflict: 'recurrence_id,occurrence_index', ignoreDuplicates: true })
+      .select();
+
+    if (error || !data) return [];
+
+    const sources = data.flatMap(next => {
+      const source = completedTasks.find(t =>
+        (t.recurrence_id ?? t.id) === next.recurrence_id && t.occurrence_index + 1 === next.occurrence_index
+      );
+      return source ? [{ next, source }] : [];
+    });
+
+    // Reminders relative to the due date and labels carry over to the next occurrence
+    const carried = sources.flatMap(({ next, source }) => reminders
+      .filter(r => r.task_id === source.id && r.offset_minutes !== null)
+      .map(r => ({ task_id: next.id, user_id: next.user_id, offset_minutes: r.offset_minutes })));
+    if (carried.length > 0) {
+      await supabase.from('task_reminders').insert(carried);
+    }
+    const carriedLabels = sources.flatMap(({ next, source }) => labelAssignments
+      .filter(a => a.task_id === source.id)
+      .map(a => ({ task_id: next.id, label_id: a.label_id })));
+    if (carriedLabels.length > 0) {
+      await supabase.from('task_label_assignments').insert(carriedLabels);
+    }
+
+    if (data.length > 0) {
+      toast({
+        title: 'Next occurrence scheduled',
+        description: data.length === 1
+          ? `"${data[0].title}" is due ${new Date(data[0].due_date).toLocaleString()}`
+          : `${data.length} recurring tasks rescheduled`,
+      });
+    }
+    return data as Task[];
+  };
+
+  const toggleTask = async (taskId: string, completed: boolean) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (task && !canCompleteTask(task, taskLists, listMembers, user?.id)) {
+      toast({
+        title: 'Read only',
+        description: 'Only the owner, list editors and the assignee can complete this task.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (!completed && blockedTaskIds.has(taskId)) {
+      const blockers = getOpenBlockers(tasks, dependencies, taskId).map(t => `"${t.title}"`).join(', ');
+      if (!confirm(`This task is still waiting on ${blockers}. Complete it anyway?`)) return;
+    }
+    const { error } = await setTasksCompleted([taskId], !completed);
 
     if (!error) {
       fetchTasks();
     }
   };
 
+  // Subtasks go to the trash with their parent, under the same timestamp,
+  // so restoring the parent brings them back too
+  const moveTasksToTrash = async (ids: string[]) => {
+    const trashedIds = Array.from(new Set(ids.flatMap(id => [id, ...getDescendantIds(tasks, id)])));
+    const { error } = await supabase
+      .from('tasks')
+      .update({ deleted_at: new Date().toISOString() })
+      .in('id', trashedIds);
+    return { error, trashedIds };
+  };
+
+  const restoreTasks = async (ids: string[]) => {
+    const { error } = await supabase.from('tasks').update({ deleted_at: null }).in('id', ids);
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to restore task',
+        variant: 'destructive',
+      });
+      return;
+    }
+    fetchTasks();
+  };
+
   const handleDeleteTask = async (id: string) => {
-    const { error } = await supabase.from('tasks').delete().eq('id', id);
+    const { error, trashedIds } = await moveTasksToTrash([id]);
     if (error) {
       toast({
         title: 'Error',
@@ -406,18 +1119,46 @@ const Tasks = () => {
       });
     } else {
       toast({
-        title: 'Deleted',
-        description: 'Task deleted successfully',
+        title: 'Moved to trash',
+        description: `Task moved to trash. It is deleted for good after ${TRASH_RETENTION_DAYS} days.`,
+        action: <ToastAction altText="Undo delete" onClick={() => restoreTasks(trashedIds)}>Undo</ToastAction>,
       });
       fetchTasks();
     }
   };
 
+  const openCreateSubtaskDialog = (parent: Task) => {
+    setParentTaskId(parent.id);
+    setTaskListId(parent.list_id);
+    setAssigneeId(null);
+    setOpen(true);
+  };
+
+  const toggleCollapsed = (taskId: string) => {
+    const next = new Set(collapsedTasks);
+    if (next.has(taskId)) {
+      next.delete(taskId);
+    } else {
+      next.add(taskId);
+    }
+    setCollapsedTasks(next);
+  };
+
   const openEditDialog = (task: Task) => {
     setEditingTask(task);
     setTitle(task.title);
     setDescription(task.description || '');
     setDueDate(task.due_date || '');
+    setRecurrence(parseRRule(task.recurrence_rule));
+    setSubject(task.subject || '');
+    setPriority(task.priority);
+    setSelectedLabelIds(labelAssignments.filter(a => a.task_id === task.id).map(a => a.label_id));
+    setSelectedBlockerIds(dependencies.filter(d => d.task_id === task.id).map(d => d.blocker_id));
+    setSelectedReminders(reminders.filter(r => r.task_id === task.id));
+    setEstimate(task.estimated_minutes ? formatMinutes(task.estimated_minutes) : '');
+    setTaskListId(task.list_id);
+    setAssigneeId(task.assignee_id);
+    setParentTaskId(task.parent_id);
     setEditOpen(true);
     setExpandedTask(null);
   };
@@ -433,12 +1174,40 @@ const Tasks = () => {
       return;
     }
 
+    if (recurrence && !dueDate) {
+      toast({
+        title: 'Due date required',
+        description: 'Recurring tasks need a due date to repeat from.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (estimate.trim() && !parseDuration(estimate)) {
+      toast({
+        title: 'Invalid estimate',
+        description: 'Use a duration such as 45m, 1.5h or 2h 30m.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
     const { error } = await supabase
       .from('tasks')
       .update({
         title: title.trim(),
         description: description.trim() || null,
         due_date: dueDate || null,
+        recurrence_rule: recurrence ? formatRRule(recurrence) : null,
+        subject: subject.trim() || null,
+        priority,
+        estimated_minutes: parseDuration(estimate),
+        list_id: taskListId,
+        assignee_id: assigneeId,
+        parent_id: parentTaskId,
+        ...(parentTaskId !== editingTask.parent_id && {
+          position: tasks.filter(t => t.parent_id === parentTaskId).length,
+        }),
       })
       .eq('id', editingTask.id);
 
@@ -453,16 +1222,47 @@ const Tasks = () => {
         title: 'Success',
         description: 'Task updated successfully',
       });
+      await saveTaskLabels(editingTask.id, selectedLabelIds);
+      await saveTaskBlockers(editingTask.id, selectedBlockerIds);
+      await saveTaskReminders(editingTask.id, selectedReminders, dueDate ? new Date(dueDate).toISOString() : null);
+      if (parentTaskId !== editingTask.parent_id) {
+        // Both the old and the new parent may need their completion refreshed
+        const nextTasks = tasks.map(t => (t.id === editingTask.id ? { ...t, parent_id: parentTaskId } : t));
+        await syncParentCompletion(nextTasks, [parentTaskId, editingTask.parent_id]);
+      }
       setEditOpen(false);
       setTitle('');
       setDescription('');
       setDueDate('');
+      setRecurrence(null);
+      setSubject('');
+      setPriority(null);
+      setSelectedLabelIds([]);
+      setSelectedBlockerIds([]);
+      setSelectedReminders([]);
+      setEstimate('');
+      setTaskListId(null);
+      setAssigneeId(null);
+      setParentTaskId(null);
       setEditingTask(null);
       clearEditTaskDraft();
       fetchTasks();
     }
   };
 
+  // Lists new tasks can be put in, and who they can be assigned to there
+  const editableLists = taskLists.filter(l => {
+    const role = getListRole(taskLists, listMembers, l.id, user?.id);
+    return role === 'owner' || role === 'editor';
+  });
+  const assigneeOptions = taskListId ? getListMemberIds(taskLists, listMembers, taskListId) : [];
+
+  // Tasks that can hold the task being created or edited (never its own subtree)
+  const parentOptions = useMemo(
+    () => tasks.filter(t => t.user_id === user?.id && !(editingTask && isInSubtree(tasks, editingTask.id, t.id))),
+    [tasks, user?.id, editingTask]
+  );
+
   const formatSavedAt = (ts: number | null) => {
     if (!ts) return '';
     const diff = Date.now() - ts;
@@ -483,71 +1283,230 @@ const Tasks = () => {
     setSelectedTasks(newSelected);
   };
 
-  const selectAllTasks = () => {
-    if (selectedTasks.size === filteredAndSortedTasks.length) {
-      setSelectedTasks(new Set());
-    } else {
-      setSelectedTasks(new Set(filteredAndSortedTasks.map(t => t.id)));
+  const selectAllTasks = () => {
+    if (selectedTasks.size === filteredAndSortedTasks.length) {
+      setSelectedTasks(new Set());
+    } else {
+      setSelectedTasks(new Set(filteredAndSortedTasks.map(t => t.id)));
+    }
+  };
+
+  const bulkDeleteTasks = async () => {
+    if (selectedTasks.size === 0) return;
+    
+    const { error, trashedIds } = await moveTasksToTrash(Array.from(selectedTasks));
+    
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete tasks',
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Moved to trash',
+        description: `${selectedTasks.size} task(s) moved to trash`,
+        action: <ToastAction altText="Undo delete" onClick={() => restoreTasks(trashedIds)}>Undo</ToastAction>,
+      });
+      setSelectedTasks(new Set());
+      fetchTasks();
+    }
+  };
+
+  const bulkToggleComplete = async () => {
+    if (selectedTasks.size === 0) return;
+    
+    const tasksToUpdate = tasks.filter(t => selectedTasks.has(t.id));
+    const allCompleted = tasksToUpdate.every(t => t.completed);
+    
+    const { error } = await setTasksCompleted(Array.from(selectedTasks), !allCompleted);
+    
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update tasks',
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: `${selectedTasks.size} task(s) ${allCompleted ? 'marked as incomplete' : 'completed'}`,
+      });
+      setSelectedTasks(new Set());
+      fetchTasks();
+    }
+  };
+
+  // Calendar actions
+  const handleRescheduleTask = async (task: Task, day: Date) => {
+    // Keep the original time of day, only move the date
+    const current = new Date(task.due_date);
+    const next = new Date(day);
+    next.setHours(current.getHours(), current.getMinutes(), 0, 0);
+
+    setTasks(prev => prev.map(t => (t.id === task.id ? { ...t, due_date: next.toISOString() } : t)));
+
+    const { error } = await supabase
+      .from('tasks')
+      .update({ due_date: next.toISOString() })
+      .eq('id', task.id);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to reschedule task',
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Rescheduled',
+        description: `"${task.title}" is now due ${next.toLocaleString()}`,
+      });
+    }
+    fetchTasks();
+  };
+
+  // Board actions
+  const handleMoveTaskOnBoard = async (task: Task, columnId: string, index: number) => {
+    const column = boardColumns.find(c => c.id === columnId);
+    if (!column) return;
+
+    const sourceTasks = getColumnTasks(taskTree, boardColumns, columnId);
+    const currentIndex = sourceTasks.findIndex(t => t.id === task.id);
+    // Dropping below its own slot shifts everything up by one once the card is removed
+    const targetIndex = currentIndex !== -1 && currentIndex < index ? index - 1 : index;
+    const ordered = sourceTasks.filter(t => t.id !== task.id);
+    ordered.splice(targetIndex, 0, task as TaskNode<Task>);
+
+    const changed = ordered
+      .map((t, position) => ({ id: t.id, position }))
+      .filter(({ id, position }) => {
+        const current = tasks.find(t => t.id === id);
+        return id === task.id || current?.board_position !== position;
+      });
+
+    // Update locally first so the card doesn't jump back while saving
+    setTasks(prev => prev.map(t => {
+      const update = changed.find(c => c.id === t.id);
+      if (!update) return t;
+      return { ...t, board_position: update.position, ...(t.id === task.id && { board_column_id: columnId }) };
+    }));
+
+    const results = await Promise.all(changed.map(({ id, position }) =>
+      supabase
+        .from('tasks')
+        .update({ board_position: position, ...(id === task.id && { board_column_id: columnId }) })
+        .eq('id', id)
+    ));
+
+    if (results.some(r => r.error)) {
+      toast({
+        title: 'Error',
+        description: 'Failed to move task',
+        variant: 'destructive',
+      });
+    } else if (column.is_terminal !== task.completed && getTaskColumnId(task, boardColumns) !== columnId) {
+      // Moving into the done column completes the task, moving out of it reopens it
+      await setTasksCompleted([task.id], column.is_terminal);
     }
+    fetchTasks();
   };
 
-  const bulkDeleteTasks = async () => {
-    if (selectedTasks.size === 0) return;
-    
-    const { error } = await supabase
-      .from('tasks')
-      .delete()
-      .in('id', Array.from(selectedTasks));
-    
+  const handleAddBoardColumn = async (name: string) => {
+    const { data, error } = await supabase
+      .from('task_board_columns')
+      .insert({
+        user_id: user?.id,
+        name,
+        position: boardColumns.length > 0 ? Math.max(...boardColumns.map(c => c.position)) + 1 : 0,
+      })
+      .select()
+      .single();
+
     if (error) {
       toast({
         title: 'Error',
-        description: 'Failed to delete tasks',
+        description: 'Failed to add column',
         variant: 'destructive',
       });
     } else {
-      toast({
-        title: 'Success',
-        description: `${selectedTasks.size} task(s) deleted successfully`,
-      });
-      setSelectedTasks(new Set());
-      fetchTasks();
+      setBoardColumns([...boardColumns, data]);
     }
   };
 
-  const bulkToggleComplete = async () => {
-    if (selectedTasks.size === 0) return;
-    
-    const tasksToUpdate = tasks.filter(t => selectedTasks.has(t.id));
-    const allCompleted = tasksToUpdate.every(t => t.completed);
-    
-    const { error } = await supabase
-      .from('tasks')
-      .update({ completed: !allCompleted })
-      .in('id', Array.from(selectedTasks));
-    
+  const handleRenameBoardColumn = async (column: BoardColumn, name: string) => {
+    const { error } = await supabase.from('task_board_columns').update({ name }).eq('id', column.id);
+    if (!error) {
+      setBoardColumns(boardColumns.map(c => (c.id === column.id ? { ...c, name } : c)));
+    }
+  };
+
+  const handleDeleteBoardColumn = async (column: BoardColumn) => {
+    const { error } = await supabase.from('task_board_columns').delete().eq('id', column.id);
     if (error) {
       toast({
         title: 'Error',
-        description: 'Failed to update tasks',
+        description: 'Failed to delete column',
         variant: 'destructive',
       });
     } else {
       toast({
-        title: 'Success',
-        description: `${selectedTasks.size} task(s) ${allCompleted ? 'marked as incomplete' : 'completed'}`,
+        title: 'Column deleted',
+        description: `Tasks from "${column.name}" moved to the first column`,
       });
-      setSelectedTasks(new Set());
+      setBoardColumns(boardColumns.filter(c => c.id !== column.id));
       fetchTasks();
     }
   };
 
+  const handleMoveBoardColumn = async (column: BoardColumn, direction: -1 | 1) => {
+    const index = boardColumns.findIndex(c => c.id === column.id);
+    const neighbour = boardColumns[index + direction];
+    if (!neighbour) return;
+
+    await Promise.all([
+      supabase.from('task_board_columns').update({ position: neighbour.position }).eq('id', column.id),
+      supabase.from('task_board_columns').update({ position: column.position }).eq('id', neighbour.id),
+    ]);
+
+    const next = boardColumns.map(c => {
+      if (c.id === column.id) return { ...c, position: neighbour.position };
+      if (c.id === neighbour.id) return { ...c, position: column.position };
+      return c;
+    });
+    setBoardColumns(next.sort((a, b) => a.position - b.position));
+  };
+
+  const handleSetTerminalColumn = async (column: BoardColumn) => {
+    // Clear the old done column first; only one may exist per user
+    await supabase.from('task_board_columns').update({ is_terminal: false }).eq('user_id', user?.id).eq('is_terminal', true);
+    const { error } = await supabase.from('task_board_columns').update({ is_terminal: true }).eq('id', column.id);
+
+    if (!error) {
+      setBoardColumns(boardColumns.map(c => ({ ...c, is_terminal: c.id === column.id })));
+      toast({
+        title: 'Done column updated',
+        description: `Tasks moved to "${column.name}" are now marked complete`,
+      });
+    }
+  };
+
   // Export functionality
   const exportToMarkdown = () => {
     let markdown = '# My Tasks\n\n';
     markdown += `Generated on ${new Date().toLocaleDateString()}\n\n`;
     
-    filteredAndSortedTasks.forEach(task => {
+    // Subtasks are written as a nested checklist under their top-level task
+    const writeSubtasks = (nodes: TaskNode<Task>[], level: number) => {
+      nodes.forEach(node => {
+        const indent = '  '.repeat(level);
+        const due = node.due_date ? ` _(due ${new Date(node.due_date).toLocaleString()})_` : '';
+        markdown += `${indent}- ${node.completed ? '[x]' : '[ ]'} ${node.title}${due}\n`;
+        writeSubtasks(node.children, level + 1);
+      });
+    };
+
+    taskTree.forEach(task => {
       markdown += `## ${task.completed ? '[x]' : '[ ]'} ${task.title}\n\n`;
       if (task.description) {
         markdown += `${task.description}\n\n`;
@@ -555,6 +1514,23 @@ const Tasks = () => {
       if (task.due_date) {
         markdown += `**Due:** ${new Date(task.due_date).toLocaleString()}\n\n`;
       }
+      const rule = parseRRule(task.recurrence_rule);
+      if (rule) {
+        markdown += `**Repeats:** ${describeRule(rule)}\n\n`;
+      }
+      if (task.priority) {
+        markdown += `**Priority:** ${task.priority}\n\n`;
+      }
+      const taskLabels = getTaskLabels(labels, labelAssignments, task.id);
+      if (taskLabels.length > 0) {
+        markdown += `**Labels:** ${taskLabels.map(label => label.name).join(', ')}\n\n`;
+      }
+      if (task.children.length > 0) {
+        const progress = getTaskProgress(task);
+        markdown += `**Subtasks (${progress.done}/${progress.total}):**\n\n`;
+        writeSubtasks(task.children, 0);
+        markdown += '\n';
+      }
       markdown += '---\n\n';
     });
     
@@ -573,15 +1549,22 @@ const Tasks = () => {
   };
 
   const exportToJSON = () => {
+    const serialize = (t: TaskNode<Task>) => ({
+      title: t.title,
+      description: t.description,
+      completed: t.completed,
+      due_date: t.due_date,
+      recurrence_rule: t.recurrence_rule,
+      subject: t.subject,
+      priority: t.priority,
+      labels: getTaskLabels(labels, labelAssignments, t.id).map(label => label.name),
+      created_at: t.created_at,
+      subtasks: t.children.map(serialize),
+    });
+
     const data = {
       exported: new Date().toISOString(),
-      tasks: filteredAndSortedTasks.map(t => ({
-        title: t.title,
-        description: t.description,
-        completed: t.completed,
-        due_date: t.due_date,
-        created_at: t.created_at,
-      })),
+      tasks: taskTree.map(serialize),
     };
     
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
@@ -598,6 +1581,272 @@ const Tasks = () => {
     });
   };
 
+  const exportToICS = () => {
+    const dueTasks = tasks.filter(t => t.due_date);
+    if (dueTasks.length === 0) {
+      toast({
+        title: 'Nothing to export',
+        description: 'None of your tasks have a due date',
+      });
+      return;
+    }
+
+    const blob = new Blob([buildICalendar(dueTasks, [], { name: 'StudySpace Tasks' })], { type: 'text/calendar' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `tasks_${new Date().toISOString().split('T')[0]}.ics`;
+    a.click();
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: 'Exported!',
+      description: `${dueTasks.length} task(s) exported as iCalendar file`,
+    });
+  };
+
+  const renderTaskNode = (task: TaskNode<Task>) => {
+    const progress = getTaskProgress(task);
+    const rule = parseRRule(task.recurrence_rule);
+    const upcoming = rule && task.due_date && !task.completed
+      ? getUpcomingOccurrences(rule, new Date(task.due_date), task.occurrence_index)
+      : [];
+    const blockers = blockedTaskIds.has(task.id) ? getOpenBlockers(tasks, dependencies, task.id) : [];
+    const taskReminders = reminders.filter(r => r.task_id === task.id);
+    const tracked = trackedMinutes.get(task.id) ?? 0;
+
+    return (
+      <div key={task.id} className="space-y-3">
+        <Card 
+          className={`shadow-card hover:shadow-card-hover transition-smooth ${
+            selectedTasks.has(task.id) ? 'ring-2 ring-accent' : ''
+          } ${blockers.length > 0 ? 'opacity-60' : ''}`}
+        >
+          <CardContent className="flex items-start gap-4 pt-6">
+            <Checkbox
+              checked={selectedTasks.has(task.id)}
+              onCheckedChange={() => toggleTaskSelection(task.id)}
+              aria-label={`Select ${task.title}`}
+              className="mt-1"
+            />
+            <div className="flex-1">
+              <div className="flex items-center gap-2 mb-1">
+                {task.children.length > 0 && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-5 w-5 p-0"
+                    onClick={() => toggleCollapsed(task.id)}
+                    aria-label={collapsedTasks.has(task.id) ? 'Expand subtasks' : 'Collapse subtasks'}
+                  >
+                    {collapsedTasks.has(task.id) ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                  </Button>
+                )}
+                <button
+                  onClick={() => toggleTask(task.id, task.completed)}
+                  className={`font-semibold text-white hover:underline cursor-pointer ${task.completed ? 'line-through text-muted-foreground' : ''}`}
+                >
+                  {task.title}
+                </button>
+                {task.due_date && new Date(task.due_date) < new Date() && !task.completed && (
+                  <Badge variant="destructive" className="text-xs">Overdue</Badge>
+                )}
+                {task.priority && (
+                  <Badge variant="outline" className={`gap-1 text-xs capitalize ${PRIORITY_STYLES[task.priority]}`}>
+                    <Flag className="h-3 w-3" />
+                    {task.priority}
+                  </Badge>
+                )}
+                {task.subject && (
+                  <Badge variant="outline" className="gap-1 text-xs">
+                    <Hash className="h-3 w-3" />
+                    {task.subject}
+                  </Badge>
+                )}
+                {task.list_id && taskLists.some(l => l.id === task.list_id) && (
+                  <Badge variant="outline" className="gap-1 text-xs">
+                    <Users className="h-3 w-3" />
+                    {taskLists.find(l => l.id === task.list_id)?.name}
+                  </Badge>
+                )}
+                {task.assignee_id && (
+                  <Badge variant={task.assignee_id === user?.id ? 'default' : 'secondary'} className="gap-1 text-xs">
+                    <UserCheck className="h-3 w-3" />
+                    {task.assignee_id === user?.id ? 'Assigned to you' : memberNames.get(task.assignee_id) ?? 'Assigned'}
+                  </Badge>
+                )}
+                {(task.estimated_minutes || tracked > 0) && (
+                  <Badge
+                    variant="outline"
+                    className={`gap-1 text-xs ${task.estimated_minutes && tracked > task.estimated_minutes ? 'text-destructive' : ''}`}
+                    title="Tracked / estimated time"
+                  >
+                    <Timer className="h-3 w-3" />
+                    {formatMinutes(tracked)}
+                    {task.estimated_minutes ? ` / ${formatMinutes(task.estimated_minutes)}` : ''}
+                  </Badge>
+                )}
+                {getTaskLabels(labels, labelAssignments, task.id).map(label => (
+                  <Badge key={label.id} variant="outline" className="text-xs" style={getLabelStyle(label.color)}>
+                    {label.name}
+                  </Badge>
+                ))}
+                {blockers.length > 0 && (
+                  <Badge variant="secondary" className="gap-1 text-xs">
+                    <Lock className="h-3 w-3" />
+                    Blocked
+                  </Badge>
+                )}
+                {!task.completed && taskReminders.some(r => r.missed) ? (
+                  <Badge variant="destructive" className="gap-1 text-xs">
+                    <BellOff className="h-3 w-3" />
+                    Reminder missed
+                  </Badge>
+                ) : !task.completed && taskReminders.length > 0 && (
+                  <Badge variant="outline" className="gap-1 text-xs">
+                    <Bell className="h-3 w-3" />
+                    {taskReminders.length === 1 ? describeReminder(taskReminders[0]) : `${taskReminders.length} reminders`}
+                  </Badge>
+                )}
+              </div>
+            {blockers.length > 0 && (
+              <p className="text-xs text-white/70">
+                Waiting on: {blockers.map(b => b.title).join(', ')}
+              </p>
+            )}
+            {task.description && (
+              <div className="text-sm text-white/80 mt-1">
+                <TaskDescription content={task.description} />
+              </div>
+            )}
+            {task.due_date && (
+              <p className="text-xs text-white/70 mt-2">
+                Due: {new Date(task.due_date).toLocaleString()}
+              </p>
+            )}
+            {rule && (
+              <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-white/70">
+                <Badge variant="secondary" className="gap-1 text-xs">
+                  <Repeat className="h-3 w-3" />
+                  {describeRule(rule)}
+                </Badge>
+                {upcoming.length > 0 && (
+                  <span>Upcoming: {upcoming.map(d => d.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })).join(' · ')}</span>
+                )}
+              </div>
+            )}
+            {progress.total > 0 && (
+              <div className="flex items-center gap-2 mt-2">
+                <ListTree className="h-3 w-3 text-white/70" />
+                <Progress value={(progress.done / progress.total) * 100} className="h-1.5 flex-1 max-w-[200px]" />
+                <span className="text-xs text-white/70">{progress.done}/{progress.total} subtasks</span>
+              </div>
+            )}
+
+            {/* Attachments Display */}
+            {attachments.filter(a => a.task_id === task.id).length > 0 && (
+              <div className="mt-3 pt-3 border-t space-y-1">
+                <p className="text-xs font-medium text-white/80">Attachments:</p>
+                <div className="space-y-1">
+                  {attachments.filter(a => a.task_id === task.id).map((attachment) => (
+                    <div key={attachment.id} className="flex items-center justify-between text-xs p-1 bg-secondary/30 rounded">
+                      <a
+                        href={getFileUrl('task-attachments', attachment.storage_path)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 text-accent hover:underline truncate"
+                      >
+                        <span>{getFileIcon(attachment.file_type)}</span>
+                        <span className="truncate">{attachment.file_name}</span>
+                        <Download className="h-3 w-3" />
+                      </a>
+                      {user?.id === task.user_id && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-5 w-5 p-0"
+                          onClick={() => handleDeleteAttachment(attachment.id)}
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+          {canDiscussTask(task, taskLists, listMembers, user?.id) && (
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => setExpandedTask(expandedTask === task.id ? null : task.id)}
+              aria-label={expandedTask === task.id ? 'Hide activity' : 'Show activity and comments'}
+              aria-expanded={expandedTask === task.id}
+              title="Activity and comments"
+              className={expandedTask === task.id ? 'bg-accent/20' : ''}
+            >
+              <MessageSquare className="h-5 w-5" />
+            </Button>
+          )}
+          {canEditTask(task, taskLists, listMembers, user?.id) && (
+            <div className="flex gap-2">
+              {!task.completed && (
+                <Button size="icon" variant="ghost" asChild title="Focus on this task">
+                  <Link to={`/pomodoro?task=${task.id}`} aria-label="Start Pomodoro">
+                    <Timer className="h-5 w-5" />
+                  </Link>
+                </Button>
+              )}
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => openCreateSubtaskDialog(task)}
+                aria-label="Add Subtask"
+                title="Add subtask"
+              >
+                <Plus className="h-5 w-5" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => openEditDialog(task)}
+                aria-label="Edit Task"
+                className="hover:bg-accent/20 hover:text-accent transition-colors"
+              >
+                <Edit className="h-5 w-5 text-accent" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => handleDeleteTask(task.id)}
+                aria-label="Delete Task"
+              >
+                <Trash2 className="h-5 w-5 text-destructive" />
+              </Button>
+            </div>
+          )}
+          {task.completed ? (
+            <CheckCircle2 className="h-5 w-5 text-accent" />
+          ) : (
+            <Circle className="h-5 w-5 text-muted-foreground" />
+          )}
+          </CardContent>
+          {expandedTask === task.id && (
+            <CardContent className="border-t pt-4">
+              <TaskActivityPanel taskId={task.id} />
+            </CardContent>
+          )}
+        </Card>
+        {task.children.length > 0 && !collapsedTasks.has(task.id) && (
+          <div className="ml-6 pl-3 border-l border-border space-y-3">
+            {task.children.map(renderTaskNode)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-4">
@@ -635,7 +1884,7 @@ const Tasks = () => {
               )}
             </>
           )}
-          <Select onValueChange={(value) => value === 'markdown' ? exportToMarkdown() : exportToJSON()}>
+          <Select onValueChange={(value) => value === 'markdown' ? exportToMarkdown() : value === 'ics' ? exportToICS() : exportToJSON()}>
             <SelectTrigger className="w-[140px]">
               <DownloadIcon className="h-4 w-4 mr-2" />
               <SelectValue placeholder="Export" />
@@ -643,9 +1892,57 @@ const Tasks = () => {
             <SelectContent>
               <SelectItem value="markdown">Markdown</SelectItem>
               <SelectItem value="json">JSON</SelectItem>
+              <SelectItem value="ics">iCalendar (.ics)</SelectItem>
             </SelectContent>
           </Select>
-          <Dialog open={open} onValueChange={setOpen}>
+          <TaskListManager lists={taskLists} members={listMembers} usernames={memberNames} onChanged={fetchTaskLists} />
+          <TaskTimeReport tasks={tasks} entries={timeEntries} />
+          <TaskTemplatesDialog
+            nextPosition={tasks.filter(t => t.parent_id === null).length}
+            disabled={tasksLocked && !isAdmin}
+            onCreated={fetchTasks}
+          />
+          <Button variant="outline" className="gap-2" asChild>
+            <Link to="/trash">
+              <Trash2 className="h-4 w-4" />
+              Trash
+            </Link>
+          </Button>
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={() => setImportOpen(true)}
+            disabled={tasksLocked && !isAdmin}
+          >
+            <Upload className="h-4 w-4" />
+            Import
+          </Button>
+          <TaskImportDialog
+            open={importOpen}
+            onOpenChange={setImportOpen}
+            existingTasks={tasks}
+            labels={labels}
+            onImported={() => {
+              fetchTasks();
+              fetchLabels();
+            }}
+          />
+          <Dialog open={open} onOpenChange={(isOpen) => {
+            if (isOpen) {
+              setParentTaskId(null);
+              setRecurrence(null);
+              setSubject('');
+              setPriority(null);
+              setSelectedLabelIds([]);
+              setSelectedBlockerIds([]);
+              setSelectedReminders([]);
+              setEstimate('');
+              // New tasks go into the shared list being viewed
+              setTaskListId(editableLists.some(l => l.id === listFilter) ? listFilter : null);
+              setAssigneeId(null);
+            }
+            setOpen(isOpen);
+          }}>
             <DialogTrigger asChild>
               <Button className="gap-2" disabled={tasksLocked && !isAdmin} title={tasksLocked && !isAdmin ? 'Tasks are locked - only admins can create' : ''}>
                 <Plus className="h-4 w-4" />
@@ -669,6 +1966,7 @@ const Tasks = () => {
                     setTitle(draft.title || '');
                     setDescription(draft.description || '');
                     setDueDate(draft.dueDate || '');
+                    setRecurrence(draft.recurrence || null);
                   }
                 }}>Restore</Button>
                 <Button size="sm" variant="outline" onClick={() => clearCreateTaskDraft()}>Discard</Button>
@@ -676,8 +1974,12 @@ const Tasks = () => {
             </div>
           )}
             <DialogHeader>
-              <DialogTitle>Create New Task</DialogTitle>
-              <p className="text-sm text-muted-foreground">Add a new task to your list. All fields except title are optional.</p>
+              <DialogTitle>{parentTaskId ? 'Add Subtask' : 'Create New Task'}</DialogTitle>
+              <p className="text-sm text-muted-foreground">
+                {parentTaskId
+                  ? `Add a step to "${tasks.find(t => t.id === parentTaskId)?.title ?? 'task'}".`
+                  : 'Add a new task to your list. All fields except title are optional.'}
+              </p>
             </DialogHeader>
             <form onSubmit={handleCreateTask} className="space-y-4">
               <div className="space-y-2">
@@ -729,6 +2031,123 @@ const Tasks = () => {
                   onChange={(e) => setDueDate(e.target.value)}
                 />
               </div>
+              <RecurrencePicker id="recurrence" value={recurrence} onChange={setRecurrence} anchorDate={dueDate} />
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="subject">Subject (Optional)</Label>
+                  <Input
+                    id="subject"
+                    value={subject}
+                    onChange={(e) => setSubject(e.target.value)}
+                    placeholder="e.g. biology"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="priority">Priority (Optional)</Label>
+                  <Select value={priority ?? 'none'} onValueChange={(v) => setPriority(v === 'none' ? null : v as TaskPriority)}>
+                    <SelectTrigger id="priority">
+                      <SelectValue placeholder="No priority" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No priority</SelectItem>
+                      {TASK_PRIORITIES.map(p => (
+                        <SelectItem key={p} value={p} className="capitalize">{p}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              <div className="space-y-2">
+                <Label>Labels (Optional)</Label>
+                <TaskLabelPicker
+                  labels={labels}
+                  selectedIds={selectedLabelIds}
+                  onChange={setSelectedLabelIds}
+                  onCreateLabel={handleCreateLabel}
+                  onDeleteLabel={handleDeleteLabel}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Blocked By (Optional)</Label>
+                <TaskDependencyPicker
+                  tasks={tasks}
+                  taskId={editingTask?.id ?? null}
+                  dependencies={dependencies}
+                  selectedIds={selectedBlockerIds}
+                  onChange={setSelectedBlockerIds}
+                />
+              </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Reminders (Optional)</Label>
+                <TaskReminderPicker value={selectedReminders} onChange={setSelectedReminders} dueDate={dueDate} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="estimate">Time Estimate (Optional)</Label>
+                <Input
+                  id="estimate"
+                  value={estimate}
+                  onChange={(e) => setEstimate(e.target.value)}
+                  placeholder="e.g. 1h 30m"
+                />
+              </div>
+              {(taskLists.length > 0 || taskListId) && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="taskList">Shared List (Optional)</Label>
+                    <Select
+                      value={taskListId ?? 'personal'}
+                      onValueChange={(v) => {
+                        setTaskListId(v === 'personal' ? null : v);
+                        setAssigneeId(null);
+                      }}
+                    >
+                      <SelectTrigger id="taskList">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="personal">Personal</SelectItem>
+                        {editableLists.map(list => (
+                          <SelectItem key={list.id} value={list.id}>{list.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="assignee">Assign To (Optional)</Label>
+                    <Select
+                      value={assigneeId ?? 'none'}
+                      onValueChange={(v) => setAssigneeId(v === 'none' ? null : v)}
+                      disabled={!taskListId}
+                    >
+                      <SelectTrigger id="assignee">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Unassigned</SelectItem>
+                        {assigneeOptions.map(id => (
+                          <SelectItem key={id} value={id}>
+                            {memberNames.get(id) ?? 'Unknown'}{id === user?.id ? ' (you)' : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="parentTask">Parent Task (Optional)</Label>
+                <Select value={parentTaskId ?? 'none'} onValueChange={(v) => setParentTaskId(v === 'none' ? null : v)}>
+                  <SelectTrigger id="parentTask">
+                    <SelectValue placeholder="None (top-level task)" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None (top-level task)</SelectItem>
+                    {parentOptions.map(t => (
+                      <SelectItem key={t.id} value={t.id}>{t.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
 
               {/* File Upload Section */}
               <div className="space-y-2 w-full">
@@ -837,6 +2256,16 @@ const Tasks = () => {
           setTitle('');
           setDescription('');
           setDueDate('');
+          setRecurrence(null);
+          setSubject('');
+          setPriority(null);
+          setSelectedLabelIds([]);
+          setSelectedBlockerIds([]);
+          setSelectedReminders([]);
+          setEstimate('');
+          setTaskListId(null);
+          setAssigneeId(null);
+          setParentTaskId(null);
         }
         setEditOpen(open);
       }}>
@@ -851,6 +2280,7 @@ const Tasks = () => {
                     setTitle(draft.title || '');
                     setDescription(draft.description || '');
                     setDueDate(draft.dueDate || '');
+                    setRecurrence(draft.recurrence || null);
                   }
                 }}>Restore</Button>
                 <Button size="sm" variant="outline" onClick={() => clearEditTaskDraft()}>Discard</Button>
@@ -904,6 +2334,123 @@ const Tasks = () => {
                 onChange={(e) => setDueDate(e.target.value)}
               />
             </div>
+            <RecurrencePicker id="edit-recurrence" value={recurrence} onChange={setRecurrence} anchorDate={dueDate} />
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="edit-subject">Subject (Optional)</Label>
+                <Input
+                  id="edit-subject"
+                  value={subject}
+                  onChange={(e) => setSubject(e.target.value)}
+                  placeholder="e.g. biology"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-priority">Priority (Optional)</Label>
+                <Select value={priority ?? 'none'} onValueChange={(v) => setPriority(v === 'none' ? null : v as TaskPriority)}>
+                  <SelectTrigger id="edit-priority">
+                    <SelectValue placeholder="No priority" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No priority</SelectItem>
+                    {TASK_PRIORITIES.map(p => (
+                      <SelectItem key={p} value={p} className="capitalize">{p}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            <div className="space-y-2">
+              <Label>Labels (Optional)</Label>
+              <TaskLabelPicker
+                labels={labels}
+                selectedIds={selectedLabelIds}
+                onChange={setSelectedLabelIds}
+                onCreateLabel={handleCreateLabel}
+                onDeleteLabel={handleDeleteLabel}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Blocked By (Optional)</Label>
+              <TaskDependencyPicker
+                tasks={tasks}
+                taskId={editingTask?.id ?? null}
+                dependencies={dependencies}
+                selectedIds={selectedBlockerIds}
+                onChange={setSelectedBlockerIds}
+              />
+            </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Reminders (Optional)</Label>
+              <TaskReminderPicker value={selectedReminders} onChange={setSelectedReminders} dueDate={dueDate} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-estimate">Time Estimate (Optional)</Label>
+              <Input
+                id="edit-estimate"
+                value={estimate}
+                onChange={(e) => setEstimate(e.target.value)}
+                placeholder="e.g. 1h 30m"
+              />
+            </div>
+            {(taskLists.length > 0 || taskListId) && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="edit-taskList">Shared List (Optional)</Label>
+                  <Select
+                    value={taskListId ?? 'personal'}
+                    onValueChange={(v) => {
+                      setTaskListId(v === 'personal' ? null : v);
+                      setAssigneeId(null);
+                    }}
+                  >
+                    <SelectTrigger id="edit-taskList">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="personal">Personal</SelectItem>
+                      {editableLists.map(list => (
+                        <SelectItem key={list.id} value={list.id}>{list.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-assignee">Assign To (Optional)</Label>
+                  <Select
+                    value={assigneeId ?? 'none'}
+                    onValueChange={(v) => setAssigneeId(v === 'none' ? null : v)}
+                    disabled={!taskListId}
+                  >
+                    <SelectTrigger id="edit-assignee">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Unassigned</SelectItem>
+                      {assigneeOptions.map(id => (
+                        <SelectItem key={id} value={id}>
+                          {memberNames.get(id) ?? 'Unknown'}{id === user?.id ? ' (you)' : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="edit-parentTask">Parent Task (Optional)</Label>
+              <Select value={parentTaskId ?? 'none'} onValueChange={(v) => setParentTaskId(v === 'none' ? null : v)}>
+                <SelectTrigger id="edit-parentTask">
+                  <SelectValue placeholder="None (top-level task)" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None (top-level task)</SelectItem>
+                  {parentOptions.map(t => (
+                    <SelectItem key={t.id} value={t.id}>{t.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div className="flex gap-2 justify-end">
               <Button type="button" variant="outline" onClick={() => setEditOpen(false)}>
                 Cancel
@@ -914,32 +2461,134 @@ const Tasks = () => {
         </DialogContent>
       </Dialog>
 
+      <QuickAddBar onAdd={handleQuickAdd} disabled={tasksLocked && !isAdmin} />
+
+      {activeSmartList && (
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-accent/40 bg-accent/10 px-4 py-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <Bookmark className="h-4 w-4 text-accent flex-shrink-0" />
+            <span className="font-medium truncate">{activeSmartList.name}</span>
+            <code className="text-xs text-muted-foreground truncate">{activeSmartList.query}</code>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="ghost" onClick={() => { setSearchQuery(''); setSearchParams({}); }}>
+              Show all tasks
+            </Button>
+            <Button size="sm" variant="ghost" className="text-destructive" onClick={handleDeleteSmartList}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Save Smart List Dialog */}
+      <Dialog open={saveListOpen} onOpenChange={setSaveListOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save Smart List</DialogTitle>
+            <p className="text-sm text-muted-foreground">
+              Saved filters appear under Tasks in the sidebar.
+            </p>
+          </DialogHeader>
+          <form onSubmit={handleSaveSmartList} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="smart-list-name">Name</Label>
+              <Input
+                id="smart-list-name"
+                value={smartListName}
+                onChange={(e) => setSmartListName(e.target.value)}
+                placeholder="e.g. Exam prep this week"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Filter</Label>
+              <code className="block text-sm p-2 bg-secondary/30 rounded">{searchQuery}</code>
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={() => setSaveListOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">Save</Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
       {/* Filters and Search */}
       <Card>
         <CardContent className="pt-6">
           <div className="flex flex-col gap-3">
-            <div className="flex items-center gap-3">
-              <Checkbox
-                checked={selectedTasks.size > 0 && selectedTasks.size === filteredAndSortedTasks.length}
-                onCheckedChange={selectAllTasks}
-                aria-label="Select all tasks"
-              />
-              <span className="text-sm text-muted-foreground">
-                {selectedTasks.size === filteredAndSortedTasks.length && filteredAndSortedTasks.length > 0
-                  ? 'Deselect all'
-                  : 'Select all'}
-              </span>
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <Checkbox
+                  checked={selectedTasks.size > 0 && selectedTasks.size === filteredAndSortedTasks.length}
+                  onCheckedChange={selectAllTasks}
+                  aria-label="Select all tasks"
+                />
+                <span className="text-sm text-muted-foreground">
+                  {selectedTasks.size === filteredAndSortedTasks.length && filteredAndSortedTasks.length > 0
+                    ? 'Deselect all'
+                    : 'Select all'}
+                </span>
+              </div>
+              <Tabs value={viewMode} onValueChange={handleViewModeChange}>
+                <TabsList>
+                  <TabsTrigger value="list" className="gap-2">
+                    <LayoutList className="h-4 w-4" />
+                    List
+                  </TabsTrigger>
+                  <TabsTrigger value="board" className="gap-2">
+                    <Kanban className="h-4 w-4" />
+                    Board
+                  </TabsTrigger>
+                  <TabsTrigger value="calendar" className="gap-2">
+                    <CalendarDays className="h-4 w-4" />
+                    Calendar
+                  </TabsTrigger>
+                </TabsList>
+              </Tabs>
             </div>
             <div className="flex flex-col md:flex-row gap-3">
-              <div className="flex-1">
-                <Input
-                  placeholder="Search tasks by title, description..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  aria-label="Search tasks"
-                  className="w-full"
-                />
+              <div className="flex-1 space-y-1">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder='Search or filter, e.g. "label:exam priority:high due:<7d"'
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    aria-label="Search tasks"
+                    className="w-full"
+                  />
+                  {activeSmartList ? (
+                    searchQuery.trim() !== activeSmartList.query && (
+                      <Button variant="outline" onClick={handleUpdateSmartList} disabled={!searchQuery.trim()} className="gap-2 flex-shrink-0">
+                        <Bookmark className="h-4 w-4" />
+                        Update list
+                      </Button>
+                    )
+                  ) : (
+                    <Button variant="outline" onClick={() => setSaveListOpen(true)} disabled={!searchQuery.trim()} className="gap-2 flex-shrink-0">
+                      <Bookmark className="h-4 w-4" />
+                      Save as list
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">{FILTER_SYNTAX_HELP}</p>
               </div>
+            <Select value={listFilter} onValueChange={setListFilter}>
+              <SelectTrigger className="w-full md:w-[180px]" aria-label="Show tasks from">
+                <Users className="h-4 w-4 mr-2" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Everyone's Tasks</SelectItem>
+                <SelectItem value="mine">My Tasks</SelectItem>
+                <SelectItem value="assigned">Assigned to Me</SelectItem>
+                {taskLists.map(list => (
+                  <SelectItem key={list.id} value={list.id}>{list.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <Select value={filterStatus} onValueChange={(v: any) => setFilterStatus(v)}>
               <SelectTrigger className="w-full md:w-[180px]">
                 <Filter className="h-4 w-4 mr-2" />
@@ -948,6 +2597,7 @@ const Tasks = () => {
               <SelectContent>
                 <SelectItem value="all">All Tasks</SelectItem>
                 <SelectItem value="active">Active Only</SelectItem>
+                <SelectItem value="ready">Ready to Start</SelectItem>
                 <SelectItem value="completed">Completed Only</SelectItem>
               </SelectContent>
             </Select>
@@ -960,6 +2610,7 @@ const Tasks = () => {
                 <SelectItem value="created">Date Created</SelectItem>
                 <SelectItem value="due">Due Date</SelectItem>
                 <SelectItem value="title">Alphabetical</SelectItem>
+                <SelectItem value="priority">Priority</SelectItem>
               </SelectContent>
               </Select>
             </div>
@@ -967,107 +2618,70 @@ const Tasks = () => {
         </CardContent>
       </Card>      {loading ? (
         <TasksGridSkeleton />
-      ) : (
-        <div className="space-y-3">
-          {filteredAndSortedTasks.map((task) => (
-            <Card 
-              key={task.id} 
-              className={`shadow-card hover:shadow-card-hover transition-smooth ${
-                selectedTasks.has(task.id) ? 'ring-2 ring-accent' : ''
-              }`}
-            >
-              <CardContent className="flex items-start gap-4 pt-6">
-                <Checkbox
-                  checked={selectedTasks.has(task.id)}
-                  onCheckedChange={() => toggleTaskSelection(task.id)}
-                  aria-label={`Select ${task.title}`}
-                  className="mt-1"
-                />
-                <div className="flex-1">
-                  <div className="flex items-center gap-2 mb-1">
-                    <button
-                      onClick={() => toggleTask(task.id, task.completed)}
-                      className={`font-semibold text-white hover:underline cursor-pointer ${task.completed ? 'line-through text-muted-foreground' : ''}`}
-                    >
-                      {task.title}
-                    </button>
-                    {task.due_date && new Date(task.due_date) < new Date() && !task.completed && (
-                      <Badge variant="destructive" className="text-xs">Overdue</Badge>
+      ) : viewMode === 'calendar' ? (
+        <TaskCalendar
+          tasks={filteredAndSortedTasks}
+          currentUserId={user?.id}
+          canEditTask={(task) => canEditTask(task, taskLists, listMembers, user?.id)}
+          onReschedule={handleRescheduleTask}
+          onToggleTask={(task) => toggleTask(task.id, task.completed)}
+          onEditTask={openEditDialog}
+        />
+      ) : viewMode === 'board' ? (
+        <TaskBoard
+          tasks={taskTree}
+          columns={boardColumns}
+          currentUserId={user?.id}
+          canEditTask={(task) => canEditTask(task, taskLists, listMembers, user?.id)}
+          onMoveTask={handleMoveTaskOnBoard}
+          onToggleTask={(task) => toggleTask(task.id, task.completed)}
+          onEditTask={openEditDialog}
+          onAddColumn={handleAddBoardColumn}
+          onRenameColumn={handleRenameBoardColumn}
+          onDeleteColumn={handleDeleteBoardColumn}
+          onMoveColumn={handleMoveBoardColumn}
+          onSetTerminalColumn={handleSetTerminalColumn}
+          renderCardFooter={(task: TaskNode<Task>) => {
+            const progress = getTaskProgress(task);
+            const taskLabels = getTaskLabels(labels, labelAssignments, task.id);
+            const blockers = blockedTaskIds.has(task.id) ? getOpenBlockers(tasks, dependencies, task.id) : [];
+            return (
+              <>
+                {blockers.length > 0 && (
+                  <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <Lock className="h-3 w-3 flex-shrink-0" />
+                    <span className="truncate">Waiting on: {blockers.map(b => b.title).join(', ')}</span>
+                  </p>
+                )}
+                {(task.priority || taskLabels.length > 0) && (
+                  <div className="flex flex-wrap gap-1">
+                    {task.priority && (
+                      <Badge variant="outline" className={`gap-1 text-xs capitalize ${PRIORITY_STYLES[task.priority]}`}>
+                        <Flag className="h-3 w-3" />
+                        {task.priority}
+                      </Badge>
                     )}
+                    {taskLabels.map(label => (
+                      <Badge key={label.id} variant="outline" className="text-xs" style={getLabelStyle(label.color)}>
+                        {label.name}
+                      </Badge>
+                    ))}
                   </div>
-                {task.description && (
-                  <div className="text-sm text-white/80 mt-1">
-                    <TaskDescription content={task.description} />
-                  </div>
-                )}
-                {task.due_date && (
-                  <p className="text-xs text-white/70 mt-2">
-                    Due: {new Date(task.due_date).toLocaleString()}
-                  </p>
                 )}
-
-                {/* Attachments Display */}
-                {attachments.filter(a => a.task_id === task.id).length > 0 && (
-                  <div className="mt-3 pt-3 border-t space-y-1">
-                    <p className="text-xs font-medium text-white/80">Attachments:</p>
-                    <div className="space-y-1">
-                      {attachments.filter(a => a.task_id === task.id).map((attachment) => (
-                        <div key={attachment.id} className="flex items-center justify-between text-xs p-1 bg-secondary/30 rounded">
-                          <a
-                            href={getFileUrl('task-attachments', attachment.storage_path)}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="flex items-center gap-1 text-accent hover:underline truncate"
-                          >
-                            <span>{getFileIcon(attachment.file_type)}</span>
-                            <span className="truncate">{attachment.file_name}</span>
-                            <Download className="h-3 w-3" />
-                          </a>
-                          {user?.id === task.user_id && (
-                            <Button
-                              size="sm"
-                              variant="ghost"
-                              className="h-5 w-5 p-0"
-                              onClick={() => handleDeleteAttachment(attachment.id, attachment.storage_path)}
-                            >
-                              <X className="h-3 w-3" />
-                            </Button>
-                          )}
-                        </div>
-                      ))}
-                    </div>
+                {progress.total > 0 && (
+                  <div className="flex items-center gap-2">
+                    <ListTree className="h-3 w-3 text-muted-foreground" />
+                    <Progress value={(progress.done / progress.total) * 100} className="h-1.5 flex-1" />
+                    <span className="text-xs text-muted-foreground">{progress.done}/{progress.total}</span>
                   </div>
                 )}
-              </div>
-              {user?.id === task.user_id && (
-                <div className="flex gap-2">
-                  <Button
-                    size="icon"
-                    variant="ghost"
-                    onClick={() => openEditDialog(task)}
-                    aria-label="Edit Task"
-                    className="hover:bg-accent/20 hover:text-accent transition-colors"
-                  >
-                    <Edit className="h-5 w-5 text-accent" />
-                  </Button>
-                  <Button
-                    size="icon"
-                    variant="ghost"
-                    onClick={() => handleDeleteTask(task.id)}
-                    aria-label="Delete Task"
-                  >
-                    <Trash2 className="h-5 w-5 text-destructive" />
-                  </Button>
-                </div>
-              )}
-              {task.completed ? (
-                <CheckCircle2 className="h-5 w-5 text-accent" />
-              ) : (
-                <Circle className="h-5 w-5 text-muted-foreground" />
-              )}
-            </CardContent>
-          </Card>
-        ))}
+              </>
+            );
+          }}
+        />
+      ) : (
+        <div className="space-y-3">
+          {taskTree.map(renderTaskNode)}
         </div>
       )}
 
@@ -0,0 +1,346 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { CheckSquare, ChevronLeft, FileText, Paperclip, RotateCcw, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { deleteFile, formatFileSize } from '@/lib/file-upload';
+import { getDescendantIds } from '@/lib/task-tree';
+import { getDaysLeft, getTrashGroupIds, getTrashRoots, TRASH_RETENTION_DAYS } from '@/lib/trash';
+
+interface TrashedNote {
+  id: string;
+  title: string;
+  subject: string | null;
+  deleted_at: string;
+}
+
+interface TrashedTask {
+  id: string;
+  title: string;
+  subject: string | null;
+  parent_id: string | null;
+  completed: boolean;
+  deleted_at: string;
+}
+
+interface TrashedAttachment {
+  id: string;
+  bucket: 'note-attachments' | 'task-attachments';
+  file_name: string;
+  file_size: number;
+  storage_path: string;
+  deleted_at: string;
+  /** title of the note or task it belongs to */
+  parent_title: string | null;
+}
+
+const TrashRow = ({
+  icon: Icon,
+  title,
+  detail,
+  deletedAt,
+  onRestore,
+  onDelete,
+}: {
+  icon: typeof FileText;
+  title: string;
+  detail?: string | null;
+  deletedAt: string;
+  onRestore: () => void;
+  onDelete: () => void;
+}) => {
+  const daysLeft = getDaysLeft(deletedAt);
+  return (
+    <Card>
+      <CardContent className="p-4 flex items-center justify-between gap-4">
+        <div className="flex items-start gap-3 min-w-0">
+          <Icon className="h-5 w-5 text-muted-foreground mt-0.5 shrink-0" />
+          <div className="min-w-0">
+            <p className="font-medium truncate">{title}</p>
+            <p className="text-xs text-muted-foreground">
+              {detail && `${detail} · `}
+              Deleted {formatDistanceToNow(new Date(deletedAt), { addSuffix: true })}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Badge variant={daysLeft <= 3 ? 'destructive' : 'secondary'} className="text-xs">
+            {daysLeft === 0 ? 'Purged today' : `${daysLeft} day${daysLeft === 1 ? '' : 's'} left`}
+          </Badge>
+          <Button size="sm" variant="outline" className="gap-2" onClick={onRestore}>
+            <RotateCcw className="h-4 w-4" />
+            Restore
+          </Button>
+          <Button size="icon" variant="ghost" onClick={onDelete} aria-label={`Delete ${title} forever`}>
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default function Trash() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [notes, setNotes] = useState<TrashedNote[]>([]);
+  const [tasks, setTasks] = useState<TrashedTask[]>([]);
+  const [attachments, setAttachments] = useState<TrashedAttachment[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const showError = useCallback((description: string) => {
+    toast({
+      title: 'Error',
+      description,
+      variant: 'destructive',
+    });
+  }, [toast]);
+
+  const fetchTrash = useCallback(async () => {
+    if (!user) return;
+    const [{ data: noteData }, { data: taskData }, { data: taskFiles }, { data: noteFiles }] = await Promise.all([
+      supabase
+        .from('notes')
+        .select('id, title, subject, deleted_at')
+        .eq('user_id', user.id)
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false }),
+      supabase
+        .from('tasks')
+        .select('id, title, subject, parent_id, completed, deleted_at')
+        .eq('user_id', user.id)
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false }),
+      supabase
+        .from('task_attachments')
+        .select('id, file_name, file_size, storage_path, deleted_at, tasks (title)')
+        .eq('user_id', user.id)
+        .not('deleted_at', 'is', null),
+      supabase
+        .from('note_attachments')
+        .select('id, file_name, file_size, storage_path, deleted_at, notes (title)')
+        .eq('user_id', user.id)
+        .not('deleted_at', 'is', null),
+    ]);
+
+    setNotes((noteData || []) as TrashedNote[]);
+    setTasks((taskData || []) as TrashedTask[]);
+    setAttachments([
+      ...(taskFiles || []).map(f => ({
+        ...f,
+        bucket: 'task-attachments' as const,
+        deleted_at: f.deleted_at as string,
+        parent_title: f.tasks?.title ?? null,
+      })),
+      ...(noteFiles || []).map(f => ({
+        ...f,
+        bucket: 'note-attachments' as const,
+        deleted_at: f.deleted_at as string,
+        parent_title: f.notes?.title ?? null,
+      })),
+    ].sort((a, b) => b.deleted_at.localeCompare(a.deleted_at)));
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  const removeFiles = async (bucket: TrashedAttachment['bucket'], paths: string[]) => {
+    await Promise.all(paths.map(path => deleteFile(bucket, path)));
+  };
+
+  const restoreNote = async (note: TrashedNote) => {
+    const { error } = await supabase.from('notes').update({ deleted_at: null }).eq('id', note.id);
+    if (error) return showError('Failed to restore note');
+    toast({ title: 'Restored', description: `"${note.title}" is back in your notes` });
+    fetchTrash();
+  };
+
+  const deleteNote = async (note: TrashedNote) => {
+    if (!confirm(`Delete "${note.title}" forever? This cannot be undone.`)) return;
+    const { data: files } = await supabase.from('note_attachments').select('storage_path').eq('note_id', note.id);
+    const { error } = await supabase.from('notes').delete().eq('id', note.id);
+    if (error) return showError('Failed to delete note');
+    await removeFiles('note-attachments', (files || []).map(f => f.storage_path));
+    fetchTrash();
+  };
+
+  const restoreTask = async (task: TrashedTask) => {
+    const ids = getTrashGroupIds(tasks, task.id);
+    const { error } = await supabase.from('tasks').update({ deleted_at: null }).in('id', ids);
+    if (error) return showError('Failed to restore task');
+
+    // A subtask whose parent is still in the trash comes back as a top-level task
+    if (task.parent_id && tasks.some(t => t.id === task.parent_id)) {
+      await supabase.from('tasks').update({ parent_id: null }).eq('id', task.id);
+    }
+    toast({
+      title: 'Restored',
+      description: ids.length > 1 ? `"${task.title}" and ${ids.length - 1} subtask(s) restored` : `"${task.title}" restored`,
+    });
+    fetchTrash();
+  };
+
+  const deleteTask = async (task: TrashedTask) => {
+    const ids = [task.id, ...getDescendantIds(tasks, task.id)];
+    const message = ids.length > 1
+      ? `Delete "${task.title}" and ${ids.length - 1} subtask(s) forever? This cannot be undone.`
+      : `Delete "${task.title}" forever? This cannot be undone.`;
+    if (!confirm(message)) return;
+    const { data: files } = await supabase.from('task_attachments').select('storage_path').in('task_id', ids);
+    const { error } = await supabase.from('tasks').delete().in('id', ids);
+    if (error) return showError('Failed to delete task');
+    await removeFiles('task-attachments', (files || []).map(f => f.storage_path));
+    fetchTrash();
+  };
+
+  const restoreAttachment = async (attachment: TrashedAttachment) => {
+    const table = attachment.bucket === 'task-attachments' ? 'task_attachments' : 'note_attachments';
+    const { error } = await supabase.from(table).update({ deleted_at: null }).eq('id', attachment.id);
+    if (error) return showError('Failed to restore attachment');
+    toast({ title: 'Restored', description: `${attachment.file_name} restored` });
+    fetchTrash();
+  };
+
+  const deleteAttachment = async (attachment: TrashedAttachment) => {
+    if (!confirm(`Delete ${attachment.file_name} forever? This cannot be undone.`)) return;
+    const result = await deleteFile(attachment.bucket, attachment.storage_path);
+    if (!result.success) return showError('Failed to delete attachment');
+    const table = attachment.bucket === 'task-attachments' ? 'task_attachments' : 'note_attachments';
+    await supabase.from(table).delete().eq('id', attachment.id);
+    fetchTrash();
+  };
+
+  const emptyTrash = async () => {
+    if (!confirm('Delete everything in the trash forever? This cannot be undone.')) return;
+    const noteIds = notes.map(n => n.id);
+    const taskIds = tasks.map(t => t.id);
+
+    const [{ data: noteFiles }, { data: taskFiles }] = await Promise.all([
+      supabase.from('note_attachments').select('storage_path').in('note_id', noteIds),
+      supabase.from('task_attachments').select('storage_path').in('task_id', taskIds),
+    ]);
+    const results = await Promise.all([
+      supabase.from('notes').delete().in('id', noteIds),
+      supabase.from('tasks').delete().in('id', taskIds),
+      supabase.from('task_attachments').delete().in('id', attachments.filter(a => a.bucket === 'task-attachments').map(a => a.id)),
+      supabase.from('note_attachments').delete().in('id', attachments.filter(a => a.bucket === 'note-attachments').map(a => a.id)),
+    ]);
+    if (results.some(r => r.error)) showError('Some items could not be deleted');
+
+    await Promise.all([
+      removeFiles('note-attachments', [
+        ...(noteFiles || []).map(f => f.storage_path),
+        ...attachments.filter(a => a.bucket === 'note-attachments').map(a => a.storage_path),
+      ]),
+      removeFiles('task-attachments', [
+        ...(taskFiles || []).map(f => f.storage_path),
+        ...attachments.filter(a => a.bucket === 'task-attachments').map(a => a.storage_path),
+      ]),
+    ]);
+    toast({ title: 'Trash emptied' });
+    fetchTrash();
+  };
+
+  const taskRoots = getTrashRoots(tasks);
+  const isEmpty = notes.length === 0 && tasks.length === 0 && attachments.length === 0;
+
+  const emptyState = (label: string) => (
+    <p className="text-sm text-muted-foreground text-center py-12">No deleted {label}.</p>
+  );
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate(-1)} className="rounded-full">
+            <ChevronLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">Trash</h1>
+            <p className="text-muted-foreground text-sm">
+              Deleted notes, tasks and attachments are kept for {TRASH_RETENTION_DAYS} days
+            </p>
+          </div>
+        </div>
+        <Button variant="destructive" className="gap-2" onClick={emptyTrash} disabled={isEmpty}>
+          <Trash2 className="h-4 w-4" />
+          Empty Trash
+        </Button>
+      </div>
+
+      <Tabs defaultValue="notes" className="w-full">
+        <TabsList className="grid w-full max-w-md grid-cols-3">
+          <TabsTrigger value="notes" className="gap-2">
+            <FileText className="h-4 w-4" />
+            Notes ({notes.length})
+          </TabsTrigger>
+          <TabsTrigger value="tasks" className="gap-2">
+            <CheckSquare className="h-4 w-4" />
+            Tasks ({taskRoots.length})
+          </TabsTrigger>
+          <TabsTrigger value="attachments" className="gap-2">
+            <Paperclip className="h-4 w-4" />
+            Files ({attachments.length})
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="notes" className="space-y-2">
+          {!loading && notes.length === 0 && emptyState('notes')}
+          {notes.map(note => (
+            <TrashRow
+              key={note.id}
+              icon={FileText}
+              title={note.title}
+              detail={note.subject}
+              deletedAt={note.deleted_at}
+              onRestore={() => restoreNote(note)}
+              onDelete={() => deleteNote(note)}
+            />
+          ))}
+        </TabsContent>
+
+        <TabsContent value="tasks" className="space-y-2">
+          {!loading && taskRoots.length === 0 && emptyState('tasks')}
+          {taskRoots.map(task => {
+            const subtasks = getTrashGroupIds(tasks, task.id).length - 1;
+            return (
+              <TrashRow
+                key={task.id}
+                icon={CheckSquare}
+                title={task.title}
+                detail={[task.subject, subtasks > 0 && `${subtasks} subtask(s)`].filter(Boolean).join(' · ') || null}
+                deletedAt={task.deleted_at}
+                onRestore={() => restoreTask(task)}
+                onDelete={() => deleteTask(task)}
+              />
+            );
+          })}
+        </TabsContent>
+
+        <TabsContent value="attachments" className="space-y-2">
+          {!loading && attachments.length === 0 && emptyState('files')}
+          {attachments.map(attachment => (
+            <TrashRow
+              key={attachment.id}
+              icon={Paperclip}
+              title={attachment.file_name}
+              detail={[formatFileSize(attachment.file_size), attachment.parent_title && `from ${attachment.parent_title}`].filter(Boolean).join(' · ')}
+              deletedAt={attachment.deleted_at}
+              onRestore={() => restoreAttachment(attachment)}
+              onDelete={() => deleteAttachment(attachment)}
+            />
+          ))}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { getCurrentStreak } from '@/lib/flashcards';
 import { useAuth } from '@/components/AuthProvider';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/card';
@@ -14,6 +15,7 @@ interface User {
   email: string;
   points: number;
   streak: number;
+  last_study_date: string | null;
 }
 
 export default function UserDiscovery() {
@@ -35,7 +37,7 @@ export default function UserDiscovery() {
       setLoading(true);
       const { data, error } = await supabase
         .from('profiles')
-        .select('id, username, email, points, streak')
+        .select('id, username, email, points, streak, last_study_date')
         .neq('id', user.id)
         .order('points', { ascending: false });
 
@@ -120,7 +122,7 @@ export default function UserDiscovery() {
                     </div>
                     <div>
                       <p className="text-muted-foreground">Streak</p>
-                      <p className="font-semibold">{u.streak}</p>
+                      <p className="font-semibold">{getCurrentStreak(u.streak, u.last_study_date)}</p>
                     </div>
                   </div>
                   <Button
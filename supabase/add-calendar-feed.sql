@@ -0,0 +1,57 @@
+-- CALENDAR EXPORT: scheduled study rooms and per-user secret feed URLs
+
+-- Optional schedule so rooms can show up in calendar apps
+ALTER TABLE public.study_rooms
+  ADD COLUMN IF NOT EXISTS scheduled_start TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS scheduled_end TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.study_rooms DROP CONSTRAINT IF EXISTS study_rooms_schedule_check;
+ALTER TABLE public.study_rooms ADD CONSTRAINT study_rooms_schedule_check
+  CHECK (scheduled_end IS NULL OR (scheduled_start IS NOT NULL AND scheduled_end > scheduled_start));
+
+CREATE INDEX IF NOT EXISTS idx_study_rooms_scheduled_start
+  ON public.study_rooms(scheduled_start) WHERE scheduled_start IS NOT NULL;
+
+-- One secret token per user; the calendar-feed function looks users up by it.
+-- Rotating replaces the token, so the old URL stops working immediately.
+CREATE TABLE IF NOT EXISTS public.calendar_feeds (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  token TEXT UNIQUE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own calendar feed"
+  ON public.calendar_feeds FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own calendar feed"
+  ON public.calendar_feeds FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Tokens are only ever written here so clients cannot pick their own
+CREATE OR REPLACE FUNCTION public.rotate_calendar_feed_token()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_token TEXT := replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.calendar_feeds (user_id, token)
+  VALUES (auth.uid(), new_token)
+  ON CONFLICT (user_id) DO UPDATE
+    SET token = EXCLUDED.token, updated_at = now();
+
+  RETURN new_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rotate_calendar_feed_token() TO authenticated;
@@ -0,0 +1,108 @@
+-- FLASHCARDS
+-- Cards are written inside notes (`Q:: ... A:: ...` and `{{c1::...}}` cloze
+-- deletions) and extracted by the client. Each user keeps their own copy of
+-- the cards they study with its SM-2 schedule; card_key identifies a card
+-- within its note so editing other parts of the note keeps the schedule.
+CREATE TABLE IF NOT EXISTS public.flashcards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  note_id UUID REFERENCES public.notes(id) ON DELETE CASCADE NOT NULL,
+  card_key TEXT NOT NULL,
+  kind TEXT CHECK (kind IN ('qa', 'cloze')) NOT NULL,
+  front TEXT NOT NULL,
+  back TEXT NOT NULL,
+  ease REAL DEFAULT 2.5 NOT NULL CHECK (ease >= 1.3),
+  interval_days INTEGER DEFAULT 0 NOT NULL CHECK (interval_days >= 0),
+  repetitions INTEGER DEFAULT 0 NOT NULL,
+  lapses INTEGER DEFAULT 0 NOT NULL,
+  due_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  last_reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (user_id, note_id, card_key)
+);
+
+-- One row per answer; kept when the card goes away so daily counts stay
+CREATE TABLE IF NOT EXISTS public.flashcard_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  card_id UUID REFERENCES public.flashcards(id) ON DELETE SET NULL,
+  rating TEXT CHECK (rating IN ('again', 'hard', 'good', 'easy')) NOT NULL,
+  -- Whether this was the first time the card was seen
+  was_new BOOLEAN DEFAULT false NOT NULL,
+  interval_days INTEGER NOT NULL,
+  ease REAL NOT NULL,
+  -- The reviewer's local day; within a day of the server's to allow for time zones
+  reviewed_on DATE NOT NULL CHECK (reviewed_on BETWEEN current_date - 1 AND current_date + 1),
+  reviewed_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS last_study_date DATE;
+
+CREATE INDEX IF NOT EXISTS idx_flashcards_user_due ON public.flashcards(user_id, due_at);
+CREATE INDEX IF NOT EXISTS idx_flashcards_note_id ON public.flashcards(note_id);
+CREATE INDEX IF NOT EXISTS idx_flashcard_reviews_user_day ON public.flashcard_reviews(user_id, reviewed_on);
+
+DROP TRIGGER IF EXISTS handle_flashcards_updated_at ON public.flashcards;
+CREATE TRIGGER handle_flashcards_updated_at
+  BEFORE UPDATE ON public.flashcards
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.flashcards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own flashcards"
+  ON public.flashcards FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Cards can only be taken from notes the user can read
+CREATE POLICY "Users can create flashcards from readable notes"
+  ON public.flashcards FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND EXISTS (SELECT 1 FROM public.notes n WHERE n.id = note_id));
+
+CREATE POLICY "Users can update own flashcards"
+  ON public.flashcards FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id AND EXISTS (SELECT 1 FROM public.notes n WHERE n.id = note_id));
+
+CREATE POLICY "Users can delete own flashcards"
+  ON public.flashcards FOR DELETE
+  USING (auth.uid() = user_id);
+
+ALTER TABLE public.flashcard_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own flashcard reviews"
+  ON public.flashcard_reviews FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record own flashcard reviews"
+  ON public.flashcard_reviews FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- A day with at least one review extends the profile streak; a missed day
+-- starts it over
+CREATE OR REPLACE FUNCTION public.record_study_day()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profiles
+  SET streak = CASE
+      WHEN last_study_date = NEW.reviewed_on THEN GREATEST(streak, 1)
+      WHEN last_study_date = NEW.reviewed_on - 1 THEN streak + 1
+      ELSE 1
+    END,
+    last_study_date = NEW.reviewed_on
+  WHERE id = NEW.user_id
+    AND (last_study_date IS NULL OR last_study_date <= NEW.reviewed_on);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_study_day ON public.flashcard_reviews;
+CREATE TRIGGER record_study_day
+  AFTER INSERT ON public.flashcard_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_study_day();
@@ -0,0 +1,210 @@
+-- COLLABORATIVE NOTE EDITING
+-- The owner of a note can add accepted friends as collaborators. While
+-- editing together, the note is a Yjs document: clients exchange updates over
+-- a Realtime broadcast channel and append them to note_collab_updates, which
+-- is replayed (and periodically compacted) when the editor is opened. The
+-- merged text is copied back into notes.content as the session goes on.
+--
+-- Saving the content any other way (the edit dialog, restoring a revision)
+-- starts a new collab_epoch: updates from earlier epochs are dropped and the
+-- next session starts from the saved content.
+CREATE TABLE IF NOT EXISTS public.note_collaborators (
+  note_id UUID REFERENCES public.notes(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (note_id, user_id)
+);
+
+ALTER TABLE public.notes ADD COLUMN IF NOT EXISTS collab_epoch INTEGER DEFAULT 0 NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.note_collab_updates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id UUID REFERENCES public.notes(id) ON DELETE CASCADE NOT NULL,
+  epoch INTEGER NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  -- Base64-encoded Yjs update
+  update_data TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_collaborators_user_id ON public.note_collaborators(user_id);
+CREATE INDEX IF NOT EXISTS idx_note_collab_updates_note_id ON public.note_collab_updates(note_id, epoch, created_at);
+
+-- Role of a user on a note: 'owner', 'editor' or NULL.
+-- SECURITY DEFINER so policies on notes can call it without recursing.
+CREATE OR REPLACE FUNCTION public.note_collab_role(p_note_id UUID, p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM public.notes WHERE id = p_note_id AND user_id = p_user_id) THEN 'owner'
+    WHEN EXISTS (SELECT 1 FROM public.note_collaborators WHERE note_id = p_note_id AND user_id = p_user_id) THEN 'editor'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.note_collab_epoch(p_note_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT collab_epoch FROM public.notes WHERE id = p_note_id;
+$$;
+
+-- Collaborators can read private notes they were added to
+CREATE POLICY "Collaborators can view shared notes"
+  ON public.notes FOR SELECT
+  USING (public.note_collab_role(id, auth.uid()) = 'editor');
+
+ALTER TABLE public.note_collaborators ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Collaborators can view note collaborators"
+  ON public.note_collaborators FOR SELECT
+  USING (public.note_collab_role(note_id, auth.uid()) IS NOT NULL);
+
+-- Only accepted friends of the owner can be added (are_friends() is defined
+-- in add-shared-task-lists.sql)
+CREATE POLICY "Owners can add friends as collaborators"
+  ON public.note_collaborators FOR INSERT
+  WITH CHECK (
+    public.note_collab_role(note_id, auth.uid()) = 'owner'
+    AND public.are_friends(auth.uid(), user_id)
+  );
+
+-- Owners remove collaborators; collaborators can leave
+CREATE POLICY "Owners and collaborators can remove collaboration"
+  ON public.note_collaborators FOR DELETE
+  USING (auth.uid() = user_id OR public.note_collab_role(note_id, auth.uid()) = 'owner');
+
+ALTER TABLE public.note_collab_updates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Collaborators can view note updates"
+  ON public.note_collab_updates FOR SELECT
+  USING (public.note_collab_role(note_id, auth.uid()) IS NOT NULL);
+
+-- Updates from a session on an earlier epoch are refused
+CREATE POLICY "Collaborators can add note updates"
+  ON public.note_collab_updates FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND public.note_collab_role(note_id, auth.uid()) IS NOT NULL
+    AND epoch = public.note_collab_epoch(note_id)
+  );
+
+-- Replaces the given update rows with one snapshot that contains them all
+CREATE OR REPLACE FUNCTION public.compact_note_collab_updates(
+  p_note_id UUID,
+  p_epoch INTEGER,
+  p_snapshot TEXT,
+  p_replaced UUID[]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.note_collab_role(p_note_id, auth.uid()) IS NULL THEN
+    RAISE EXCEPTION 'Not a collaborator on this note'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF p_epoch IS DISTINCT FROM public.note_collab_epoch(p_note_id) THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM public.note_collab_updates
+  WHERE note_id = p_note_id AND epoch = p_epoch AND id = ANY(p_replaced);
+  INSERT INTO public.note_collab_updates (note_id, epoch, user_id, update_data)
+  VALUES (p_note_id, p_epoch, auth.uid(), p_snapshot);
+END;
+$$;
+
+-- Copies a session's merged text into the note. Collaborators can't update
+-- notes directly, so this is the only way their edits reach notes.content.
+CREATE OR REPLACE FUNCTION public.save_note_collab_content(p_note_id UUID, p_epoch INTEGER, p_content TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.note_collab_role(p_note_id, auth.uid()) IS NULL THEN
+    RAISE EXCEPTION 'Not a collaborator on this note'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM set_config('studyspace.collab_save', 'on', true);
+  UPDATE public.notes
+  SET content = p_content
+  WHERE id = p_note_id
+    AND collab_epoch = p_epoch
+    AND content IS DISTINCT FROM p_content;
+  PERFORM set_config('studyspace.collab_save', 'off', true);
+  RETURN FOUND;
+END;
+$$;
+
+-- Content saved outside a session starts a new epoch
+CREATE OR REPLACE FUNCTION public.reset_note_collab_epoch()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content
+    AND coalesce(current_setting('studyspace.collab_save', true), 'off') <> 'on' THEN
+    NEW.collab_epoch := OLD.collab_epoch + 1;
+    DELETE FROM public.note_collab_updates WHERE note_id = NEW.id AND epoch < NEW.collab_epoch;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reset_note_collab_epoch ON public.notes;
+CREATE TRIGGER reset_note_collab_epoch
+  BEFORE UPDATE OF content ON public.notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reset_note_collab_epoch();
+
+-- Editing sessions broadcast the document and presence on private channels
+-- named `note-collab:<note id>:<epoch>`. Only the note's owner and
+-- collaborators may join, read or send on them. Turn off "Allow public
+-- access" in the project's Realtime settings so public channels are refused.
+DROP POLICY IF EXISTS "Collaborators can receive note sessions" ON realtime.messages;
+CREATE POLICY "Collaborators can receive note sessions"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension IN ('broadcast', 'presence')
+    AND public.note_collab_role(
+      substring(realtime.topic() FROM '^note-collab:([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}):')::UUID,
+      auth.uid()
+    ) IS NOT NULL
+  );
+
+DROP POLICY IF EXISTS "Collaborators can send to note sessions" ON realtime.messages;
+CREATE POLICY "Collaborators can send to note sessions"
+  ON realtime.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension IN ('broadcast', 'presence')
+    AND public.note_collab_role(
+      substring(realtime.topic() FROM '^note-collab:([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}):')::UUID,
+      auth.uid()
+    ) IS NOT NULL
+  );
+
+-- Sessions listen for epoch changes on the note they are editing
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notes'
+  ) THEN
+    EXECUTE 'ALTER PUBLICATION supabase_realtime ADD TABLE public.notes';
+  END IF;
+END $$;
@@ -0,0 +1,162 @@
+-- NOTEBOOKS AND FOLDERS
+-- A notebook is a top-level folder; folders nest without limit. Each folder
+-- can force the visibility of the notes inside it ('public' or 'private'),
+-- or 'inherit' it from its parent. Notes outside a forcing folder keep their
+-- own is_public toggle.
+CREATE TABLE IF NOT EXISTS public.note_folders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  parent_id UUID REFERENCES public.note_folders(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  default_visibility TEXT CHECK (default_visibility IN ('inherit', 'public', 'private')) DEFAULT 'inherit' NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.notes ADD COLUMN IF NOT EXISTS folder_id UUID REFERENCES public.note_folders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_note_folders_user_id ON public.note_folders(user_id, parent_id);
+CREATE INDEX IF NOT EXISTS idx_notes_folder_id ON public.notes(folder_id);
+
+DROP TRIGGER IF EXISTS handle_note_folders_updated_at ON public.note_folders;
+CREATE TRIGGER handle_note_folders_updated_at
+  BEFORE UPDATE ON public.note_folders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.note_folders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own note folders"
+  ON public.note_folders FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own note folders"
+  ON public.note_folders FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own note folders"
+  ON public.note_folders FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own note folders"
+  ON public.note_folders FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Visibility forced on a folder's notes: TRUE for public, FALSE for private,
+-- NULL when neither the folder nor any ancestor sets one
+CREATE OR REPLACE FUNCTION public.note_folder_visibility(p_folder_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH RECURSIVE chain AS (
+    SELECT id, parent_id, default_visibility, 0 AS depth
+    FROM public.note_folders WHERE id = p_folder_id
+    UNION ALL
+    SELECT f.id, f.parent_id, f.default_visibility, c.depth + 1
+    FROM public.note_folders f
+    JOIN chain c ON f.id = c.parent_id
+  )
+  SELECT default_visibility = 'public'
+  FROM chain
+  WHERE default_visibility <> 'inherit'
+  ORDER BY depth
+  LIMIT 1;
+$$;
+
+-- Folders belong to the note's owner, and a forcing folder overrides is_public
+CREATE OR REPLACE FUNCTION public.apply_note_folder()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  forced BOOLEAN;
+BEGIN
+  IF NEW.folder_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.note_folders WHERE id = NEW.folder_id AND user_id = NEW.user_id) THEN
+    RAISE EXCEPTION 'Notes can only be filed in their owner''s folders'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  forced := public.note_folder_visibility(NEW.folder_id);
+  IF forced IS NOT NULL THEN
+    NEW.is_public := forced;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_note_folder ON public.notes;
+CREATE TRIGGER apply_note_folder
+  BEFORE INSERT OR UPDATE OF folder_id, is_public ON public.notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_note_folder();
+
+-- A folder can't be moved into itself or one of its subfolders, nor into
+-- another user's folder
+CREATE OR REPLACE FUNCTION public.check_note_folder_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.note_folders WHERE id = NEW.parent_id AND user_id = NEW.user_id) THEN
+    RAISE EXCEPTION 'Parent folder not found'
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+  IF TG_OP = 'UPDATE' AND EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM public.note_folders WHERE id = NEW.parent_id
+      UNION ALL
+      SELECT f.id, f.parent_id FROM public.note_folders f JOIN ancestors a ON f.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A folder cannot be moved into itself'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_note_folder_parent ON public.note_folders;
+CREATE TRIGGER check_note_folder_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON public.note_folders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_note_folder_parent();
+
+-- Changing a folder's visibility or moving it re-applies the forced
+-- visibility to every note below it
+CREATE OR REPLACE FUNCTION public.reapply_note_folder_visibility()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  WITH RECURSIVE subtree AS (
+    SELECT id FROM public.note_folders WHERE id = NEW.id
+    UNION ALL
+    SELECT f.id FROM public.note_folders f JOIN subtree s ON f.parent_id = s.id
+  )
+  UPDATE public.notes n
+  SET is_public = public.note_folder_visibility(n.folder_id)
+  WHERE n.folder_id IN (SELECT id FROM subtree)
+    AND public.note_folder_visibility(n.folder_id) IS NOT NULL
+    AND n.is_public IS DISTINCT FROM public.note_folder_visibility(n.folder_id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reapply_note_folder_visibility ON public.note_folders;
+CREATE TRIGGER reapply_note_folder_visibility
+  AFTER UPDATE OF default_visibility, parent_id ON public.note_folders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reapply_note_folder_visibility();
@@ -0,0 +1,69 @@
+-- NOTE REVISIONS
+-- Every save of a note's title or content keeps a revision row, written by a
+-- trigger so it can't be skipped or edited. Restoring a revision is a normal
+-- save, so it is recorded as a new revision and can itself be undone.
+CREATE TABLE IF NOT EXISTS public.note_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id UUID REFERENCES public.notes(id) ON DELETE CASCADE NOT NULL,
+  -- NULL when the change was not made by a signed-in user
+  author_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  content TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_revisions_note_id ON public.note_revisions(note_id, created_at);
+
+ALTER TABLE public.note_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view note revisions"
+  ON public.note_revisions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.notes n WHERE n.id = note_id AND n.user_id = auth.uid()));
+
+-- Revisions older than 30 days are coalesced to the last one of each day
+CREATE OR REPLACE FUNCTION public.coalesce_note_revisions(p_note_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.note_revisions r
+  WHERE r.note_id = p_note_id
+    AND r.created_at < now() - INTERVAL '30 days'
+    AND EXISTS (
+      SELECT 1 FROM public.note_revisions later
+      WHERE later.note_id = r.note_id
+        AND later.created_at > r.created_at
+        AND date_trunc('day', later.created_at) = date_trunc('day', r.created_at)
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_note_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.title IS NOT DISTINCT FROM OLD.title AND NEW.content IS NOT DISTINCT FROM OLD.content THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.note_revisions (note_id, author_id, title, content)
+  VALUES (NEW.id, auth.uid(), NEW.title, NEW.content);
+  PERFORM public.coalesce_note_revisions(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_note_revision ON public.notes;
+CREATE TRIGGER record_note_revision
+  AFTER INSERT OR UPDATE OF title, content ON public.notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_note_revision();
+
+-- Existing notes start their history with their current state
+INSERT INTO public.note_revisions (note_id, author_id, title, content, created_at)
+SELECT n.id, n.user_id, n.title, n.content, COALESCE(n.updated_at, n.created_at)
+FROM public.notes n
+WHERE NOT EXISTS (SELECT 1 FROM public.note_revisions r WHERE r.note_id = n.id);
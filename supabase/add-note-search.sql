@@ -0,0 +1,123 @@
+-- NOTE SEARCH
+-- Full-text index over note titles, contents and attachment names, queried
+-- through search_notes(). Titles weigh most, then attachment names, then
+-- the content. Every word of a query matches as a prefix ("thermo dyn"
+-- finds "thermodynamics").
+ALTER TABLE public.notes ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+CREATE INDEX IF NOT EXISTS idx_notes_search_vector ON public.notes USING GIN (search_vector);
+
+CREATE OR REPLACE FUNCTION public.note_search_vector(p_title TEXT, p_content TEXT, p_note_id UUID)
+RETURNS TSVECTOR
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(p_title, '')), 'A')
+    || setweight(to_tsvector('english', coalesce((
+      SELECT string_agg(regexp_replace(file_name, '[._-]+', ' ', 'g'), ' ')
+      FROM public.note_attachments
+      WHERE note_id = p_note_id AND deleted_at IS NULL
+    ), '')), 'B')
+    || setweight(to_tsvector('english', coalesce(p_content, '')), 'C');
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_note_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.search_vector := public.note_search_vector(NEW.title, NEW.content, NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_note_search_vector ON public.notes;
+CREATE TRIGGER update_note_search_vector
+  BEFORE INSERT OR UPDATE OF title, content ON public.notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_note_search_vector();
+
+-- Adding, renaming, trashing or deleting an attachment re-indexes its note
+CREATE OR REPLACE FUNCTION public.reindex_note_for_attachment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.note_id ELSE NEW.note_id END;
+BEGIN
+  UPDATE public.notes
+  SET search_vector = public.note_search_vector(title, content, id)
+  WHERE id = target;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reindex_note_for_attachment ON public.note_attachments;
+CREATE TRIGGER reindex_note_for_attachment
+  AFTER INSERT OR UPDATE OF file_name, deleted_at OR DELETE ON public.note_attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reindex_note_for_attachment();
+
+UPDATE public.notes SET search_vector = public.note_search_vector(title, content, id) WHERE search_vector IS NULL;
+
+-- Prefix query from free text: every word must match the start of a word.
+-- Punctuation is dropped, so user input can't break the tsquery syntax.
+CREATE OR REPLACE FUNCTION public.note_search_query(p_query TEXT)
+RETURNS TSQUERY
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+  FROM regexp_split_to_table(lower(coalesce(p_query, '')), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+$$;
+
+-- Ranked matches among the notes the caller can read (RLS applies, the
+-- function runs as the caller). Highlights are wrapped in U+E000 and U+E001
+-- instead of markup, so the client can render them without trusting HTML.
+CREATE OR REPLACE FUNCTION public.search_notes(
+  p_query TEXT,
+  p_subject TEXT DEFAULT NULL,
+  p_owner_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT,
+  matched_attachments TEXT[]
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT public.note_search_query(p_query) AS query,
+      'StartSel=' || chr(57344) || ', StopSel=' || chr(57345) AS marks
+  )
+  SELECT
+    n.id,
+    ts_rank_cd(n.search_vector, q.query, 1) AS rank,
+    ts_headline('english', n.title, q.query, q.marks || ', HighlightAll=true') AS title_highlight,
+    ts_headline('english', n.content, q.query, q.marks || ', MaxWords=35, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "') AS snippet,
+    ARRAY(
+      SELECT a.file_name FROM public.note_attachments a
+      WHERE a.note_id = n.id AND a.deleted_at IS NULL
+        AND to_tsvector('english', regexp_replace(a.file_name, '[._-]+', ' ', 'g')) @@ q.query
+      ORDER BY a.file_name
+    ) AS matched_attachments
+  FROM public.notes n, q
+  WHERE q.query IS NOT NULL
+    AND n.search_vector @@ q.query
+    AND n.deleted_at IS NULL
+    AND (p_subject IS NULL OR n.subject = p_subject)
+    AND (p_owner_id IS NULL OR n.user_id = p_owner_id)
+  ORDER BY rank DESC, n.created_at DESC
+  LIMIT LEAST(GREATEST(coalesce(p_limit, 50), 1), 200);
+$$;
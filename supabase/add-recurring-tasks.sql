@@ -0,0 +1,15 @@
+-- Add RRULE-style recurrence to tasks
+-- recurrence_rule: e.g. FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE;COUNT=10
+-- recurrence_id: id of the first task in the series (NULL for the first task itself)
+-- occurrence_index: 1-based position of the task within its series
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS recurrence_rule TEXT,
+ADD COLUMN IF NOT EXISTS recurrence_id UUID REFERENCES public.tasks(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS occurrence_index INTEGER DEFAULT 1 NOT NULL;
+
+-- Each occurrence of a series is only ever created once
+ALTER TABLE public.tasks
+DROP CONSTRAINT IF EXISTS tasks_recurrence_occurrence_unique;
+
+ALTER TABLE public.tasks
+ADD CONSTRAINT tasks_recurrence_occurrence_unique UNIQUE (recurrence_id, occurrence_index);
@@ -0,0 +1,277 @@
+-- SHARED TASK LISTS
+-- A list is owned by one user; accepted friends can be added as viewers or editors
+CREATE TABLE IF NOT EXISTS public.task_lists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.task_list_members (
+  list_id UUID REFERENCES public.task_lists(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  role TEXT CHECK (role IN ('viewer', 'editor')) DEFAULT 'viewer' NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (list_id, user_id)
+);
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS list_id UUID REFERENCES public.task_lists(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS assignee_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_list_id ON public.tasks(list_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_assignee_id ON public.tasks(assignee_id);
+CREATE INDEX IF NOT EXISTS idx_task_list_members_user_id ON public.task_list_members(user_id);
+
+-- Role of a user in a list: 'owner', 'editor', 'viewer' or NULL.
+-- SECURITY DEFINER so policies on the list tables can call it without recursing.
+CREATE OR REPLACE FUNCTION public.task_list_role(p_list_id UUID, p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM public.task_lists WHERE id = p_list_id AND owner_id = p_user_id) THEN 'owner'
+    ELSE (SELECT role FROM public.task_list_members WHERE list_id = p_list_id AND user_id = p_user_id)
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.are_friends(a UUID, b UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.friendships
+    WHERE status = 'accepted'
+      AND ((user_id = a AND friend_id = b) OR (user_id = b AND friend_id = a))
+  );
+$$;
+
+ALTER TABLE public.task_lists ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view task lists"
+  ON public.task_lists FOR SELECT
+  USING (public.task_list_role(id, auth.uid()) IS NOT NULL);
+
+CREATE POLICY "Users can create own task lists"
+  ON public.task_lists FOR INSERT
+  WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Owners can update task lists"
+  ON public.task_lists FOR UPDATE
+  USING (auth.uid() = owner_id);
+
+CREATE POLICY "Owners can delete task lists"
+  ON public.task_lists FOR DELETE
+  USING (auth.uid() = owner_id);
+
+CREATE TRIGGER handle_task_lists_updated_at
+  BEFORE UPDATE ON public.task_lists
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.task_list_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view list members"
+  ON public.task_list_members FOR SELECT
+  USING (public.task_list_role(list_id, auth.uid()) IS NOT NULL);
+
+-- Only accepted friends of the owner can be invited
+CREATE POLICY "Owners can invite friends"
+  ON public.task_list_members FOR INSERT
+  WITH CHECK (
+    public.task_list_role(list_id, auth.uid()) = 'owner'
+    AND public.are_friends(auth.uid(), user_id)
+  );
+
+CREATE POLICY "Owners can change member roles"
+  ON public.task_list_members FOR UPDATE
+  USING (public.task_list_role(list_id, auth.uid()) = 'owner');
+
+-- Owners remove members; members can leave
+CREATE POLICY "Owners and members can remove membership"
+  ON public.task_list_members FOR DELETE
+  USING (auth.uid() = user_id OR public.task_list_role(list_id, auth.uid()) = 'owner');
+
+-- Tasks are private to their creator, their assignee and the members of
+-- their list (this replaces the original "Anyone can view tasks")
+DROP POLICY IF EXISTS "Anyone can view tasks" ON public.tasks;
+DROP POLICY IF EXISTS "Owners, assignees and list members can view tasks" ON public.tasks;
+CREATE POLICY "Owners, assignees and list members can view tasks"
+  ON public.tasks FOR SELECT
+  USING (
+    auth.uid() IN (user_id, assignee_id)
+    OR (list_id IS NOT NULL AND public.task_list_role(list_id, auth.uid()) IS NOT NULL)
+  );
+
+-- Attachments are visible to everyone who can see their task
+DROP POLICY IF EXISTS "Users can view attachments for own tasks" ON public.task_attachments;
+CREATE POLICY "Users can view attachments for own tasks"
+  ON public.task_attachments FOR SELECT
+  USING (auth.uid() = user_id OR EXISTS (SELECT 1 FROM public.tasks t WHERE t.id = task_id));
+
+-- Task counts for profile pages, now that other users' tasks can't be read.
+-- Hidden profiles only show them to their owner.
+CREATE OR REPLACE FUNCTION public.profile_task_stats(p_user_id UUID)
+RETURNS TABLE (total_tasks INTEGER, completed_tasks INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::INTEGER, (count(*) FILTER (WHERE completed))::INTEGER
+  FROM public.tasks
+  WHERE user_id = p_user_id
+    AND deleted_at IS NULL
+    AND (p_user_id = auth.uid() OR EXISTS (SELECT 1 FROM public.profiles WHERE id = p_user_id AND is_public));
+$$;
+
+-- Editors and the owner can change any task in the list; assignees can
+-- update their own assignments (e.g. to complete them)
+CREATE POLICY "List editors can update shared tasks"
+  ON public.tasks FOR UPDATE
+  USING (list_id IS NOT NULL AND public.task_list_role(list_id, auth.uid()) IN ('owner', 'editor'));
+
+CREATE POLICY "Assignees can update assigned tasks"
+  ON public.tasks FOR UPDATE
+  USING (auth.uid() = assignee_id);
+
+CREATE POLICY "List editors can delete shared tasks"
+  ON public.tasks FOR DELETE
+  USING (list_id IS NOT NULL AND public.task_list_role(list_id, auth.uid()) IN ('owner', 'editor'));
+
+-- Restrictive: a task can only be put in a list you can edit, and only
+-- assigned to a member of that list
+CREATE POLICY "Shared tasks need list access"
+  ON public.tasks AS RESTRICTIVE FOR INSERT
+  WITH CHECK (
+    (list_id IS NULL OR public.task_list_role(list_id, auth.uid()) IN ('owner', 'editor'))
+    AND (assignee_id IS NULL OR (list_id IS NOT NULL AND public.task_list_role(list_id, assignee_id) IS NOT NULL))
+  );
+
+-- Assignees pass here, but guard_shared_task_update below only lets them
+-- change completion
+CREATE POLICY "Shared task updates need list access"
+  ON public.tasks AS RESTRICTIVE FOR UPDATE
+  WITH CHECK (
+    (list_id IS NULL OR auth.uid() = assignee_id OR public.task_list_role(list_id, auth.uid()) IN ('owner', 'editor'))
+    AND (assignee_id IS NULL OR (list_id IS NOT NULL AND public.task_list_role(list_id, assignee_id) IS NOT NULL))
+  );
+
+-- Policies can't compare a row with its previous version, so this trigger
+-- does: a task can only be moved to a list you can edit, and users who
+-- can't edit a task's list (assignees, demoted creators) can only complete
+-- or reopen it. Updates made by other triggers are trusted.
+CREATE OR REPLACE FUNCTION public.guard_shared_task_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.list_id IS DISTINCT FROM OLD.list_id AND NEW.list_id IS NOT NULL
+     AND public.task_list_role(NEW.list_id, auth.uid()) IS DISTINCT FROM 'owner'
+     AND public.task_list_role(NEW.list_id, auth.uid()) IS DISTINCT FROM 'editor' THEN
+    RAISE EXCEPTION 'Tasks can only be moved to lists you can edit';
+  END IF;
+
+  IF OLD.list_id IS NOT NULL
+     AND COALESCE(public.task_list_role(OLD.list_id, auth.uid()), '') NOT IN ('owner', 'editor')
+     AND to_jsonb(NEW) - 'completed' - 'updated_at' IS DISTINCT FROM to_jsonb(OLD) - 'completed' - 'updated_at' THEN
+    RAISE EXCEPTION 'Only list editors can change this task';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_shared_task_update ON public.tasks;
+CREATE TRIGGER guard_shared_task_update
+  BEFORE UPDATE ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_shared_task_update();
+
+-- Leaving a list (or being removed) drops your assignments in it
+CREATE OR REPLACE FUNCTION public.unassign_removed_member()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.tasks SET assignee_id = NULL
+  WHERE list_id = OLD.list_id AND assignee_id = OLD.user_id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS unassign_removed_member ON public.task_list_members;
+CREATE TRIGGER unassign_removed_member
+  AFTER DELETE ON public.task_list_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.unassign_removed_member();
+
+-- Deleting a list hands its tasks back to their creators, unassigned
+CREATE OR REPLACE FUNCTION public.unassign_deleted_list()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.tasks SET assignee_id = NULL WHERE list_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS unassign_deleted_list ON public.task_lists;
+CREATE TRIGGER unassign_deleted_list
+  BEFORE DELETE ON public.task_lists
+  FOR EACH ROW
+  EXECUTE FUNCTION public.unassign_deleted_list();
+
+-- Completion and edits in shared lists sync live (idempotent)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'tasks'
+  ) THEN
+    EXECUTE 'ALTER PUBLICATION supabase_realtime ADD TABLE public.tasks';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'task_list_members'
+  ) THEN
+    EXECUTE 'ALTER PUBLICATION supabase_realtime ADD TABLE public.task_list_members';
+  END IF;
+END $$;
+
+-- Assignees can set reminders on tasks assigned to them
+DROP POLICY IF EXISTS "Users can create own task reminders" ON public.task_reminders;
+CREATE POLICY "Users can create own task reminders"
+  ON public.task_reminders FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE id = task_id AND (user_id = auth.uid() OR assignee_id = auth.uid())
+    )
+  );
+
+-- Time can be tracked against any task on the Tasks page: the subquery sees
+-- only tasks the caller may view (own, assigned and shared-list tasks)
+DROP POLICY IF EXISTS "Users can create own time entries" ON public.task_time_entries;
+CREATE POLICY "Users can create own time entries"
+  ON public.task_time_entries FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.tasks t WHERE t.id = task_id)
+  );
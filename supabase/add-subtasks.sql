@@ -0,0 +1,13 @@
+-- Add parent/child hierarchy to tasks (subtasks of any depth)
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS position INTEGER DEFAULT 0 NOT NULL;
+
+-- A task can never be its own parent
+ALTER TABLE public.tasks
+DROP CONSTRAINT IF EXISTS tasks_parent_not_self;
+
+ALTER TABLE public.tasks
+ADD CONSTRAINT tasks_parent_not_self CHECK (parent_id IS NULL OR parent_id <> id);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_parent_id ON public.tasks(parent_id);
@@ -0,0 +1,161 @@
+-- TASK ACTIVITY AND COMMENTS
+-- Activity rows are written by triggers only, so the log can't be edited
+CREATE TABLE IF NOT EXISTS public.task_activity (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  -- NULL when the change was not made by a signed-in user
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN (
+    'created', 'retitled', 'due_date_changed', 'completed', 'uncompleted',
+    'attachment_added', 'attachment_removed'
+  )),
+  old_value TEXT,
+  new_value TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.task_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  content TEXT NOT NULL CHECK (length(trim(content)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_activity_task_id ON public.task_activity(task_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_task_comments_task_id ON public.task_comments(task_id, created_at);
+
+DROP TRIGGER IF EXISTS handle_task_comments_updated_at ON public.task_comments;
+CREATE TRIGGER handle_task_comments_updated_at
+  BEFORE UPDATE ON public.task_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- The people working on a task: its creator, its assignee and the members
+-- of its shared list (see add-shared-task-lists.sql)
+CREATE OR REPLACE FUNCTION public.can_discuss_task(p_task_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE id = p_task_id
+      AND (
+        user_id = p_user_id
+        OR assignee_id = p_user_id
+        OR public.task_list_role(list_id, p_user_id) IS NOT NULL
+      )
+  );
+$$;
+
+ALTER TABLE public.task_activity ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.task_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Collaborators can view task activity"
+  ON public.task_activity FOR SELECT
+  USING (public.can_discuss_task(task_id, auth.uid()));
+
+CREATE POLICY "Collaborators can view task comments"
+  ON public.task_comments FOR SELECT
+  USING (public.can_discuss_task(task_id, auth.uid()));
+
+CREATE POLICY "Collaborators can comment on tasks"
+  ON public.task_comments FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.can_discuss_task(task_id, auth.uid()));
+
+CREATE POLICY "Users can update own task comments"
+  ON public.task_comments FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own task comments"
+  ON public.task_comments FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.log_task_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.task_activity (task_id, actor_id, action, new_value)
+    VALUES (NEW.id, auth.uid(), 'created', NEW.title);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.title IS DISTINCT FROM OLD.title THEN
+    INSERT INTO public.task_activity (task_id, actor_id, action, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'retitled', OLD.title, NEW.title);
+  END IF;
+  IF NEW.due_date IS DISTINCT FROM OLD.due_date THEN
+    INSERT INTO public.task_activity (task_id, actor_id, action, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'due_date_changed', OLD.due_date::TEXT, NEW.due_date::TEXT);
+  END IF;
+  IF NEW.completed IS DISTINCT FROM OLD.completed THEN
+    INSERT INTO public.task_activity (task_id, actor_id, action)
+    VALUES (NEW.id, auth.uid(), CASE WHEN NEW.completed THEN 'completed' ELSE 'uncompleted' END);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_task_activity ON public.tasks;
+CREATE TRIGGER log_task_activity
+  AFTER INSERT OR UPDATE OF title, due_date, completed ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_task_activity();
+
+-- Trashing an attachment counts as removing it and restoring it as adding it
+CREATE OR REPLACE FUNCTION public.log_task_attachment_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.task_activity (task_id, actor_id, action, new_value)
+    VALUES (NEW.task_id, auth.uid(), 'attachment_added', NEW.file_name);
+  ELSIF TG_OP = 'UPDATE' AND NEW.deleted_at IS DISTINCT FROM OLD.deleted_at THEN
+    INSERT INTO public.task_activity (task_id, actor_id, action, new_value)
+    VALUES (
+      NEW.task_id,
+      auth.uid(),
+      CASE WHEN NEW.deleted_at IS NULL THEN 'attachment_added' ELSE 'attachment_removed' END,
+      NEW.file_name
+    );
+  -- Skip deletes cascading from a deleted task, there is nothing left to log on
+  ELSIF TG_OP = 'DELETE' AND OLD.deleted_at IS NULL
+    AND EXISTS (SELECT 1 FROM public.tasks WHERE id = OLD.task_id) THEN
+    INSERT INTO public.task_activity (task_id, actor_id, action, new_value)
+    VALUES (OLD.task_id, auth.uid(), 'attachment_removed', OLD.file_name);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_task_attachment_activity ON public.task_attachments;
+CREATE TRIGGER log_task_attachment_activity
+  AFTER INSERT OR UPDATE OF deleted_at OR DELETE ON public.task_attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_task_attachment_activity();
+
+-- New comments and activity show up while the task is open (idempotent)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'task_comments'
+  ) THEN
+    EXECUTE 'ALTER PUBLICATION supabase_realtime ADD TABLE public.task_comments';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'task_activity'
+  ) THEN
+    EXECUTE 'ALTER PUBLICATION supabase_realtime ADD TABLE public.task_activity';
+  END IF;
+END $$;
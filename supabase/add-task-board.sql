@@ -0,0 +1,46 @@
+-- KANBAN BOARD COLUMNS FOR TASKS
+CREATE TABLE IF NOT EXISTS public.task_board_columns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  position INTEGER DEFAULT 0 NOT NULL,
+  is_terminal BOOLEAN DEFAULT false NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.task_board_columns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own board columns"
+  ON public.task_board_columns FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own board columns"
+  ON public.task_board_columns FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own board columns"
+  ON public.task_board_columns FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own board columns"
+  ON public.task_board_columns FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER handle_task_board_columns_updated_at
+  BEFORE UPDATE ON public.task_board_columns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Only one "done" column per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_task_board_columns_one_terminal
+  ON public.task_board_columns(user_id) WHERE is_terminal;
+
+CREATE INDEX IF NOT EXISTS idx_task_board_columns_user_id ON public.task_board_columns(user_id);
+
+-- Column membership and order of each task on the board
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS board_column_id UUID REFERENCES public.task_board_columns(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS board_position INTEGER DEFAULT 0 NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_board_column_id ON public.tasks(board_column_id);
@@ -0,0 +1,58 @@
+-- TASK DEPENDENCIES
+-- A row means task_id cannot start until blocker_id is completed
+CREATE TABLE IF NOT EXISTS public.task_dependencies (
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  blocker_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (task_id, blocker_id),
+  CONSTRAINT task_dependencies_not_self CHECK (task_id <> blocker_id)
+);
+
+ALTER TABLE public.task_dependencies ENABLE ROW LEVEL SECURITY;
+
+-- Tasks are visible to everyone, so are the links between them
+CREATE POLICY "Anyone can view task dependencies"
+  ON public.task_dependencies FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can add dependencies to own tasks"
+  ON public.task_dependencies FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM public.tasks WHERE id = task_id AND user_id = auth.uid()));
+
+CREATE POLICY "Users can remove dependencies from own tasks"
+  ON public.task_dependencies FOR DELETE
+  USING (EXISTS (SELECT 1 FROM public.tasks WHERE id = task_id AND user_id = auth.uid()));
+
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_blocker_id ON public.task_dependencies(blocker_id);
+
+-- Refuse links that would make a task (indirectly) block itself
+CREATE OR REPLACE FUNCTION public.prevent_task_dependency_cycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    WITH RECURSIVE chain(id) AS (
+      SELECT NEW.blocker_id
+      UNION
+      SELECT d.blocker_id
+      FROM public.task_dependencies d
+      JOIN chain c ON d.task_id = c.id
+    )
+    SELECT 1 FROM chain WHERE id = NEW.task_id
+  ) THEN
+    RAISE EXCEPTION 'Task dependency would create a cycle'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_task_dependency_cycle ON public.task_dependencies;
+
+CREATE TRIGGER prevent_task_dependency_cycle
+  BEFORE INSERT OR UPDATE ON public.task_dependencies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_task_dependency_cycle();
@@ -0,0 +1,103 @@
+-- TASK LABELS (many-to-many) AND SAVED SMART LISTS
+CREATE TABLE IF NOT EXISTS public.task_labels (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  color TEXT DEFAULT '#3b82f6' NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.task_labels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own task labels"
+  ON public.task_labels FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own task labels"
+  ON public.task_labels FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own task labels"
+  ON public.task_labels FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own task labels"
+  ON public.task_labels FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Label names are unique per user, ignoring case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_task_labels_user_name
+  ON public.task_labels(user_id, lower(name));
+
+CREATE TABLE IF NOT EXISTS public.task_label_assignments (
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  label_id UUID REFERENCES public.task_labels(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (task_id, label_id)
+);
+
+ALTER TABLE public.task_label_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own task label assignments"
+  ON public.task_label_assignments FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.task_labels WHERE id = label_id AND user_id = auth.uid()));
+
+CREATE POLICY "Users can label own tasks"
+  ON public.task_label_assignments FOR INSERT
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM public.task_labels WHERE id = label_id AND user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM public.tasks WHERE id = task_id AND user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can unlabel own tasks"
+  ON public.task_label_assignments FOR DELETE
+  USING (EXISTS (SELECT 1 FROM public.task_labels WHERE id = label_id AND user_id = auth.uid()));
+
+CREATE INDEX IF NOT EXISTS idx_task_label_assignments_label_id ON public.task_label_assignments(label_id);
+
+-- Named filter expressions shown under Tasks in the sidebar,
+-- e.g. "label:exam priority:high due:<7d"
+CREATE TABLE IF NOT EXISTS public.task_smart_lists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  query TEXT NOT NULL,
+  position INTEGER DEFAULT 0 NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.task_smart_lists ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own smart lists"
+  ON public.task_smart_lists FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own smart lists"
+  ON public.task_smart_lists FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own smart lists"
+  ON public.task_smart_lists FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own smart lists"
+  ON public.task_smart_lists FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER handle_task_smart_lists_updated_at
+  BEFORE UPDATE ON public.task_smart_lists
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE INDEX IF NOT EXISTS idx_task_smart_lists_user_id ON public.task_smart_lists(user_id);
+
+-- Smart lists update the sidebar live (idempotent)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'task_smart_lists'
+  ) THEN
+    EXECUTE 'ALTER PUBLICATION supabase_realtime ADD TABLE public.task_smart_lists';
+  END IF;
+END $$;
@@ -0,0 +1,64 @@
+-- TASK REMINDERS
+-- A reminder is either an offset before the task's due date or a fixed time
+CREATE TABLE IF NOT EXISTS public.task_reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  offset_minutes INTEGER CHECK (offset_minutes >= 0),
+  remind_at TIMESTAMP WITH TIME ZONE,
+  fired_at TIMESTAMP WITH TIME ZONE,
+  missed BOOLEAN DEFAULT false NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CONSTRAINT task_reminders_time_check CHECK ((offset_minutes IS NULL) <> (remind_at IS NULL))
+);
+
+ALTER TABLE public.task_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own task reminders"
+  ON public.task_reminders FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own task reminders"
+  ON public.task_reminders FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.tasks WHERE id = task_id AND user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update own task reminders"
+  ON public.task_reminders FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own task reminders"
+  ON public.task_reminders FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_task_reminders_task_id ON public.task_reminders(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_reminders_pending
+  ON public.task_reminders(user_id) WHERE fired_at IS NULL;
+
+-- Moving a due date re-arms offset reminders that are now in the future,
+-- whichever view (list, board, calendar) the date was changed from
+CREATE OR REPLACE FUNCTION public.rearm_task_reminders()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.task_reminders
+  SET fired_at = NULL, missed = false
+  WHERE task_id = NEW.id
+    AND offset_minutes IS NOT NULL
+    AND NEW.due_date IS NOT NULL
+    AND NEW.due_date - make_interval(mins => offset_minutes) > now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rearm_task_reminders ON public.tasks;
+CREATE TRIGGER rearm_task_reminders
+  AFTER UPDATE OF due_date ON public.tasks
+  FOR EACH ROW
+  WHEN (OLD.due_date IS DISTINCT FROM NEW.due_date)
+  EXECUTE FUNCTION public.rearm_task_reminders();
@@ -0,0 +1,14 @@
+-- Add a subject tag and a priority level to tasks
+-- subject: free-form course/subject name, e.g. "biology" (set by "#biology" in quick-add)
+-- priority: low, medium or high (NULL when not set)
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS subject TEXT,
+ADD COLUMN IF NOT EXISTS priority TEXT;
+
+ALTER TABLE public.tasks
+DROP CONSTRAINT IF EXISTS tasks_priority_check;
+
+ALTER TABLE public.tasks
+ADD CONSTRAINT tasks_priority_check CHECK (priority IN ('low', 'medium', 'high'));
+
+CREATE INDEX IF NOT EXISTS idx_tasks_subject ON public.tasks(user_id, subject);
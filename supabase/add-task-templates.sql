@@ -0,0 +1,153 @@
+-- TASK TEMPLATES
+-- A named bundle of tasks whose due dates are offsets from an anchor date,
+-- e.g. a lab report: "outline -7d, draft -3d, submit 0d"
+CREATE TABLE IF NOT EXISTS public.task_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.task_template_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID REFERENCES public.task_templates(id) ON DELETE CASCADE NOT NULL,
+  position INTEGER DEFAULT 0 NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  subject TEXT,
+  priority TEXT DEFAULT 'medium' NOT NULL CHECK (priority IN ('low', 'medium', 'high')),
+  -- Due date relative to the anchor, negative is before it
+  offset_minutes INTEGER DEFAULT 0 NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Files copied onto every task created from the item
+CREATE TABLE IF NOT EXISTS public.task_template_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id UUID REFERENCES public.task_template_items(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  file_name TEXT NOT NULL,
+  file_size INTEGER NOT NULL,
+  file_type TEXT NOT NULL,
+  storage_path TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Friends a template is shared with; they can use it but not change it
+CREATE TABLE IF NOT EXISTS public.task_template_shares (
+  template_id UUID REFERENCES public.task_templates(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (template_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_templates_owner_id ON public.task_templates(owner_id);
+CREATE INDEX IF NOT EXISTS idx_task_template_items_template_id ON public.task_template_items(template_id);
+CREATE INDEX IF NOT EXISTS idx_task_template_attachments_item_id ON public.task_template_attachments(item_id);
+CREATE INDEX IF NOT EXISTS idx_task_template_shares_user_id ON public.task_template_shares(user_id);
+
+DROP TRIGGER IF EXISTS handle_task_templates_updated_at ON public.task_templates;
+CREATE TRIGGER handle_task_templates_updated_at
+  BEFORE UPDATE ON public.task_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Templates and shares refer to each other, so the checks live in
+-- SECURITY DEFINER functions to keep the policies from recursing
+CREATE OR REPLACE FUNCTION public.owns_task_template(p_template_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.task_templates WHERE id = p_template_id AND owner_id = p_user_id);
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_view_task_template(p_template_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.owns_task_template(p_template_id, p_user_id)
+    OR EXISTS (SELECT 1 FROM public.task_template_shares WHERE template_id = p_template_id AND user_id = p_user_id);
+$$;
+
+ALTER TABLE public.task_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.task_template_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.task_template_attachments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.task_template_shares ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own and shared task templates"
+  ON public.task_templates FOR SELECT
+  USING (public.can_view_task_template(id, auth.uid()));
+
+CREATE POLICY "Users can create own task templates"
+  ON public.task_templates FOR INSERT
+  WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Users can update own task templates"
+  ON public.task_templates FOR UPDATE
+  USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can delete own task templates"
+  ON public.task_templates FOR DELETE
+  USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can view items of visible templates"
+  ON public.task_template_items FOR SELECT
+  USING (public.can_view_task_template(template_id, auth.uid()));
+
+CREATE POLICY "Users can create items in own templates"
+  ON public.task_template_items FOR INSERT
+  WITH CHECK (public.owns_task_template(template_id, auth.uid()));
+
+CREATE POLICY "Users can update items in own templates"
+  ON public.task_template_items FOR UPDATE
+  USING (public.owns_task_template(template_id, auth.uid()));
+
+CREATE POLICY "Users can delete items in own templates"
+  ON public.task_template_items FOR DELETE
+  USING (public.owns_task_template(template_id, auth.uid()));
+
+CREATE POLICY "Users can view attachments of visible templates"
+  ON public.task_template_attachments FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.task_template_items
+    WHERE id = item_id AND public.can_view_task_template(template_id, auth.uid())
+  ));
+
+CREATE POLICY "Users can add attachments to own templates"
+  ON public.task_template_attachments FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.task_template_items
+      WHERE id = item_id AND public.owns_task_template(template_id, auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can delete attachments from own templates"
+  ON public.task_template_attachments FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view shares of own templates"
+  ON public.task_template_shares FOR SELECT
+  USING (auth.uid() = user_id OR public.owns_task_template(template_id, auth.uid()));
+
+-- Only accepted friends (see add-shared-task-lists.sql) can be shared with
+CREATE POLICY "Users can share own templates with friends"
+  ON public.task_template_shares FOR INSERT
+  WITH CHECK (
+    public.owns_task_template(template_id, auth.uid())
+    AND public.are_friends(auth.uid(), user_id)
+  );
+
+-- The owner can unshare, and a friend can remove a template shared with them
+CREATE POLICY "Users can remove template shares"
+  ON public.task_template_shares FOR DELETE
+  USING (auth.uid() = user_id OR public.owns_task_template(template_id, auth.uid()));
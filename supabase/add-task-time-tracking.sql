@@ -0,0 +1,37 @@
+-- TASK TIME ESTIMATES AND TRACKED TIME
+ALTER TABLE public.tasks ADD COLUMN IF NOT EXISTS estimated_minutes INTEGER;
+
+ALTER TABLE public.tasks DROP CONSTRAINT IF EXISTS tasks_estimated_minutes_check;
+ALTER TABLE public.tasks ADD CONSTRAINT tasks_estimated_minutes_check
+  CHECK (estimated_minutes IS NULL OR estimated_minutes > 0);
+
+-- One row per completed Pomodoro work session spent on a task
+CREATE TABLE IF NOT EXISTS public.task_time_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  minutes INTEGER NOT NULL CHECK (minutes > 0),
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ended_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.task_time_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own time entries"
+  ON public.task_time_entries FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own time entries"
+  ON public.task_time_entries FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.tasks WHERE id = task_id AND user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete own time entries"
+  ON public.task_time_entries FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_task_time_entries_task_id ON public.task_time_entries(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_time_entries_user_id ON public.task_time_entries(user_id);
@@ -0,0 +1,140 @@
+-- TRASH
+-- Deleting notes, tasks, attachments and messages only sets deleted_at.
+-- The Trash page restores rows or deletes them for good, and anything left
+-- in the trash for 30 days is purged every night by purge_all_expired_trash().
+ALTER TABLE public.notes ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.tasks ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.note_attachments ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.task_attachments ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.chat_messages ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.direct_messages ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_notes_deleted_at ON public.notes(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_tasks_deleted_at ON public.tasks(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_note_attachments_deleted_at ON public.note_attachments(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_task_attachments_deleted_at ON public.task_attachments(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- A trashed public note is no longer public. Tasks and messages stay
+-- readable so that realtime subscribers receive the update and drop them;
+-- the app filters them with deleted_at IS NULL.
+DROP POLICY IF EXISTS "Only owners can view trashed notes" ON public.notes;
+CREATE POLICY "Only owners can view trashed notes"
+  ON public.notes AS RESTRICTIVE FOR SELECT
+  USING (deleted_at IS NULL OR auth.uid() = user_id);
+
+-- Senders trash their own messages by updating them
+DROP POLICY IF EXISTS "Users can update own chat messages" ON public.chat_messages;
+CREATE POLICY "Users can update own chat messages"
+  ON public.chat_messages FOR UPDATE
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own sent messages" ON public.direct_messages;
+CREATE POLICY "Users can update their own sent messages"
+  ON public.direct_messages FOR UPDATE
+  USING (auth.uid() = from_user_id);
+
+-- Recipients may update a message to mark it read, but only its sender may
+-- trash or restore it
+CREATE OR REPLACE FUNCTION public.protect_direct_message_deletion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.deleted_at IS DISTINCT FROM OLD.deleted_at AND auth.uid() IS DISTINCT FROM OLD.from_user_id THEN
+    RAISE EXCEPTION 'Only the sender can delete a message'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_direct_message_deletion ON public.direct_messages;
+CREATE TRIGGER protect_direct_message_deletion
+  BEFORE UPDATE ON public.direct_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_direct_message_deletion();
+
+-- Attachments may be updated (trashed and restored) by their owner. Their
+-- updated_at triggers from setup-file-uploads.sql need the column to exist.
+ALTER TABLE public.note_attachments ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL;
+ALTER TABLE public.task_attachments ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL;
+
+DROP POLICY IF EXISTS "Users can update own note attachments" ON public.note_attachments;
+CREATE POLICY "Users can update own note attachments"
+  ON public.note_attachments FOR UPDATE
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own task attachments" ON public.task_attachments;
+CREATE POLICY "Users can update own task attachments"
+  ON public.task_attachments FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Delete everyone's rows that have been in the trash for 30 days. The
+-- purge-trash edge function calls this once a day (see the schedule below)
+-- and removes the returned storage objects. Attachments are returned when
+-- they expired themselves or belong to a purged task or note, whoever
+-- uploaded them, so the cascade leaves no files behind.
+DROP FUNCTION IF EXISTS public.purge_expired_trash();
+
+CREATE OR REPLACE FUNCTION public.purge_all_expired_trash()
+RETURNS TABLE (bucket TEXT, storage_path TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cutoff TIMESTAMP WITH TIME ZONE := now() - INTERVAL '30 days';
+BEGIN
+  RETURN QUERY
+  WITH purged_task_files AS (
+    DELETE FROM public.task_attachments a
+    WHERE a.deleted_at < cutoff
+      OR a.task_id IN (SELECT t.id FROM public.tasks t WHERE t.deleted_at < cutoff)
+    RETURNING a.storage_path
+  ),
+  purged_note_files AS (
+    DELETE FROM public.note_attachments a
+    WHERE a.deleted_at < cutoff
+      OR a.note_id IN (SELECT n.id FROM public.notes n WHERE n.deleted_at < cutoff)
+    RETURNING a.storage_path
+  )
+  SELECT 'task-attachments'::TEXT, f.storage_path FROM purged_task_files f
+  UNION ALL
+  SELECT 'note-attachments'::TEXT, f.storage_path FROM purged_note_files f;
+
+  DELETE FROM public.tasks WHERE deleted_at < cutoff;
+  DELETE FROM public.notes WHERE deleted_at < cutoff;
+  DELETE FROM public.chat_messages WHERE deleted_at < cutoff;
+  DELETE FROM public.direct_messages WHERE deleted_at < cutoff;
+END;
+$$;
+
+-- Only the edge function (service role) may purge
+REVOKE EXECUTE ON FUNCTION public.purge_all_expired_trash() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_all_expired_trash() TO service_role;
+
+-- Call the purge-trash edge function every night at 03:00 UTC. Store the
+-- project URL and the function's PURGE_TRASH_SECRET in Vault first:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<PURGE_TRASH_SECRET>', 'purge_trash_secret');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.unschedule('purge-expired-trash')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'purge-expired-trash');
+
+SELECT cron.schedule(
+  'purge-expired-trash',
+  '0 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/purge-trash',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'purge_trash_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
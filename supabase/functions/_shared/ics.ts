@@ -0,0 +1,151 @@
+// iCalendar (RFC 5545) writer for task due dates and scheduled study rooms.
+// Lives with the Supabase functions so the calendar-feed function can deploy it;
+// the app imports it through src/lib/ics.ts. Keep it free of imports.
+
+export interface CalendarTask {
+  id: string;
+  title: string;
+  description: string | null;
+  completed: boolean;
+  due_date: string | null;
+  subject?: string | null;
+  priority?: string | null;
+  created_at?: string | null;
+}
+
+export interface CalendarRoom {
+  id: string;
+  room_name: string;
+  description: string | null;
+  room_code: string;
+  scheduled_start: string | null;
+  scheduled_end: string | null;
+  created_at?: string | null;
+}
+
+export interface CalendarOptions {
+  /** X-WR-CALNAME shown by calendar apps */
+  name?: string;
+  /** app origin used for room links, e.g. https://studyspace.example */
+  baseUrl?: string;
+  /** DTSTAMP of every event */
+  now?: Date;
+}
+
+/** Length of a study room event that has no end time */
+const DEFAULT_ROOM_MINUTES = 60;
+
+const ICS_PRIORITY: Record<string, number> = { high: 1, medium: 5, low: 9 };
+
+/** Escape TEXT values: backslash, semicolon, comma and newlines */
+export const escapeICSText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/** Format a date as a UTC DATE-TIME, e.g. 20261024T153000Z */
+export const formatICSDate = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const encoder = new TextEncoder();
+
+/**
+ * Fold a content line so no line is longer than 75 octets, continuing
+ * with CRLF and a single space without splitting multi-byte characters
+ */
+export const foldICSLine = (line: string): string => {
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + bytes > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const taskEvent = (task: CalendarTask, stamp: string): string[] => {
+  const due = new Date(task.due_date as string);
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:task-${task.id}@studyspace`,
+    `DTSTAMP:${stamp}`,
+    // Without DTEND the event ends when it starts, which suits a deadline
+    `DTSTART:${formatICSDate(due)}`,
+    `SUMMARY:${escapeICSText(`${task.completed ? '✓ ' : ''}${task.title}`)}`,
+  ];
+  if (task.created_at) lines.push(`CREATED:${formatICSDate(new Date(task.created_at))}`);
+  if (task.description) lines.push(`DESCRIPTION:${escapeICSText(task.description)}`);
+  if (task.subject) lines.push(`CATEGORIES:${escapeICSText(task.subject)}`);
+  if (task.priority && ICS_PRIORITY[task.priority]) lines.push(`PRIORITY:${ICS_PRIORITY[task.priority]}`);
+  lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+  return lines;
+};
+
+const roomEvent = (room: CalendarRoom, stamp: string, baseUrl?: string): string[] => {
+  const start = new Date(room.scheduled_start as string);
+  const end = room.scheduled_end
+    ? new Date(room.scheduled_end)
+    : new Date(start.getTime() + DEFAULT_ROOM_MINUTES * 60 * 1000);
+  const details = [room.description, `Room code: ${room.room_code}`].filter(Boolean).join('\n');
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:room-${room.id}@studyspace`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatICSDate(start)}`,
+    `DTEND:${formatICSDate(end)}`,
+    `SUMMARY:${escapeICSText(`Study room: ${room.room_name}`)}`,
+    `DESCRIPTION:${escapeICSText(details)}`,
+  ];
+  if (room.created_at) lines.push(`CREATED:${formatICSDate(new Date(room.created_at))}`);
+  if (baseUrl) lines.push(`URL:${baseUrl.replace(/\/$/, '')}/study-room/${room.id}`);
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * Build a VCALENDAR with one event per task that has a due date and one per
+ * scheduled study room. Recurring tasks are stored as separate occurrences,
+ * so each occurrence becomes its own event rather than an RRULE.
+ * @returns CRLF separated calendar text
+ */
+export const buildICalendar = (
+  tasks: CalendarTask[],
+  rooms: CalendarRoom[],
+  options: CalendarOptions = {}
+): string => {
+  const stamp = formatICSDate(options.now ?? new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//StudySpace//Tasks and Study Rooms//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICSText(options.name ?? 'StudySpace')}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  tasks
+    .filter(task => task.due_date && !isNaN(new Date(task.due_date).getTime()))
+    .forEach(task => lines.push(...taskEvent(task, stamp)));
+  rooms
+    .filter(room => room.scheduled_start && !isNaN(new Date(room.scheduled_start).getTime()))
+    .forEach(room => lines.push(...roomEvent(room, stamp, options.baseUrl)));
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldICSLine).join('\r\n') + '\r\n';
+};
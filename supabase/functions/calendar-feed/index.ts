@@ -0,0 +1,89 @@
+// Serves a user's task due dates and scheduled study rooms as an iCalendar
+// feed that calendar apps can subscribe to:
+//   GET /functions/v1/calendar-feed?token=<calendar_feeds.token>
+//
+// Calendar apps cannot send a Supabase session, so the function runs without
+// JWT verification and the secret token is the only credential.
+//
+// Local testing:
+//   supabase start
+//   supabase functions serve calendar-feed --no-verify-jwt
+//   curl "http://localhost:54321/functions/v1/calendar-feed?token=<token>"
+// Deploy with `supabase functions deploy calendar-feed --no-verify-jwt`.
+// Set APP_URL to the web app origin to include links to study rooms.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { buildICalendar } from '../_shared/ics.ts';
+
+const TOKEN_PATTERN = /^[a-f0-9]{64}$/;
+
+const textResponse = (status: number, body: string) =>
+  new Response(body, { status, headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+
+Deno.serve(async (req) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return textResponse(405, 'Method not allowed');
+  }
+
+  const token = new URL(req.url).searchParams.get('token') ?? '';
+  if (!TOKEN_PATTERN.test(token)) {
+    return textResponse(404, 'Calendar not found');
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    { auth: { persistSession: false } }
+  );
+
+  // A rotated token no longer matches any row, so old URLs get a 404
+  const { data: feed } = await supabase
+    .from('calendar_feeds')
+    .select('user_id')
+    .eq('token', token)
+    .maybeSingle();
+  if (!feed) {
+    return textResponse(404, 'Calendar not found');
+  }
+
+  const { data: tasks, error: tasksError } = await supabase
+    .from('tasks')
+    .select('id, title, description, completed, due_date, subject, priority, created_at')
+    .eq('user_id', feed.user_id)
+    .not('due_date', 'is', null)
+    .is('deleted_at', null);
+
+  const { data: participation } = await supabase
+    .from('room_participants')
+    .select('room_id')
+    .eq('user_id', feed.user_id);
+  const joinedIds = (participation ?? []).map((p: { room_id: string }) => p.room_id);
+
+  let roomsQuery = supabase
+    .from('study_rooms')
+    .select('id, room_name, description, room_code, scheduled_start, scheduled_end, created_at')
+    .eq('is_active', true)
+    .not('scheduled_start', 'is', null);
+  roomsQuery = joinedIds.length > 0
+    ? roomsQuery.or(`created_by.eq.${feed.user_id},id.in.(${joinedIds.join(',')})`)
+    : roomsQuery.eq('created_by', feed.user_id);
+  const { data: rooms, error: roomsError } = await roomsQuery;
+
+  if (tasksError || roomsError) {
+    console.error('Error building calendar feed:', tasksError ?? roomsError);
+    return textResponse(500, 'Could not load calendar');
+  }
+
+  const body = buildICalendar(tasks ?? [], rooms ?? [], {
+    name: 'StudySpace',
+    baseUrl: Deno.env.get('APP_URL') ?? undefined,
+  });
+
+  return new Response(req.method === 'HEAD' ? null : body, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="studyspace.ics"',
+      'Cache-Control': 'private, max-age=300',
+    },
+  });
+});
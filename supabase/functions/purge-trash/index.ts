@@ -0,0 +1,64 @@
+// Deletes everything that has been in the trash for 30 days, together with
+// the storage objects of the purged attachments:
+//   POST /functions/v1/purge-trash
+//   Authorization: Bearer <PURGE_TRASH_SECRET>
+//
+// pg_cron calls it every night (see supabase/add-trash.sql). The cron job has
+// no user session, so the function runs without JWT verification and the
+// shared secret is the only credential.
+//
+// Local testing:
+//   supabase start
+//   supabase functions serve purge-trash --no-verify-jwt
+//   curl -X POST -H "Authorization: Bearer <secret>" http://localhost:54321/functions/v1/purge-trash
+// Deploy with `supabase functions deploy purge-trash --no-verify-jwt` and set
+// PURGE_TRASH_SECRET with `supabase secrets set`.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Storage removes at most this many objects per request
+const REMOVE_BATCH_SIZE = 1000;
+
+const textResponse = (status: number, body: string) =>
+  new Response(body, { status, headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return textResponse(405, 'Method not allowed');
+  }
+
+  const secret = Deno.env.get('PURGE_TRASH_SECRET') ?? '';
+  if (!secret || req.headers.get('Authorization') !== `Bearer ${secret}`) {
+    return textResponse(401, 'Unauthorized');
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    { auth: { persistSession: false } }
+  );
+
+  const { data: files, error } = await supabase.rpc('purge_all_expired_trash');
+  if (error) {
+    console.error('Error purging trash:', error);
+    return textResponse(500, 'Could not purge trash');
+  }
+
+  // The rows are gone by now, so a failed removal only leaves a file behind
+  // and is logged rather than retried
+  const byBucket = new Map<string, string[]>();
+  for (const file of (files ?? []) as { bucket: string; storage_path: string }[]) {
+    byBucket.set(file.bucket, [...(byBucket.get(file.bucket) ?? []), file.storage_path]);
+  }
+  let removed = 0;
+  for (const [bucket, paths] of byBucket) {
+    for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+      const batch = paths.slice(i, i + REMOVE_BATCH_SIZE);
+      const { error: removeError } = await supabase.storage.from(bucket).remove(batch);
+      if (removeError) console.error(`Error removing files from ${bucket}:`, removeError);
+      else removed += batch.length;
+    }
+  }
+
+  return textResponse(200, `Purged trash and removed ${removed} files`);
+});